@@ -1,16 +1,24 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { ProjectSelector } from "@/components/ProjectSelector"
 import { UploadArea } from "@/components/UploadArea"
 import { SnagList } from "@/components/SnagList"
 import { NewProjectDialog } from "@/components/NewProjectDialog"
 import { VoiceNotesAssistant } from "@/components/AIVoiceAssistant"
-import { addProject } from "@/lib/db"
+import { addProject, getProjectStatus, purgeExpiredTrash, SavedView } from "@/lib/db"
+import { ProjectStatus, isProjectReadOnly } from "@/lib/projectStatus"
+import { ProjectDetails } from "@/lib/projectDetails"
 import { Button } from "@/components/ui/button"
-import { FolderUp, Home } from "lucide-react"
+import { Archive, FolderUp, Home, ListChecks, Trash2, Users } from "lucide-react"
 import { SnapLoad } from "@/components/SnapLoad"
+import { TrashView } from "@/components/TrashView"
+import { ContactsDirectory } from "@/components/ContactsDirectory"
+import { ChecklistTemplates } from "@/components/ChecklistTemplates"
+import { SavedViews } from "@/components/SavedViews"
+import { Snag } from "@/types/snag"
 import Link from "next/link"
+import { toast } from "sonner"
 
 export default function Dashboard() {
   const [selectedProject, setSelectedProject] = useState<string>('');
@@ -18,9 +26,35 @@ export default function Dashboard() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [isDarkMode] = useState(false);
   const [isSnapLoadOpen, setIsSnapLoadOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isContactsOpen, setIsContactsOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
+  const [viewsRefreshTrigger, setViewsRefreshTrigger] = useState(0);
+  const [projectSnags, setProjectSnags] = useState<Snag[]>([]);
+  const [projectStatus, setProjectStatus] = useState<ProjectStatus>('active');
+  const isReadOnly = isProjectReadOnly(projectStatus);
+
+  // Clear out anything that has outlived the trash retention period
+  useEffect(() => {
+    purgeExpiredTrash().catch(error => {
+      console.error('Failed to purge expired trash:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!selectedProject) {
+      setProjectStatus('active');
+      return;
+    }
+    getProjectStatus(selectedProject).then(setProjectStatus).catch(error => {
+      console.error('Failed to load project status:', error);
+    });
+  }, [selectedProject, refreshTrigger]);
 
   const handleProjectSelect = (projectName: string) => {
     setSelectedProject(projectName);
+    setActiveView(null);
   };
 
   const handleUploadComplete = () => {
@@ -28,13 +62,14 @@ export default function Dashboard() {
     setIsSnapLoadOpen(false);
   };
 
-  const handleNewProject = async (projectName: string) => {
+  const handleNewProject = async (projectName: string, details: ProjectDetails | null, logo: Blob | null) => {
     try {
-      await addProject(projectName);
+      await addProject(projectName, details, logo);
       setSelectedProject(projectName);
       handleUploadComplete();
     } catch (error) {
       console.error('Failed to create project:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create project');
     }
   };
 
@@ -53,15 +88,41 @@ export default function Dashboard() {
               Grid View Project Companion
             </h1>
           </div>
-          {selectedProject && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsContactsOpen(true)}
+              className="gap-2"
+            >
+              <Users className="w-4 h-4" />
+              Contacts
+            </Button>
             <Button
-              onClick={() => setIsSnapLoadOpen(true)}
+              variant="outline"
+              onClick={() => setIsTemplatesOpen(true)}
               className="gap-2"
             >
-              <FolderUp className="w-4 h-4" />
-              Upload Folder
+              <ListChecks className="w-4 h-4" />
+              Checklists
             </Button>
-          )}
+            <Button
+              variant="outline"
+              onClick={() => setIsTrashOpen(true)}
+              className="gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Trash
+            </Button>
+            {selectedProject && !isReadOnly && (
+              <Button
+                onClick={() => setIsSnapLoadOpen(true)}
+                className="gap-2"
+              >
+                <FolderUp className="w-4 h-4" />
+                Upload Folder
+              </Button>
+            )}
+          </div>
         </header>
 
         {/* Main Content */}
@@ -73,6 +134,19 @@ export default function Dashboard() {
               onProjectSelect={handleProjectSelect}
               onNewProject={() => setIsNewProjectDialogOpen(true)}
               refreshTrigger={refreshTrigger}
+              onWorkflowChange={() => setRefreshTrigger(prev => prev + 1)}
+              onLocationsChange={() => setRefreshTrigger(prev => prev + 1)}
+              onCategoriesChange={() => setRefreshTrigger(prev => prev + 1)}
+              onDetailsChange={() => setRefreshTrigger(prev => prev + 1)}
+              onStatusChange={() => setRefreshTrigger(prev => prev + 1)}
+              isDarkMode={isDarkMode}
+            />
+            <SavedViews
+              projectName={selectedProject}
+              snags={projectSnags}
+              activeViewId={activeView?.id ?? null}
+              onViewSelect={setActiveView}
+              refreshTrigger={viewsRefreshTrigger}
               isDarkMode={isDarkMode}
             />
             <VoiceNotesAssistant 
@@ -83,16 +157,30 @@ export default function Dashboard() {
 
           {/* Content Area */}
           <section className="col-span-9 space-y-6">
-            <UploadArea
-              projectName={selectedProject}
-              onUploadComplete={handleUploadComplete}
-              isDarkMode={isDarkMode}
-            />
+            {isReadOnly ? (
+              <div className="p-4 rounded-lg flex items-center gap-2 bg-violet-50 text-violet-700 border border-violet-200">
+                <Archive className="h-5 w-5" />
+                <p>This project is archived and read-only. Unarchive it from its status to make changes.</p>
+              </div>
+            ) : (
+              <UploadArea
+                projectName={selectedProject}
+                onUploadComplete={handleUploadComplete}
+                isDarkMode={isDarkMode}
+              />
+            )}
             <SnagList
               projectName={selectedProject}
               refreshTrigger={refreshTrigger}
               isDarkMode={isDarkMode}
               handleUploadComplete={handleUploadComplete}
+              activeView={activeView}
+              onViewSaved={(view) => {
+                setViewsRefreshTrigger(prev => prev + 1);
+                setActiveView(view);
+              }}
+              onSnagsChange={setProjectSnags}
+              readOnly={isReadOnly}
             />
           </section>
         </div>
@@ -105,6 +193,26 @@ export default function Dashboard() {
         isDarkMode={isDarkMode}
       />
 
+      <TrashView
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        onRestore={() => setRefreshTrigger(prev => prev + 1)}
+        isDarkMode={isDarkMode}
+      />
+
+      <ContactsDirectory
+        isOpen={isContactsOpen}
+        onClose={() => setIsContactsOpen(false)}
+        onChange={() => setRefreshTrigger(prev => prev + 1)}
+        isDarkMode={isDarkMode}
+      />
+
+      <ChecklistTemplates
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        isDarkMode={isDarkMode}
+      />
+
       {/* SnapLoad Modal */}
       {isSnapLoadOpen && selectedProject && (
         <SnapLoad
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Mic, Info, StopCircle, Play, Trash2, Sparkles } from 'lucide-react';
 import { Button } from "@/components/ui/button";
-import { saveVoiceRecording, getVoiceRecordingsByProject, getVoiceRecording, getDB } from '@/lib/db';
+import { saveVoiceRecording, getVoiceRecordingsByProject, getVoiceRecording, updateVoiceRecordingTranscription, deleteVoiceRecording } from '@/lib/db';
 import { useOpenAI } from '@/hooks/use-openai';
 import { transcribeAudio } from '@/lib/openai';
 import { createPortal } from 'react-dom';
@@ -496,8 +496,7 @@ export function VoiceNotesAssistant({ isDarkMode = false, projectName }: AIVoice
       setRecordings(recordings.filter(rec => rec.id !== recordingId));
 
       // Delete from database
-      const db = await getDB();
-      await db.delete('voiceRecordings', recordingId);
+      await deleteVoiceRecording(recordingId);
     } catch (error) {
       console.error('Error deleting recording:', error);
       setError('Failed to delete recording');
@@ -531,12 +530,8 @@ export function VoiceNotesAssistant({ isDarkMode = false, projectName }: AIVoice
       }
 
       // Update recording with transcription
-      const db = await getDB();
       console.log('Updating recording in database with transcription');
-      await db.put('voiceRecordings', {
-        ...recording,
-        transcription: result.text
-      });
+      await updateVoiceRecordingTranscription(recording.id, result.text);
 
       console.log('Updating local state with transcription');
       // Update local state
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from 'react';
+import { UserPlus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Input } from './ui/input';
+import { getContacts } from '@/lib/db';
+import { Contact, describeContact, findContactByName, normalizeContactName } from '@/lib/contacts';
+
+interface AssigneePickerProps {
+  id?: string;
+  value: string;
+  onChange: (name: string) => void;
+  placeholder?: string;
+  className?: string;
+  isDarkMode?: boolean;
+}
+
+// Assignee field that autocompletes from the contacts directory. A name that
+// isn't in the directory yet is added to it when the entry is saved.
+export function AssigneePicker({
+  id,
+  value,
+  onChange,
+  placeholder = 'Unassigned',
+  className,
+  isDarkMode = false
+}: AssigneePickerProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    getContacts()
+      .then(setContacts)
+      .catch(error => {
+        console.error('❌ Failed to load contacts:', error);
+      });
+  }, []);
+
+  const query = normalizeContactName(value);
+  const matches = useMemo(
+    () => contacts
+      .filter(contact => {
+        const haystack = normalizeContactName(`${contact.name} ${contact.company} ${contact.trade}`);
+        return !query || haystack.includes(query);
+      })
+      .slice(0, 8),
+    [contacts, query]
+  );
+  const isNewName = !!query && !findContactByName(contacts, value);
+  const showSuggestions = isFocused && (matches.length > 0 || isNewName);
+
+  const select = (contact: Contact) => {
+    onChange(contact.name);
+    setIsFocused(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || matches.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(i => (i + 1) % matches.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(i => (i - 1 + matches.length) % matches.length);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        select(matches[Math.min(activeIndex, matches.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsFocused(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Input
+        id={id}
+        value={value}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setActiveIndex(0);
+          setIsFocused(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        className={className}
+      />
+
+      {showSuggestions && (
+        <ul
+          className={cn(
+            'absolute z-50 mt-1 w-full max-h-60 overflow-y-auto rounded-md border shadow-lg text-sm',
+            isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-900'
+          )}
+        >
+          {matches.map((contact, index) => (
+            <li
+              key={contact.id}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(contact);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex items-center justify-between gap-4 px-3 py-1.5 cursor-pointer',
+                index === activeIndex && (isDarkMode ? 'bg-gray-700' : 'bg-gray-100')
+              )}
+            >
+              <span className="truncate">{contact.name}</span>
+              {describeContact(contact) && (
+                <span className={cn('text-xs truncate', isDarkMode ? 'text-gray-400' : 'text-gray-500')}>
+                  {describeContact(contact)}
+                </span>
+              )}
+            </li>
+          ))}
+          {isNewName && (
+            <li className={cn('flex items-center gap-2 px-3 py-1.5 text-xs', isDarkMode ? 'text-gray-400' : 'text-gray-500')}>
+              <UserPlus className="h-3 w-3 flex-shrink-0" />
+              &quot;{value.trim()}&quot; will be added to contacts
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
-import { createBackup, restoreFromBackup, downloadBackupFile } from '../lib/db';
+import { downloadBackup, restoreFromBackupFile, getMigrationSnapshots, rollbackToMigrationSnapshot } from '../lib/db';
 import { toast } from 'react-hot-toast';
+import { ImportBackupDialog } from './ImportBackupDialog';
 
 const BACKUP_REMINDER_DAYS = 7; // Remind every 7 days
 const BACKUP_REMINDER_KEY = 'lastBackupReminder';
@@ -10,6 +11,8 @@ export default function BackupManager() {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [lastBackup, setLastBackup] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<Awaited<ReturnType<typeof getMigrationSnapshots>>>([]);
 
   useEffect(() => {
     // Check last backup date
@@ -29,13 +32,34 @@ export default function BackupManager() {
       });
       localStorage.setItem(BACKUP_REMINDER_KEY, now.toISOString());
     }
+
+    getMigrationSnapshots()
+      .then(setSnapshots)
+      .catch(error => console.error('Failed to load migration snapshots:', error));
   }, []);
 
+  const handleRollback = async (snapshotId: string) => {
+    if (!window.confirm('Rolling back will replace all current data with the copy taken before the database upgrade. Continue?')) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await rollbackToMigrationSnapshot(snapshotId);
+      toast.success('Database rolled back. Reloading...');
+      window.location.reload();
+    } catch (error) {
+      console.error('Rollback failed:', error);
+      toast.error('Failed to roll back database');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleBackup = async () => {
     setIsLoading(true);
     try {
-      const backup = await createBackup();
-      downloadBackupFile(backup);
+      if (!await downloadBackup()) return;
       const now = new Date().toISOString();
       localStorage.setItem(LAST_BACKUP_KEY, now);
       setLastBackup(now);
@@ -61,8 +85,7 @@ export default function BackupManager() {
 
     setIsLoading(true);
     try {
-      const backupData = JSON.parse(await file.text());
-      await restoreFromBackup(backupData);
+      await restoreFromBackupFile(file);
       toast.success('Data restored successfully!');
     } catch (error) {
       console.error('Restore failed:', error);
@@ -95,7 +118,7 @@ export default function BackupManager() {
         <div className="relative">
           <input
             type="file"
-            accept=".json"
+            accept=".zip,.json"
             onChange={handleRestore}
             disabled={isLoading}
             className="hidden"
@@ -110,14 +133,53 @@ export default function BackupManager() {
             {isLoading ? 'Processing...' : '📥 Restore from Backup'}
           </label>
         </div>
+
+        <button
+          onClick={() => setIsImportOpen(true)}
+          disabled={isLoading}
+          className="w-full px-4 py-2 border rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          🔀 Import into Current Data
+        </button>
       </div>
 
+      {snapshots.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold mb-2">Pre-upgrade Snapshots</h3>
+          <p className="text-xs text-gray-500 mb-2">
+            A copy of your data is saved automatically before each database upgrade.
+          </p>
+          <ul className="space-y-2">
+            {snapshots.map(snapshot => (
+              <li key={snapshot.id} className="flex items-center justify-between text-sm">
+                <span>
+                  v{snapshot.fromVersion} → v{snapshot.toVersion} ({new Date(snapshot.createdAt).toLocaleString()})
+                </span>
+                <button
+                  onClick={() => handleRollback(snapshot.id)}
+                  disabled={isLoading}
+                  className="px-2 py-1 text-xs border rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Roll back
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mt-4">
         <p className="text-xs text-gray-500">
-          ℹ️ Backups include all projects and snags, but exclude voice recordings.
-          We recommend creating backups regularly.
+          ℹ️ Backups are ZIP files with all projects and snags, their photos and voice recordings.
+          Older JSON backups can still be restored. Restoring replaces everything; importing adds a backup&apos;s
+          projects to what&apos;s here. We recommend creating backups regularly.
         </p>
       </div>
+
+      <ImportBackupDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useMediaUrl } from '@/hooks/use-media-url';
+import { Slider } from './ui/slider';
+
+interface BeforeAfterSliderProps {
+  // Media ids of the two photos
+  beforeId: string;
+  afterId: string;
+  className?: string;
+}
+
+// The "after" photo with the "before" photo laid over it, cut off where the
+// slider sits, so dragging wipes between the two
+export function BeforeAfterSlider({ beforeId, afterId, className }: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+  const beforeUrl = useMediaUrl(beforeId);
+  const afterUrl = useMediaUrl(afterId);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="relative w-full overflow-hidden rounded-lg bg-black select-none">
+        {afterUrl ? (
+          <img src={afterUrl} alt="After" className="block w-full max-h-[60vh] object-contain" />
+        ) : (
+          <div className="w-full aspect-video bg-gray-800 animate-pulse" />
+        )}
+        {beforeUrl && (
+          <img
+            src={beforeUrl}
+            alt="Before"
+            className="absolute inset-0 w-full h-full object-contain bg-black"
+            style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          />
+        )}
+        <div className="absolute inset-y-0 w-0.5 bg-white/90 pointer-events-none" style={{ left: `${position}%` }} />
+        <span className="absolute top-3 left-3 bg-black/70 text-white px-2 py-1 rounded-full text-xs font-medium">Before</span>
+        <span className="absolute top-3 right-3 bg-black/70 text-white px-2 py-1 rounded-full text-xs font-medium">After</span>
+      </div>
+      <Slider
+        value={[position]}
+        min={0}
+        max={100}
+        step={1}
+        onValueChange={([value]) => setPosition(value)}
+        aria-label="Compare before and after"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { FolderInput, MapPin, Tag, Trash2, User, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { StatusChangeDialog } from './StatusChangeDialog';
+import { AssigneePicker } from './AssigneePicker';
+import { LocationPicker } from './LocationPicker';
+import { CategoryChip } from './CategoryFields';
+import { TransferSnagsDialog } from './TransferSnagsDialog';
+import { BulkSnagUpdate, bulkDeleteSnags, bulkUpdateSnags, restoreSnagRecords } from '@/lib/db';
+import { Workflow, getStatusLabel, getTransitionRequirements, isDoneStatus } from '@/lib/workflow';
+import { ProjectCategories } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import { Snag } from '@/types/snag';
+
+interface BulkActionsProps {
+  projectName: string;
+  // The selected entries
+  snags: Snag[];
+  workflow: Workflow;
+  categories: ProjectCategories;
+  // Called after every change and undo so the list reloads
+  onChange: () => void;
+  onClearSelection: () => void;
+  isDarkMode?: boolean;
+}
+
+type BulkDialog = 'assignee' | 'location' | 'tags';
+
+const DIALOG_TITLES: Record<BulkDialog, string> = {
+  assignee: 'Assign Entries',
+  location: 'Set Location',
+  tags: 'Change Tags'
+};
+
+// Actions on the selected entries. Each one is a single transaction and can
+// be undone from its toast.
+export function BulkActions({
+  projectName,
+  snags,
+  workflow,
+  categories,
+  onChange,
+  onClearSelection,
+  isDarkMode = false
+}: BulkActionsProps) {
+  const [dialog, setDialog] = useState<BulkDialog | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null);
+  const [assignee, setAssignee] = useState('');
+  const [location, setLocation] = useState('');
+  // Each tag is left alone, added or removed
+  const [tagChanges, setTagChanges] = useState<Record<string, 'add' | 'remove'>>({});
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const count = snags.length;
+  const ids = snags.map(snag => snag.id);
+  const noun = `${count} entr${count === 1 ? 'y' : 'ies'}`;
+
+  const openDialog = (next: BulkDialog) => {
+    setAssignee('');
+    setLocation('');
+    setTagChanges({});
+    setDialog(next);
+  };
+
+  const run = async (message: string, action: () => Promise<Parameters<typeof restoreSnagRecords>[0]>, clearsSelection = false) => {
+    try {
+      setIsBusy(true);
+      const before = await action();
+      setDialog(null);
+      if (clearsSelection) {
+        onClearSelection();
+      }
+      onChange();
+      toast.success(message, {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            try {
+              await restoreSnagRecords(before);
+              toast.success('Change undone');
+              onChange();
+            } catch (error) {
+              console.error('❌ Failed to undo bulk change:', error);
+              toast.error('Failed to undo the change');
+            }
+          }
+        }
+      });
+    } catch (error) {
+      console.error('❌ Bulk action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update entries');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const applyUpdate = (changes: BulkSnagUpdate, message: string) => run(message, () => bulkUpdateSnags(ids, changes));
+
+  // What moving every selected entry to the status asks for
+  const statusRequirements = (status: string) => {
+    const requirements = new Set(snags.flatMap(snag => getTransitionRequirements(workflow, snag.status, status)));
+    return {
+      completionDate: isDoneStatus(workflow, status) || requirements.has('completionDate'),
+      evidence: requirements.has('evidence')
+    };
+  };
+
+  const handleStatus = (status: string) => {
+    const requirements = statusRequirements(status);
+    if (requirements.completionDate || requirements.evidence) {
+      setPendingStatus(status);
+    } else {
+      applyUpdate({ status }, `${noun} moved to ${getStatusLabel(workflow, status)}`);
+    }
+  };
+
+  const handleStatusSubmit = ({ completionDate, statusNote }: { completionDate: Date | null; statusNote: string | null }) => {
+    if (!pendingStatus) return;
+    const status = pendingStatus;
+    setPendingStatus(null);
+    applyUpdate({ status, completionDate, statusNote }, `${noun} moved to ${getStatusLabel(workflow, status)}`);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Move ${noun} to the Trash?`)) return;
+    run(`${noun} moved to the Trash`, () => bulkDeleteSnags(ids), true);
+  };
+
+  const cycleTag = (id: string) => {
+    setTagChanges(prev => {
+      const next = { ...prev };
+      if (!prev[id]) next[id] = 'add';
+      else if (prev[id] === 'add') next[id] = 'remove';
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const handleDialogSubmit = () => {
+    if (dialog === 'assignee') {
+      applyUpdate({ assignedTo: assignee }, assignee.trim() ? `${noun} assigned to ${assignee.trim()}` : `${noun} unassigned`);
+    } else if (dialog === 'location') {
+      applyUpdate({ location }, `Location set on ${noun}`);
+    } else if (dialog === 'tags') {
+      const tagIds = Object.keys(tagChanges);
+      applyUpdate({
+        addTags: tagIds.filter(id => tagChanges[id] === 'add'),
+        removeTags: tagIds.filter(id => tagChanges[id] === 'remove')
+      }, `Tags changed on ${noun}`);
+    }
+  };
+
+  const canSubmit = dialog !== 'tags' || Object.keys(tagChanges).length > 0;
+  const pendingRequirements = pendingStatus ? statusRequirements(pendingStatus) : null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2 mt-3 p-2 rounded-md border', isDarkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50')}>
+      <span className="text-sm font-medium px-1">{count} selected</span>
+
+      <Select value="" onValueChange={handleStatus} disabled={isBusy}>
+        <SelectTrigger className="h-8 w-[140px]">
+          <SelectValue placeholder="Set status" />
+        </SelectTrigger>
+        <SelectContent>
+          {workflow.states.map(state => (
+            <SelectItem key={state.id} value={state.id}>{state.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value: Snag['priority']) => applyUpdate({ priority: value }, `${noun} set to ${value} priority`)}
+        disabled={isBusy}
+      >
+        <SelectTrigger className="h-8 w-[130px]">
+          <SelectValue placeholder="Set priority" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="High">High</SelectItem>
+          <SelectItem value="Medium">Medium</SelectItem>
+          <SelectItem value="Low">Low</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Button size="sm" variant="outline" onClick={() => openDialog('assignee')} disabled={isBusy}>
+        <User className="h-4 w-4 mr-1" />
+        Assign
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => openDialog('location')} disabled={isBusy}>
+        <MapPin className="h-4 w-4 mr-1" />
+        Location
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => openDialog('tags')} disabled={isBusy || categories.tags.length === 0}>
+        <Tag className="h-4 w-4 mr-1" />
+        Tags
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => setIsTransferOpen(true)} disabled={isBusy}>
+        <FolderInput className="h-4 w-4 mr-1" />
+        Move / Copy
+      </Button>
+      <Button size="sm" variant="outline" onClick={handleDelete} disabled={isBusy} className="text-red-600">
+        <Trash2 className="h-4 w-4 mr-1" />
+        Delete
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8 ml-auto" onClick={onClearSelection} title="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className={`sm:max-w-[440px] ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+          <DialogHeader>
+            <DialogTitle>{dialog && DIALOG_TITLES[dialog]}</DialogTitle>
+            <DialogDescription>
+              {dialog === 'tags'
+                ? `Click a tag once to add it to ${noun}, twice to remove it from them.`
+                : `Applies to ${noun}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleDialogSubmit();
+            }}
+            className="space-y-4"
+          >
+            {dialog === 'assignee' && (
+              <AssigneePicker value={assignee} onChange={setAssignee} placeholder="Leave empty to unassign" isDarkMode={isDarkMode} />
+            )}
+            {dialog === 'location' && (
+              <LocationPicker projectName={projectName} value={location} onChange={setLocation} isDarkMode={isDarkMode} />
+            )}
+            {dialog === 'tags' && (
+              <div className="flex flex-wrap gap-1.5">
+                {categories.tags.map(tag => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => cycleTag(tag.id)}
+                    className={cn('transition-opacity', tagChanges[tag.id] ? 'opacity-100' : 'opacity-50 hover:opacity-80')}
+                  >
+                    <CategoryChip
+                      category={{ ...tag, label: `${tagChanges[tag.id] === 'add' ? '+ ' : tagChanges[tag.id] === 'remove' ? '− ' : ''}${tag.label}` }}
+                      variant={tagChanges[tag.id] === 'add' ? 'solid' : tagChanges[tag.id] === 'remove' ? 'outline' : 'soft'}
+                      className={tagChanges[tag.id] === 'remove' ? 'line-through' : undefined}
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <Button type="button" variant="outline" onClick={() => setDialog(null)} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isBusy || !canSubmit}>
+                {isBusy ? 'Saving...' : 'Apply'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <TransferSnagsDialog
+        isOpen={isTransferOpen}
+        projectName={projectName}
+        snagIds={ids}
+        onClose={() => setIsTransferOpen(false)}
+        onTransferred={(mode) => {
+          // Moved entries leave this project
+          if (mode === 'move') {
+            onClearSelection();
+          }
+          onChange();
+        }}
+        isDarkMode={isDarkMode}
+      />
+
+      <StatusChangeDialog
+        isOpen={pendingStatus !== null}
+        targetLabel={pendingStatus ? getStatusLabel(workflow, pendingStatus) : ''}
+        askCompletionDate={!!pendingRequirements?.completionDate}
+        askEvidence={!!pendingRequirements?.evidence}
+        onSubmit={handleStatusSubmit}
+        onCancel={() => setPendingStatus(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { Plus, RotateCcw, Tag, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { getProject, updateProjectCategories } from '@/lib/db';
+import { Category, DEFAULT_CATEGORIES, ProjectCategories, toCategoryId, validateCategories } from '@/lib/categories';
+
+interface CategoryEditorProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  // Called after saving, since entries may have lost a trade or tag
+  onSaved: () => void;
+  isDarkMode?: boolean;
+}
+
+type Kind = 'trades' | 'tags';
+
+// A row being edited. New rows get their id from the label on save;
+// existing ones keep theirs so renaming doesn't unlink entries.
+interface CategoryRow {
+  key: string;
+  id: string | null;
+  label: string;
+  color: string;
+}
+
+const NEW_COLORS = ['#10B981', '#EF4444', '#8B5CF6', '#0EA5E9', '#F97316', '#14B8A6'];
+
+function toRows(list: Category[]): CategoryRow[] {
+  return list.map(category => ({ key: category.id, ...category }));
+}
+
+function toCategories(rows: CategoryRow[]): Category[] {
+  return rows.map(row => ({
+    id: row.id ?? toCategoryId(row.label),
+    label: row.label.trim(),
+    color: row.color
+  }));
+}
+
+export function CategoryEditor({ isOpen, projectId, onClose, onSaved, isDarkMode = false }: CategoryEditorProps) {
+  const [projectName, setProjectName] = useState('');
+  const [rows, setRows] = useState<Record<Kind, CategoryRow[]>>({ trades: [], tags: [] });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+
+    const load = async () => {
+      try {
+        const project = await getProject(projectId);
+        if (!project) return;
+        const categories = project.categories ?? DEFAULT_CATEGORIES;
+        setProjectName(project.name);
+        setRows({ trades: toRows(categories.trades), tags: toRows(categories.tags) });
+      } catch (error) {
+        console.error('❌ Failed to load categories:', error);
+        toast.error('Failed to load categories');
+      }
+    };
+
+    load();
+  }, [isOpen, projectId]);
+
+  const categories: ProjectCategories = { trades: toCategories(rows.trades), tags: toCategories(rows.tags) };
+  const errors = validateCategories(categories);
+
+  const updateRow = (kind: Kind, key: string, changes: Partial<CategoryRow>) => {
+    setRows(prev => ({ ...prev, [kind]: prev[kind].map(row => row.key === key ? { ...row, ...changes } : row) }));
+  };
+
+  const addRow = (kind: Kind) => {
+    setRows(prev => ({
+      ...prev,
+      [kind]: [
+        ...prev[kind],
+        { key: crypto.randomUUID(), id: null, label: '', color: NEW_COLORS[prev[kind].length % NEW_COLORS.length] }
+      ]
+    }));
+  };
+
+  const removeRow = (kind: Kind, key: string) => {
+    setRows(prev => ({ ...prev, [kind]: prev[kind].filter(row => row.key !== key) }));
+  };
+
+  const handleSave = async () => {
+    if (!projectId) return;
+
+    try {
+      setIsSaving(true);
+      await updateProjectCategories(projectId, categories);
+      toast.success('Categories saved');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save categories:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save categories');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const renderSection = (kind: Kind, title: string, empty: string) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">{title}</h3>
+        <div className="flex gap-1">
+          {kind === 'trades' && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7"
+              onClick={() => setRows(prev => ({ ...prev, trades: toRows(DEFAULT_CATEGORIES.trades) }))}
+              title="Reset to the default trades"
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Defaults
+            </Button>
+          )}
+          <Button size="sm" variant="outline" className="h-7" onClick={() => addRow(kind)}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {rows[kind].length === 0 && (
+        <p className={`text-xs ${mutedText}`}>{empty}</p>
+      )}
+      {rows[kind].map(row => (
+        <div key={row.key} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={row.color}
+            onChange={(e) => updateRow(kind, row.key, { color: e.target.value.toUpperCase() })}
+            className="h-8 w-8 flex-shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+            title="Colour"
+          />
+          <Input
+            value={row.label}
+            placeholder="Name"
+            onChange={(e) => updateRow(kind, row.key, { label: e.target.value })}
+            className="h-8"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 flex-shrink-0"
+            onClick={() => removeRow(kind, row.key)}
+            title="Remove"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[480px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Trades &amp; Tags
+          </DialogTitle>
+          <DialogDescription>
+            Categories for entries in {projectName || 'this project'}. Each entry has one trade and any number of tags.
+            Removing one takes it off the entries that use it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {renderSection('trades', 'Trades', 'No trades. Entries won\'t be grouped by trade.')}
+        {renderSection('tags', 'Tags', 'No tags yet, e.g. "Safety", "Client request" or "Warranty".')}
+
+        {errors.length > 0 && (
+          <ul className="space-y-0.5 text-xs text-red-500">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
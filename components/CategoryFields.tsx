@@ -0,0 +1,125 @@
+import { cn } from '@/lib/utils';
+import { Category, ProjectCategories, getCategoryColor, getCategoryLabel } from '@/lib/categories';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+// Coloured pill for a trade or tag. Tags are outlined so they read
+// differently from the trade; solid pills stay legible over photos.
+export function CategoryChip({
+  category,
+  variant = 'soft',
+  className
+}: {
+  category: Pick<Category, 'label' | 'color'>;
+  variant?: 'soft' | 'outline' | 'solid';
+  className?: string;
+}) {
+  const style = variant === 'outline'
+    ? { border: `1px solid ${category.color}`, color: category.color }
+    : variant === 'solid'
+      ? { backgroundColor: category.color, color: '#FFFFFF' }
+      : { backgroundColor: `${category.color}26`, color: category.color };
+
+  return (
+    <span
+      className={cn('inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium whitespace-nowrap', className)}
+      style={style}
+    >
+      {category.label}
+    </span>
+  );
+}
+
+// An entry's trade followed by its tags
+export function CategoryChips({
+  trade,
+  tags,
+  categories,
+  onImage = false,
+  className
+}: {
+  trade?: string | null;
+  tags?: string[];
+  categories: ProjectCategories;
+  // Shown over a photo, e.g. on grid cards
+  onImage?: boolean;
+  className?: string;
+}) {
+  if (!trade && !tags?.length) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {trade && (
+        <CategoryChip
+          variant={onImage ? 'solid' : 'soft'}
+          category={{ label: getCategoryLabel(categories.trades, trade), color: getCategoryColor(categories.trades, trade) }}
+        />
+      )}
+      {tags?.map(tag => (
+        <CategoryChip
+          key={tag}
+          variant="outline"
+          className={onImage ? 'bg-black/70' : undefined}
+          category={{ label: getCategoryLabel(categories.tags, tag), color: getCategoryColor(categories.tags, tag) }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Trade select and tag toggles for the entry edit forms
+export function CategoryPicker({
+  trade,
+  tags,
+  categories,
+  onTradeChange,
+  onTagsChange,
+  isDarkMode = false
+}: {
+  trade: string | null;
+  tags: string[];
+  categories: ProjectCategories;
+  onTradeChange: (trade: string | null) => void;
+  onTagsChange: (tags: string[]) => void;
+  isDarkMode?: boolean;
+}) {
+  const toggleTag = (id: string) => {
+    onTagsChange(tags.includes(id) ? tags.filter(tag => tag !== id) : [...tags, id]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={trade ?? 'none'} onValueChange={(value) => onTradeChange(value === 'none' ? null : value)}>
+        <SelectTrigger className={isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}>
+          <SelectValue placeholder="No trade" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No trade</SelectItem>
+          {categories.trades.map(option => (
+            <SelectItem key={option.id} value={option.id}>
+              <span className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: option.color }} />
+                {option.label}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {categories.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {categories.tags.map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => toggleTag(tag.id)}
+              className={cn('transition-opacity', tags.includes(tag.id) ? 'opacity-100' : 'opacity-40 hover:opacity-70')}
+              aria-pressed={tags.includes(tag.id)}
+            >
+              <CategoryChip category={tag} variant={tags.includes(tag.id) ? 'soft' : 'outline'} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, ListChecks, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  deleteChecklistTemplate,
+  getChecklistTemplates,
+  importChecklistTemplates,
+  saveChecklistTemplate
+} from '@/lib/db';
+import {
+  ChecklistTemplate,
+  TemplateDraft,
+  TemplateItemDraft,
+  parseTemplateFile,
+  serializeTemplates,
+  validateTemplate
+} from '@/lib/checklists';
+
+interface ChecklistTemplatesProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+// Items carry a key while edited so rows keep their inputs when reordered
+type EditorItem = TemplateItemDraft & { key: string };
+
+const EMPTY_ITEM: TemplateItemDraft = { title: '', location: '', priority: 'Medium', trade: null, description: '' };
+
+function downloadJson(json: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function ChecklistTemplates({ isOpen, onClose, isDarkMode = false }: ChecklistTemplatesProps) {
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  // Id of the template being edited, 'new' for a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [items, setItems] = useState<EditorItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await getChecklistTemplates());
+    } catch (error) {
+      console.error('❌ Error loading checklist templates:', error);
+      toast.error('Failed to load checklist templates');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTemplates();
+      setEditingId(null);
+    }
+  }, [isOpen, loadTemplates]);
+
+  const startEditing = (template: ChecklistTemplate | null) => {
+    setEditingId(template?.id ?? 'new');
+    setName(template?.name ?? '');
+    setDescription(template?.description ?? '');
+    setItems((template?.items ?? [EMPTY_ITEM]).map(item => ({ ...item, key: item.id ?? crypto.randomUUID() })));
+  };
+
+  const draft: TemplateDraft = { name, description, items: items.map(({ key, ...item }) => item) };
+  const errors = editingId ? validateTemplate(draft) : [];
+
+  const updateItem = (key: string, changes: Partial<TemplateItemDraft>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveChecklistTemplate(draft, editingId === 'new' ? undefined : editingId ?? undefined);
+      toast.success('Template saved');
+      setEditingId(null);
+      await loadTemplates();
+    } catch (error) {
+      console.error('❌ Failed to save checklist template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ChecklistTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Checklists already started from it are kept.`)) return;
+
+    try {
+      await deleteChecklistTemplate(template.id);
+      toast.success('Template deleted');
+      await loadTemplates();
+    } catch (error) {
+      console.error('❌ Failed to delete checklist template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await importChecklistTemplates(parseTemplateFile(await file.text()));
+      toast.success(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}`);
+      await loadTemplates();
+    } catch (error) {
+      console.error('❌ Failed to import checklist templates:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import templates');
+    }
+  };
+
+  const handleExport = (selected: ChecklistTemplate[]) => {
+    const filename = selected.length === 1
+      ? `checklist-${selected[0].name.replace(/[^a-zA-Z0-9]+/g, '-').toLowerCase()}.json`
+      : 'checklist-templates.json';
+    downloadJson(serializeTemplates(selected), filename);
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const rowClass = `rounded-md border p-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[760px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Checklist Templates
+          </DialogTitle>
+          <DialogDescription>
+            Standard inspections shared by all projects. Start one in a project from the checklist button above its entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="space-y-3"
+          >
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Template name, e.g. Apartment handover" autoFocus />
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description (optional)" />
+
+            <div className="space-y-2">
+              {items.map((item, index) => (
+                <div key={item.key} className={`${rowClass} space-y-2`}>
+                  <div className="flex items-center gap-2">
+                    <span className={`w-6 text-right text-xs ${mutedText}`}>{index + 1}.</span>
+                    <Input
+                      value={item.title}
+                      onChange={(e) => updateItem(item.key, { title: e.target.value })}
+                      placeholder="Check, e.g. Front door closes and locks"
+                      className="h-8"
+                    />
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={() => moveItem(index, -1)} disabled={index === 0} title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      onClick={() => setItems(prev => prev.filter(candidate => candidate.key !== item.key))}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2 pl-8">
+                    <Input
+                      value={item.location}
+                      onChange={(e) => updateItem(item.key, { location: e.target.value })}
+                      placeholder="Location"
+                      className="h-8"
+                    />
+                    <Select value={item.priority} onValueChange={(value: TemplateItemDraft['priority']) => updateItem(item.key, { priority: value })}>
+                      <SelectTrigger className="h-8 w-[110px] flex-shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="High">High</SelectItem>
+                        <SelectItem value="Medium">Medium</SelectItem>
+                        <SelectItem value="Low">Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={item.trade ?? ''}
+                      onChange={(e) => updateItem(item.key, { trade: e.target.value || null })}
+                      placeholder="Trade"
+                      className="h-8 w-[140px] flex-shrink-0"
+                    />
+                  </div>
+                  <div className="pl-8">
+                    <Input
+                      value={item.description}
+                      onChange={(e) => updateItem(item.key, { description: e.target.value })}
+                      placeholder="Description for the entry if this fails"
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setItems(prev => [...prev, { ...EMPTY_ITEM, key: crypto.randomUUID() }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="space-y-0.5 text-xs text-red-500">
+                {errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || errors.length > 0}>
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => startEditing(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Template
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleExport(templates)} disabled={templates.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                Export All
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => handleImport(e.target.files?.[0])}
+              />
+            </div>
+
+            {templates.length === 0 && (
+              <p className={`text-sm ${mutedText}`}>No templates yet. Create one or import a template file.</p>
+            )}
+            {templates.map(template => (
+              <div key={template.id} className={`${rowClass} flex items-center gap-3`}>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{template.name}</div>
+                  <div className={`truncate text-xs ${mutedText}`}>
+                    {template.items.length} item{template.items.length === 1 ? '' : 's'}
+                    {template.description && ` · ${template.description}`}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(template)} title="Edit">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleExport([template])} title="Export">
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(template)} title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
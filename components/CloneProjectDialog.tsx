@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { cloneProject } from '@/lib/db';
+import { CLONE_DEPTHS, CloneDepth } from '@/lib/transfer';
+import { cn } from '@/lib/utils';
+
+interface CloneProjectDialogProps {
+  isOpen: boolean;
+  source: { id: string; name: string } | null;
+  onClose: () => void;
+  onCloned: (projectName: string) => void;
+  isDarkMode?: boolean;
+}
+
+export function CloneProjectDialog({ isOpen, source, onClose, onCloned, isDarkMode = false }: CloneProjectDialogProps) {
+  const [name, setName] = useState('');
+  const [depth, setDepth] = useState<CloneDepth>('structure');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && source) {
+      setName(`${source.name} (copy)`);
+      setDepth('structure');
+    }
+  }, [isOpen, source]);
+
+  const handleClone = async () => {
+    if (!source) return;
+
+    try {
+      setIsSaving(true);
+      const cloned = await cloneProject(source.id, name, depth);
+      toast.success(
+        depth === 'structure'
+          ? `Created "${cloned.name}"`
+          : `Created "${cloned.name}" with ${cloned.entryCount} entr${cloned.entryCount === 1 ? 'y' : 'ies'}`
+      );
+      onCloned(cloned.name);
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to clone project:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to clone project');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[480px] ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Clone Project
+          </DialogTitle>
+          <DialogDescription>
+            Starts a new project from &quot;{source?.name}&quot;. It gets its own entry numbers and keeps a link back to this one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleClone();
+          }}
+          className="space-y-4"
+        >
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="New project name" autoFocus />
+
+          <div className="space-y-2">
+            {CLONE_DEPTHS.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setDepth(option.id)}
+                className={cn(
+                  'w-full rounded-md border p-3 text-left transition-colors',
+                  depth === option.id
+                    ? 'border-blue-500 ring-1 ring-blue-500'
+                    : isDarkMode ? 'border-gray-700 hover:bg-gray-700' : 'border-gray-200 hover:bg-gray-50'
+                )}
+              >
+                <div className="text-sm font-medium">{option.label}</div>
+                <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Cloning...' : 'Clone'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Merge, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  getContacts,
+  getContactEntryCounts,
+  addContact,
+  updateContact,
+  deleteContact,
+  mergeContacts
+} from '@/lib/db';
+import { Contact, ContactDetails, describeContact, findLikelyDuplicates } from '@/lib/contacts';
+
+interface ContactsDirectoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called when entries changed, e.g. after a rename or merge
+  onChange: () => void;
+  isDarkMode?: boolean;
+}
+
+const EMPTY_DETAILS: ContactDetails = { name: '', company: '', trade: '', email: '', phone: '' };
+
+const DETAIL_FIELDS: { key: keyof ContactDetails; placeholder: string; type?: string }[] = [
+  { key: 'name', placeholder: 'Name' },
+  { key: 'company', placeholder: 'Company' },
+  { key: 'trade', placeholder: 'Trade' },
+  { key: 'email', placeholder: 'Email', type: 'email' },
+  { key: 'phone', placeholder: 'Phone', type: 'tel' }
+];
+
+export function ContactsDirectory({ isOpen, onClose, onChange, isDarkMode = false }: ContactsDirectoryProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [entryCounts, setEntryCounts] = useState<Record<string, number>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Details being edited, for a new contact when editingId is 'new'
+  const [draft, setDraft] = useState<ContactDetails>(EMPTY_DETAILS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const loadContacts = useCallback(async () => {
+    try {
+      const [contactList, counts] = await Promise.all([getContacts(), getContactEntryCounts()]);
+      setContacts(contactList);
+      setEntryCounts(counts);
+    } catch (error) {
+      console.error('❌ Error loading contacts:', error);
+      toast.error('Failed to load contacts');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadContacts();
+      setEditingId(null);
+      setSelectedIds([]);
+      setMergeTargetId('');
+    }
+  }, [isOpen, loadContacts]);
+
+  // Wraps a directory action with error reporting and a reload
+  const runAction = async (action: () => Promise<unknown>, successMessage: string, changesEntries = false) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      if (changesEntries) onChange();
+      await loadContacts();
+      return true;
+    } catch (error) {
+      console.error('❌ Contact action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+      return false;
+    }
+  };
+
+  const startEditing = (contact: Contact | null) => {
+    setEditingId(contact?.id ?? 'new');
+    setDraft(contact
+      ? { name: contact.name, company: contact.company, trade: contact.trade, email: contact.email, phone: contact.phone }
+      : EMPTY_DETAILS);
+  };
+
+  const handleSave = async () => {
+    const isNew = editingId === 'new';
+    const saved = await runAction(
+      () => isNew ? addContact(draft) : updateContact(editingId!, draft),
+      isNew ? `Added ${draft.name.trim()}` : 'Contact updated',
+      !isNew
+    );
+    if (saved) setEditingId(null);
+  };
+
+  const handleDelete = async (contact: Contact) => {
+    const count = entryCounts[contact.id] ?? 0;
+    const message = count > 0
+      ? `Remove ${contact.name} from contacts? Their ${count} ${count === 1 ? 'entry keeps' : 'entries keep'} the name.`
+      : `Remove ${contact.name} from contacts?`;
+    if (!confirm(message)) return;
+    await runAction(() => deleteContact(contact.id), `Removed ${contact.name}`);
+  };
+
+  const handleMerge = async () => {
+    const target = contacts.find(contact => contact.id === mergeTargetId);
+    if (!target) return;
+    const duplicates = selectedIds.filter(id => id !== target.id);
+    const merged = await runAction(
+      () => mergeContacts(target.id, duplicates),
+      `Merged ${duplicates.length} contact${duplicates.length === 1 ? '' : 's'} into ${target.name}`,
+      true
+    );
+    if (merged) {
+      setSelectedIds([]);
+      setMergeTargetId('');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const duplicateGroups = findLikelyDuplicates(contacts);
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const renderEditor = () => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+      className="grid grid-cols-2 gap-2 p-3 rounded-lg border"
+    >
+      {DETAIL_FIELDS.map(field => (
+        <Input
+          key={field.key}
+          type={field.type ?? 'text'}
+          value={draft[field.key]}
+          placeholder={field.placeholder}
+          autoFocus={field.key === 'name'}
+          onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+          className={`h-8 ${field.key === 'name' ? 'col-span-2' : ''}`}
+        />
+      ))}
+      <div className="col-span-2 flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!draft.name.trim()}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[640px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Contacts
+          </DialogTitle>
+          <DialogDescription>
+            The people entries are assigned to. Select duplicates to merge them into one contact.
+          </DialogDescription>
+        </DialogHeader>
+
+        {duplicateGroups.length > 0 && (
+          <div className={`p-3 rounded-lg text-sm ${
+            isDarkMode ? 'bg-yellow-900/20 text-yellow-400 border border-yellow-800' : 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+          }`}>
+            <p className="font-medium mb-1">Possible duplicates</p>
+            <ul className="space-y-1">
+              {duplicateGroups.map(group => (
+                <li key={group.map(contact => contact.id).join()} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{group.map(contact => contact.name).join(', ')}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7"
+                    onClick={() => {
+                      setSelectedIds(group.map(contact => contact.id));
+                      setMergeTargetId(group[group.length - 1].id);
+                    }}
+                  >
+                    Select
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {selectedIds.length > 1 && (
+          <div className="flex items-center gap-2 p-3 rounded-lg border">
+            <Merge className={`h-4 w-4 flex-shrink-0 ${mutedText}`} />
+            <span className="text-sm whitespace-nowrap">Merge {selectedIds.length} into</span>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Choose the contact to keep" />
+              </SelectTrigger>
+              <SelectContent>
+                {contacts.filter(contact => selectedIds.includes(contact.id)).map(contact => (
+                  <SelectItem key={contact.id} value={contact.id}>{contact.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleMerge} disabled={!mergeTargetId}>
+              Merge
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          {contacts.length === 0 && editingId !== 'new' && (
+            <p className={`text-sm text-center py-6 ${mutedText}`}>
+              No contacts yet. They are added as you assign entries, or here.
+            </p>
+          )}
+          {contacts.map(contact => editingId === contact.id ? (
+            <div key={contact.id}>{renderEditor()}</div>
+          ) : (
+            <div key={contact.id} className="group flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50">
+              <Checkbox
+                checked={selectedIds.includes(contact.id)}
+                onCheckedChange={() => toggleSelected(contact.id)}
+              />
+              <div className="flex-grow min-w-0">
+                <div className="text-sm font-medium truncate">{contact.name}</div>
+                <div className={`text-xs truncate ${mutedText}`}>
+                  {[describeContact(contact), contact.email, contact.phone].filter(Boolean).join(' · ') || 'No details'}
+                </div>
+              </div>
+              <span className={`text-xs whitespace-nowrap ${mutedText}`}>
+                {entryCounts[contact.id] ?? 0} {(entryCounts[contact.id] ?? 0) === 1 ? 'entry' : 'entries'}
+              </span>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(contact)} title="Edit contact">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(contact)} title="Remove contact">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {editingId === 'new' && renderEditor()}
+        </div>
+
+        {editingId === null && (
+          <div className="flex justify-end pt-2 border-t">
+            <Button size="sm" variant="outline" onClick={() => startEditing(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Contact
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
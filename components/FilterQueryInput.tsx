@@ -0,0 +1,165 @@
+import { ReactNode, useMemo, useRef, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Input } from './ui/input';
+import { getFilterSuggestions, parseFilterQuery } from '@/lib/filterQuery';
+import { DEFAULT_WORKFLOW, Workflow } from '@/lib/workflow';
+import { DEFAULT_CATEGORIES, ProjectCategories } from '@/lib/categories';
+
+interface FilterQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Values offered after assigned:, location:, status:, trade: and tag:
+  knownValues?: { assigned?: string[]; location?: string[]; status?: string[]; trade?: string[]; tag?: string[] };
+  // Statuses to validate status: against
+  workflow?: Workflow;
+  // Trades and tags to validate trade: and tag: against
+  categories?: ProjectCategories;
+  placeholder?: string;
+  className?: string;
+  isDarkMode?: boolean;
+  // Icons or buttons positioned over the input
+  children?: ReactNode;
+}
+
+// Search box that understands the filter syntax from lib/filterQuery,
+// suggesting field names and values as you type
+export function FilterQueryInput({
+  value,
+  onChange,
+  knownValues,
+  workflow = DEFAULT_WORKFLOW,
+  categories = DEFAULT_CATEGORIES,
+  placeholder = 'Search or filter, e.g. priority:high status:open',
+  className,
+  isDarkMode = false,
+  children
+}: FilterQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const errors = useMemo(() => parseFilterQuery(value, workflow, categories).errors, [value, workflow, categories]);
+  const completion = useMemo(
+    () => getFilterSuggestions(value, caret, knownValues),
+    [value, caret, knownValues]
+  );
+  const showSuggestions = isFocused && !dismissed && !!completion;
+
+  const updateCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const acceptSuggestion = (index: number) => {
+    if (!completion) return;
+    const suggestion = completion.suggestions[index];
+    const { start, end } = completion.token;
+    const nextValue = value.slice(0, start) + suggestion.insertText + value.slice(end).replace(/^\s+/, '');
+    const nextCaret = start + suggestion.insertText.length;
+
+    onChange(nextValue);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || !completion) return;
+    const count = completion.suggestions.length;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(i => (i + 1) % count);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(i => (i - 1 + count) % count);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        acceptSuggestion(Math.min(activeIndex, count - 1));
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setDismissed(true);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <div className="relative">
+        {children}
+        <Input
+          ref={inputRef}
+          type="text"
+          value={value}
+          placeholder={placeholder}
+          aria-invalid={errors.length > 0}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setActiveIndex(0);
+            setDismissed(false);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCaret}
+          onClick={updateCaret}
+          onFocus={() => setIsFocused(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+          className={cn(className, errors.length > 0 && 'border-red-400 focus:border-red-500')}
+        />
+      </div>
+
+      {showSuggestions && completion && (
+        <ul
+          className={cn(
+            'absolute z-50 mt-1 w-full max-h-60 overflow-y-auto rounded-md border shadow-lg text-sm',
+            isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-900'
+          )}
+        >
+          {completion.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptSuggestion(index);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex items-center justify-between gap-4 px-3 py-1.5 cursor-pointer',
+                index === activeIndex && (isDarkMode ? 'bg-gray-700' : 'bg-gray-100')
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className={cn('text-xs truncate', isDarkMode ? 'text-gray-400' : 'text-gray-500')}>
+                  {suggestion.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-1 space-y-0.5">
+          {errors.map(error => (
+            <p key={`${error.start}-${error.token}`} className="flex items-center gap-1 text-xs text-red-500">
+              <AlertCircle className="h-3 w-3 flex-shrink-0" />
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,12 @@
 "use client"
 
-import { X, Grid, Info, Calendar, User, MapPin, AlertTriangle, MessageCircle, GripHorizontal, Pencil, Search, SortDesc, XCircle, Mic, Sparkles } from 'lucide-react';
+import { X, Grid, Info, Calendar, User, MapPin, AlertTriangle, MessageCircle, GripHorizontal, Pencil, Search, SortDesc, XCircle, Mic, Sparkles, Images, SplitSquareHorizontal } from 'lucide-react';
 import { Snag, Annotation } from '@/types/snag';
 import Image from 'next/image';
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { format } from 'date-fns';
 import { Button } from './ui/button';
 import { cn } from '@/lib/utils';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
@@ -16,8 +15,35 @@ import { updateSnagAnnotations } from '@/lib/db';
 import { SnagVoiceTranscription } from './SnagVoiceTranscription';
 import { QuickSnagVoiceTranscription } from './QuickSnagVoiceTranscription';
 import ImageAnnotator from './ImageAnnotator';
+import MediaImage from './MediaImage';
+import { SnagHistory } from './SnagHistory';
+import { SearchSnippet } from './SearchSnippet';
+import { FilterQueryInput } from './FilterQueryInput';
+import { SearchHit } from '@/lib/search';
+import { useMediaUrl } from '@/hooks/use-media-url';
+import { StatusChangeDialog } from './StatusChangeDialog';
+import { AssigneePicker } from './AssigneePicker';
+import { LocationPicker } from './LocationPicker';
+import { CategoryChips, CategoryPicker } from './CategoryFields';
+import { PhotoGallery } from './PhotoGallery';
+import { getDaysOverdue, isOverdue } from '@/lib/sla';
+import { DEFAULT_CATEGORIES, ProjectCategories } from '@/lib/categories';
+import { SnagPhoto, getBeforeAfterPair, getSnagPhotos } from '@/lib/photos';
+import {
+  DEFAULT_WORKFLOW,
+  Workflow,
+  assertTransitionAllowed,
+  getAllowedStatuses,
+  getStatusColor,
+  getStatusLabel,
+  getTransitionRequirements,
+  isDoneStatus
+} from '@/lib/workflow';
 import confetti from 'canvas-confetti';
 
+// Date inputs give yyyy-MM-dd; due dates are kept as local midnight
+const toDueDate = (value: string): Date | null => value ? new Date(`${value}T00:00:00`) : null;
+
 interface GridViewProps {
   snags: Snag[];
   isOpen: boolean;
@@ -26,12 +52,21 @@ interface GridViewProps {
   onSnagUpdate?: (updatedSnag: Snag) => void;
   searchTerm: string;
   onSearchChange: (value: string) => void;
+  // Index results for searchTerm; snags arrive already filtered and ranked
+  searchHits?: Map<string, SearchHit> | null;
+  // Suggestions for assigned: and location: in the search box
+  knownFilterValues?: { assigned?: string[]; location?: string[]; status?: string[]; trade?: string[]; tag?: string[] };
+  workflow?: Workflow;
+  categories?: ProjectCategories;
 }
 
 interface DetailsCardProps {
   snag: Snag;
   onClose: () => void;
   onEdit: (snag: Snag) => void;
+  onReverted?: (snag: Snag) => void;
+  workflow: Workflow;
+  categories: ProjectCategories;
   isDarkMode?: boolean;
   position: {
     x: number;
@@ -54,10 +89,15 @@ interface EditState {
   description: string;
   priority: 'Low' | 'Medium' | 'High';
   assignedTo: string;
-  status: 'In Progress' | 'Completed';
+  status: string;
+  statusNote?: string | null;
   name: string;
   location: string;
   observationDate: string;
+  // yyyy-MM-dd, or empty for no due date
+  dueDate: string;
+  trade: string | null;
+  tags: string[];
   completionDate?: Date | null;
 }
 
@@ -69,6 +109,9 @@ interface GridItemProps {
   onDetailsClick: (e: React.MouseEvent, snag: Snag) => void;
   hoveredId: string | null;
   onHover: (id: string | null) => void;
+  searchHit?: SearchHit;
+  workflow: Workflow;
+  categories: ProjectCategories;
 }
 
 function AnnotationPin({ number, x, y, text, isActive, onClick, isDarkMode, isTemporary }: AnnotationPinProps) {
@@ -82,9 +125,13 @@ function GridItem({
   onImageClick, 
   onDetailsClick,
   hoveredId,
-  onHover
+  onHover,
+  searchHit,
+  workflow,
+  categories
 }: GridItemProps) {
   const [showQuickVoice, setShowQuickVoice] = useState(false);
+  const photos = getSnagPhotos(snag);
   const lastClickTime = useRef<number>(0);
   const clickTimeout = useRef<NodeJS.Timeout>();
 
@@ -125,14 +172,14 @@ function GridItem({
       {/* Image Container */}
       <div className="aspect-square overflow-hidden relative">
         {/* Use thumbnail for grid view */}
-        <img
-          src={snag.thumbnailPath}
+        <MediaImage
+          mediaId={snag.thumbnailId}
           alt={snag.name}
           className="w-full h-full object-cover transition-transform duration-200 group-hover:scale-105"
         />
 
         {/* Status Overlay */}
-        {snag.status === 'Completed' && (
+        {isDoneStatus(workflow, snag.status) && (
           <div className="absolute inset-0 bg-black bg-opacity-30 flex items-center justify-center">
             <div className="transform -rotate-45 text-white text-xl font-bold">
               COMPLETED
@@ -152,10 +199,25 @@ function GridItem({
               <div className="bg-black/70 text-white px-3 py-1 rounded-full text-sm font-medium">
                 #{snag.snagNumber}
               </div>
-              {snag.status === 'Completed' && (
+              {isDoneStatus(workflow, snag.status) && (
                 <div className="bg-green-500/90 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1">
                   <div className="w-1.5 h-1.5 rounded-full bg-white" />
-                  Completed
+                  {getStatusLabel(workflow, snag.status)}
+                </div>
+              )}
+              {isOverdue(snag.dueDate, isDoneStatus(workflow, snag.status)) && (
+                <div className="bg-red-600/90 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Overdue {getDaysOverdue(snag.dueDate!)}d
+                </div>
+              )}
+              {photos.length > 1 && (
+                <div
+                  className="bg-black/70 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1"
+                  title={getBeforeAfterPair(photos) ? 'Has before and after photos' : `${photos.length} photos`}
+                >
+                  {getBeforeAfterPair(photos) ? <SplitSquareHorizontal className="w-3 h-3" /> : <Images className="w-3 h-3" />}
+                  {photos.length}
                 </div>
               )}
             </div>
@@ -229,6 +291,14 @@ function GridItem({
                 </button>
               </div>
             </div>
+
+            <CategoryChips
+              trade={snag.trade}
+              tags={snag.tags}
+              categories={categories}
+              onImage
+              className="max-w-[220px]"
+            />
           </div>
 
           {/* Details Button */}
@@ -253,9 +323,13 @@ function GridItem({
 
       {/* Description Overlay */}
       <div className={`absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4`}>
-        <p className="text-white text-sm line-clamp-2">
-          {snag.description || 'No description'}
-        </p>
+        {searchHit ? (
+          <SearchSnippet hit={searchHit} className="text-white text-sm" />
+        ) : (
+          <p className="text-white text-sm line-clamp-2">
+            {snag.description || 'No description'}
+          </p>
+        )}
       </div>
 
       {/* Quick Voice Transcription */}
@@ -283,13 +357,14 @@ function GridItem({
   );
 }
 
-function DetailsCard({ snag, onClose, onEdit, isDarkMode, position }: DetailsCardProps) {
+function DetailsCard({ snag, onClose, onEdit, onReverted, workflow, categories, isDarkMode, position }: DetailsCardProps) {
   const [dragPosition, setDragPosition] = useState(position);
   
   const dragRef = useRef<HTMLDivElement>(null);
   const isDraggingRef = useRef(false);
   const dragStartRef = useRef({ x: 0, y: 0 });
   const [showVoiceTranscription, setShowVoiceTranscription] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (dragRef.current) {
@@ -401,15 +476,14 @@ function DetailsCard({ snag, onClose, onEdit, isDarkMode, position }: DetailsCar
               <div className={`text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                 Status
               </div>
-              <div className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
-                snag.status === 'Completed'
-                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
-                  : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400'
-              }`}>
-                <div className={`w-1.5 h-1.5 rounded-full ${
-                  snag.status === 'Completed' ? 'bg-green-500' : 'bg-yellow-500'
-                }`} />
-                {snag.status}
+              <div
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                  isDarkMode ? 'bg-gray-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                }`}
+                title={snag.statusNote ?? undefined}
+              >
+                <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getStatusColor(workflow, snag.status) }} />
+                {getStatusLabel(workflow, snag.status)}
               </div>
             </div>
             <div>
@@ -451,6 +525,8 @@ function DetailsCard({ snag, onClose, onEdit, isDarkMode, position }: DetailsCar
             </div>
           </div>
 
+          <CategoryChips trade={snag.trade} tags={snag.tags} categories={categories} />
+
           {/* Dates */}
           <div className="grid grid-cols-2 gap-3 pt-2 border-t border-gray-200 dark:border-gray-700">
             <div className={`${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
@@ -460,6 +536,17 @@ function DetailsCard({ snag, onClose, onEdit, isDarkMode, position }: DetailsCar
               </div>
               <p className="text-xs">{format(new Date(snag.observationDate), 'MMM d, yyyy')}</p>
             </div>
+            {snag.dueDate && (
+              <div className={isOverdue(snag.dueDate, isDoneStatus(workflow, snag.status))
+                ? 'text-red-600'
+                : isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+                <div className="flex items-center gap-1 text-xs font-medium mb-1">
+                  <Calendar className="h-3 w-3" />
+                  <span>Due</span>
+                </div>
+                <p className="text-xs">{format(new Date(snag.dueDate), 'MMM d, yyyy')}</p>
+              </div>
+            )}
             {snag.completionDate && (
               <div className={`${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
                 <div className="flex items-center gap-1 text-xs font-medium mb-1">
@@ -470,12 +557,32 @@ function DetailsCard({ snag, onClose, onEdit, isDarkMode, position }: DetailsCar
               </div>
             )}
           </div>
+
+          {/* History */}
+          <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+            {showHistory ? (
+              <SnagHistory
+                snagId={snag.id}
+                updatedAt={snag.updatedAt}
+                onReverted={onReverted}
+                isDarkMode={isDarkMode}
+              />
+            ) : (
+              <button
+                onClick={() => setShowHistory(true)}
+                className={`text-xs font-medium hover:underline ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+              >
+                Show history
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
       {showVoiceTranscription && (
         <SnagVoiceTranscription
           snagId={snag.id}
+          projectName={snag.projectName}
           currentDescription={snag.description || ''}
           currentName={snag.name || 'Untitled Entry'}
           onSnagUpdate={(updates) => {
@@ -499,9 +606,15 @@ function DetailsCard({ snag, onClose, onEdit, isDarkMode, position }: DetailsCar
   );
 }
 
-export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpdate, searchTerm, onSearchChange }: GridViewProps) {
+export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpdate, searchTerm, onSearchChange, searchHits, knownFilterValues, workflow = DEFAULT_WORKFLOW, categories = DEFAULT_CATEGORIES }: GridViewProps) {
+  // Media id of the photo open in the annotator
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const selectedImageUrl = useMediaUrl(selectedImage);
   const [selectedSnag, setSelectedSnag] = useState<Snag | null>(null);
+  // Gallery photo open in the annotator
+  const [selectedPhoto, setSelectedPhoto] = useState<SnagPhoto | null>(null);
+  // Entry whose photo gallery is open
+  const [gallerySnag, setGallerySnag] = useState<Snag | null>(null);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [filteredGridSnags, setFilteredGridSnags] = useState<Snag[]>(snags);
   const gridContainerRef = useRef<HTMLDivElement>(null);
@@ -511,17 +624,19 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
     position: { x: number; y: number };
   } | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [completionDateDialogOpen, setCompletionDateDialogOpen] = useState(false);
-  const [completionDate, setCompletionDate] = useState('');
-  const [snagToComplete, setSnagToComplete] = useState<Snag | null>(null);
+  // Status waiting on the details its transition requires
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null);
   const [editState, setEditState] = useState<EditState>({
     description: '',
     priority: 'Medium',
     assignedTo: '',
-    status: 'In Progress',
+    status: workflow.initialState,
     name: '',
     location: '',
-    observationDate: format(new Date(), 'yyyy-MM-dd')
+    observationDate: format(new Date(), 'yyyy-MM-dd'),
+    dueDate: '',
+    trade: null,
+    tags: []
   });
 
   // Save scroll position before update
@@ -538,30 +653,14 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
     }
   }, []);
 
-  // Update filtered snags and restore scroll
+  // Update filtered snags and restore scroll. Searching happens in the
+  // parent through the search index, so snags is already the result set.
   useEffect(() => {
+    setFilteredGridSnags(snags);
+    // Don't restore scroll position for search updates
     if (!searchTerm.trim()) {
-      setFilteredGridSnags(snags);
-      // Restore scroll position after state update
       setTimeout(restoreScrollPosition, 0);
-      return;
     }
-
-    const filtered = snags.filter(snag => 
-      (snag.description || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (snag.assignedTo || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (snag.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (snag.priority || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (snag.status || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (snag.location || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      String(snag.snagNumber).includes(searchTerm) ||
-      snag.annotations?.some(annotation => 
-        (annotation.text || '').toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    );
-    
-    setFilteredGridSnags(filtered);
-    // Don't restore scroll position for search updates
   }, [searchTerm, snags, restoreScrollPosition]);
 
   const handleEdit = (snag: Snag) => {
@@ -575,6 +674,9 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
       name: snag.name || '',
       location: snag.location || '',
       observationDate: snag.observationDate ? format(new Date(snag.observationDate), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
+      dueDate: snag.dueDate ? format(new Date(snag.dueDate), 'yyyy-MM-dd') : '',
+      trade: snag.trade ?? null,
+      tags: snag.tags ?? [],
       completionDate: snag.completionDate ? new Date(snag.completionDate) : null
     };
     console.log('📝 New edit state:', newEditState);
@@ -601,6 +703,8 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
       // Clean up any state when closing
       setSelectedImage(null);
       setSelectedSnag(null);
+      setSelectedPhoto(null);
+      setGallerySnag(null);
       setSelectedDetails(null);
       setEditingId(null);
     }
@@ -625,193 +729,103 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
     }, 250);
   };
 
-  const handleCompletionDateSubmit = async () => {
-    console.log('=== START: handleCompletionDateSubmit ===');
-    console.log('Initial state:', {
-      completionDate,
-      snagToComplete,
-      editingId,
-      editState,
-      currentSnags: snags
-    });
+  // Status of the entry being edited, as saved
+  const editingStatus = snags.find(s => s.id === editingId)?.status ?? workflow.initialState;
 
-    if (!completionDate || !snagToComplete) {
-      console.log('❌ Missing required data:', { completionDate, snagToComplete });
-      setCompletionDateDialogOpen(false);
-      return;
-    }
+  // Moves that need a completion date or evidence are saved straight from
+  // the status dialog
+  const handleStatusChangeSubmit = async ({ completionDate, statusNote }: { completionDate: Date | null; statusNote: string | null }) => {
+    console.log('=== START: handleStatusChangeSubmit ===', { pendingStatus, editingId, completionDate, statusNote });
+
+    if (!pendingStatus) return;
 
-    const date = new Date(completionDate);
-    if (isNaN(date.getTime())) {
-      console.error('❌ Invalid completion date:', completionDate);
+    const currentSnag = snags.find(s => s.id === editingId);
+    if (!onSnagUpdate || !currentSnag) {
+      console.error('❌ Could not find snag with id:', editingId);
+      toast.error('Could not find the entry to update');
+      setPendingStatus(null);
       return;
     }
 
-    console.log('✅ Valid completion date:', {
-      inputDate: completionDate,
-      parsedDate: date,
-      isoString: date.toISOString()
-    });
+    const isDone = isDoneStatus(workflow, pendingStatus);
+    try {
+      assertTransitionAllowed(workflow, currentSnag.status, pendingStatus, { completionDate, evidence: statusNote });
+
+      const updatedSnag: Snag = {
+        ...currentSnag,
+        ...editState,
+        dueDate: toDueDate(editState.dueDate),
+        status: pendingStatus,
+        statusNote,
+        completionDate: isDone && completionDate ? completionDate.toISOString() : null,
+        updatedAt: new Date().toISOString()
+      };
 
-    if (onSnagUpdate && editingId) {
-      console.log('🔍 Finding snag with id:', editingId);
-      const currentSnag = snags.find(s => s.id === editingId);
-      console.log('Found current snag:', currentSnag);
-
-      if (currentSnag) {
-        try {
-          // Create the updated snag with all required fields
-          const updatedSnag: Snag = {
-            ...currentSnag,
-            ...editState,
-            status: 'Completed' as const,
-            completionDate: date.toISOString(),
-            updatedAt: new Date().toISOString()
-          };
-          
-          console.log('📝 Preparing to update snag:', {
-            original: currentSnag,
-            updated: updatedSnag,
-            changes: {
-              status: updatedSnag.status !== currentSnag.status ? 'Changed' : 'Same',
-              completionDate: updatedSnag.completionDate !== currentSnag.completionDate ? 'Changed' : 'Same',
-              selectedDate: date.toISOString(),
-              editState: JSON.stringify(editState)
-            }
-          });
+      console.log('💾 Calling onSnagUpdate with status:', pendingStatus);
+      await onSnagUpdate(updatedSnag);
+      console.log('✅ Database update successful');
 
-          // Update the snag in the database first
-          console.log('💾 Calling onSnagUpdate with completion date:', date.toISOString());
-          await onSnagUpdate(updatedSnag);
-          console.log('✅ Database update successful');
-          
-          // Show success feedback immediately after successful update
-          console.log('🎉 Triggering success feedback');
-          triggerConfetti();
-          
-          // Short delay to let confetti start
-          await new Promise(resolve => setTimeout(resolve, 100));
-          
-          toast.success('Entry completed successfully! 🎉');
-
-          // Update local state with the correct completion date
-          console.log('🔄 Updating local state with completion date:', date.toISOString());
-          setEditState(prev => {
-            const newState: EditState = {
-              ...prev,
-              status: 'Completed',
-              completionDate: date
-            };
-            console.log('New edit state with completion date:', newState);
-            return newState;
-          });
-          
-          // Wait a bit to show the completed state
-          await new Promise(resolve => setTimeout(resolve, 500));
-          
-          // Clean up dialogs and state
-          console.log('🧹 Cleaning up state');
-          setCompletionDateDialogOpen(false);
-          setCompletionDate('');
-          setSnagToComplete(null);
-          setEditingId(null);
-
-          console.log('=== END: handleCompletionDateSubmit - Success ===');
-        } catch (error) {
-          console.error('❌ Failed to update snag:', error);
-          console.log('Error details:', {
-            error,
-            snagId: editingId,
-            attemptedUpdate: {
-              status: 'Completed',
-              completionDate: date.toISOString()
-            }
-          });
-          toast.error('Failed to update entry');
-          // Reset state on error
-          setEditState(prev => ({
-            ...prev,
-            status: 'In Progress',
-            completionDate: null
-          }));
-          console.log('=== END: handleCompletionDateSubmit - Error ===');
-        }
+      if (isDone) {
+        triggerConfetti();
+        // Short delay to let confetti start
+        await new Promise(resolve => setTimeout(resolve, 100));
+        toast.success('Entry completed successfully! 🎉');
       } else {
-        console.error('❌ Could not find snag with id:', editingId);
-        toast.error('Could not find the entry to update');
+        toast.success(`Entry moved to ${getStatusLabel(workflow, pendingStatus)}`);
       }
-    } else {
-      console.log('❌ Missing onSnagUpdate or editingId:', { 
-        hasOnSnagUpdate: !!onSnagUpdate, 
-        editingId,
-        snagToCompleteId: snagToComplete?.id 
-      });
-      toast.error('Could not update the entry');
+
+      setPendingStatus(null);
+      setEditingId(null);
+      console.log('=== END: handleStatusChangeSubmit - Success ===');
+    } catch (error) {
+      console.error('❌ Failed to update snag:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update entry');
+      console.log('=== END: handleStatusChangeSubmit - Error ===');
     }
   };
 
-  // Add debug logs for status change handler
-  const handleStatusChange = (value: 'In Progress' | 'Completed') => {
-    console.log('=== START: handleStatusChange ===');
-    console.log('Status change requested:', {
-      newStatus: value,
-      currentStatus: editState.status,
-      editingId,
-      currentSnags: snags.length
-    });
+  const handleStatusChange = (value: string) => {
+    console.log('Status change requested:', { newStatus: value, currentStatus: editingStatus, editingId });
 
-    if (value === 'Completed') {
-      const snagToUpdate = snags.find(s => s.id === editingId);
-      console.log('Setting snag to complete:', { 
-        editingId, 
-        snagToUpdate,
-        currentEditState: editState
-      });
-      
-      if (snagToUpdate) {
-        setSnagToComplete(snagToUpdate);
-        setCompletionDateDialogOpen(true);
-        console.log('✅ Opened completion date dialog');
-      } else {
-        console.error('❌ Could not find snag to complete');
-        toast.error('Could not find the entry to update');
-      }
+    const requirements = getTransitionRequirements(workflow, editingStatus, value);
+    if (value !== editingStatus && (isDoneStatus(workflow, value) || requirements.length > 0)) {
+      setPendingStatus(value);
     } else {
-      setEditState((prev) => {
-        const newState = { ...prev, status: value };
-        console.log('Updating edit state:', { previous: prev, new: newState });
-        return newState;
-      });
+      setEditState(prev => ({
+        ...prev,
+        status: value,
+        statusNote: value === editingStatus ? snags.find(s => s.id === editingId)?.statusNote ?? null : null,
+        completionDate: isDoneStatus(workflow, value) ? prev.completionDate : null
+      }));
     }
-    console.log('=== END: handleStatusChange ===');
   };
 
   // Add effect to prevent closing while editing
   useEffect(() => {
-    if (editingId || completionDateDialogOpen) {
+    if (editingId || pendingStatus) {
       // Prevent closing the grid view while editing
       return;
     }
-  }, [editingId, completionDateDialogOpen]);
+  }, [editingId, pendingStatus]);
 
   // Add the handleClose function back
   const handleClose = useCallback(() => {
     console.log('handleClose called');
-    if (editingId || completionDateDialogOpen) {
+    if (editingId || pendingStatus) {
       console.log('Cannot close grid view while editing');
       return;
     }
     // Clean up state before closing
     setSelectedImage(null);
     setSelectedSnag(null);
+    setSelectedPhoto(null);
+    setGallerySnag(null);
     setSelectedDetails(null);
     setEditingId(null);
-    setCompletionDateDialogOpen(false);
-    setCompletionDate('');
-    setSnagToComplete(null);
+    setPendingStatus(null);
     console.log('Closing grid view');
     onClose();
-  }, [editingId, completionDateDialogOpen, onClose]);
+  }, [editingId, pendingStatus, onClose]);
 
   // Only render if isOpen is true
   if (!isOpen) {
@@ -838,31 +852,34 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
             </span>
           </div>
           <div className="relative max-w-md flex-1">
-            <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
-            <input
-              type="text"
-              placeholder="Search entries..."
+            <FilterQueryInput
               value={searchTerm}
-              onChange={(e) => onSearchChange(e.target.value)}
-              className={`w-full pl-10 ${searchTerm ? 'pr-10' : 'pr-4'} py-2 rounded-full text-sm ${
+              onChange={onSearchChange}
+              knownValues={knownFilterValues}
+              workflow={workflow}
+              categories={categories}
+              isDarkMode={isDarkMode}
+              className={`w-full h-auto pl-10 ${searchTerm ? 'pr-10' : 'pr-4'} py-2 rounded-full text-sm ${
                 isDarkMode 
                   ? 'bg-gray-700/50 border-gray-600 text-white placeholder-gray-400 focus:border-blue-500' 
                   : 'bg-gray-100/50 border-gray-200 text-gray-900 placeholder-gray-500 focus:border-blue-500'
-              } border focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-colors`}
-            />
-            {searchTerm && (
-              <button
-                onClick={() => onSearchChange('')}
-                className={`absolute right-3 top-1/2 transform -translate-y-1/2 p-1 rounded-full 
-                  ${isDarkMode 
-                    ? 'hover:bg-gray-600/50 text-gray-400 hover:text-gray-300' 
-                    : 'hover:bg-gray-200/50 text-gray-500 hover:text-gray-700'
-                  } transition-colors`}
-                title="Clear search"
-              >
-                <XCircle className="h-4 w-4" />
-              </button>
-            )}
+              } border focus:outline-none focus-visible:ring-offset-0 focus:ring-2 focus:ring-blue-500/20 transition-colors`}
+            >
+              <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+              {searchTerm && (
+                <button
+                  onClick={() => onSearchChange('')}
+                  className={`absolute right-3 top-1/2 transform -translate-y-1/2 p-1 rounded-full 
+                    ${isDarkMode 
+                      ? 'hover:bg-gray-600/50 text-gray-400 hover:text-gray-300' 
+                      : 'hover:bg-gray-200/50 text-gray-500 hover:text-gray-700'
+                    } transition-colors`}
+                  title="Clear search"
+                >
+                  <XCircle className="h-4 w-4" />
+                </button>
+              )}
+            </FilterQueryInput>
           </div>
           <div className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
             {filteredGridSnags.length} {filteredGridSnags.length === 1 ? 'entry' : 'entries'}
@@ -902,13 +919,13 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                 snag={snag}
                 isDarkMode={isDarkMode}
                 onSnagUpdate={onSnagUpdate}
-                onImageClick={(snag) => {
-                  setSelectedImage(snag.photoPath);
-                  setSelectedSnag(snag);
-                }}
+                onImageClick={setGallerySnag}
                 onDetailsClick={handleDetailsClick}
                 hoveredId={hoveredId}
                 onHover={setHoveredId}
+                searchHit={searchHits?.get(snag.id)}
+                workflow={workflow}
+                categories={categories}
               />
             ))
           )}
@@ -922,38 +939,60 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
           position={selectedDetails.position}
           onClose={() => setSelectedDetails(null)}
           onEdit={handleEdit}
+          onReverted={(revertedSnag) => {
+            setSelectedDetails(prev => prev && { ...prev, snag: revertedSnag });
+            onSnagUpdate?.(revertedSnag);
+          }}
+          workflow={workflow}
+          categories={categories}
           isDarkMode={isDarkMode}
         />
       )}
 
       {/* Image Annotator */}
-      {selectedImage && selectedSnag && (
+      {selectedImageUrl && selectedSnag && (
         <div className="fixed inset-0 z-[300] bg-black/80 flex items-center justify-center">
           <ImageAnnotator
-            imageUrl={selectedImage}
-            existingAnnotations={selectedSnag.annotations || []}
+            imageUrl={selectedImageUrl}
+            existingAnnotations={selectedPhoto?.annotations ?? selectedSnag.annotations ?? []}
             onSave={async (annotations) => {
               if (onSnagUpdate) {
-                const updatedSnag = {
-                  ...selectedSnag,
-                  annotations,
-                  updatedAt: new Date().toISOString()
-                };
-                await updateSnagAnnotations(selectedSnag.id, annotations);
+                const updatedSnag = await updateSnagAnnotations(selectedSnag.id, annotations, selectedPhoto?.id);
                 onSnagUpdate(updatedSnag);
+                setGallerySnag(prev => prev && prev.id === updatedSnag.id ? updatedSnag : prev);
                 toast.success('Annotations saved successfully');
               }
               setSelectedImage(null);
               setSelectedSnag(null);
+              setSelectedPhoto(null);
             }}
             onClose={() => {
               setSelectedImage(null);
               setSelectedSnag(null);
+              setSelectedPhoto(null);
             }}
           />
         </div>
       )}
 
+      {/* Photo Gallery */}
+      {gallerySnag && (
+        <PhotoGallery
+          snag={gallerySnag}
+          onChange={(updatedSnag) => {
+            setGallerySnag(updatedSnag);
+            onSnagUpdate?.(updatedSnag);
+          }}
+          onAnnotate={(photo) => {
+            setSelectedImage(photo.photoId);
+            setSelectedSnag(gallerySnag);
+            setSelectedPhoto(photo);
+          }}
+          onClose={() => setGallerySnag(null)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
       {/* Edit Dialog */}
       {editingId && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -971,10 +1010,13 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                     description: '',
                     priority: 'Medium',
                     assignedTo: '',
-                    status: 'In Progress',
+                    status: workflow.initialState,
                     name: '',
                     location: '',
-                    observationDate: format(new Date(), 'yyyy-MM-dd')
+                    observationDate: format(new Date(), 'yyyy-MM-dd'),
+                    dueDate: '',
+                    trade: null,
+                    tags: []
                   });
                 }}
                 className={`rounded-full p-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors`}
@@ -1040,8 +1082,9 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                       <SelectValue placeholder="Select status" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="In Progress">In Progress</SelectItem>
-                      <SelectItem value="Completed">Completed</SelectItem>
+                      {getAllowedStatuses(workflow, editingStatus).map(state => (
+                        <SelectItem key={state.id} value={state.id}>{state.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -1051,11 +1094,26 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                 <Label htmlFor="assignedTo" className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
                   Assigned To
                 </Label>
-                <Input
+                <AssigneePicker
                   id="assignedTo"
                   value={editState.assignedTo}
-                  onChange={(e) => setEditState((prev) => ({ ...prev, assignedTo: e.target.value }))}
+                  onChange={(assignedTo) => setEditState((prev) => ({ ...prev, assignedTo }))}
                   className={`${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}`}
+                  isDarkMode={isDarkMode}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
+                  Trade &amp; Tags
+                </Label>
+                <CategoryPicker
+                  trade={editState.trade}
+                  tags={editState.tags}
+                  categories={categories}
+                  onTradeChange={(trade) => setEditState((prev) => ({ ...prev, trade }))}
+                  onTagsChange={(tags) => setEditState((prev) => ({ ...prev, tags }))}
+                  isDarkMode={isDarkMode}
                 />
               </div>
 
@@ -1063,11 +1121,13 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                 <Label htmlFor="location" className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
                   Location
                 </Label>
-                <Input
+                <LocationPicker
                   id="location"
+                  projectName={snags.find(s => s.id === editingId)?.projectName ?? ''}
                   value={editState.location}
-                  onChange={(e) => setEditState((prev) => ({ ...prev, location: e.target.value }))}
+                  onChange={(location) => setEditState((prev) => ({ ...prev, location }))}
                   className={`${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}`}
+                  isDarkMode={isDarkMode}
                 />
               </div>
 
@@ -1084,6 +1144,19 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="dueDate" className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
+                  Due Date
+                </Label>
+                <Input
+                  id="dueDate"
+                  type="date"
+                  value={editState.dueDate}
+                  onChange={(e) => setEditState((prev) => ({ ...prev, dueDate: e.target.value }))}
+                  className={`${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}`}
+                />
+              </div>
+
               <div className="flex justify-end gap-2 pt-4">
                 <Button
                   variant="outline"
@@ -1093,10 +1166,13 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                       description: '',
                       priority: 'Medium',
                       assignedTo: '',
-                      status: 'In Progress',
+                      status: workflow.initialState,
                       name: '',
                       location: '',
-                      observationDate: format(new Date(), 'yyyy-MM-dd')
+                      observationDate: format(new Date(), 'yyyy-MM-dd'),
+                      dueDate: '',
+                      trade: null,
+                      tags: []
                     });
                   }}
                 >
@@ -1108,6 +1184,7 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
                       const updatedSnag = {
                         ...snags.find(s => s.id === editingId)!,
                         ...editState,
+                        dueDate: toDueDate(editState.dueDate),
                         updatedAt: new Date().toISOString()
                       };
                       onSnagUpdate(updatedSnag);
@@ -1124,49 +1201,15 @@ export function GridView({ snags, isOpen, onClose, isDarkMode = false, onSnagUpd
         </div>
       )}
 
-      {/* Completion Date Dialog */}
-      <Dialog open={completionDateDialogOpen} onOpenChange={setCompletionDateDialogOpen}>
-        <DialogContent className="bg-white dark:bg-gray-800 border-0 shadow-lg sm:max-w-[425px]">
-          <DialogHeader className="space-y-3 pb-4 border-b">
-            <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">Set Completion Date</DialogTitle>
-            <DialogDescription className="text-gray-500 dark:text-gray-400">
-              Please enter the completion date for this entry.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="py-6">
-            <div className="flex items-center gap-4">
-              <Label htmlFor="completionDate" className="min-w-[80px] text-gray-700 dark:text-gray-300">
-                Date
-              </Label>
-              <Input
-                id="completionDate"
-                type="date"
-                value={completionDate}
-                onChange={(e) => setCompletionDate(e.target.value)}
-                className="flex-1 bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
-          </div>
-          <div className="pt-4 border-t flex justify-end gap-3">
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                setCompletionDateDialogOpen(false);
-                setEditState(prev => ({ ...prev, status: 'In Progress' }));
-              }}
-              className="bg-white hover:bg-gray-50 dark:bg-gray-800 dark:hover:bg-gray-700 border-gray-200 dark:border-gray-600"
-            >
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleCompletionDateSubmit}
-              className="bg-blue-600 hover:bg-blue-700 text-white"
-            >
-              Save
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* Status Change Dialog */}
+      <StatusChangeDialog
+        isOpen={pendingStatus !== null}
+        targetLabel={pendingStatus ? getStatusLabel(workflow, pendingStatus) : ''}
+        askCompletionDate={!!pendingStatus && (isDoneStatus(workflow, pendingStatus) || getTransitionRequirements(workflow, editingStatus, pendingStatus).includes('completionDate'))}
+        askEvidence={!!pendingStatus && getTransitionRequirements(workflow, editingStatus, pendingStatus).includes('evidence')}
+        onSubmit={handleStatusChangeSubmit}
+        onCancel={() => setPendingStatus(null)}
+      />
 
       {/* ... rest of existing modals ... */}
     </div>
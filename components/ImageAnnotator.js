@@ -141,7 +141,7 @@ const ImageAnnotator = ({ imageUrl, onSave, onClose, existingAnnotations = [] })
               <div className="space-y-2">
                 <h3 className="font-semibold text-blue-800">Quick Guide:</h3>
                 <ul className="text-sm text-blue-700 list-disc list-inside space-y-1">
-                  <li>Click "+ Add Pins" to enter annotation mode</li>
+                  <li>Click &quot;+ Add Pins&quot; to enter annotation mode</li>
                   <li>Click on the image to add pins</li>
                   <li>Use + / - buttons to adjust pin size</li>
                   <li>Click on pins to add/edit comments</li>
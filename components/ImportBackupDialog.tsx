@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FIELD_LABELS } from './SnagHistory';
+import { BackupFile, importBackup, previewBackupImport, readBackupFile } from '@/lib/db';
+import { CONFLICT_RESOLUTIONS, ConflictResolution, ImportPreview, countImportEntries } from '@/lib/backupImport';
+
+interface ImportBackupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+  isDarkMode?: boolean;
+}
+
+export function ImportBackupDialog({ isOpen, onClose, onImported, isDarkMode = false }: ImportBackupDialogProps) {
+  const [backupFile, setBackupFile] = useState<BackupFile | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBackupFile(null);
+      setPreview(null);
+      setSelectedIds(new Set());
+      setResolutions({});
+    }
+  }, [isOpen]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setIsBusy(true);
+      const read = await readBackupFile(file);
+      const checked = await previewBackupImport(read);
+      setBackupFile(read);
+      setPreview(checked);
+      setSelectedIds(new Set(checked.projects.map(project => project.id)));
+    } catch (error) {
+      console.error('❌ Failed to read backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backupFile) return;
+
+    try {
+      setIsBusy(true);
+      const result = await importBackup(backupFile, Array.from(selectedIds), resolutions);
+      const parts = [
+        `${result.added} added`,
+        `${result.updated} updated`,
+        ...(result.copied > 0 ? [`${result.copied} kept both ways`] : [])
+      ];
+      toast.success(`Imported ${result.projectCount} project${result.projectCount === 1 ? '' : 's'}: ${parts.join(', ')}`);
+      onImported?.();
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to import backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleProject = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const conflicts = (preview?.projects ?? [])
+    .filter(project => selectedIds.has(project.id))
+    .flatMap(project => project.entries.filter(entry => entry.status === 'conflict').map(entry => ({ ...entry, projectName: project.importName })));
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(entry => [entry.snagId, resolution])));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[600px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Import Backup
+          </DialogTitle>
+          <DialogDescription>
+            Adds a backup&apos;s projects and entries to what&apos;s already here instead of replacing it. Entries
+            edited both here and in the backup are listed as conflicts to resolve.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview ? (
+          <div className="space-y-4">
+            <p className={`text-sm ${mutedText}`}>
+              Backup from {format(new Date(preview.timestamp), 'MMM d, yyyy HH:mm')}
+            </p>
+
+            {preview.projects.length === 0 ? (
+              <p className="text-sm">This backup has no projects to import.</p>
+            ) : (
+              <div className={`rounded-md border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                {preview.projects.map(project => {
+                  const counts = countImportEntries(project.entries);
+                  const renumbered = project.entries.filter(entry => entry.renumbered).length;
+                  return (
+                    <label
+                      key={project.id}
+                      className={`flex items-start gap-2 px-3 py-2 text-sm border-t first:border-t-0 ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}
+                    >
+                      <Checkbox checked={selectedIds.has(project.id)} onCheckedChange={() => toggleProject(project.id)} className="mt-0.5" />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">
+                          {project.name}
+                          <span className={`ml-2 text-xs font-normal ${mutedText}`}>
+                            {project.localName
+                              ? project.localName === project.name ? 'Already here' : `Here as "${project.localName}"`
+                              : project.importName === project.name ? 'New project' : `New project, as "${project.importName}"`}
+                          </span>
+                        </div>
+                        <div className={`text-xs ${mutedText}`}>
+                          {counts.new} new · {counts.changed} changed · {counts.conflict} conflicting · {counts.unchanged} up to date
+                          {renumbered > 0 && ` · ${renumbered} renumbered`}
+                        </div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {conflicts.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="flex items-center gap-1.5 text-sm text-amber-600">
+                    <AlertTriangle className="h-4 w-4" />
+                    {conflicts.length} entr{conflicts.length === 1 ? 'y was' : 'ies were'} edited on both sides
+                  </p>
+                  <Select onValueChange={(value) => resolveAll(value as ConflictResolution)}>
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue placeholder="Resolve all as..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONFLICT_RESOLUTIONS.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className={`max-h-[260px] overflow-y-auto rounded-md border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  {conflicts.map(entry => (
+                    <div
+                      key={entry.snagId}
+                      className={`flex items-center gap-2 px-2 py-1.5 text-sm border-t first:border-t-0 ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate">
+                          <span className={mutedText}>#{entry.localNumber}</span> {entry.name || 'Untitled Entry'}
+                        </div>
+                        <div className={`text-xs truncate ${mutedText}`}>
+                          {entry.projectName}: {entry.changedFields.map(field => FIELD_LABELS[field] ?? field).join(', ')}
+                        </div>
+                      </div>
+                      <Select
+                        value={resolutions[entry.snagId] ?? 'keep-local'}
+                        onValueChange={(value) => setResolutions(prev => ({ ...prev, [entry.snagId]: value as ConflictResolution }))}
+                      >
+                        <SelectTrigger className="w-[170px] flex-shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONFLICT_RESOLUTIONS.map(option => (
+                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <p className={`text-xs ${mutedText}`}>
+                  Keeping both adds the backup&apos;s version as a new entry with the project&apos;s next number.
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={isBusy}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isBusy || selectedIds.size === 0}>
+                {isBusy ? 'Importing...' : `Import ${selectedIds.size} project${selectedIds.size === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Input type="file" accept=".zip,.json" onChange={(e) => handleFile(e.target.files?.[0])} disabled={isBusy} />
+            <p className={`text-sm ${mutedText}`}>
+              {isBusy ? 'Reading backup...' : 'Choose a ZIP or JSON backup to see what it would add and change.'}
+            </p>
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <Button variant="outline" onClick={onClose} disabled={isBusy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { ClipboardCheck, Flag, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import MediaImage from './MediaImage';
+import { RoundReportExport } from './RoundReportExport';
+import { closeInspectionRound, getInspectionRounds, recordRoundCheck, startInspectionRound } from '@/lib/db';
+import { Workflow, getStatusLabel, isDoneStatus } from '@/lib/workflow';
+import {
+  InspectionRound,
+  ROUND_CHECK_RESULTS,
+  RoundCheckResult,
+  getCarryOverSnags,
+  getNewSnags,
+  getOpenRound,
+  getRoundCheck,
+  getRoundLabel,
+  getRoundStateLabel,
+  summarizeRound
+} from '@/lib/rounds';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { Snag } from '@/types/snag';
+
+interface InspectionRoundsProps {
+  isOpen: boolean;
+  projectName: string;
+  // Every entry in the project
+  snags: Snag[];
+  workflow: Workflow;
+  onClose: () => void;
+  onSnagUpdate: (snag: Snag) => void;
+  // Called after a round is started or closed
+  onRoundsChange: () => void;
+  isDarkMode?: boolean;
+}
+
+export function InspectionRounds({
+  isOpen,
+  projectName,
+  snags,
+  workflow,
+  onClose,
+  onSnagUpdate,
+  onRoundsChange,
+  isDarkMode = false
+}: InspectionRoundsProps) {
+  const [rounds, setRounds] = useState<InspectionRound[]>([]);
+  const [selectedRoundId, setSelectedRoundId] = useState<string | null>(null);
+  const [newRoundName, setNewRoundName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadRounds = async (selectId?: string) => {
+    try {
+      const loaded = await getInspectionRounds(projectName);
+      setRounds(loaded);
+      setSelectedRoundId(prev => selectId ?? (loaded.some(round => round.id === prev) ? prev : loaded[loaded.length - 1]?.id ?? null));
+    } catch (error) {
+      console.error('❌ Failed to load inspection rounds:', error);
+      toast.error('Failed to load inspection rounds');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && projectName) {
+      loadRounds();
+    }
+  }, [isOpen, projectName]);
+
+  const round = rounds.find(candidate => candidate.id === selectedRoundId) ?? null;
+  const openRound = getOpenRound(rounds);
+  const carryOver = round ? getCarryOverSnags(snags, rounds, round, snag => isDoneStatus(workflow, snag.status)) : [];
+  const found = round ? getNewSnags(snags, round) : [];
+  const counts = round ? summarizeRound(carryOver, found, round) : null;
+
+  const handleStart = async () => {
+    if (openRound && !confirm(`Close ${getRoundLabel(openRound)} and start the next round?`)) return;
+
+    try {
+      setIsBusy(true);
+      const started = await startInspectionRound(projectName, newRoundName);
+      toast.success(`${getRoundLabel(started)} started`);
+      setNewRoundName('');
+      await loadRounds(started.id);
+      onRoundsChange();
+    } catch (error) {
+      console.error('❌ Failed to start round:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start round');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCloseRound = async () => {
+    if (!round) return;
+
+    try {
+      setIsBusy(true);
+      await closeInspectionRound(projectName, round.id);
+      toast.success(`${getRoundLabel(round)} closed`);
+      await loadRounds(round.id);
+      onRoundsChange();
+    } catch (error) {
+      console.error('❌ Failed to close round:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to close round');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCheck = async (snag: Snag, result: RoundCheckResult) => {
+    if (!round) return;
+    // Clicking the current result again clears it
+    const next = getRoundCheck(snag, round.id)?.result === result ? null : result;
+
+    try {
+      const updated = await recordRoundCheck(snag.id, round.id, next);
+      onSnagUpdate({ ...snag, roundChecks: updated.roundChecks, updatedAt: updated.updatedAt });
+    } catch (error) {
+      console.error('❌ Failed to record check:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record check');
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const rowClass = cn('flex items-center gap-3 rounded-md border p-2', isDarkMode ? 'border-gray-700' : 'border-gray-200');
+  const toggleClass = (isActive: boolean, result: RoundCheckResult) => cn(
+    'px-2.5 py-1 rounded-full text-xs font-medium transition-colors',
+    isActive
+      ? result === 'fixed' ? 'bg-green-600 text-white' : 'bg-amber-500 text-white'
+      : isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  );
+
+  const renderEntry = (snag: Snag, controls: React.ReactNode) => (
+    <div key={snag.id} className={rowClass}>
+      <MediaImage mediaId={snag.thumbnailId} alt="" className="h-10 w-10 flex-shrink-0 rounded object-cover" />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm font-medium">#{snag.snagNumber} {snag.name || 'Untitled Entry'}</div>
+        <div className={`truncate text-xs ${mutedText}`}>
+          {snag.location || 'No location'} · {getStatusLabel(workflow, snag.status)}
+        </div>
+      </div>
+      {controls}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[640px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Inspection Rounds
+          </DialogTitle>
+          <DialogDescription>
+            Entries added while a round is in progress are tagged with it. Each new round re-checks what is still open from earlier ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        {round ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={round.id} onValueChange={setSelectedRoundId}>
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...rounds].reverse().map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {getRoundLabel(option)}{option.closedAt ? '' : ' (in progress)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className={`text-xs ${mutedText}`}>
+                {round.closedAt
+                  ? `${format(new Date(round.startedAt), 'MMM d')} – ${format(new Date(round.closedAt), 'MMM d, yyyy')}`
+                  : `Started ${format(new Date(round.startedAt), 'MMM d, yyyy')}`}
+              </span>
+              <div className="ml-auto flex gap-2">
+                {!round.closedAt && (
+                  <Button size="sm" variant="outline" onClick={handleCloseRound} disabled={isBusy}>
+                    <Flag className="h-4 w-4 mr-1" />
+                    Close Round
+                  </Button>
+                )}
+                <RoundReportExport projectName={projectName} round={round} rounds={rounds} snags={snags} workflow={workflow} />
+              </div>
+            </div>
+
+            {counts && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(['new', 'still-open', 'fixed', 'unchecked'] as const).map(state => (
+                  <span key={state} className={cn('rounded-full px-2 py-0.5', isDarkMode ? 'bg-gray-700' : 'bg-gray-100')}>
+                    {getRoundStateLabel(state)}: {counts[state]}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Carried over ({carryOver.length})</h3>
+              {carryOver.length === 0 && (
+                <p className={`text-xs ${mutedText}`}>Nothing was open from earlier rounds.</p>
+              )}
+              {carryOver.map(snag => {
+                const current = getRoundCheck(snag, round.id)?.result;
+                return renderEntry(snag, (
+                  <div className="flex flex-shrink-0 gap-1">
+                    {ROUND_CHECK_RESULTS.map(result => (
+                      <button
+                        key={result.id}
+                        className={toggleClass(current === result.id, result.id)}
+                        onClick={() => handleCheck(snag, result.id)}
+                      >
+                        {result.label}
+                      </button>
+                    ))}
+                  </div>
+                ));
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">New in this round ({found.length})</h3>
+              {found.length === 0 && (
+                <p className={`text-xs ${mutedText}`}>
+                  {round.closedAt ? 'No entries were found in this round.' : 'Entries you add now will appear here.'}
+                </p>
+              )}
+              {found.map(snag => renderEntry(snag, (
+                <span className="flex-shrink-0 rounded-full bg-blue-600 px-2.5 py-1 text-xs font-medium text-white">New</span>
+              )))}
+            </div>
+          </div>
+        ) : (
+          <p className={`text-sm ${mutedText}`}>
+            No rounds yet. Start one before walking the site; everything already open is carried into it.
+          </p>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleStart();
+          }}
+          className="flex items-center gap-2 pt-3 border-t"
+        >
+          <Input
+            value={newRoundName}
+            onChange={(e) => setNewRoundName(e.target.value)}
+            placeholder="Name (optional), e.g. Weekly walk"
+            maxLength={80}
+          />
+          <Button type="submit" disabled={isBusy} className="flex-shrink-0">
+            <Play className="h-4 w-4 mr-1" />
+            Start Round {rounds.reduce((highest, other) => Math.max(highest, other.number), 0) + 1}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { MapPin, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { getProject, getSnagsByProject, updateProjectLocations } from '@/lib/db';
+import {
+  LOCATION_LEVELS,
+  LocationNode,
+  findLocationByText,
+  flattenLocations,
+  getDescendantIds,
+  validateLocations
+} from '@/lib/locations';
+
+interface LocationEditorProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  // Called after saving, since entries may have been relinked
+  onSaved: () => void;
+  isDarkMode?: boolean;
+}
+
+export function LocationEditor({ isOpen, projectId, onClose, onSaved, isDarkMode = false }: LocationEditorProps) {
+  const [projectName, setProjectName] = useState('');
+  const [nodes, setNodes] = useState<LocationNode[]>([]);
+  // Locations typed on entries that the tree doesn't cover yet
+  const [entryLocations, setEntryLocations] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+
+    const load = async () => {
+      try {
+        const project = await getProject(projectId);
+        if (!project) return;
+        setProjectName(project.name);
+        setNodes(project.locations ?? []);
+        const snags = await getSnagsByProject(project.name);
+        setEntryLocations(Array.from(new Set(snags.map(snag => snag.location.trim()).filter(Boolean))));
+      } catch (error) {
+        console.error('❌ Failed to load locations:', error);
+        toast.error('Failed to load locations');
+      }
+    };
+
+    load();
+  }, [isOpen, projectId]);
+
+  const flat = flattenLocations(nodes);
+  const errors = validateLocations(nodes);
+  const unfiled = entryLocations
+    .filter(location => !findLocationByText(nodes, location))
+    .sort((a, b) => a.localeCompare(b));
+
+  const addNode = (parentId: string | null, name = '') => {
+    setNodes(prev => [...prev, { id: crypto.randomUUID(), name, parentId }]);
+  };
+
+  const renameNode = (id: string, name: string) => {
+    setNodes(prev => prev.map(node => node.id === id ? { ...node, name } : node));
+  };
+
+  const removeNode = (id: string) => {
+    const removed = getDescendantIds(nodes, id);
+    if (removed.size > 1 && !confirm(`Remove this location and the ${removed.size - 1} inside it?`)) return;
+    setNodes(prev => prev.filter(node => !removed.has(node.id)));
+  };
+
+  const handleSave = async () => {
+    if (!projectId) return;
+
+    try {
+      setIsSaving(true);
+      await updateProjectLocations(projectId, nodes.map(node => ({ ...node, name: node.name.trim() })));
+      toast.success('Locations saved');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save locations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save locations');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[560px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Locations
+          </DialogTitle>
+          <DialogDescription>
+            Sites, buildings, levels and rooms in {projectName || 'this project'}. Filtering on a location includes everything inside it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {flat.length === 0 && (
+            <p className={`text-sm text-center py-6 ${mutedText}`}>
+              No locations yet. Start with a site.
+            </p>
+          )}
+          {flat.map(({ node, depth }) => (
+            <div key={node.id} className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+              <Input
+                value={node.name}
+                placeholder={LOCATION_LEVELS[depth] ?? 'Area'}
+                onChange={(e) => renameNode(node.id, e.target.value)}
+                className="h-8"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => addNode(node.id)}
+                title={`Add ${(LOCATION_LEVELS[depth + 1] ?? 'area').toLowerCase()} inside`}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => removeNode(node.id)}
+                title="Remove location"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button size="sm" variant="outline" className="self-start" onClick={() => addNode(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Site
+        </Button>
+
+        {unfiled.length > 0 && (
+          <div className="space-y-2">
+            <p className={`text-xs ${mutedText}`}>
+              Used by entries but not in the tree. Add one to link those entries to it.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {unfiled.map(location => (
+                <Button key={location} size="sm" variant="secondary" className="h-7" onClick={() => addNode(null, location.replace(/\//g, '-'))}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  {location}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="space-y-0.5 text-xs text-red-500">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Input } from './ui/input';
+import { getProjectLocations } from '@/lib/db';
+import { FlatLocation, LocationNode, findLocationByText, flattenLocations } from '@/lib/locations';
+
+interface LocationPickerProps {
+  id?: string;
+  projectName: string;
+  value: string;
+  onChange: (location: string) => void;
+  placeholder?: string;
+  className?: string;
+  isDarkMode?: boolean;
+}
+
+// Location field that offers the project's location tree. Picking a node
+// fills in its full path; free text is still accepted.
+export function LocationPicker({
+  id,
+  projectName,
+  value,
+  onChange,
+  placeholder = 'Not specified',
+  className,
+  isDarkMode = false
+}: LocationPickerProps) {
+  const [locations, setLocations] = useState<LocationNode[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (!projectName) return;
+
+    getProjectLocations(projectName)
+      .then(setLocations)
+      .catch(error => {
+        console.error('❌ Failed to load locations:', error);
+      });
+  }, [projectName]);
+
+  const query = value.trim().toLowerCase();
+  const isKnown = !!findLocationByText(locations, value);
+  const matches = useMemo(
+    () => flattenLocations(locations)
+      // Show the whole tree until the text narrows it down
+      .filter(location => isKnown || !query || location.path.toLowerCase().includes(query)),
+    [locations, query, isKnown]
+  );
+  const isFreeText = !!query && !isKnown && locations.length > 0;
+  const showSuggestions = isFocused && (matches.length > 0 || isFreeText);
+
+  const select = (location: FlatLocation) => {
+    onChange(location.path);
+    setIsFocused(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || matches.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(i => (i + 1) % matches.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(i => (i - 1 + matches.length) % matches.length);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        select(matches[Math.min(activeIndex, matches.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsFocused(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Input
+        id={id}
+        value={value}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setActiveIndex(0);
+          setIsFocused(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        className={className}
+      />
+
+      {showSuggestions && (
+        <ul
+          className={cn(
+            'absolute z-50 mt-1 w-full max-h-60 overflow-y-auto rounded-md border shadow-lg text-sm',
+            isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-900'
+          )}
+        >
+          {matches.map((location, index) => (
+            <li
+              key={location.node.id}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(location);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              // Indent by depth while browsing; show full paths once filtering
+              style={{ paddingLeft: `${0.75 + (query && !isKnown ? 0 : location.depth)}rem` }}
+              className={cn(
+                'pr-3 py-1.5 cursor-pointer truncate',
+                index === activeIndex && (isDarkMode ? 'bg-gray-700' : 'bg-gray-100')
+              )}
+            >
+              {query && !isKnown ? location.path : location.node.name}
+            </li>
+          ))}
+          {isFreeText && (
+            <li className={cn('flex items-center gap-2 px-3 py-1.5 text-xs', isDarkMode ? 'text-gray-400' : 'text-gray-500')}>
+              <MapPin className="h-3 w-3 flex-shrink-0" />
+              &quot;{value.trim()}&quot; isn&apos;t in this project&apos;s locations
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
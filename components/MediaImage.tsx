@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMediaUrl } from '@/hooks/use-media-url';
+
+interface MediaImageProps {
+  mediaId: string | null | undefined;
+  alt: string;
+  className?: string;
+}
+
+// Photo stored in the media store. The blob is only read once the image
+// scrolls near the viewport, so long lists don't decode every photo up front.
+export default function MediaImage({ mediaId, alt, className }: MediaImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const url = useMediaUrl(mediaId, isVisible);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={containerRef} className="w-full h-full">
+      {url ? (
+        <img src={url} alt={alt} className={className} />
+      ) : (
+        <div className="w-full h-full bg-gray-200 dark:bg-gray-800 animate-pulse" />
+      )}
+    </div>
+  );
+}
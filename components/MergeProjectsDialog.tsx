@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Merge } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { mergeProjects, previewProjectMerge } from '@/lib/db';
+import { MergePreview, MergeResult, SnagNumberMapping } from '@/lib/merge';
+
+interface MergeProjectsDialogProps {
+  isOpen: boolean;
+  // The project being merged away
+  source: { id: string; name: string } | null;
+  projects: { id: string; name: string }[];
+  onClose: () => void;
+  onMerged: (result: MergeResult & { sourceName: string }) => void;
+  isDarkMode?: boolean;
+}
+
+export function MergeProjectsDialog({ isOpen, source, projects, onClose, onMerged, isDarkMode = false }: MergeProjectsDialogProps) {
+  const [targetId, setTargetId] = useState('');
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [result, setResult] = useState<MergeResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Kept while the dialog is open, since the source is gone once merged
+  const [sourceName, setSourceName] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setSourceName(source?.name ?? '');
+      setTargetId('');
+      setPreview(null);
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const handlePreview = async () => {
+    if (!source || !targetId) return;
+
+    try {
+      setIsBusy(true);
+      setPreview(await previewProjectMerge(source.id, targetId));
+    } catch (error) {
+      console.error('❌ Failed to preview merge:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to preview merge');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!source || !targetId) return;
+
+    try {
+      setIsBusy(true);
+      const merged = await mergeProjects(source.id, targetId);
+      setResult(merged);
+      toast.success(`Merged "${sourceName}" into "${merged.targetName}"`);
+      onMerged({ ...merged, sourceName });
+    } catch (error) {
+      console.error('❌ Failed to merge projects:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge projects');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const duplicates = new Map((preview?.duplicates ?? []).map(match => [match.snagId, match]));
+
+  const renderMapping = (mapping: SnagNumberMapping[]) => (
+    <div className={`max-h-[260px] overflow-y-auto rounded-md border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+      <table className="w-full text-sm">
+        <thead className={`sticky top-0 text-left text-xs ${isDarkMode ? 'bg-gray-800 text-gray-400' : 'bg-white text-gray-500'}`}>
+          <tr>
+            <th className="px-2 py-1 font-medium">Old #</th>
+            <th className="px-2 py-1 font-medium">New #</th>
+            <th className="px-2 py-1 font-medium">Entry</th>
+          </tr>
+        </thead>
+        <tbody>
+          {mapping.map(row => {
+            const duplicate = duplicates.get(row.snagId);
+            return (
+              <tr key={row.snagId} className={`border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                <td className="px-2 py-1">#{row.fromNumber}</td>
+                <td className="px-2 py-1">#{row.toNumber}</td>
+                <td className="px-2 py-1">
+                  <div className="truncate">{row.name || 'Untitled Entry'}</div>
+                  {!result && duplicate && (
+                    <div className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                      {duplicate.reason} as #{duplicate.existingNumber} {duplicate.existingName}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[560px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Merge className="h-5 w-5" />
+            Merge Project
+          </DialogTitle>
+          <DialogDescription>
+            Moves every entry and voice recording of &quot;{sourceName}&quot; into another project, then removes it.
+            Entries are numbered after the target&apos;s highest number and keep their old number as a reference.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {result.mapping.length} entr{result.mapping.length === 1 ? 'y' : 'ies'} and {result.recordingCount} recording{result.recordingCount === 1 ? '' : 's'} moved into &quot;{result.targetName}&quot;.
+            </p>
+            {result.mapping.length > 0 && renderMapping(result.mapping)}
+            <div className="flex justify-end pt-2 border-t">
+              <Button onClick={onClose}>Done</Button>
+            </div>
+          </div>
+        ) : preview ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {preview.mapping.length} entr{preview.mapping.length === 1 ? 'y' : 'ies'} and {preview.recordingCount} recording{preview.recordingCount === 1 ? '' : 's'} will move into &quot;{preview.targetName}&quot;.
+            </p>
+            {preview.duplicates.length > 0 ? (
+              <p className="flex items-center gap-1.5 text-sm text-amber-600">
+                <AlertTriangle className="h-4 w-4" />
+                {preview.duplicates.length} look{preview.duplicates.length === 1 ? 's' : ''} like entries &quot;{preview.targetName}&quot; already has. Check them after merging.
+              </p>
+            ) : (
+              <p className={`text-sm ${mutedText}`}>No likely duplicates found.</p>
+            )}
+            {preview.mapping.length > 0 && renderMapping(preview.mapping)}
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={isBusy}>
+                Back
+              </Button>
+              <Button onClick={handleMerge} disabled={isBusy}>
+                {isBusy ? 'Merging...' : 'Merge'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into..." />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.filter(project => project.id !== source?.id).map(project => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end gap-3 pt-2 border-t">
+              <Button variant="outline" onClick={onClose} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button onClick={handlePreview} disabled={isBusy || !targetId}>
+                {isBusy ? 'Checking...' : 'Preview'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
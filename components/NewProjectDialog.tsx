@@ -1,10 +1,13 @@
 import { useState } from 'react';
-import { X } from 'lucide-react';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+import { ProjectDetailsFields, ProjectDetailsForm } from './ProjectDetailsFields';
+import { EMPTY_PROJECT_DETAILS, ProjectDetails } from '@/lib/projectDetails';
 
 interface NewProjectDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (projectName: string) => void;
+  // Details are null unless the report details section was opened
+  onSubmit: (projectName: string, details: ProjectDetails | null, logo: Blob | null) => void;
   isDarkMode?: boolean;
 }
 
@@ -15,21 +18,27 @@ export function NewProjectDialog({
   isDarkMode = false 
 }: NewProjectDialogProps) {
   const [projectName, setProjectName] = useState('');
+  const [showDetails, setShowDetails] = useState(false);
+  const [details, setDetails] = useState<ProjectDetailsForm>(EMPTY_PROJECT_DETAILS);
+  const [logo, setLogo] = useState<Blob | null>(null);
 
   if (!isOpen) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (projectName.trim()) {
-      onSubmit(projectName.trim());
+      onSubmit(projectName.trim(), showDetails ? { ...details, logoId: null } : null, showDetails ? logo : null);
       setProjectName('');
+      setShowDetails(false);
+      setDetails(EMPTY_PROJECT_DETAILS);
+      setLogo(null);
       onClose();
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className={`w-full max-w-md mx-4 rounded-lg shadow-xl transition-colors duration-300 ${
+      <div className={`w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto rounded-lg shadow-xl transition-colors duration-300 ${
         isDarkMode ? 'bg-gray-800' : 'bg-white'
       }`}>
         <div className={`flex justify-between items-center p-4 border-b transition-colors duration-300 ${
@@ -71,6 +80,30 @@ export function NewProjectDialog({
               autoFocus
             />
           </div>
+
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowDetails(prev => !prev)}
+              className={`flex items-center gap-1 text-sm font-medium transition-colors duration-300 ${
+                isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-700 hover:text-gray-900'
+              }`}
+            >
+              {showDetails ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              Report details (optional)
+            </button>
+            {showDetails && (
+              <div className={`mt-3 ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                <ProjectDetailsFields
+                  details={details}
+                  onChange={setDetails}
+                  logo={logo}
+                  onLogoChange={setLogo}
+                  isDarkMode={isDarkMode}
+                />
+              </div>
+            )}
+          </div>
           
           <div className="flex justify-end space-x-2">
             <button
@@ -2,12 +2,21 @@ import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
 import { Snag, Annotation } from "@/types/snag";
 import jsPDF from "jspdf";
+import { getMediaDataUrl, getProjectCategories, getProjectDetails, getProjectLocations, getProjectWorkflow } from "@/lib/db";
+import { getStatusLabel, isDoneStatus } from "@/lib/workflow";
+import { getDaysOverdue, getOverdueSnags, isOverdue } from "@/lib/sla";
+import { groupSnagsByLocation } from "@/lib/locations";
+import { describeCategoryCounts, getCategoryLabel } from "@/lib/categories";
+import { getBeforeAfterPair, getSnagPhotos } from "@/lib/photos";
+import { drawCoverPage, drawPageHeaders, hasCover, loadReportLogo } from "@/lib/reportCover";
 import { format } from "date-fns";
 import { GState } from "jspdf";
 
 interface PDFExportProps {
   snags: Snag[];
   projectName: string;
+  // Orders entries by location, with a heading where each location starts
+  groupByLocation?: boolean;
 }
 
 const compressImage = async (imageUrl: string, maxWidth = 1200): Promise<string> => {
@@ -50,6 +59,25 @@ const compressImage = async (imageUrl: string, maxWidth = 1200): Promise<string>
   });
 };
 
+// Compresses a photo for the PDF and reads its size
+const loadPdfImage = async (photoUrl: string): Promise<{ dataUrl: string; width: number; height: number }> => {
+  const dataUrl = await compressImage(photoUrl);
+  const img = new Image();
+  await new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("Image load timeout")), 10000);
+    img.onload = () => {
+      clearTimeout(timeout);
+      resolve(null);
+    };
+    img.onerror = () => {
+      clearTimeout(timeout);
+      reject(new Error("Failed to load image"));
+    };
+    img.src = dataUrl;
+  });
+  return { dataUrl, width: img.width, height: img.height };
+};
+
 const drawAnnotationPins = (
   doc: jsPDF,
   imageX: number,
@@ -144,7 +172,7 @@ const addCompletedWatermark = (
   }
 };
 
-export function PDFExport({ snags, projectName }: PDFExportProps) {
+export function PDFExport({ snags, projectName, groupByLocation = false }: PDFExportProps) {
   const handleExport = async () => {
     if (!snags?.length) {
       alert('Please select at least one snag to export.');
@@ -152,6 +180,17 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
     }
 
     try {
+      const workflow = await getProjectWorkflow(projectName);
+      const categories = await getProjectCategories(projectName);
+      const details = await getProjectDetails(projectName);
+      const logo = await loadReportLogo(details);
+      const locationGroups = groupByLocation
+        ? groupSnagsByLocation(snags, await getProjectLocations(projectName))
+        : [];
+      const orderedSnags = groupByLocation ? locationGroups.flatMap(group => group.snags) : snags;
+      // Groups by the id of the entry they start with
+      const groupStarts = new Map(locationGroups.map(group => [group.snags[0].id, group]));
+
       // Initialize PDF in portrait mode (A4)
       const doc = new jsPDF({
         orientation: "portrait",
@@ -164,6 +203,25 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
       const pageHeight = 297;
       const margin = 15;
       const contentWidth = pageWidth - (2 * margin);
+      const now = new Date();
+      const overdueSnags = getOverdueSnags(snags, snag => isDoneStatus(workflow, snag.status), now);
+
+      const withCover = hasCover({ details, logo });
+      if (withCover) {
+        const doneCount = snags.filter(snag => isDoneStatus(workflow, snag.status)).length;
+        drawCoverPage(doc, {
+          projectName,
+          title: 'Snag Report',
+          details,
+          logo,
+          summary: [
+            `${snags.length} ${snags.length === 1 ? 'entry' : 'entries'}: ${snags.length - doneCount} open, ${doneCount} completed, ${overdueSnags.length} overdue`,
+            ...describeCategoryCounts(snags, categories)
+          ],
+          generatedAt: now
+        });
+        doc.addPage();
+      }
       
       // Add project title
       doc.setFontSize(24);
@@ -171,24 +229,76 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
       doc.text(projectName, margin, margin + 5);
       doc.setFontSize(12);
       doc.setTextColor(100, 100, 100);
-      const now = new Date();
       const dateTimeStr = `Generated on ${now.toLocaleDateString()} at ${now.toLocaleTimeString()}`;
       doc.text(dateTimeStr, margin, margin + 12);
       doc.line(margin, margin + 15, pageWidth - margin, margin + 15);
       let yPosition = margin + 25;
+
+      // Entries per trade and tag
+      const categoryLines = describeCategoryCounts(snags, categories);
+      if (categoryLines.length > 0) {
+        doc.setFontSize(10);
+        for (const line of categoryLines) {
+          const splitLine = doc.splitTextToSize(line, contentWidth);
+          doc.text(splitLine, margin, yPosition);
+          yPosition += splitLine.length * 5;
+        }
+        yPosition += 5;
+        doc.setTextColor(0, 0, 0);
+      }
+
+      // List overdue entries up front; each entry still gets its own page below
+      if (overdueSnags.length > 0) {
+        doc.setFontSize(14);
+        doc.setFont(undefined, 'bold');
+        doc.setTextColor(220, 38, 38);
+        doc.text(`Overdue Items (${overdueSnags.length})`, margin, yPosition);
+        yPosition += 8;
+
+        doc.setFontSize(10);
+        for (const snag of overdueSnags) {
+          if (yPosition > pageHeight - margin) {
+            doc.addPage();
+            yPosition = margin + 10;
+          }
+          const daysOverdue = getDaysOverdue(snag.dueDate!, now);
+          doc.setFont(undefined, 'normal');
+          doc.setTextColor(0, 0, 0);
+          doc.text(doc.splitTextToSize(`#${snag.snagNumber}: ${snag.name || ''}`, 90)[0], margin, yPosition);
+          doc.text(`Due ${format(new Date(snag.dueDate!), 'MM/dd/yy')}`, margin + 95, yPosition);
+          doc.setTextColor(220, 38, 38);
+          doc.text(`${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`, margin + 120, yPosition);
+          doc.setTextColor(100, 100, 100);
+          doc.text(doc.splitTextToSize(snag.assignedTo || 'Unassigned', contentWidth - 150)[0], margin + 150, yPosition);
+          yPosition += 6;
+        }
+
+        doc.setTextColor(0, 0, 0);
+        doc.setFont(undefined, 'normal');
+      }
       
-      for (const snag of snags) {
+      for (const snag of orderedSnags) {
         // Start each snag on a new page
         if (yPosition > margin + 25) {
           doc.addPage();
           yPosition = margin + 25;
         }
+
+        const group = groupStarts.get(snag.id);
+        if (group) {
+          doc.setFontSize(13);
+          doc.setFont(undefined, 'bold');
+          doc.setTextColor(37, 99, 235);
+          doc.text(`${group.location || 'No location'} (${group.snags.length})`, margin, yPosition);
+          yPosition += 10;
+        }
         
         // Add snag header with colored background
         doc.setFillColor(245, 245, 245);
         doc.rect(margin, yPosition - 5, contentWidth, 12, 'F');
         doc.setFontSize(16);
-        if (snag.status === 'Completed') {
+        const isDone = isDoneStatus(workflow, snag.status);
+        if (isDone) {
           doc.setTextColor(34, 197, 94); // text-green-600
           doc.setFont(undefined, 'bold');
         } else {
@@ -205,9 +315,14 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
         // Add snag details in a grid layout
         doc.setFontSize(10);
         const details = [
-          [`Priority: ${snag.priority}`, `Status: ${snag.status}${snag.status === 'Completed' && snag.completionDate ? ` (${format(new Date(snag.completionDate), 'MM/dd/yy')})` : ''}`],
+          [`Priority: ${snag.priority}`, `Status: ${getStatusLabel(workflow, snag.status)}${isDone && snag.completionDate ? ` (${format(new Date(snag.completionDate), 'MM/dd/yy')})` : ''}`],
           [`Assigned To: ${snag.assignedTo || 'Unassigned'}`, `Created: ${new Date(snag.createdAt).toLocaleDateString()}`],
-          [`Location: ${snag.location || 'No location specified'}`]
+          ...(snag.dueDate ? [[`Due: ${format(new Date(snag.dueDate), 'MM/dd/yy')}${isOverdue(snag.dueDate, isDone, now) ? ' (overdue)' : ''}`]] : []),
+          [`Location: ${snag.location || 'No location specified'}`],
+          ...(snag.trade || snag.tags?.length ? [[
+            `Trade: ${snag.trade ? getCategoryLabel(categories.trades, snag.trade) : 'None'}`,
+            ...(snag.tags?.length ? [`Tags: ${snag.tags.map(tag => getCategoryLabel(categories.tags, tag)).join(', ')}`] : [])
+          ]] : [])
         ];
         
         details.forEach(row => {
@@ -227,61 +342,77 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
           yPosition += (splitDescription.length * 5) + 8;
         }
         
-        // Process and add image with annotations
+        // Process and add images with annotations. Entries with before and
+        // after photos get the pair side by side; others their first photo.
         try {
-          const compressedImage = await compressImage(snag.photoPath);
-          
-          // Calculate image dimensions
-          const img = new Image();
-          await new Promise((resolve, reject) => {
-            const timeout = setTimeout(() => reject(new Error("Image load timeout")), 10000);
-            img.onload = () => {
-              clearTimeout(timeout);
-              resolve(null);
-            };
-            img.onerror = () => {
-              clearTimeout(timeout);
-              reject(new Error("Failed to load image"));
-            };
-            img.src = compressedImage;
-          });
-          
-          // Calculate image dimensions to fit width while maintaining aspect ratio
-          let imgWidth = contentWidth;
-          let imgHeight = (img.height * contentWidth) / img.width;
-          
-          // If image is too tall, scale to fit height
-          const maxHeight = pageHeight - yPosition - margin - (snag.annotations?.length ? 40 : 20);
-          if (imgHeight > maxHeight) {
-            imgHeight = maxHeight;
-            imgWidth = (img.width * maxHeight) / img.height;
+          const photos = getSnagPhotos(snag);
+          const pair = getBeforeAfterPair(photos);
+          const shown = pair
+            ? [{ label: 'Before', photo: pair.before }, { label: 'After', photo: pair.after }]
+            : photos.slice(0, 1).map(photo => ({ label: '', photo }));
+          if (shown.length === 0) {
+            throw new Error("Photo not found");
           }
 
-          // Center the image
-          const xOffset = (contentWidth - imgWidth) / 2;
-          doc.addImage(compressedImage, 'JPEG', margin + xOffset, yPosition, imgWidth, imgHeight);
-          
-          // Add watermark for completed snags
-          if (snag.status === 'Completed') {
-            addCompletedWatermark(
-              doc,
-              margin + xOffset,
-              yPosition,
-              imgWidth,
-              imgHeight,
-              snag.completionDate
-            );
+          const images: Awaited<ReturnType<typeof loadPdfImage>>[] = [];
+          for (const { photo } of shown) {
+            const photoUrl = await getMediaDataUrl(photo.photoId);
+            if (!photoUrl) {
+              throw new Error("Photo not found");
+            }
+            images.push(await loadPdfImage(photoUrl));
           }
+          const listedAnnotations = shown.flatMap(({ label, photo }) =>
+            photo.annotations.map((annotation, index) => ({
+              annotation,
+              text: `${label ? `${label} ` : ''}${index + 1}. ${annotation.text}`
+            }))
+          );
           
-          // Add annotation pins
-          if (snag.annotations?.length) {
-            drawAnnotationPins(doc, margin + xOffset, yPosition, imgWidth, imgHeight, snag.annotations);
-          }
+          // Fit each image to its share of the width, then shrink both to the
+          // same height if they are too tall
+          const gap = shown.length > 1 ? 6 : 0;
+          const labelHeight = pair ? 6 : 0;
+          const slotWidth = (contentWidth - gap * (shown.length - 1)) / shown.length;
+          const maxHeight = pageHeight - yPosition - margin - labelHeight - (listedAnnotations.length ? 40 : 20);
+          const imgHeight = Math.min(maxHeight, ...images.map(image => (image.height * slotWidth) / image.width));
+
+          shown.forEach(({ label, photo }, index) => {
+            const image = images[index];
+            const imgWidth = Math.min(slotWidth, (image.width * imgHeight) / image.height);
+            // Center the image in its slot
+            const imageX = margin + index * (slotWidth + gap) + (slotWidth - imgWidth) / 2;
+            const imageY = yPosition + labelHeight;
+
+            if (label) {
+              doc.setFontSize(11);
+              doc.setFont(undefined, 'bold');
+              doc.setTextColor(0, 0, 0);
+              doc.text(label, imageX, yPosition + 3);
+              doc.setFont(undefined, 'normal');
+            }
+            doc.addImage(image.dataUrl, 'JPEG', imageX, imageY, imgWidth, imgHeight);
+            
+            // Add watermark for completed snags, on the photo showing the fix
+            if (isDone && index === shown.length - 1) {
+              addCompletedWatermark(
+                doc,
+                imageX,
+                imageY,
+                imgWidth,
+                imgHeight,
+                snag.completionDate
+              );
+            }
+            
+            // Add annotation pins
+            drawAnnotationPins(doc, imageX, imageY, imgWidth, imgHeight, photo.annotations);
+          });
           
-          yPosition += imgHeight + 10;
+          yPosition += labelHeight + imgHeight + 10;
           
           // Add annotation list if there are annotations
-          if (snag.annotations?.length) {
+          if (listedAnnotations.length) {
             doc.setFontSize(12);
             doc.setTextColor(0, 0, 0);
             doc.text('Annotations:', margin, yPosition);
@@ -290,7 +421,7 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
             // Calculate remaining space on page
             const remainingSpace = pageHeight - margin - yPosition;
             // Calculate space needed per annotation (including padding)
-            const spacePerAnnotation = remainingSpace / snag.annotations.length;
+            const spacePerAnnotation = remainingSpace / listedAnnotations.length;
             
             // Start with normal font size and reduce if needed
             let fontSize = 10;
@@ -305,13 +436,10 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
             doc.setFontSize(fontSize);
             doc.setTextColor(60, 60, 60);
             
-            snag.annotations.forEach((annotation, index) => {
+            listedAnnotations.forEach(({ annotation, text: annotationText }) => {
               // Skip if annotation text is empty or undefined
               if (!annotation?.text?.trim()) return;
               
-              // Format annotation text with number and content
-              const annotationText = `${index + 1}. ${annotation.text}`;
-              
               // Calculate max width based on content width and current position
               const maxWidth = contentWidth - 10;
               const splitAnnotation = doc.splitTextToSize(annotationText, maxWidth);
@@ -355,6 +483,8 @@ export function PDFExport({ snags, projectName }: PDFExportProps) {
         }
       }
       
+      drawPageHeaders(doc, projectName, details, withCover ? 2 : 1);
+
       // Save the PDF
       const formattedDate = now.toISOString()
         .split('T')[0]; // YYYY-MM-DD
@@ -2,6 +2,13 @@ import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
 import { Snag } from "@/types/snag";
 import jsPDF from "jspdf";
+import { getMediaDataUrl, getProjectCategories, getProjectDetails, getProjectLocations, getProjectWorkflow } from "@/lib/db";
+import { getStatusColor, getStatusLabel, isDoneStatus } from "@/lib/workflow";
+import { getDaysOverdue, getOverdueSnags } from "@/lib/sla";
+import { groupSnagsByLocation } from "@/lib/locations";
+import { describeCategoryCounts } from "@/lib/categories";
+import { getBeforeAfterPair, getSnagPhotos } from "@/lib/photos";
+import { drawCoverPage, drawPageHeaders, hasCover, loadReportLogo } from "@/lib/reportCover";
 import { GState } from "jspdf";
 import { format } from "date-fns";
 
@@ -12,6 +19,8 @@ interface PDFExportListProps {
   onClose: () => void;
   sortOrder?: 'asc' | 'desc';
   sortField?: string;
+  // Orders rows by location, with a heading row where each location starts
+  groupByLocation?: boolean;
 }
 
 const compressImage = async (imageUrl: string, maxWidth = 800): Promise<string> => {
@@ -153,7 +162,8 @@ export default function PDFExportList({
   isDarkMode = false, 
   onClose,
   sortOrder = 'asc',
-  sortField = 'snagNumber' 
+  sortField = 'snagNumber',
+  groupByLocation = false
 }: PDFExportListProps) {
   const handleExport = async () => {
     if (!snags?.length) {
@@ -162,9 +172,19 @@ export default function PDFExportList({
     }
 
     try {
-      // Use the snags array directly as it's already sorted in the UI
-      // Remove the sorting logic here since snags should already be in the correct order
-      const sortedSnags = snags;
+      const workflow = await getProjectWorkflow(projectName);
+      const categories = await getProjectCategories(projectName);
+      const details = await getProjectDetails(projectName);
+      const logo = await loadReportLogo(details);
+
+      // Use the snags array directly as it's already sorted in the UI.
+      // Grouping keeps that order within each location.
+      const locationGroups = groupByLocation
+        ? groupSnagsByLocation(snags, await getProjectLocations(projectName))
+        : [];
+      const sortedSnags = groupByLocation ? locationGroups.flatMap(group => group.snags) : snags;
+      // Groups by the id of the entry they start with
+      const groupStarts = new Map(locationGroups.map(group => [group.snags[0].id, group]));
 
       // Initialize PDF in portrait mode (A4)
       const doc = new jsPDF({
@@ -193,6 +213,28 @@ export default function PDFExportList({
       // Verify we have enough margin space
       console.assert(totalWidth + (2 * margin) <= pageWidth, 'Content width exceeds page width');
       const contentWidth = totalWidth;
+      const now = new Date();
+
+      // Add summary counts
+      const completedCount = snags.filter(s => isDoneStatus(workflow, s.status)).length;
+      const openCount = snags.length - completedCount;
+      const overdueSnags = getOverdueSnags(snags, s => isDoneStatus(workflow, s.status), now);
+
+      const withCover = hasCover({ details, logo });
+      if (withCover) {
+        drawCoverPage(doc, {
+          projectName,
+          title: 'Snag List',
+          details,
+          logo,
+          summary: [
+            `Open Items: ${openCount}    Completed Items: ${completedCount}    Overdue Items: ${overdueSnags.length}`,
+            ...describeCategoryCounts(snags, categories)
+          ],
+          generatedAt: now
+        });
+        doc.addPage();
+      }
       
       // Add project title and metadata
       doc.setFontSize(24);
@@ -200,20 +242,24 @@ export default function PDFExportList({
       doc.text(projectName, margin, margin + 5);
       doc.setFontSize(12);
       doc.setTextColor(100, 100, 100);
-      const now = new Date();
       const dateTimeStr = `Generated on ${now.toLocaleDateString()} at ${now.toLocaleTimeString()}`;
       doc.text(dateTimeStr, margin, margin + 12);
 
-      // Add summary counts
-      const inProgressCount = snags.filter(s => s.status === 'In Progress').length;
-      const completedCount = snags.filter(s => s.status === 'Completed').length;
       doc.setFontSize(11);
       doc.setTextColor(0, 0, 0);
-      doc.text(`In Progress Items: ${inProgressCount}    Completed Items: ${completedCount}`, margin, margin + 20);
+      doc.text(`Open Items: ${openCount}    Completed Items: ${completedCount}    Overdue Items: ${overdueSnags.length}`, margin, margin + 20);
+
+      // Entries per trade and tag, pushing the header line down
+      doc.setFontSize(10);
+      doc.setTextColor(100, 100, 100);
+      const categoryLines: string[] = describeCategoryCounts(snags, categories)
+        .flatMap(line => doc.splitTextToSize(line, contentWidth));
+      categoryLines.forEach((line, index) => doc.text(line, margin, margin + 26 + index * 5));
+      const headerBottom = margin + 25 + categoryLines.length * 5;
       
       // Draw header line
       doc.setDrawColor(200, 200, 200);
-      doc.line(margin, margin + 25, margin + contentWidth, margin + 25);
+      doc.line(margin, headerBottom, margin + contentWidth, headerBottom);
 
       // Define standard font sizes
       const fontSizes = {
@@ -238,7 +284,7 @@ export default function PDFExportList({
       };
 
       // Table headers
-      let yPosition = margin + 35;
+      let yPosition = headerBottom + 10;
       const headers = ['Nr', 'Photo', 'Details', 'Dates', 'Status', 'Assigned'];
       
       const drawTableHeader = (startY: number) => {
@@ -262,36 +308,102 @@ export default function PDFExportList({
         return startY + 10;
       };
 
+      // Overdue section, most overdue first, ahead of the full table
+      if (overdueSnags.length > 0) {
+        doc.setFontSize(fontSizes.heading);
+        doc.setFont(undefined, 'bold');
+        doc.setTextColor(220, 38, 38);
+        doc.text(`Overdue Items (${overdueSnags.length})`, margin, yPosition);
+        yPosition += 7;
+
+        doc.setFontSize(fontSizes.small);
+        for (const snag of overdueSnags) {
+          if (yPosition > pageHeight - margin) {
+            doc.addPage();
+            yPosition = margin + 10;
+          }
+          const daysOverdue = getDaysOverdue(snag.dueDate!, now);
+          doc.setFont(undefined, 'bold');
+          doc.setTextColor(0, 0, 0);
+          doc.text(`#${snag.snagNumber}`, margin, yPosition);
+          doc.setFont(undefined, 'normal');
+          const name = doc.splitTextToSize(snag.name || 'Untitled Entry', 80)[0];
+          doc.text(name, margin + 15, yPosition);
+          doc.text(`Due ${formatDateSafely(snag.dueDate)}`, margin + 100, yPosition);
+          doc.setTextColor(220, 38, 38);
+          doc.text(`${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`, margin + 125, yPosition);
+          doc.setTextColor(100, 100, 100);
+          doc.text(doc.splitTextToSize(snag.assignedTo || 'Unassigned', 30)[0], margin + 150, yPosition);
+          yPosition += 5;
+        }
+
+        doc.setDrawColor(200, 200, 200);
+        doc.line(margin, yPosition, margin + contentWidth, yPosition);
+        yPosition += 10;
+      }
+
       // Initial header
-      yPosition = drawTableHeader(margin + 35);
+      if (yPosition + 20 > pageHeight - margin) {
+        doc.addPage();
+        yPosition = margin + 10;
+      }
+      yPosition = drawTableHeader(yPosition);
 
       // Add rows - using sortedSnags which maintains UI order
       for (let i = 0; i < sortedSnags.length; i++) {
         const snag = sortedSnags[i];
+        const isDone = isDoneStatus(workflow, snag.status);
         const baseRowHeight = 40;
         let rowHeight = baseRowHeight;
         let photoWidth = colWidths.photo;
+
+        const group = groupStarts.get(snag.id);
+        if (group) {
+          // Keep the heading on the same page as its first row
+          if (yPosition + baseRowHeight + 22 > pageHeight - margin) {
+            doc.addPage();
+            yPosition = margin + 10;
+            yPosition = drawTableHeader(yPosition);
+          }
+          doc.setFontSize(fontSizes.heading);
+          doc.setFont(undefined, 'bold');
+          doc.setTextColor(37, 99, 235);
+          doc.text(`${group.location || 'No location'} (${group.snags.length})`, margin, yPosition);
+          doc.setFont(undefined, 'normal');
+          doc.setTextColor(0, 0, 0);
+          yPosition += 8;
+        }
         
         try {
-          const photoBase64 = await compressImage(snag.photoPath);
-          
-          // Calculate optimal photo dimensions for portrait layout
-          const img = new Image();
-          await new Promise((resolve) => {
-            img.onload = resolve;
-            img.src = photoBase64;
-          });
-          
-          const imgAspectRatio = img.width / img.height;
-          const maxPhotoHeight = baseRowHeight - 8;
-          const maxPhotoWidth = colWidths.photo - 6;
-          
-          let imgWidth = maxPhotoWidth;
-          let imgHeight = imgWidth / imgAspectRatio;
-          
-          if (imgHeight > maxPhotoHeight) {
-            imgHeight = maxPhotoHeight;
-            imgWidth = imgHeight * imgAspectRatio;
+          // Entries with before and after photos show both, stacked in a
+          // taller row; others their first photo
+          const photos = getSnagPhotos(snag);
+          const pair = getBeforeAfterPair(photos);
+          const shown = pair
+            ? [{ label: 'Before', photo: pair.before }, { label: 'After', photo: pair.after }]
+            : photos.slice(0, 1).map(photo => ({ label: '', photo }));
+          if (shown.length === 0) {
+            throw new Error("Photo not found");
+          }
+
+          const photoImages: { label: string; annotations: any[]; dataUrl: string; aspectRatio: number }[] = [];
+          for (const { label, photo } of shown) {
+            const photoUrl = await getMediaDataUrl(photo.photoId);
+            if (!photoUrl) {
+              throw new Error("Photo not found");
+            }
+            const photoBase64 = await compressImage(photoUrl);
+            
+            // Read the size to fit the photo into its column
+            const img = new Image();
+            await new Promise((resolve) => {
+              img.onload = resolve;
+              img.src = photoBase64;
+            });
+            photoImages.push({ label, annotations: photo.annotations, dataUrl: photoBase64, aspectRatio: img.width / img.height });
+          }
+          if (pair) {
+            rowHeight = baseRowHeight * 1.6;
           }
 
           // Check if we need a new page - add more padding for boxes
@@ -302,9 +414,9 @@ export default function PDFExportList({
           }
 
           // Draw box and background
-          drawContentBox(yPosition, rowHeight, snag.status === 'Completed');
+          drawContentBox(yPosition, rowHeight, isDone);
 
-          if (snag.status === 'Completed') {
+          if (isDone) {
             // Add large "Completed" watermark - adjust position to match new width
             const watermarkFontSize = 20;
             doc.setFontSize(watermarkFontSize);
@@ -341,8 +453,12 @@ export default function PDFExportList({
           doc.setFontSize(fontSizes.body);  // Changed from heading to body size
           doc.text(`#${snag.snagNumber}`, xPosition + 3, yPosition);
 
-          // Add annotations under the number in the first column
-          if (snag.annotations?.length) {
+          // Add annotations under the number in the first column, prefixed
+          // B/A for before and after photos
+          const listedAnnotations = photoImages.flatMap(({ label, annotations }) =>
+            annotations.map((ann, idx) => `${label.charAt(0)}${idx + 1}. ${ann.text}`)
+          );
+          if (listedAnnotations.length) {
             doc.setFontSize(fontSizes.small);  // Changed from tiny to small
             doc.setFont(undefined, 'normal');
             doc.setTextColor(100, 100, 100);
@@ -356,9 +472,9 @@ export default function PDFExportList({
 
             // List annotations more compactly
             doc.setFont(undefined, 'normal');
-            snag.annotations.forEach((ann, idx) => {
+            listedAnnotations.forEach(text => {
               const annotText = doc.splitTextToSize(
-                `${idx + 1}. ${ann.text}`,
+                text,
                 colWidths.nr - 5
               );
               doc.text(annotText, xPosition + 3, annotY);
@@ -367,26 +483,38 @@ export default function PDFExportList({
           }
           xPosition += colWidths.nr;
 
-          // Photo section - adjusted for new width
-          if (photoBase64) {
+          // Photo section - adjusted for new width. A before/after pair
+          // splits the height, with a label over each photo.
+          const photoLabelHeight = pair ? 4 : 0;
+          const slotHeight = (rowHeight - 4) / photoImages.length;
+          photoImages.forEach(({ label, annotations, dataUrl, aspectRatio }, index) => {
             // Calculate maximum possible dimensions while maintaining aspect ratio
             const maxPhotoWidth = colWidths.photo - 4;  // 2mm padding each side
-            const maxPhotoHeight = rowHeight - 4;       // 2mm padding top/bottom
+            const maxPhotoHeight = slotHeight - photoLabelHeight - (pair ? 1 : 0);
             
             let imgWidth = maxPhotoWidth;
-            let imgHeight = imgWidth / imgAspectRatio;
+            let imgHeight = imgWidth / aspectRatio;
             
             if (imgHeight > maxPhotoHeight) {
               imgHeight = maxPhotoHeight;
-              imgWidth = imgHeight * imgAspectRatio;
+              imgWidth = imgHeight * aspectRatio;
             }
 
             // Center the photo in its column
             const xOffset = xPosition + (colWidths.photo - imgWidth) / 2;
-            const yOffset = yPosition + 2;
+            const yOffset = yPosition + 2 + index * slotHeight + photoLabelHeight;
+
+            if (label) {
+              doc.setFontSize(fontSizes.tiny);
+              doc.setFont(undefined, 'bold');
+              doc.setTextColor(100, 100, 100);
+              doc.text(label, xOffset, yOffset - 1);
+              doc.setFont(undefined, 'normal');
+              doc.setTextColor(0, 0, 0);
+            }
             
             doc.addImage(
-              photoBase64,
+              dataUrl,
               'JPEG',
               xOffset,
               yOffset,
@@ -394,7 +522,8 @@ export default function PDFExportList({
               imgHeight
             );
 
-            if (snag.status === 'Completed') {
+            // Watermark the photo showing the fix
+            if (isDone && index === photoImages.length - 1) {
               addCompletedWatermark(
                 doc,
                 xOffset,
@@ -405,17 +534,17 @@ export default function PDFExportList({
               );
             }
 
-            if (snag.annotations?.length) {
+            if (annotations.length) {
               drawAnnotationPins(
                 doc,
                 xOffset,
                 yOffset,
                 imgWidth,
                 imgHeight,
-                snag.annotations
+                annotations
               );
             }
-          }
+          });
           xPosition += colWidths.photo;
 
           // Details section - adjusted for new width
@@ -512,11 +641,10 @@ export default function PDFExportList({
           xPosition += colWidths.dates;
 
           // Status - more readable
-          const statusColor = snag.status === 'Completed' ? [34, 197, 94] : [255, 140, 0];
-          doc.setTextColor(statusColor[0], statusColor[1], statusColor[2]);
+          doc.setTextColor(getStatusColor(workflow, snag.status));
           doc.setFont(undefined, 'bold');
           doc.setFontSize(fontSizes.small);  // Using small size for status
-          doc.text(snag.status, xPosition + (colWidths.status / 2), yPosition + 4, { align: 'center' });
+          doc.text(getStatusLabel(workflow, snag.status), xPosition + (colWidths.status / 2), yPosition + 4, { align: 'center' });
           xPosition += colWidths.status;
 
           // Assigned To - more readable
@@ -536,6 +664,8 @@ export default function PDFExportList({
         }
       }
 
+      drawPageHeaders(doc, projectName, details, withCover ? 2 : 1);
+
       // Save the PDF
       const formattedDate = now.toISOString().split('T')[0];
       const formattedTime = now.toTimeString()
@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Images, MessageSquare, Plus, SplitSquareHorizontal, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from './ui/carousel';
+import MediaImage from './MediaImage';
+import { BeforeAfterSlider } from './BeforeAfterSlider';
+import { addSnagPhoto, arrangeSnagPhotos, removeSnagPhoto } from '@/lib/db';
+import { PHOTO_ROLES, PhotoRole, SnagPhoto, getBeforeAfterPair, getPhotoRoleLabel, getSnagPhotos } from '@/lib/photos';
+import { cn, preparePhotoFile } from '@/lib/utils';
+import { Snag } from '@/types/snag';
+
+interface PhotoGalleryProps {
+  snag: Snag;
+  // Called with the saved entry after every change
+  onChange: (snag: Snag) => void;
+  onAnnotate: (photo: SnagPhoto) => void;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+export function PhotoGallery({ snag, onChange, onAnnotate, onClose, isDarkMode = false }: PhotoGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [mode, setMode] = useState<'photos' | 'compare'>('photos');
+  const [newPhotoRole, setNewPhotoRole] = useState<PhotoRole>('after');
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const photos = getSnagPhotos(snag);
+  const pair = getBeforeAfterPair(photos);
+  const photo = photos[Math.min(current, photos.length - 1)];
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    api.on('reInit', onSelect);
+    return () => {
+      api.off('select', onSelect);
+      api.off('reInit', onSelect);
+    };
+  }, [api]);
+
+  const run = async (action: () => Promise<Snag>, failure: string, selectIndex?: number) => {
+    try {
+      setIsBusy(true);
+      onChange(await action());
+      if (selectIndex !== undefined) {
+        // Wait for the new slides to render before scrolling to them
+        setTimeout(() => api?.scrollTo(selectIndex), 0);
+      }
+    } catch (error) {
+      console.error(`❌ ${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const arrange = (next: SnagPhoto[], selectIndex?: number) =>
+    run(() => arrangeSnagPhotos(snag.id, next.map(({ id, role }) => ({ id, role }))), 'Failed to update photos', selectIndex);
+
+  const setRole = (role: PhotoRole) => {
+    if (!photo || photo.role === role) return;
+    arrange(photos.map(candidate => candidate.id === photo.id ? { ...candidate, role } : candidate));
+  };
+
+  const move = (offset: number) => {
+    const target = current + offset;
+    if (target < 0 || target >= photos.length) return;
+    const next = [...photos];
+    [next[current], next[target]] = [next[target], next[current]];
+    arrange(next, target);
+  };
+
+  const remove = () => {
+    if (!photo || !confirm('Delete this photo and its annotations?')) return;
+    run(() => removeSnagPhoto(snag.id, photo.id), 'Failed to delete photo', Math.max(0, current - 1));
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const selected = Array.from(files);
+    await run(async () => {
+      let updated: Snag = snag;
+      for (const file of selected) {
+        updated = await addSnagPhoto(snag.id, await preparePhotoFile(file), newPhotoRole);
+      }
+      toast.success(`Added ${selected.length} photo${selected.length === 1 ? '' : 's'}`);
+      return updated;
+    }, 'Failed to add photo', photos.length + selected.length - 1);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const panel = isDarkMode ? 'bg-gray-900 text-white' : 'bg-white text-gray-900';
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const toggleClass = (isActive: boolean) => cn(
+    'px-2.5 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-40',
+    isActive
+      ? 'bg-blue-600 text-white'
+      : isDarkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+      <div className={cn('w-full max-w-4xl max-h-[95vh] overflow-y-auto rounded-lg p-4 space-y-4', panel)} onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <Images className="h-5 w-5 flex-shrink-0" />
+            <h3 className="font-semibold truncate">#{snag.snagNumber} {snag.name || 'Untitled Entry'}</h3>
+            <span className={cn('text-sm flex-shrink-0', mutedText)}>
+              {photos.length} photo{photos.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button className={toggleClass(mode === 'photos')} onClick={() => setMode('photos')}>Photos</button>
+            <button
+              className={toggleClass(mode === 'compare')}
+              onClick={() => setMode('compare')}
+              disabled={!pair}
+              title={pair ? 'Compare before and after' : 'Add an "after" photo to compare'}
+            >
+              <SplitSquareHorizontal className="inline h-3 w-3 mr-1" />
+              Before / After
+            </button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} title="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {mode === 'compare' && pair ? (
+          <BeforeAfterSlider beforeId={pair.before.photoId} afterId={pair.after.photoId} />
+        ) : (
+          <>
+            <Carousel setApi={setApi} className="mx-12">
+              <CarouselContent>
+                {photos.map((item, index) => (
+                  <CarouselItem key={item.id}>
+                    <div className="relative flex items-center justify-center bg-black rounded-lg overflow-hidden h-[55vh]">
+                      <MediaImage mediaId={item.photoId} alt={`${snag.name} photo ${index + 1}`} className="w-full h-[55vh] object-contain" />
+                      <span className="absolute top-3 left-3 bg-black/70 text-white px-2 py-1 rounded-full text-xs font-medium">
+                        {getPhotoRoleLabel(item.role)} · {index + 1}/{photos.length}
+                      </span>
+                      {item.annotations.length > 0 && (
+                        <span className="absolute top-3 right-3 bg-black/70 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1">
+                          <MessageSquare className="h-3 w-3" />
+                          {item.annotations.length}
+                        </span>
+                      )}
+                    </div>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+
+            {photo && (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-1.5">
+                  {PHOTO_ROLES.map(role => (
+                    <button
+                      key={role.id}
+                      className={toggleClass(photo.role === role.id)}
+                      onClick={() => setRole(role.id)}
+                      disabled={isBusy}
+                    >
+                      {role.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => move(-1)} disabled={isBusy || current === 0} title="Move earlier">
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => move(1)} disabled={isBusy || current >= photos.length - 1} title="Move later">
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onAnnotate(photo)} disabled={isBusy}>
+                    <MessageSquare className="h-4 w-4 mr-1" />
+                    Annotate
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={remove} disabled={isBusy || photos.length === 1} title={photos.length === 1 ? 'An entry needs at least one photo' : 'Delete photo'}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Thumbnails */}
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {photos.map((item, index) => (
+                <button
+                  key={item.id}
+                  onClick={() => api?.scrollTo(index)}
+                  className={cn(
+                    'relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border-2',
+                    index === current ? 'border-blue-500' : 'border-transparent opacity-70 hover:opacity-100'
+                  )}
+                  title={getPhotoRoleLabel(item.role)}
+                >
+                  <MediaImage mediaId={item.thumbnailId} alt="" className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] text-center">
+                    {getPhotoRoleLabel(item.role)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-200 dark:border-gray-700">
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+            <Plus className="h-4 w-4 mr-1" />
+            {isBusy ? 'Saving...' : 'Add Photos'}
+          </Button>
+          <span className={cn('text-xs', mutedText)}>as</span>
+          {PHOTO_ROLES.map(role => (
+            <button key={role.id} className={toggleClass(newPhotoRole === role.id)} onClick={() => setNewPhotoRole(role.id)}>
+              {role.label}
+            </button>
+          ))}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
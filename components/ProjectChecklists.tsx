@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, ListChecks, Play, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  applyChecklistTemplate,
+  deleteChecklist,
+  failChecklistItem,
+  getChecklistTemplates,
+  getChecklists,
+  setChecklistItemResult
+} from '@/lib/db';
+import { CHECKLIST_RESULTS, Checklist, ChecklistItem, ChecklistTemplate, summarizeChecklist } from '@/lib/checklists';
+import { cn, preparePhotoFile } from '@/lib/utils';
+
+interface ProjectChecklistsProps {
+  isOpen: boolean;
+  projectName: string;
+  onClose: () => void;
+  // Called after a failed item raised an entry
+  onEntriesChange: () => void;
+  isDarkMode?: boolean;
+}
+
+export function ProjectChecklists({ isOpen, projectName, onClose, onEntriesChange, isDarkMode = false }: ProjectChecklistsProps) {
+  const [checklists, setChecklists] = useState<Checklist[]>([]);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState('');
+  // Item waiting on a photo before it can be failed
+  const [failingItemId, setFailingItemId] = useState<string | null>(null);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [projectChecklists, library] = await Promise.all([getChecklists(projectName), getChecklistTemplates()]);
+      setChecklists(projectChecklists);
+      setTemplates(library);
+      setSelectedId(prev => projectChecklists.some(checklist => checklist.id === prev) ? prev : projectChecklists[0]?.id ?? null);
+    } catch (error) {
+      console.error('❌ Error loading checklists:', error);
+      toast.error('Failed to load checklists');
+    }
+  }, [projectName]);
+
+  useEffect(() => {
+    if (isOpen && projectName) {
+      load();
+    }
+  }, [isOpen, projectName, load]);
+
+  const checklist = checklists.find(candidate => candidate.id === selectedId) ?? null;
+  const counts = checklist ? summarizeChecklist(checklist.items) : null;
+
+  const replaceChecklist = (updated: Checklist) => {
+    setChecklists(prev => prev.map(candidate => candidate.id === updated.id ? updated : candidate));
+  };
+
+  const handleApply = async () => {
+    if (!templateId) return;
+
+    try {
+      const started = await applyChecklistTemplate(templateId, projectName);
+      toast.success(`Started "${started.name}" with ${started.items.length} items`);
+      setTemplateId('');
+      await load();
+      setSelectedId(started.id);
+    } catch (error) {
+      console.error('❌ Failed to apply checklist template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start checklist');
+    }
+  };
+
+  const handleResult = async (item: ChecklistItem, result: typeof CHECKLIST_RESULTS[number]['id']) => {
+    if (!checklist) return;
+
+    if (result === 'fail') {
+      setFailingItemId(item.id);
+      fileInputRef.current?.click();
+      return;
+    }
+
+    try {
+      setBusyItemId(item.id);
+      // Clicking the current result again clears it
+      replaceChecklist(await setChecklistItemResult(checklist.id, item.id, item.result === result ? 'pending' : result));
+    } catch (error) {
+      console.error('❌ Failed to record checklist result:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record result');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    const itemId = failingItemId;
+    setFailingItemId(null);
+    if (!file || !checklist || !itemId) return;
+
+    try {
+      setBusyItemId(itemId);
+      replaceChecklist(await failChecklistItem(checklist.id, itemId, await preparePhotoFile(file)));
+      toast.success('Entry raised for the failed item');
+      onEntriesChange();
+    } catch (error) {
+      console.error('❌ Failed to fail checklist item:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to raise entry');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!checklist || !confirm(`Delete the checklist "${checklist.name}"? Entries raised from it are kept.`)) return;
+
+    try {
+      await deleteChecklist(checklist.id);
+      toast.success('Checklist deleted');
+      await load();
+    } catch (error) {
+      console.error('❌ Failed to delete checklist:', error);
+      toast.error('Failed to delete checklist');
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const resultClass = (isActive: boolean, result: string) => cn(
+    'px-2.5 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-40',
+    isActive
+      ? result === 'pass' ? 'bg-green-600 text-white' : result === 'fail' ? 'bg-red-600 text-white' : 'bg-gray-500 text-white'
+      : isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[680px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Checklists
+          </DialogTitle>
+          <DialogDescription>
+            Mark each item pass, fail or N/A. Failing an item asks for a photo and raises an entry from it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={templateId} onValueChange={setTemplateId}>
+            <SelectTrigger>
+              <SelectValue placeholder={templates.length ? 'Start a checklist from a template' : 'No templates in the library yet'} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name} ({template.items.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleApply} disabled={!templateId} className="flex-shrink-0">
+            <Play className="h-4 w-4 mr-1" />
+            Start
+          </Button>
+        </div>
+
+        {checklists.length > 0 && (
+          <div className="flex items-center gap-2 pt-3 border-t">
+            <Select value={selectedId ?? ''} onValueChange={setSelectedId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {checklists.map(option => {
+                  const optionCounts = summarizeChecklist(option.items);
+                  return (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name} · {option.items.length - optionCounts.pending}/{option.items.length} checked
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" className="flex-shrink-0" onClick={handleDelete} title="Delete checklist">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {checklist && counts && (
+          <div className="space-y-2">
+            <p className={`text-xs ${mutedText}`}>
+              {counts.pass} passed · {counts.fail} failed · {counts.na} N/A · {counts.pending} to check
+            </p>
+            {checklist.items.map((item, index) => (
+              <div key={item.id} className={`flex items-center gap-3 rounded-md border p-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                <span className={`w-6 text-right text-xs ${mutedText}`}>{index + 1}.</span>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium">{item.title}</div>
+                  <div className={`truncate text-xs ${mutedText}`}>
+                    {[item.location, item.priority, item.trade].filter(Boolean).join(' · ')}
+                  </div>
+                </div>
+                {item.snagId ? (
+                  <span className="flex flex-shrink-0 items-center gap-1 rounded-full bg-red-600 px-2.5 py-1 text-xs font-medium text-white">
+                    <Camera className="h-3 w-3" />
+                    Entry raised
+                  </span>
+                ) : (
+                  <div className="flex flex-shrink-0 gap-1">
+                    {CHECKLIST_RESULTS.map(result => (
+                      <button
+                        key={result.id}
+                        className={resultClass(item.result === result.id, result.id)}
+                        onClick={() => handleResult(item, result.id)}
+                        disabled={busyItemId === item.id}
+                      >
+                        {busyItemId === item.id && result.id === 'fail' ? 'Saving...' : result.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {checklists.length === 0 && (
+          <p className={`text-sm ${mutedText}`}>No checklists in this project yet.</p>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => handlePhoto(e.target.files?.[0])}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
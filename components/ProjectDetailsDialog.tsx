@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { ProjectDetailsFields, ProjectDetailsForm } from './ProjectDetailsFields';
+import { getProject, updateProjectDetails } from '@/lib/db';
+import { EMPTY_PROJECT_DETAILS, validateProjectDetails } from '@/lib/projectDetails';
+
+interface ProjectDetailsDialogProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  onSaved: () => void;
+  isDarkMode?: boolean;
+}
+
+export function ProjectDetailsDialog({ isOpen, projectId, onClose, onSaved, isDarkMode = false }: ProjectDetailsDialogProps) {
+  const [projectName, setProjectName] = useState('');
+  const [details, setDetails] = useState<ProjectDetailsForm>(EMPTY_PROJECT_DETAILS);
+  const [storedLogoId, setStoredLogoId] = useState<string | null>(null);
+  const [logo, setLogo] = useState<Blob | null | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+
+    const load = async () => {
+      try {
+        const project = await getProject(projectId);
+        if (!project) return;
+        const { logoId, ...saved } = project.details ?? EMPTY_PROJECT_DETAILS;
+        setProjectName(project.name);
+        setDetails(saved);
+        setStoredLogoId(logoId);
+        setLogo(undefined);
+      } catch (error) {
+        console.error('❌ Failed to load project details:', error);
+        toast.error('Failed to load project details');
+      }
+    };
+
+    load();
+  }, [isOpen, projectId]);
+
+  const errors = validateProjectDetails({ ...details, logoId: storedLogoId });
+
+  const handleSave = async () => {
+    if (!projectId) return;
+
+    try {
+      setIsSaving(true);
+      await updateProjectDetails(projectId, details, logo);
+      toast.success('Project details saved');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save project details:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save project details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[480px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Project Details
+          </DialogTitle>
+          <DialogDescription>
+            Printed on the cover page and page headers of reports for {projectName || 'this project'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+          className="space-y-4"
+        >
+          <ProjectDetailsFields
+            details={details}
+            onChange={setDetails}
+            storedLogoId={storedLogoId}
+            logo={logo}
+            onLogoChange={setLogo}
+            isDarkMode={isDarkMode}
+          />
+
+          {errors.length > 0 && (
+            <ul className="space-y-0.5 text-xs text-red-500">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || errors.length > 0}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
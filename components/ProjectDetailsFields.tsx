@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ImagePlus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { useMediaUrl } from '@/hooks/use-media-url';
+import { LOGO_MAX_BYTES, LOGO_TYPES, PROJECT_DETAIL_FIELDS, ProjectDetails } from '@/lib/projectDetails';
+
+export type ProjectDetailsForm = Omit<ProjectDetails, 'logoId'>;
+
+interface ProjectDetailsFieldsProps {
+  details: ProjectDetailsForm;
+  onChange: (details: ProjectDetailsForm) => void;
+  // The saved logo, shown until a new one is picked or it's removed
+  storedLogoId?: string | null;
+  // A picked logo, null once removed, undefined to keep the saved one
+  logo: Blob | null | undefined;
+  onLogoChange: (logo: Blob | null) => void;
+  isDarkMode?: boolean;
+}
+
+function useObjectUrl(blob: Blob | null) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
+
+export function ProjectDetailsFields({
+  details,
+  onChange,
+  storedLogoId = null,
+  logo,
+  onLogoChange,
+  isDarkMode = false
+}: ProjectDetailsFieldsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const storedUrl = useMediaUrl(storedLogoId, logo === undefined);
+  const pickedUrl = useObjectUrl(logo ?? null);
+  const logoUrl = logo === undefined ? storedUrl : pickedUrl;
+
+  const handleFile = (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      toast.error('Logo must be a PNG or JPEG image');
+      return;
+    }
+    if (file.size > LOGO_MAX_BYTES) {
+      toast.error('Logo must be under 1 MB');
+      return;
+    }
+    onLogoChange(file);
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="space-y-3">
+      {PROJECT_DETAIL_FIELDS.map(field => (
+        <div key={field.id} className="space-y-1">
+          <Label htmlFor={`project-${field.id}`}>{field.label}</Label>
+          <Input
+            id={`project-${field.id}`}
+            value={details[field.id]}
+            placeholder={field.placeholder}
+            onChange={(e) => onChange({ ...details, [field.id]: e.target.value })}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label htmlFor="project-inspectionDate">Inspection date</Label>
+        <Input
+          id="project-inspectionDate"
+          type="date"
+          value={details.inspectionDate ? format(details.inspectionDate, 'yyyy-MM-dd') : ''}
+          onChange={(e) => onChange({
+            ...details,
+            inspectionDate: e.target.value ? new Date(`${e.target.value}T00:00:00`) : null
+          })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label>Logo</Label>
+        <div className="flex items-center gap-3">
+          <div className={`h-14 w-28 flex items-center justify-center rounded border ${isDarkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+            {logoUrl ? (
+              <img src={logoUrl} alt="Project logo" className="max-h-12 max-w-[6.5rem] object-contain" />
+            ) : (
+              <span className={`text-xs ${mutedText}`}>No logo</span>
+            )}
+          </div>
+          <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <ImagePlus className="h-4 w-4 mr-1" />
+            {logoUrl ? 'Replace' : 'Upload'}
+          </Button>
+          {logoUrl && (
+            <Button type="button" size="sm" variant="ghost" onClick={() => onLogoChange(null)} title="Remove logo">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={LOGO_TYPES.join(',')}
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+        <p className={`text-xs ${mutedText}`}>PNG or JPEG, up to 1 MB. Printed on report cover pages.</p>
+      </div>
+    </div>
+  );
+}
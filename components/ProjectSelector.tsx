@@ -1,13 +1,41 @@
 import { useState, useEffect } from 'react';
-import { PlusCircle, Trash2 } from 'lucide-react';
-import { getAllProjects, getAllSnags, deleteProject, getProject } from '@/lib/db';
+import { PlusCircle, Trash2, Pencil, Workflow, Clock, MapPin, Tag, FileText, Merge, Copy, Archive, MoreVertical } from 'lucide-react';
+import { getAllProjects, getAllSnags, deleteProject, getProject, renameProject } from '@/lib/db';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { WorkflowEditor } from "./WorkflowEditor";
+import { SlaSettingsDialog } from "./SlaSettingsDialog";
+import { LocationEditor } from "./LocationEditor";
+import { CategoryEditor } from "./CategoryEditor";
+import { ProjectDetailsDialog } from "./ProjectDetailsDialog";
+import { MergeProjectsDialog } from "./MergeProjectsDialog";
+import { CloneProjectDialog } from "./CloneProjectDialog";
+import { ProjectStatusDialog } from "./ProjectStatusDialog";
+import { PROJECT_STATUSES, ProjectStatus } from "@/lib/projectStatus";
 
 interface Project {
   id: string;
   name: string;
   count: number;
+  // Current name of the project it was cloned from
+  clonedFrom: string | null;
+  status: ProjectStatus;
+}
+
+// The source's current name, or its name when cloned if it is gone
+function getCloneSourceName(
+  project: Awaited<ReturnType<typeof getAllProjects>>[number],
+  projects: Awaited<ReturnType<typeof getAllProjects>>
+): string | null {
+  if (!project.clonedFrom) return null;
+  return projects.find(other => other.id === project.clonedFrom?.projectId)?.name ?? project.clonedFrom.projectName;
 }
 
 interface ProjectSelectorProps {
@@ -15,6 +43,16 @@ interface ProjectSelectorProps {
   onProjectSelect: (project: string) => void;
   onNewProject: () => void;
   refreshTrigger?: number;
+  // Called after a project's status workflow is saved
+  onWorkflowChange?: () => void;
+  // Called after a project's location tree is saved
+  onLocationsChange?: () => void;
+  // Called after a project's trades and tags are saved
+  onCategoriesChange?: () => void;
+  // Called after a project's report details are saved
+  onDetailsChange?: () => void;
+  // Called after a project is closed, archived or reopened, or entries waived
+  onStatusChange?: () => void;
   isDarkMode?: boolean;
 }
 
@@ -23,12 +61,30 @@ export function ProjectSelector({
   onProjectSelect, 
   onNewProject,
   refreshTrigger = 0,
+  onWorkflowChange,
+  onLocationsChange,
+  onCategoriesChange,
+  onDetailsChange,
+  onStatusChange,
   isDarkMode = false
 }: ProjectSelectorProps) {
   const [projects, setProjects] = useState<Project[]>([]);
   const [deleteConfirmProject, setDeleteConfirmProject] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [renamingProjectId, setRenamingProjectId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [renameTrigger, setRenameTrigger] = useState(0);
+  const [workflowProjectId, setWorkflowProjectId] = useState<string | null>(null);
+  const [slaProjectId, setSlaProjectId] = useState<string | null>(null);
+  const [locationsProjectId, setLocationsProjectId] = useState<string | null>(null);
+  const [categoriesProjectId, setCategoriesProjectId] = useState<string | null>(null);
+  const [detailsProjectId, setDetailsProjectId] = useState<string | null>(null);
+  const [mergeProjectId, setMergeProjectId] = useState<string | null>(null);
+  const [cloneProjectId, setCloneProjectId] = useState<string | null>(null);
+  const [statusProjectId, setStatusProjectId] = useState<string | null>(null);
+  // Archived projects stay out of the list unless asked for
+  const [showArchived, setShowArchived] = useState(false);
 
   useEffect(() => {
     const loadProjects = async () => {
@@ -48,14 +104,34 @@ export function ProjectSelector({
       const projectsWithCounts = projectList.map(project => ({
         id: project.id,
         name: project.name,
-        count: snagCounts.get(project.name) || 0
+        count: snagCounts.get(project.name) || 0,
+        clonedFrom: getCloneSourceName(project, projectList),
+        status: project.status ?? 'active'
       })).sort((a, b) => a.name.localeCompare(b.name));
 
       setProjects(projectsWithCounts);
     };
 
     loadProjects();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, renameTrigger]);
+
+  const handleRenameProject = async (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    setError(null);
+    try {
+      const renamed = await renameProject(projectId, renameValue);
+      setRenamingProjectId(null);
+      if (selectedProject === project.name) {
+        onProjectSelect(renamed.name);
+      }
+      setRenameTrigger(prev => prev + 1);
+    } catch (error) {
+      console.error('Failed to rename project:', error);
+      setError(error instanceof Error ? error.message : 'Failed to rename project. Please try again.');
+    }
+  };
 
   const handleDeleteProject = async (projectId: string) => {
     setIsDeleting(true);
@@ -87,7 +163,9 @@ export function ProjectSelector({
         .map(project => ({
           id: project.id,
           name: project.name,
-          count: snagCounts.get(project.name) || 0
+          count: snagCounts.get(project.name) || 0,
+          clonedFrom: getCloneSourceName(project, updatedProjects),
+          status: project.status ?? 'active'
         }))
         .sort((a, b) => a.name.localeCompare(b.name));
 
@@ -100,6 +178,9 @@ export function ProjectSelector({
     }
   };
 
+  const archivedCount = projects.filter(project => project.status === 'archived').length;
+  const visibleProjects = showArchived ? projects : projects.filter(project => project.status !== 'archived');
+
   return (
     <Card className={`p-4 transition-all duration-300 ${
       isDarkMode ? 'bg-[#1a1f2e] shadow-lg' : 'bg-white/95 backdrop-blur-sm'
@@ -144,60 +225,160 @@ export function ProjectSelector({
             <p className="mt-1 text-xs">Create your first project to get started!</p>
           </div>
         ) : (
-          projects.map((project) => (
+          visibleProjects.map((project) => (
             <div
               key={project.id}
               className="relative group"
             >
-              <button
-                onClick={() => onProjectSelect(project.name)}
-                className={`w-full px-4 py-3 rounded-lg text-left transition-all duration-300 ${
-                  selectedProject === project.name
-                    ? isDarkMode 
-                      ? 'bg-[#252b3b] text-zinc-100 ring-2 ring-blue-500/20' 
-                      : 'bg-gray-900 text-white ring-2 ring-blue-500/20 shadow-[0_0_15px_rgba(59,130,246,0.1)]'
-                    : isDarkMode
-                      ? 'hover:bg-[#1e2433] text-zinc-300 hover:shadow-[0_2px_10px_rgba(0,0,0,0.2)]'
-                      : 'hover:bg-gray-50 text-gray-700 hover:shadow-md'
-                }`}
-              >
-                <div className="flex justify-between items-center pr-8">
-                  <span className={`font-medium transition-all duration-300 ${
-                    selectedProject === project.name 
-                      ? 'text-lg transform scale-105' 
-                      : 'group-hover:scale-105'
-                  }`}>
-                    {project.name}
-                  </span>
-                  <div className={`min-w-[80px] h-[26px] flex items-center justify-center rounded-full text-xs font-medium transition-all duration-300 ${
+              {renamingProjectId === project.id ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRenameProject(project.id);
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        setRenamingProjectId(null);
+                        setError(null);
+                      }
+                    }}
+                    className={`flex-grow px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      isDarkMode
+                        ? 'bg-[#252b3b] border-[#252b3b] text-zinc-100'
+                        : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                    aria-label="Project name"
+                  />
+                  <Button type="submit" size="sm" disabled={!renameValue.trim()}>
+                    Save
+                  </Button>
+                </form>
+              ) : (
+                <>
+                <button
+                  onClick={() => onProjectSelect(project.name)}
+                  className={`w-full px-4 py-3 rounded-lg text-left transition-all duration-300 ${
                     selectedProject === project.name
-                      ? isDarkMode
-                        ? 'bg-blue-500/10 text-blue-200'
-                        : 'bg-blue-500/20 text-blue-100'
+                      ? isDarkMode 
+                        ? 'bg-[#252b3b] text-zinc-100 ring-2 ring-blue-500/20' 
+                        : 'bg-gray-900 text-white ring-2 ring-blue-500/20 shadow-[0_0_15px_rgba(59,130,246,0.1)]'
                       : isDarkMode
-                        ? 'bg-[#1a1f2e] text-zinc-400'
-                        : 'bg-gray-100 text-gray-600'
-                  }`}>
-                    {project.count} {project.count === 1 ? 'entry' : 'entries'}
+                        ? 'hover:bg-[#1e2433] text-zinc-300 hover:shadow-[0_2px_10px_rgba(0,0,0,0.2)]'
+                        : 'hover:bg-gray-50 text-gray-700 hover:shadow-md'
+                  }`}
+                >
+                  <div className="flex justify-between items-center pr-8">
+                    <span className={`font-medium transition-all duration-300 ${
+                      selectedProject === project.name 
+                        ? 'text-lg transform scale-105' 
+                        : 'group-hover:scale-105'
+                    }`}>
+                      {project.name}
+                      {project.status !== 'active' && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium text-white align-middle"
+                          style={{ backgroundColor: PROJECT_STATUSES.find(option => option.id === project.status)?.color }}
+                        >
+                          {PROJECT_STATUSES.find(option => option.id === project.status)?.label}
+                        </span>
+                      )}
+                      {project.clonedFrom && (
+                        <span className={`block text-xs font-normal ${isDarkMode ? 'text-zinc-500' : 'text-gray-400'}`}>
+                          Cloned from {project.clonedFrom}
+                        </span>
+                      )}
+                    </span>
+                    <div className={`min-w-[80px] h-[26px] flex items-center justify-center rounded-full text-xs font-medium transition-all duration-300 ${
+                      selectedProject === project.name
+                        ? isDarkMode
+                          ? 'bg-blue-500/10 text-blue-200'
+                          : 'bg-blue-500/20 text-blue-100'
+                        : isDarkMode
+                          ? 'bg-[#1a1f2e] text-zinc-400'
+                          : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {project.count} {project.count === 1 ? 'entry' : 'entries'}
+                    </div>
                   </div>
-                </div>
-              </button>
+                </button>
 
-              {/* Delete Button */}
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setDeleteConfirmProject(project.name);
-                }}
-                className={`absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-300 hover:scale-110 ${
-                  isDarkMode
-                    ? 'text-zinc-500 hover:text-red-400 hover:bg-[#252b3b]'
-                    : 'text-gray-400 hover:text-red-600 hover:bg-gray-100'
-                }`}
-                title="Delete Project"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
+                {/* Project Actions */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      onClick={(e) => e.stopPropagation()}
+                      className={`absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 transition-all duration-300 hover:scale-110 ${
+                        isDarkMode
+                          ? 'text-zinc-500 hover:text-blue-400 hover:bg-[#252b3b]'
+                          : 'text-gray-400 hover:text-blue-600 hover:bg-gray-100'
+                      }`}
+                      title="Project Actions"
+                    >
+                      <MoreVertical className="w-4 h-4" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onSelect={() => {
+                        setRenamingProjectId(project.id);
+                        setRenameValue(project.name);
+                        setError(null);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setDetailsProjectId(project.id)}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      Project Details
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setWorkflowProjectId(project.id)}>
+                      <Workflow className="w-4 h-4 mr-2" />
+                      Status Workflow
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setSlaProjectId(project.id)}>
+                      <Clock className="w-4 h-4 mr-2" />
+                      Due Date Targets
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setLocationsProjectId(project.id)}>
+                      <MapPin className="w-4 h-4 mr-2" />
+                      Locations
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setCategoriesProjectId(project.id)}>
+                      <Tag className="w-4 h-4 mr-2" />
+                      Trades &amp; Tags
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => setStatusProjectId(project.id)}>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Project Status
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setCloneProjectId(project.id)}>
+                      <Copy className="w-4 h-4 mr-2" />
+                      Clone Project
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setMergeProjectId(project.id)} disabled={projects.length < 2}>
+                      <Merge className="w-4 h-4 mr-2" />
+                      Merge Into Another Project
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onSelect={() => setDeleteConfirmProject(project.name)}
+                      className="text-red-600 focus:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Project
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                </>
+              )}
 
               {/* Delete Confirmation Modal */}
               {deleteConfirmProject === project.name && (
@@ -210,14 +391,14 @@ export function ProjectSelector({
                       isDarkMode ? 'text-zinc-400' : 'text-gray-600'
                     }`}>
                       <p>
-                        Are you sure you want to delete "{project.name}"? This action cannot be undone.
+                        Move &quot;{project.name}&quot; to the Trash? It can be restored from there until it is purged.
                       </p>
                       <div className={`p-3 rounded-lg text-sm ${
                         isDarkMode 
                           ? 'bg-yellow-900/20 text-yellow-400 border border-yellow-800' 
                           : 'bg-yellow-50 text-yellow-600 border border-yellow-200'
                       }`}>
-                        <p>This will permanently delete:</p>
+                        <p>Once purged from the Trash, this permanently deletes:</p>
                         <ul className="list-disc ml-4 mt-1">
                           <li>The project and all its settings</li>
                           <li>All entries in this project</li>
@@ -267,7 +448,93 @@ export function ProjectSelector({
             </div>
           ))
         )}
+
+        {archivedCount > 0 && (
+          <button
+            onClick={() => setShowArchived(prev => !prev)}
+            className={`w-full pt-1 text-xs text-center transition-colors duration-300 ${
+              isDarkMode ? 'text-zinc-500 hover:text-zinc-300' : 'text-gray-400 hover:text-gray-700'
+            }`}
+          >
+            {showArchived ? 'Hide archived projects' : `Show ${archivedCount} archived project${archivedCount === 1 ? '' : 's'}`}
+          </button>
+        )}
       </div>
+
+      <WorkflowEditor
+        isOpen={workflowProjectId !== null}
+        projectId={workflowProjectId}
+        onClose={() => setWorkflowProjectId(null)}
+        onSaved={() => onWorkflowChange?.()}
+        isDarkMode={isDarkMode}
+      />
+
+      <SlaSettingsDialog
+        isOpen={slaProjectId !== null}
+        projectId={slaProjectId}
+        onClose={() => setSlaProjectId(null)}
+        isDarkMode={isDarkMode}
+      />
+
+      <LocationEditor
+        isOpen={locationsProjectId !== null}
+        projectId={locationsProjectId}
+        onClose={() => setLocationsProjectId(null)}
+        onSaved={() => onLocationsChange?.()}
+        isDarkMode={isDarkMode}
+      />
+
+      <CategoryEditor
+        isOpen={categoriesProjectId !== null}
+        projectId={categoriesProjectId}
+        onClose={() => setCategoriesProjectId(null)}
+        onSaved={() => onCategoriesChange?.()}
+        isDarkMode={isDarkMode}
+      />
+
+      <ProjectDetailsDialog
+        isOpen={detailsProjectId !== null}
+        projectId={detailsProjectId}
+        onClose={() => setDetailsProjectId(null)}
+        onSaved={() => onDetailsChange?.()}
+        isDarkMode={isDarkMode}
+      />
+
+      <ProjectStatusDialog
+        isOpen={statusProjectId !== null}
+        project={projects.find(project => project.id === statusProjectId) ?? null}
+        onClose={() => setStatusProjectId(null)}
+        onChanged={() => {
+          setRenameTrigger(prev => prev + 1);
+          onStatusChange?.();
+        }}
+        isDarkMode={isDarkMode}
+      />
+
+      <CloneProjectDialog
+        isOpen={cloneProjectId !== null}
+        source={projects.find(project => project.id === cloneProjectId) ?? null}
+        onClose={() => setCloneProjectId(null)}
+        onCloned={(projectName) => {
+          onProjectSelect(projectName);
+          setRenameTrigger(prev => prev + 1);
+        }}
+        isDarkMode={isDarkMode}
+      />
+
+      <MergeProjectsDialog
+        isOpen={mergeProjectId !== null}
+        source={projects.find(project => project.id === mergeProjectId) ?? null}
+        projects={projects}
+        onClose={() => setMergeProjectId(null)}
+        onMerged={({ sourceName, targetName }) => {
+          if (selectedProject === sourceName) {
+            onProjectSelect(targetName);
+          }
+          setRenameTrigger(prev => prev + 1);
+        }}
+        isDarkMode={isDarkMode}
+      />
     </Card>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Archive, HardDriveDownload } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import {
+  PhotoBundle,
+  compactProject,
+  exportProjectPhotoBundle,
+  getProject,
+  getProjectClosureBlockers,
+  restoreSnagRecords,
+  setProjectStatus,
+  waiveSnags
+} from '@/lib/db';
+import { PROJECT_STATUSES, ProjectCompaction, ProjectStatus, getNextProjectStatuses } from '@/lib/projectStatus';
+import { cn, downloadBlob, formatBytes } from '@/lib/utils';
+
+interface ProjectStatusDialogProps {
+  isOpen: boolean;
+  project: { id: string; name: string } | null;
+  onClose: () => void;
+  // Called after the status changed or entries were waived
+  onChanged: () => void;
+  isDarkMode?: boolean;
+}
+
+type Blocker = Awaited<ReturnType<typeof getProjectClosureBlockers>>[number];
+
+function getActionLabel(from: ProjectStatus, to: ProjectStatus): string {
+  switch (to) {
+    case 'active':
+      return from === 'on-hold' ? 'Resume' : 'Reopen';
+    case 'on-hold':
+      return 'Put on hold';
+    case 'closed':
+      return from === 'archived' ? 'Unarchive' : 'Close';
+    case 'archived':
+      return 'Archive';
+  }
+}
+
+export function ProjectStatusDialog({ isOpen, project, onClose, onChanged, isDarkMode = false }: ProjectStatusDialogProps) {
+  const [status, setStatus] = useState<ProjectStatus>('active');
+  const [compaction, setCompaction] = useState<ProjectCompaction | null>(null);
+  const [blockers, setBlockers] = useState<Blocker[]>([]);
+  const [waiveIds, setWaiveIds] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState('');
+  // The downloaded bundle, until its photos are removed
+  const [bundle, setBundle] = useState<PhotoBundle | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // The list hands over a new object on every reload
+  const projectId = project?.id;
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+
+    try {
+      const record = await getProject(projectId);
+      const current = record?.status ?? 'active';
+      setStatus(current);
+      setCompaction(record?.compaction ?? null);
+      setBlockers(record && (current === 'active' || current === 'on-hold') ? await getProjectClosureBlockers(record.name) : []);
+    } catch (error) {
+      console.error('❌ Error loading project status:', error);
+      toast.error('Failed to load project status');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setWaiveIds(new Set());
+      setReason('');
+      setBundle(null);
+      load();
+    }
+  }, [isOpen, load]);
+
+  const handleStatus = async (next: ProjectStatus) => {
+    if (!project) return;
+    if (next === 'archived' && !confirm(`Archive "${project.name}"? It will be hidden from the list and read-only until unarchived.`)) return;
+
+    try {
+      setIsBusy(true);
+      await setProjectStatus(project.id, next);
+      toast.success(`"${project.name}" is now ${PROJECT_STATUSES.find(option => option.id === next)?.label.toLowerCase()}`);
+      onChanged();
+      await load();
+    } catch (error) {
+      console.error('❌ Failed to change project status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change project status');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleWaive = async () => {
+    const ids = Array.from(waiveIds);
+
+    try {
+      setIsBusy(true);
+      const before = await waiveSnags(ids, reason);
+      setWaiveIds(new Set());
+      setReason('');
+      onChanged();
+      await load();
+      toast.success(`${before.length} entr${before.length === 1 ? 'y' : 'ies'} waived`, {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            try {
+              await restoreSnagRecords(before);
+              toast.success('Waivers lifted');
+              onChanged();
+              await load();
+            } catch (error) {
+              console.error('❌ Failed to undo waiver:', error);
+              toast.error('Failed to undo the change');
+            }
+          }
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to waive entries:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to waive entries');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!project) return;
+
+    try {
+      setIsBusy(true);
+      const exported = await exportProjectPhotoBundle(project.id);
+      downloadBlob(exported.blob, exported.fileName);
+      setBundle(exported);
+    } catch (error) {
+      console.error('❌ Failed to export full-size photos:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export photos');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCompact = async () => {
+    if (!project || !bundle) return;
+    if (!confirm(`Remove ${bundle.mediaIds.length} full-size photos from this browser? Keep "${bundle.fileName}" safe; it is the only copy.`)) return;
+
+    try {
+      setIsBusy(true);
+      const compacted = await compactProject(project.id, bundle);
+      setCompaction(compacted);
+      setBundle(null);
+      toast.success(`Freed ${formatBytes(bundle.byteCount)}`);
+    } catch (error) {
+      console.error('❌ Failed to compact project:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to compact project');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleWaive = (id: string) => {
+    setWaiveIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const nextStatuses = getNextProjectStatuses(status);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[520px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Project Status
+          </DialogTitle>
+          <DialogDescription>
+            A project closes once every entry is completed or waived. Closed projects can be archived, which hides them
+            and makes them read-only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1">
+          {PROJECT_STATUSES.map(option => (
+            <span
+              key={option.id}
+              className={cn(
+                'px-3 py-1 rounded-full text-sm font-medium',
+                option.id === status ? 'text-white' : isDarkMode ? 'bg-gray-700 text-gray-400' : 'bg-gray-100 text-gray-400'
+              )}
+              style={option.id === status ? { backgroundColor: option.color } : undefined}
+            >
+              {option.label}
+            </span>
+          ))}
+        </div>
+
+        {blockers.length > 0 && (
+          <div className="space-y-2 pt-3 border-t">
+            <p className="text-sm">
+              {blockers.length} open entr{blockers.length === 1 ? 'y keeps' : 'ies keep'} this project from closing.
+              Complete {blockers.length === 1 ? 'it' : 'them'}, or waive the ones accepted as they are.
+            </p>
+            <div className={`max-h-[200px] overflow-y-auto rounded-md border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+              {blockers.map(snag => (
+                <label key={snag.id} className={`flex items-center gap-2 px-2 py-1.5 text-sm border-t first:border-t-0 ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                  <Checkbox checked={waiveIds.has(snag.id)} onCheckedChange={() => toggleWaive(snag.id)} />
+                  <span className={mutedText}>#{snag.snagNumber}</span>
+                  <span className="truncate">{snag.name || 'Untitled Entry'}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason for the waiver" />
+              <Button
+                variant="outline"
+                onClick={handleWaive}
+                disabled={isBusy || waiveIds.size === 0 || !reason.trim()}
+                className="flex-shrink-0"
+              >
+                Waive {waiveIds.size || ''}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status === 'archived' && (
+          <div className="space-y-2 pt-3 border-t">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <HardDriveDownload className="h-4 w-4" />
+              Free up storage
+            </p>
+            <p className={`text-sm ${mutedText}`}>
+              Download the full-size photos as a ZIP, then remove them from this browser. Entries and reports keep
+              using the compressed copies.
+            </p>
+            {compaction && (
+              <p className={`text-xs ${mutedText}`}>
+                {compaction.photoCount} photo{compaction.photoCount === 1 ? '' : 's'} ({formatBytes(compaction.byteCount)}) moved
+                to {compaction.fileName} on {format(new Date(compaction.compactedAt), 'MMM d, yyyy')}.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleExport} disabled={isBusy}>
+                {bundle ? 'Download again' : 'Download full-size photos'}
+              </Button>
+              {bundle && (
+                <Button variant="destructive" onClick={handleCompact} disabled={isBusy}>
+                  Remove {formatBytes(bundle.byteCount)} from browser
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2 border-t">
+          <Button variant="outline" onClick={onClose} disabled={isBusy}>
+            Done
+          </Button>
+          {nextStatuses.map(next => (
+            <Button
+              key={next}
+              onClick={() => handleStatus(next)}
+              disabled={isBusy || (next === 'closed' && blockers.length > 0)}
+            >
+              {getActionLabel(status, next)}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
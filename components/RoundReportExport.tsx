@@ -0,0 +1,183 @@
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { Snag } from "@/types/snag";
+import jsPDF from "jspdf";
+import { getMediaDataUrl, getProjectDetails } from "@/lib/db";
+import { Workflow, getStatusLabel, isDoneStatus } from "@/lib/workflow";
+import {
+  InspectionRound,
+  RoundEntryState,
+  getCarryOverSnags,
+  getNewSnags,
+  getRoundEntryState,
+  getRoundLabel,
+  getRoundStateLabel,
+  summarizeRound
+} from "@/lib/rounds";
+import { drawCoverPage, drawPageHeaders, hasCover, loadReportLogo } from "@/lib/reportCover";
+import { format } from "date-fns";
+
+interface RoundReportExportProps {
+  projectName: string;
+  round: InspectionRound;
+  rounds: InspectionRound[];
+  // Every entry in the project; the report picks the round's own
+  snags: Snag[];
+  workflow: Workflow;
+}
+
+const STATE_COLORS: Record<RoundEntryState, [number, number, number]> = {
+  new: [37, 99, 235],
+  'still-open': [217, 119, 6],
+  fixed: [22, 163, 74],
+  unchecked: [120, 120, 120]
+};
+
+// Round summary, e.g. "3 new · 5 carried over: 2 still open, 2 fixed, 1 not checked"
+function describeRoundSummary(counts: Record<RoundEntryState, number>): string {
+  const carried = counts['still-open'] + counts.fixed + counts.unchecked;
+  return `${counts.new} new · ${carried} carried over: ${counts['still-open']} still open, ${counts.fixed} fixed, ${counts.unchecked} not checked`;
+}
+
+export function RoundReportExport({ projectName, round, rounds, snags, workflow }: RoundReportExportProps) {
+  const handleExport = async () => {
+    try {
+      const carryOver = getCarryOverSnags(snags, rounds, round, snag => isDoneStatus(workflow, snag.status));
+      const found = getNewSnags(snags, round);
+      const counts = summarizeRound(carryOver, found, round);
+      const details = await getProjectDetails(projectName);
+      const logo = await loadReportLogo(details);
+      const roundNumbers = new Map(rounds.map(other => [other.id, other.number]));
+
+      const doc = new jsPDF({
+        orientation: "portrait",
+        unit: "mm",
+        format: "a4"
+      });
+
+      const pageWidth = 210;
+      const pageHeight = 297;
+      const margin = 15;
+      const contentWidth = pageWidth - (2 * margin);
+      const rowHeight = 28;
+      const now = new Date();
+
+      const withCover = hasCover({ details, logo });
+      if (withCover) {
+        drawCoverPage(doc, {
+          projectName,
+          title: `${getRoundLabel(round)} Report`,
+          details,
+          logo,
+          summary: [describeRoundSummary(counts)],
+          generatedAt: now
+        });
+        doc.addPage();
+      }
+
+      // Title block
+      doc.setFontSize(24);
+      doc.setTextColor(0, 0, 0);
+      doc.text(projectName, margin, margin + 5);
+      doc.setFontSize(14);
+      doc.text(getRoundLabel(round), margin, margin + 13);
+      doc.setFontSize(10);
+      doc.setTextColor(100, 100, 100);
+      const period = round.closedAt
+        ? `${format(new Date(round.startedAt), 'MMM d, yyyy')} – ${format(new Date(round.closedAt), 'MMM d, yyyy')}`
+        : `Started ${format(new Date(round.startedAt), 'MMM d, yyyy')} · in progress`;
+      doc.text(`${period} · Generated on ${now.toLocaleDateString()} at ${now.toLocaleTimeString()}`, margin, margin + 19);
+      doc.setTextColor(0, 0, 0);
+      doc.text(describeRoundSummary(counts), margin, margin + 25);
+      doc.setDrawColor(200, 200, 200);
+      doc.line(margin, margin + 28, pageWidth - margin, margin + 28);
+      let yPosition = margin + 38;
+
+      const drawSection = async (title: string, sectionSnags: Snag[], empty: string) => {
+        if (yPosition + 10 + rowHeight > pageHeight - margin) {
+          doc.addPage();
+          yPosition = margin + 10;
+        }
+        doc.setFontSize(14);
+        doc.setFont(undefined, 'bold');
+        doc.setTextColor(0, 0, 0);
+        doc.text(`${title} (${sectionSnags.length})`, margin, yPosition);
+        doc.setFont(undefined, 'normal');
+        yPosition += 8;
+
+        if (sectionSnags.length === 0) {
+          doc.setFontSize(10);
+          doc.setTextColor(120, 120, 120);
+          doc.text(empty, margin, yPosition);
+          yPosition += 12;
+          return;
+        }
+
+        for (const snag of sectionSnags) {
+          if (yPosition + rowHeight > pageHeight - margin) {
+            doc.addPage();
+            yPosition = margin + 10;
+          }
+
+          try {
+            const thumbnail = await getMediaDataUrl(snag.thumbnailId);
+            if (thumbnail) {
+              doc.addImage(thumbnail, 'JPEG', margin, yPosition, 24, 24);
+            }
+          } catch (error) {
+            console.error('Error adding thumbnail:', error);
+          }
+
+          const state = getRoundEntryState(snag, round);
+          const textLeft = margin + 28;
+          doc.setFontSize(11);
+          doc.setFont(undefined, 'bold');
+          doc.setTextColor(0, 0, 0);
+          doc.text(doc.splitTextToSize(`#${snag.snagNumber} ${snag.name || 'Untitled Entry'}`, contentWidth - 60)[0], textLeft, yPosition + 5);
+          doc.setFont(undefined, 'normal');
+
+          doc.setFontSize(9);
+          doc.setTextColor(100, 100, 100);
+          const foundIn = snag.roundId && roundNumbers.has(snag.roundId) ? `Round ${roundNumbers.get(snag.roundId)}` : 'Before rounds';
+          const meta = [snag.location || 'No location', `Found: ${foundIn}`, getStatusLabel(workflow, snag.status), snag.assignedTo || 'Unassigned'];
+          doc.text(doc.splitTextToSize(meta.join(' · '), contentWidth - 30)[0], textLeft, yPosition + 11);
+          if (snag.description) {
+            doc.text(doc.splitTextToSize(snag.description, contentWidth - 30).slice(0, 2), textLeft, yPosition + 16);
+          }
+
+          const [r, g, b] = STATE_COLORS[state];
+          doc.setFontSize(10);
+          doc.setFont(undefined, 'bold');
+          doc.setTextColor(r, g, b);
+          doc.text(getRoundStateLabel(state), pageWidth - margin, yPosition + 5, { align: 'right' });
+          doc.setFont(undefined, 'normal');
+
+          yPosition += rowHeight;
+          doc.setDrawColor(230, 230, 230);
+          doc.line(margin, yPosition - 2, pageWidth - margin, yPosition - 2);
+          yPosition += 2;
+        }
+        yPosition += 6;
+      };
+
+      await drawSection('Carried Over', carryOver, 'Nothing was open from earlier rounds.');
+      await drawSection('New Findings', found, 'No new entries were found in this round.');
+
+      drawPageHeaders(doc, projectName, details, withCover ? 2 : 1);
+
+      const formattedDate = now.toISOString().split('T')[0];
+      const safeProjectName = projectName.replace(/[^a-zA-Z0-9]/g, '_');
+      doc.save(`Round_${round.number}_${safeProjectName}_${formattedDate}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate PDF:', error);
+      alert(`Failed to generate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <Button onClick={handleExport} className="flex items-center gap-2" variant="outline" size="sm">
+      <Download className="w-4 h-4" />
+      Export Round PDF
+    </Button>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Bookmark, Grid, List, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card } from "@/components/ui/card";
+import { getSavedViews, deleteSavedView, SavedView } from '@/lib/db';
+import { matchFilterQuery } from '@/lib/queryHandler';
+import { Snag } from '@/types/snag';
+
+interface SavedViewsProps {
+  projectName: string;
+  // The project's current entries, used for the live counts
+  snags: Snag[];
+  activeViewId: string | null;
+  onViewSelect: (view: SavedView | null) => void;
+  refreshTrigger?: number;
+  isDarkMode?: boolean;
+}
+
+export function SavedViews({
+  projectName,
+  snags,
+  activeViewId,
+  onViewSelect,
+  refreshTrigger = 0,
+  isDarkMode = false
+}: SavedViewsProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!projectName) {
+      setViews([]);
+      return;
+    }
+
+    getSavedViews(projectName)
+      .then(setViews)
+      .catch(error => {
+        console.error('❌ Failed to load saved views:', error);
+      });
+  }, [projectName, refreshTrigger]);
+
+  // Recount whenever the entries change
+  useEffect(() => {
+    let cancelled = false;
+
+    const countViews = async () => {
+      const nextCounts: Record<string, number> = {};
+      for (const view of views) {
+        nextCounts[view.id] = (await matchFilterQuery(snags, view.query, projectName)).length;
+      }
+      if (!cancelled) {
+        setCounts(nextCounts);
+      }
+    };
+
+    countViews().catch(error => {
+      console.error('❌ Failed to count saved views:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [views, snags, projectName]);
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return;
+
+    try {
+      await deleteSavedView(view.id);
+      setViews(prev => prev.filter(v => v.id !== view.id));
+      if (activeViewId === view.id) {
+        onViewSelect(null);
+      }
+    } catch (error) {
+      console.error('❌ Failed to delete saved view:', error);
+      toast.error('Failed to delete saved view');
+    }
+  };
+
+  if (!projectName) return null;
+
+  return (
+    <Card className={`p-4 mt-4 transition-all duration-300 ${
+      isDarkMode ? 'bg-[#1a1f2e] shadow-lg' : 'bg-white/95 backdrop-blur-sm'
+    }`}>
+      <h2 className={`text-lg font-semibold mb-3 ${isDarkMode ? 'text-zinc-100' : 'text-gray-900'}`}>
+        Saved Views
+      </h2>
+
+      {views.length === 0 ? (
+        <p className={`text-xs ${isDarkMode ? 'text-zinc-400' : 'text-gray-500'}`}>
+          Filter or sort the entries, then use the bookmark button to save the view here.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {views.map(view => {
+            const isActive = view.id === activeViewId;
+            return (
+              <div key={view.id} className="relative group">
+                <button
+                  onClick={() => onViewSelect(isActive ? null : view)}
+                  title={view.query || 'All entries'}
+                  className={`w-full flex items-center gap-2 px-3 py-2 pr-9 rounded-lg text-left text-sm transition-colors ${
+                    isActive
+                      ? isDarkMode ? 'bg-[#252b3b] text-zinc-100' : 'bg-gray-900 text-white'
+                      : isDarkMode ? 'hover:bg-[#1e2433] text-zinc-300' : 'hover:bg-gray-50 text-gray-700'
+                  }`}
+                >
+                  {view.viewMode === 'grid'
+                    ? <Grid className="w-4 h-4 flex-shrink-0" />
+                    : <List className="w-4 h-4 flex-shrink-0" />}
+                  <span className="flex-grow truncate">{view.name}</span>
+                  <span className={`text-xs rounded-full px-2 py-0.5 ${
+                    isActive
+                      ? 'bg-blue-500/20'
+                      : isDarkMode ? 'bg-[#1a1f2e] text-zinc-400' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {counts[view.id] ?? '…'}
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleDelete(view)}
+                  className={`absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity ${
+                    isDarkMode ? 'text-zinc-500 hover:text-red-400' : 'text-gray-400 hover:text-red-600'
+                  }`}
+                  title="Delete view"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className={`flex items-center gap-1 mt-3 text-xs ${isDarkMode ? 'text-zinc-500' : 'text-gray-400'}`}>
+        <Bookmark className="w-3 h-3" />
+        Views are saved per project
+      </div>
+    </Card>
+  );
+}
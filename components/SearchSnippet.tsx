@@ -0,0 +1,38 @@
+import { SearchHit } from '@/lib/search';
+import { cn } from '@/lib/utils';
+
+const FIELD_LABELS: Record<SearchHit['field'], string> = {
+  name: 'Name',
+  snagNumber: 'Entry #',
+  description: 'Description',
+  location: 'Location',
+  assignedTo: 'Assigned to',
+  annotations: 'Annotations',
+  status: 'Status',
+  priority: 'Priority',
+  fileName: 'File',
+  transcription: 'Transcription'
+};
+
+interface SearchSnippetProps {
+  hit: SearchHit;
+  className?: string;
+}
+
+// Shows where a search matched, with the matching words highlighted
+export function SearchSnippet({ hit, className }: SearchSnippetProps) {
+  return (
+    <p className={cn('text-xs text-gray-500 line-clamp-2', className)}>
+      <span className="font-medium">{FIELD_LABELS[hit.field]}: </span>
+      {hit.snippet.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
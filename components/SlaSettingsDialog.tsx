@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { getProject, updateProjectSla } from '@/lib/db';
+import { EMPTY_SLA, SlaSettings, SnagPriority, validateSla } from '@/lib/sla';
+
+interface SlaSettingsDialogProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const PRIORITIES: SnagPriority[] = ['High', 'Medium', 'Low'];
+
+// Days allowed to fix an entry, per priority. New entries get a due date
+// that many days after they were observed.
+export function SlaSettingsDialog({ isOpen, projectId, onClose, isDarkMode = false }: SlaSettingsDialogProps) {
+  const [projectName, setProjectName] = useState('');
+  // Kept as text so a field can be cleared while typing
+  const [days, setDays] = useState<Record<SnagPriority, string>>({ High: '', Medium: '', Low: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+
+    getProject(projectId)
+      .then(project => {
+        const sla = project?.sla ?? EMPTY_SLA;
+        setProjectName(project?.name ?? '');
+        setDays({
+          High: sla.High?.toString() ?? '',
+          Medium: sla.Medium?.toString() ?? '',
+          Low: sla.Low?.toString() ?? ''
+        });
+      })
+      .catch(error => {
+        console.error('❌ Failed to load SLA settings:', error);
+        toast.error('Failed to load SLA settings');
+      });
+  }, [isOpen, projectId]);
+
+  const sla: SlaSettings = {
+    High: days.High.trim() ? Number(days.High) : null,
+    Medium: days.Medium.trim() ? Number(days.Medium) : null,
+    Low: days.Low.trim() ? Number(days.Low) : null
+  };
+  const errors = validateSla(sla);
+
+  const handleSave = async () => {
+    if (!projectId) return;
+
+    try {
+      setIsSaving(true);
+      const isEmpty = PRIORITIES.every(priority => sla[priority] === null);
+      await updateProjectSla(projectId, isEmpty ? null : sla);
+      toast.success('SLA settings saved');
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save SLA settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save SLA settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[425px] ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle>Due Date Targets</DialogTitle>
+          <DialogDescription>
+            Days allowed to fix new entries in {projectName || 'this project'}. Leave a priority empty for no default due date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+          className="space-y-4"
+        >
+          {PRIORITIES.map(priority => (
+            <div key={priority} className="flex items-center gap-4">
+              <Label htmlFor={`sla-${priority}`} className="min-w-[80px]">
+                {priority}
+              </Label>
+              <Input
+                id={`sla-${priority}`}
+                type="number"
+                min={0}
+                step={1}
+                value={days[priority]}
+                placeholder="No target"
+                onChange={(e) => setDays(prev => ({ ...prev, [priority]: e.target.value }))}
+              />
+              <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>days</span>
+            </div>
+          ))}
+
+          {errors.length > 0 && (
+            <ul className="space-y-0.5 text-xs text-red-500">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Existing entries keep their due dates; edit an entry to change its own.
+          </p>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || errors.length > 0}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
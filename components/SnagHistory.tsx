@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  getSnagHistory,
+  revertSnagToRevision,
+  getEditorName,
+  setEditorName,
+  SnagHistoryEntry,
+  SnagHistoryAction
+} from '@/lib/db';
+import { RoundCheck, getRoundStateLabel } from '@/lib/rounds';
+import { SnagOrigin, getOriginLabel } from '@/lib/transfer';
+import { SnagWaiver } from '@/lib/projectStatus';
+import { Snag } from '@/types/snag';
+
+interface SnagHistoryProps {
+  snagId: string;
+  // Changes whenever the entry is saved, so the timeline reloads
+  updatedAt: string | Date;
+  onReverted?: (snag: Snag) => void;
+  isDarkMode?: boolean;
+}
+
+const ACTION_LABELS: Record<SnagHistoryAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  status: 'Status changed',
+  annotations: 'Annotations changed',
+  photos: 'Photos changed',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  revert: 'Reverted'
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  priority: 'Priority',
+  assignedTo: 'Assigned to',
+  status: 'Status',
+  location: 'Location',
+  trade: 'Trade',
+  tags: 'Tags',
+  completionDate: 'Completion date',
+  observationDate: 'Observation date',
+  dueDate: 'Due date',
+  annotations: 'Annotations',
+  photos: 'Photos',
+  roundChecks: 'Round checks',
+  projectName: 'Project',
+  origin: 'Reference',
+  waiver: 'Waiver'
+};
+
+// Fields every create/delete touches; listing them adds nothing to the timeline
+const HIDDEN_FIELDS = new Set(['snagNumber', 'photoId', 'thumbnailId', 'originalId', 'createdAt', 'deletedAt', 'roundId']);
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'annotations' && Array.isArray(value)) {
+    return `${value.length} annotation${value.length === 1 ? '' : 's'}`;
+  }
+  if (field === 'photos' && Array.isArray(value)) {
+    return `${value.length} photo${value.length === 1 ? '' : 's'}`;
+  }
+  if (field === 'roundChecks' && Array.isArray(value)) {
+    return value.length > 0 ? value.map((check: RoundCheck) => getRoundStateLabel(check.result)).join(', ') : '—';
+  }
+  if (field === 'origin') {
+    return getOriginLabel(value as SnagOrigin);
+  }
+  if (field === 'waiver') {
+    return `Waived: ${(value as SnagWaiver).reason}`;
+  }
+  if (field === 'tags' && Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '—';
+  }
+  if (field.endsWith('Date')) {
+    const date = new Date(value as string | Date);
+    return isNaN(date.getTime()) ? String(value) : format(date, 'MMM d, yyyy');
+  }
+  return String(value);
+}
+
+export function SnagHistory({ snagId, updatedAt, onReverted, isDarkMode = false }: SnagHistoryProps) {
+  const [entries, setEntries] = useState<SnagHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editorName, setEditorNameState] = useState(getEditorName());
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setEntries(await getSnagHistory(snagId));
+    } catch (error) {
+      console.error('❌ Error loading history:', error);
+      toast.error('Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [snagId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, updatedAt]);
+
+  const handleRevert = async (entry: SnagHistoryEntry) => {
+    if (!confirm(`Revert this entry to how it was on ${format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}?`)) {
+      return;
+    }
+
+    try {
+      const reverted = await revertSnagToRevision(entry.id);
+      toast.success('Entry reverted');
+      onReverted?.(reverted);
+      await loadHistory();
+    } catch (error) {
+      console.error('❌ Error reverting entry:', error);
+      toast.error('Failed to revert entry');
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <History className={`h-4 w-4 ${mutedText}`} />
+        <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>History</span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className={`text-xs whitespace-nowrap ${mutedText}`}>Changes recorded as</span>
+        <Input
+          value={editorName === 'Unknown' ? '' : editorName}
+          placeholder="Your name"
+          onChange={(e) => setEditorNameState(e.target.value)}
+          onBlur={() => setEditorName(editorName)}
+          className="h-7 text-xs"
+        />
+      </div>
+
+      {isLoading ? (
+        <p className={`text-xs ${mutedText}`}>Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className={`text-xs ${mutedText}`}>No changes recorded yet</p>
+      ) : (
+        <ol className="space-y-3 max-h-[240px] overflow-y-auto pr-2 border-l border-gray-200 dark:border-gray-700 pl-3">
+          {entries.map((entry, index) => {
+            const changes = entry.changes.filter(change => !HIDDEN_FIELDS.has(change.field));
+            return (
+              <li key={entry.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className={`text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <span className="font-medium">{ACTION_LABELS[entry.action]}</span>
+                    {' by '}{entry.changedBy}
+                    <span className={`block ${mutedText}`}>
+                      {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </div>
+                  {/* The newest revision is the current state */}
+                  {index > 0 && entry.snapshot && entry.action !== 'delete' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => handleRevert(entry)}
+                      title="Revert to this revision"
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+                {changes.length > 0 && entry.action !== 'create' && (
+                  <ul className={`text-xs space-y-0.5 ${mutedText}`}>
+                    {changes.map(change => (
+                      <li key={change.field}>
+                        {FIELD_LABELS[change.field] ?? change.field}: {formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
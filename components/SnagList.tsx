@@ -1,14 +1,40 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { getSnagsByProject, deleteSnag, updateSnag, updateSnagAnnotations, createBackup, downloadBackupFile, restoreFromBackup } from '@/lib/db';
-import { Trash2, Save, X, Search, SortDesc, Maximize2, MessageSquare, AlertCircle, Calendar, Grid, List, Database, Upload, CheckSquare } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { getSnagsByProject, getProjectWorkflow, getProjectLocations, getProjectCategories, getInspectionRounds, deleteSnag, updateSnag, updateSnagAnnotations, downloadBackup, restoreFromBackupFile, searchIndex, addSavedView, SavedView } from '@/lib/db';
+import { SearchHit } from '@/lib/search';
+import { LocationNode } from '@/lib/locations';
+import { InspectionRound } from '@/lib/rounds';
+import { DEFAULT_CATEGORIES, ProjectCategories, countByCategory } from '@/lib/categories';
+import { parseFilterQuery, toggleFilterToken } from '@/lib/filterQuery';
+import { filterSnags } from '@/lib/queryHandler';
+import {
+  DEFAULT_WORKFLOW,
+  Workflow,
+  getAllowedStatuses,
+  getStatusLabel,
+  getStatusOrder,
+  getTransitionRequirements,
+  isDoneStatus
+} from '@/lib/workflow';
+import { Trash2, Save, X, Search, SortDesc, Maximize2, MessageSquare, AlertCircle, Calendar, Grid, List, Database, Upload, GitMerge, CheckSquare, Bookmark, Columns, MapPin, ClipboardCheck, ListChecks } from 'lucide-react';
 import { format } from 'date-fns';
-import { Annotation, Snag } from '@/types/snag';
+import { Annotation, Snag, SnagColumn, SnagSortOption, SNAG_COLUMNS } from '@/types/snag';
 import ImageAnnotator from './ImageAnnotator';
+import { useMediaUrl } from '@/hooks/use-media-url';
 import { SnagListItem } from './SnagListItem';
 import { PDFExport } from './PDFExport';
 import PDFExportList from './PDFExportList';
 import { Checkbox } from "@/components/ui/checkbox";
 import { GridView } from './GridView';
+import { FilterQueryInput } from './FilterQueryInput';
+import { StatusChangeDialog } from './StatusChangeDialog';
+import { InspectionRounds } from './InspectionRounds';
+import { ProjectChecklists } from './ProjectChecklists';
+import { BulkActions } from './BulkActions';
+import { TransferSnagsDialog } from './TransferSnagsDialog';
+import { ImportBackupDialog } from './ImportBackupDialog';
+import { AssigneePicker } from './AssigneePicker';
+import { LocationPicker } from './LocationPicker';
+import { CategoryChip, CategoryPicker } from './CategoryFields';
 import {
   Dialog,
   DialogContent,
@@ -27,6 +53,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import confetti from 'canvas-confetti';
 import { toast } from 'sonner';
 
@@ -34,10 +67,15 @@ interface EditState {
   description: string;
   priority: 'Low' | 'Medium' | 'High';
   assignedTo: string;
-  status: 'In Progress' | 'Completed';
+  status: string;
+  statusNote: string | null;
   name: string;
   location: string;
   observationDate: string;
+  // yyyy-MM-dd, or empty for no due date
+  dueDate: string;
+  trade: string | null;
+  tags: string[];
   completionDate: Date | null;
 }
 
@@ -46,14 +84,23 @@ interface SnagListProps {
   refreshTrigger?: number;
   isDarkMode?: boolean;
   handleUploadComplete: () => void;
+  // Saved view picked in the sidebar; applied whenever it changes
+  activeView?: SavedView | null;
+  onViewSaved?: (view: SavedView) => void;
+  // Reports the loaded entries, e.g. for the saved view counts
+  onSnagsChange?: (snags: Snag[]) => void;
+  // Archived projects can be browsed and exported, but not changed
+  readOnly?: boolean;
 }
 
-type SortOption = 'newest' | 'oldest' | 'priority' | 'status' | 'entry-asc' | 'entry-desc';
+type SortOption = SnagSortOption;
+
+const ALL_COLUMNS = SNAG_COLUMNS.map(column => column.id);
 
 const BACKUP_REMINDER_INTERVAL = 30 * 60 * 1000; // 30 minutes in milliseconds
 const LAST_BACKUP_KEY = 'lastBackupTime';
 
-export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false, handleUploadComplete }: SnagListProps) {
+export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false, handleUploadComplete, activeView, onViewSaved, onSnagsChange, readOnly = false }: SnagListProps) {
   const [snags, setSnags] = useState<Snag[]>([]);
   const [filteredSnags, setFilteredSnags] = useState<Snag[]>([]);
   const [loading, setLoading] = useState(true);
@@ -66,22 +113,47 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
     description: '',
     priority: 'Medium',
     assignedTo: '',
-    status: 'In Progress',
+    status: DEFAULT_WORKFLOW.initialState,
+    statusNote: null,
     name: '',
     location: '',
     observationDate: format(new Date(), 'yyyy-MM-dd'),
+    dueDate: '',
+    trade: null,
+    tags: [],
     completionDate: null
   });
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
+  const [locations, setLocations] = useState<LocationNode[]>([]);
+  const [categories, setCategories] = useState<ProjectCategories>(DEFAULT_CATEGORIES);
+  const [rounds, setRounds] = useState<InspectionRound[]>([]);
+  const [isRoundsOpen, setIsRoundsOpen] = useState(false);
+  const [isChecklistsOpen, setIsChecklistsOpen] = useState(false);
+  // Entry being moved or copied from its list item
+  const [transferSnagId, setTransferSnagId] = useState<string | null>(null);
+  const [groupPdfByLocation, setGroupPdfByLocation] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
+  // Search results keyed by snag id; null when no search is active
+  const [searchHits, setSearchHits] = useState<Map<string, SearchHit> | null>(null);
+  // Filter tokens (priority:high, #12..#40, ...) narrow the list; the rest is free text
+  const parsedQuery = useMemo(() => parseFilterQuery(searchTerm, workflow, categories), [searchTerm, workflow, categories]);
+  const freeText = parsedQuery.intent.searchTerm ?? '';
+  const isSearching = freeText.length > 0;
   const [zoomedImage, setZoomedImage] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [annotatingSnag, setAnnotatingSnag] = useState<Snag | null>(null);
+  const annotatingImageUrl = useMediaUrl(annotatingSnag?.photoId);
   const imageRefs = useRef<{ [key: string]: HTMLImageElement }>({});
   const [error, setError] = useState<string | null>(null);
-  const [completionDateDialogOpen, setCompletionDateDialogOpen] = useState(false);
-  const [completionDate, setCompletionDate] = useState<string>('');
-  const [snagToComplete, setSnagToComplete] = useState<Snag | null>(null);
+  // Status waiting on the completion date or evidence its transition needs
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null);
+  const [columns, setColumns] = useState<SnagColumn[]>(ALL_COLUMNS);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Set while a saved view is applied so its sort isn't replaced by relevance
+  const applyingViewRef = useRef(false);
 
   // Add this function to calculate actual position
   const calculatePinPosition = (annotation: Annotation, image: HTMLImageElement) => {
@@ -132,7 +204,17 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
         setLoading(true);
         setError(null);
         console.log('🔄 Auto-refreshing snag list...');
-        const loadedSnags = await getSnagsByProject(projectName);
+        const [loadedSnags, projectWorkflow, projectLocations, projectCategories, projectRounds] = await Promise.all([
+          getSnagsByProject(projectName),
+          getProjectWorkflow(projectName),
+          getProjectLocations(projectName),
+          getProjectCategories(projectName),
+          getInspectionRounds(projectName)
+        ]);
+        setWorkflow(projectWorkflow);
+        setLocations(projectLocations);
+        setCategories(projectCategories);
+        setRounds(projectRounds);
         console.log('📋 Loaded snags:', loadedSnags.length);
         const snagWithAnnotations = loadedSnags.map(snag => ({
           ...snag,
@@ -156,34 +238,110 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
     setLastUpdate(Date.now());
   };
 
+  // Query the search index, debounced while typing
+  useEffect(() => {
+    if (!isSearching || !projectName) {
+      setSearchHits(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const hits = await searchIndex(freeText, { projectName, kind: 'snag' });
+        if (!cancelled) {
+          setSearchHits(new Map(hits.map(hit => [hit.refId, hit])));
+        }
+      } catch (error) {
+        console.error('❌ Search failed:', error);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [freeText, isSearching, projectName, snags]);
+
+  // Values offered by the search box after assigned: and location:
+  const knownFilterValues = useMemo(() => {
+    const distinct = (values: string[]) =>
+      Array.from(new Set(values.map(value => value?.trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+    return {
+      assigned: distinct(snags.map(snag => snag.assignedTo)),
+      location: distinct([...locations.map(node => node.name), ...snags.map(snag => snag.location)]),
+      status: workflow.states.map(state => state.id),
+      trade: categories.trades.map(trade => trade.id),
+      tag: categories.tags.map(tag => tag.id)
+    };
+  }, [snags, workflow, locations, categories]);
+
+  // Trades and tags among the listed entries, for the facet chips
+  const categoryFacets = useMemo(() => countByCategory(filteredSnags, categories), [filteredSnags, categories]);
+
+  useEffect(() => {
+    onSnagsChange?.(snags);
+  }, [snags, onSnagsChange]);
+
+  // Apply a saved view's query, sort, layout and columns
+  useEffect(() => {
+    if (!activeView) return;
+    applyingViewRef.current = !!parseFilterQuery(activeView.query).intent.searchTerm !== isSearching;
+    setSearchTerm(activeView.query);
+    setSortBy(activeView.sortBy);
+    setColumns(activeView.columns.length > 0 ? activeView.columns : ALL_COLUMNS);
+    setViewMode(activeView.viewMode);
+    setIsGridViewOpen(activeView.viewMode === 'grid');
+  }, [activeView]);
+
+  // Rank by relevance while searching, back to the default order afterwards
+  useEffect(() => {
+    if (applyingViewRef.current) {
+      applyingViewRef.current = false;
+      return;
+    }
+    setSortBy(prev => isSearching ? 'relevance' : prev === 'relevance' ? 'newest' : prev);
+  }, [isSearching]);
+
+  const handleSaveView = async () => {
+    try {
+      const view = await addSavedView({
+        projectName,
+        name: viewName,
+        query: searchTerm.trim(),
+        sortBy,
+        viewMode,
+        columns
+      });
+      toast.success(`Saved view "${view.name}"`);
+      setIsSaveViewOpen(false);
+      setViewName('');
+      onViewSaved?.(view);
+    } catch (error) {
+      console.error('❌ Failed to save view:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save view');
+    }
+  };
+
   // Filter and sort snags
   useEffect(() => {
     let filtered = [...snags];
-    
+
+    // Apply typed filters
+    if (parsedQuery.intent.filters) {
+      filtered = filterSnags(filtered, parsedQuery.intent.filters, () => workflow, () => locations);
+    }
+
     // Apply search filter
-    if (searchTerm) {
-      filtered = filtered.filter(snag => {
-        if (!searchTerm) return true;
-        
-        const searchTermLower = searchTerm.toLowerCase();
-        const hasMatchingAnnotation = Array.isArray(snag.annotations) && 
-          snag.annotations.some(annotation => annotation?.text?.toLowerCase().includes(searchTermLower));
-
-        return (
-          (snag.description || '').toLowerCase().includes(searchTermLower) ||
-          (snag.priority || '').toLowerCase().includes(searchTermLower) ||
-          (snag.assignedTo || '').toLowerCase().includes(searchTermLower) ||
-          (snag.status || '').toLowerCase().includes(searchTermLower) ||
-          (snag.location || '').toLowerCase().includes(searchTermLower) ||
-          String(snag.snagNumber).includes(searchTermLower) ||
-          hasMatchingAnnotation
-        );
-      });
+    if (searchHits) {
+      filtered = filtered.filter(snag => searchHits.has(snag.id));
     }
 
     // Apply sorting
     filtered.sort((a, b) => {
       switch (sortBy) {
+        case 'relevance':
+          return (searchHits?.get(b.id)?.score ?? 0) - (searchHits?.get(a.id)?.score ?? 0);
         case 'newest':
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
         case 'oldest':
@@ -191,8 +349,11 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
         case 'priority':
           return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
         case 'status':
-          if (a.status === b.status) return 0;
-          return a.status === 'Completed' ? 1 : -1;
+          return getStatusOrder(workflow, a.status) - getStatusOrder(workflow, b.status);
+        case 'due':
+          // Soonest first; entries without a due date go last
+          return (a.dueDate ? new Date(a.dueDate).getTime() : Infinity) - (b.dueDate ? new Date(b.dueDate).getTime() : Infinity)
+            || a.snagNumber - b.snagNumber;
         case 'entry-asc':
           return a.snagNumber - b.snagNumber;
         case 'entry-desc':
@@ -203,7 +364,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
     });
 
     setFilteredSnags(filtered);
-  }, [snags, searchTerm, sortBy]);
+  }, [snags, searchHits, sortBy, parsedQuery, workflow, locations]);
 
   const handleDelete = async (id: string) => {
     console.log('🗑️ Starting deletion process in SnagList for snag:', id);
@@ -243,9 +404,13 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
       priority: snag.priority,
       assignedTo: snag.assignedTo || '',
       status: snag.status,
+      statusNote: snag.statusNote ?? null,
       name: snag.name || '',
       location: snag.location || '',
       observationDate: snag.observationDate ? format(new Date(snag.observationDate), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
+      dueDate: snag.dueDate ? format(new Date(snag.dueDate), 'yyyy-MM-dd') : '',
+      trade: snag.trade ?? null,
+      tags: snag.tags ?? [],
       completionDate: snag.completionDate ? new Date(snag.completionDate) : null
     });
   };
@@ -256,10 +421,14 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
       description: '',
       priority: 'Medium',
       assignedTo: '',
-      status: 'In Progress',
+      status: workflow.initialState,
+      statusNote: null,
       name: '',
       location: '',
       observationDate: format(new Date(), 'yyyy-MM-dd'),
+      dueDate: '',
+      trade: null,
+      tags: [],
       completionDate: null
     });
   };
@@ -267,6 +436,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
   const saveChanges = async (snag: Snag) => {
     const originalSnag = { ...snag };
     const observationDate = new Date(editState.observationDate);
+    const dueDate = editState.dueDate ? new Date(`${editState.dueDate}T00:00:00`) : null;
     
     setSnags(snags.map(s => 
       s.id === snag.id 
@@ -274,7 +444,8 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
             ...s, 
             ...editState, 
             observationDate: observationDate,
-            completionDate: editState.status === 'Completed' ? editState.completionDate : null,
+            dueDate,
+            completionDate: isDoneStatus(workflow, editState.status) ? editState.completionDate : null,
             updatedAt: new Date() 
           } 
         : s
@@ -287,10 +458,14 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
         priority: editState.priority,
         assignedTo: editState.assignedTo,
         status: editState.status,
+        statusNote: editState.statusNote,
         name: editState.name,
         location: editState.location,
+        trade: editState.trade,
+        tags: editState.tags,
         observationDate: observationDate,
-        completionDate: editState.status === 'Completed' ? editState.completionDate : null
+        dueDate,
+        completionDate: isDoneStatus(workflow, editState.status) ? editState.completionDate : null
       };
 
       await updateSnag(snag.id, updateData);
@@ -301,7 +476,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
       setSnags(snags.map(s => 
         s.id === snag.id ? originalSnag : s
       ));
-      setError('Failed to save changes. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to save changes. Please try again.');
     }
   };
 
@@ -395,15 +570,19 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
     setAnnotatingSnag(snag);
   };
 
-  const handleStatusChange = (value: 'In Progress' | 'Completed') => {
-    if (value === 'Completed') {
-      setSnagToComplete(snags.find(s => s.id === editingId) || null);
-      setCompletionDateDialogOpen(true);
+  // Status of the entry being edited, as saved
+  const editingStatus = snags.find(s => s.id === editingId)?.status ?? workflow.initialState;
+
+  const handleStatusChange = (value: string) => {
+    const requirements = getTransitionRequirements(workflow, editingStatus, value);
+    if (value !== editingStatus && (isDoneStatus(workflow, value) || requirements.length > 0)) {
+      setPendingStatus(value);
     } else {
       setEditState(prev => ({
         ...prev,
         status: value,
-        completionDate: null
+        statusNote: value === editingStatus ? snags.find(s => s.id === editingId)?.statusNote ?? null : null,
+        completionDate: isDoneStatus(workflow, value) ? prev.completionDate : null
       }));
     }
   };
@@ -436,26 +615,20 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
     }, 600);
   };
 
-  const handleCompletionDateSubmit = () => {
-    if (!completionDate) {
-      setCompletionDateDialogOpen(false);
-      return;
-    }
-
-    const date = new Date(completionDate);
-    if (isNaN(date.getTime())) {
-      console.error('Invalid completion date');
-      return;
-    }
+  const handleStatusChangeSubmit = ({ completionDate, statusNote }: { completionDate: Date | null; statusNote: string | null }) => {
+    if (!pendingStatus) return;
 
+    const isDone = isDoneStatus(workflow, pendingStatus);
     setEditState(prev => ({
       ...prev,
-      status: 'Completed',
-      completionDate: date
+      status: pendingStatus,
+      statusNote,
+      completionDate: isDone ? completionDate : null
     }));
-    setCompletionDateDialogOpen(false);
-    setCompletionDate('');
-    triggerConfetti(); // Trigger the confetti effect
+    setPendingStatus(null);
+    if (isDone) {
+      triggerConfetti(); // Trigger the confetti effect
+    }
   };
 
   const handleBackupClick = useCallback(async () => {
@@ -492,8 +665,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
 
     try {
       setLoading(true);
-      const backup = await createBackup();
-      downloadBackupFile(backup);
+      if (!await downloadBackup()) return;
       localStorage.setItem(LAST_BACKUP_KEY, String(Date.now()));
       toast.success('Backup created successfully!');
     } catch (error) {
@@ -582,27 +754,66 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex items-center gap-2">
             <div className="relative flex-1">
-              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search entries..."
+              <FilterQueryInput
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={setSearchTerm}
+                knownValues={knownFilterValues}
+                workflow={workflow}
+                categories={categories}
+                isDarkMode={isDarkMode}
                 className="pl-8"
-              />
+              >
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              </FilterQueryInput>
             </div>
             <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="relevance" disabled={!isSearching}>Relevance</SelectItem>
                 <SelectItem value="newest">Newest First</SelectItem>
                 <SelectItem value="oldest">Oldest First</SelectItem>
                 <SelectItem value="priority">By Priority</SelectItem>
                 <SelectItem value="status">By Status</SelectItem>
+                <SelectItem value="due">By Due Date</SelectItem>
                 <SelectItem value="entry-asc">Entry # (Ascending)</SelectItem>
                 <SelectItem value="entry-desc">Entry # (Descending)</SelectItem>
               </SelectContent>
             </Select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" title="Choose columns">
+                  <Columns className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel>Show</DropdownMenuLabel>
+                {SNAG_COLUMNS.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column.id}
+                    checked={columns.includes(column.id)}
+                    onCheckedChange={(checked) => setColumns(prev =>
+                      checked ? ALL_COLUMNS.filter(id => id === column.id || prev.includes(id)) : prev.filter(id => id !== column.id)
+                    )}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {column.label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                setViewName(activeView?.name ?? '');
+                setIsSaveViewOpen(true);
+              }}
+              title="Save view"
+            >
+              <Bookmark className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -638,7 +849,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                 onClick={() => {
                   const input = document.createElement('input');
                   input.type = 'file';
-                  input.accept = '.json';
+                  input.accept = '.zip,.json';
                   input.onchange = async (e) => {
                     const file = (e.target as HTMLInputElement).files?.[0];
                     if (!file) return;
@@ -648,8 +859,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                     }
 
                     try {
-                      const backupData = JSON.parse(await file.text());
-                      await restoreFromBackup(backupData);
+                      await restoreFromBackupFile(file);
                       toast.success('Data restored successfully!');
                       refreshList();
                     } catch (error) {
@@ -660,10 +870,19 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                   input.click();
                 }}
                 title="Restore from Backup"
-                className="rounded-r-md rounded-l-none"
+                className="rounded-none border-r"
               >
                 <Upload className="h-4 w-4" />
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsImportOpen(true)}
+                title="Import Backup into Current Data"
+                className="rounded-r-md rounded-l-none"
+              >
+                <GitMerge className="h-4 w-4" />
+              </Button>
             </div>
 
             <Button
@@ -679,11 +898,41 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
               <Grid className="h-4 w-4" />
             </Button>
 
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setIsRoundsOpen(true)}
+              title="Inspection Rounds"
+              disabled={!projectName}
+            >
+              <ClipboardCheck className="h-4 w-4" />
+            </Button>
+
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setIsChecklistsOpen(true)}
+              title="Checklists"
+              disabled={!projectName}
+            >
+              <ListChecks className="h-4 w-4" />
+            </Button>
+
             {selectedSnags.size > 0 && (
               <>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setGroupPdfByLocation(prev => !prev)}
+                  title={groupPdfByLocation ? 'PDFs grouped by location' : 'Group PDFs by location'}
+                  className={groupPdfByLocation ? 'bg-accent' : ''}
+                >
+                  <MapPin className="h-4 w-4" />
+                </Button>
                 <PDFExport
                   snags={filteredSnags.filter(snag => selectedSnags.has(snag.id))}
                   projectName={projectName}
+                  groupByLocation={groupPdfByLocation}
                 />
                 <PDFExportList
                   snags={filteredSnags.filter(snag => selectedSnags.has(snag.id))}
@@ -691,11 +940,52 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                   isDarkMode={isDarkMode}
                   onClose={() => setSelectedSnags(new Set())}
                   sortOrder={sortBy === 'oldest' ? 'asc' : 'desc'}
+                  groupByLocation={groupPdfByLocation}
                 />
               </>
             )}
           </div>
         </div>
+
+        {selectedSnags.size > 0 && !readOnly && (
+          <BulkActions
+            projectName={projectName}
+            snags={snags.filter(snag => selectedSnags.has(snag.id))}
+            workflow={workflow}
+            categories={categories}
+            onChange={refreshList}
+            onClearSelection={() => setSelectedSnags(new Set())}
+            isDarkMode={isDarkMode}
+          />
+        )}
+
+        {/* Facets: click a trade or tag to filter by it */}
+        {(categoryFacets.trades.length > 0 || categoryFacets.tags.length > 0) && (
+          <div className="flex flex-wrap items-center gap-1.5 mt-3">
+            {categoryFacets.trades.map(({ category, count }) => (
+              <button
+                key={`trade-${category.id}`}
+                type="button"
+                onClick={() => setSearchTerm(prev => toggleFilterToken(prev, `trade:${category.id}`))}
+                className={parsedQuery.intent.filters?.trade === category.id ? 'ring-2 ring-offset-1 ring-gray-400 rounded-full' : ''}
+                title={`Filter by trade: ${category.label}`}
+              >
+                <CategoryChip category={{ ...category, label: `${category.label} ${count}` }} />
+              </button>
+            ))}
+            {categoryFacets.tags.map(({ category, count }) => (
+              <button
+                key={`tag-${category.id}`}
+                type="button"
+                onClick={() => setSearchTerm(prev => toggleFilterToken(prev, `tag:${category.id}`))}
+                className={parsedQuery.intent.filters?.tags?.includes(category.id) ? 'ring-2 ring-offset-1 ring-gray-400 rounded-full' : ''}
+                title={`Filter by tag: ${category.label}`}
+              >
+                <CategoryChip variant="outline" category={{ ...category, label: `${category.label} ${count}` }} />
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Error Message */}
@@ -726,7 +1016,14 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
               onToggleSelect={() => handleToggleSelect(snag)}
               onEdit={() => startEditing(snag)}
               onDelete={() => setDeleteConfirmId(snag.id)}
+              onTransfer={readOnly ? undefined : () => setTransferSnagId(snag.id)}
               onViewAnnotations={() => handleViewAnnotations(snag)}
+              searchHit={searchHits?.get(snag.id)}
+              columns={columns}
+              workflow={workflow}
+              categories={categories}
+              rounds={rounds}
+              onSnagUpdate={(updatedSnag) => setSnags(prev => prev.map(s => s.id === updatedSnag.id ? updatedSnag : s))}
               isDarkMode={isDarkMode}
             />
           ))}
@@ -748,6 +1045,10 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
         isDarkMode={isDarkMode}
         searchTerm={searchTerm}
         onSearchChange={setSearchTerm}
+        searchHits={searchHits}
+        knownFilterValues={knownFilterValues}
+        workflow={workflow}
+        categories={categories}
         onSnagUpdate={async (updatedSnag) => {
           try {
             const { id, projectName, ...snagData } = updatedSnag;
@@ -756,13 +1057,14 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
               updatedAt: new Date(updatedSnag.updatedAt),
               createdAt: new Date(updatedSnag.createdAt),
               observationDate: new Date(updatedSnag.observationDate),
-              completionDate: updatedSnag.completionDate ? new Date(updatedSnag.completionDate) : undefined
+              completionDate: updatedSnag.completionDate ? new Date(updatedSnag.completionDate) : undefined,
+              dueDate: updatedSnag.dueDate ? new Date(updatedSnag.dueDate) : null
             };
             await updateSnag(id, snagToUpdate);
             handleUploadComplete();
           } catch (error) {
             console.error('Failed to update snag:', error);
-            toast.error('Failed to update entry');
+            toast.error(error instanceof Error ? error.message : 'Failed to update entry');
           }
         }}
       />
@@ -779,7 +1081,7 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
             <p className={`transition-colors duration-300 ${
               isDarkMode ? 'text-gray-300' : 'text-gray-600'
             }`}>
-              Are you sure you want to delete this entry? This action cannot be undone.
+              Move this entry to the Trash? It can be restored from there until it is purged.
             </p>
             <div className="flex justify-end space-x-3">
               <button
@@ -819,9 +1121,9 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
       )}
 
       {/* Annotation Modal */}
-      {annotatingSnag && (
+      {annotatingSnag && annotatingImageUrl && (
         <ImageAnnotator
-          imageUrl={annotatingSnag.photoPath}
+          imageUrl={annotatingImageUrl}
           existingAnnotations={annotatingSnag.annotations}
           onSave={handleAnnotationSave}
           onClose={() => setAnnotatingSnag(null)}
@@ -829,49 +1131,90 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
       )}
 
       {/* Completion Date Dialog */}
-      <Dialog open={completionDateDialogOpen} onOpenChange={setCompletionDateDialogOpen}>
-        <DialogContent className="bg-white dark:bg-gray-800 border-0 shadow-lg sm:max-w-[425px]">
-          <DialogHeader className="space-y-3 pb-4 border-b">
-            <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">Set Completion Date</DialogTitle>
-            <DialogDescription className="text-gray-500 dark:text-gray-400">
-              Please enter the completion date for this entry.
+      <Dialog open={isSaveViewOpen} onOpenChange={setIsSaveViewOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filter, sort, layout and columns for {projectName}.
             </DialogDescription>
           </DialogHeader>
-          <div className="py-6">
-            <div className="flex items-center gap-4">
-              <Label htmlFor="completionDate" className="min-w-[80px] text-gray-700 dark:text-gray-300">
-                Date
-              </Label>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSaveView();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="viewName">Name</Label>
               <Input
-                id="completionDate"
-                type="date"
-                value={completionDate}
-                onChange={(e) => setCompletionDate(e.target.value)}
-                className="flex-1 bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:ring-2 focus:ring-blue-500"
+                id="viewName"
+                autoFocus
+                value={viewName}
+                placeholder="My open high-priority items"
+                onChange={(e) => setViewName(e.target.value)}
               />
             </div>
-          </div>
-          <div className="pt-4 border-t flex justify-end gap-3">
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                setCompletionDateDialogOpen(false);
-                setEditState(prev => ({ ...prev, status: 'In Progress' }));
-              }}
-              className="bg-white hover:bg-gray-50 dark:bg-gray-800 dark:hover:bg-gray-700 border-gray-200 dark:border-gray-600"
-            >
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleCompletionDateSubmit}
-              className="bg-blue-600 hover:bg-blue-700 text-white"
-            >
-              Save
-            </Button>
-          </div>
+            <p className="text-xs text-muted-foreground break-words">
+              Filter: {searchTerm.trim() || 'all entries'}
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setIsSaveViewOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!viewName.trim()}>
+                Save View
+              </Button>
+            </div>
+          </form>
         </DialogContent>
       </Dialog>
 
+      <InspectionRounds
+        isOpen={isRoundsOpen}
+        projectName={projectName}
+        snags={snags}
+        workflow={workflow}
+        onClose={() => setIsRoundsOpen(false)}
+        onSnagUpdate={(updatedSnag) => setSnags(prev => prev.map(s => s.id === updatedSnag.id ? updatedSnag : s))}
+        onRoundsChange={refreshList}
+        isDarkMode={isDarkMode}
+      />
+
+      <TransferSnagsDialog
+        isOpen={transferSnagId !== null}
+        projectName={projectName}
+        snagIds={transferSnagId ? [transferSnagId] : []}
+        onClose={() => setTransferSnagId(null)}
+        onTransferred={refreshList}
+        isDarkMode={isDarkMode}
+      />
+
+      <ImportBackupDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={refreshList}
+        isDarkMode={isDarkMode}
+      />
+
+      <ProjectChecklists
+        isOpen={isChecklistsOpen}
+        projectName={projectName}
+        onClose={() => setIsChecklistsOpen(false)}
+        onEntriesChange={refreshList}
+        isDarkMode={isDarkMode}
+      />
+
+      <StatusChangeDialog
+        isOpen={pendingStatus !== null}
+        targetLabel={pendingStatus ? getStatusLabel(workflow, pendingStatus) : ''}
+        askCompletionDate={!!pendingStatus && (isDoneStatus(workflow, pendingStatus) || getTransitionRequirements(workflow, editingStatus, pendingStatus).includes('completionDate'))}
+        askEvidence={!!pendingStatus && getTransitionRequirements(workflow, editingStatus, pendingStatus).includes('evidence')}
+        onSubmit={handleStatusChangeSubmit}
+        onCancel={() => setPendingStatus(null)}
+      />
+
       {/* Edit Dialog */}
       {editingId && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -948,8 +1291,9 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                     <SelectValue placeholder="Select status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="In Progress">In Progress</SelectItem>
-                    <SelectItem value="Completed">Completed</SelectItem>
+                    {getAllowedStatuses(workflow, editingStatus).map(state => (
+                      <SelectItem key={state.id} value={state.id}>{state.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -958,11 +1302,27 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                 <Label htmlFor="location" className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
                   Location
                 </Label>
-                <Input
+                <LocationPicker
                   id="location"
+                  projectName={projectName}
                   value={editState.location}
-                  onChange={(e) => setEditState((prev) => ({ ...prev, location: e.target.value }))}
+                  onChange={(location) => setEditState((prev) => ({ ...prev, location }))}
                   className={`${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}`}
+                  isDarkMode={isDarkMode}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
+                  Trade &amp; Tags
+                </Label>
+                <CategoryPicker
+                  trade={editState.trade}
+                  tags={editState.tags}
+                  categories={categories}
+                  onTradeChange={(trade) => setEditState((prev) => ({ ...prev, trade }))}
+                  onTagsChange={(tags) => setEditState((prev) => ({ ...prev, tags }))}
+                  isDarkMode={isDarkMode}
                 />
               </div>
 
@@ -979,15 +1339,29 @@ export function SnagList({ projectName, refreshTrigger = 0, isDarkMode = false,
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="dueDate" className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
+                  Due Date
+                </Label>
+                <Input
+                  id="dueDate"
+                  type="date"
+                  value={editState.dueDate}
+                  onChange={(e) => setEditState((prev) => ({ ...prev, dueDate: e.target.value }))}
+                  className={`${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}`}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="assignedTo" className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
                   Assigned To
                 </Label>
-                <Input
+                <AssigneePicker
                   id="assignedTo"
                   value={editState.assignedTo}
-                  onChange={(e) => setEditState((prev) => ({ ...prev, assignedTo: e.target.value }))}
+                  onChange={(assignedTo) => setEditState((prev) => ({ ...prev, assignedTo }))}
                   className={`${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white'}`}
+                  isDarkMode={isDarkMode}
                 />
               </div>
             </div>
@@ -1,5 +1,7 @@
 import { FC } from 'react';
-import Image from 'next/image';
+import MediaImage from './MediaImage';
+import { SnagHistory } from './SnagHistory';
+import { SearchSnippet } from './SearchSnippet';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -11,10 +13,22 @@ import {
   Pencil,
   Trash2,
   Paperclip,
-  MapPin
+  MapPin,
+  History,
+  Clock,
+  Images,
+  FolderInput
 } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
-import { Snag } from '@/types/snag';
+import { Snag, SnagColumn } from '@/types/snag';
+import { SearchHit } from '@/lib/search';
+import { DEFAULT_WORKFLOW, Workflow, getStatusColor, getStatusLabel, isDoneStatus } from '@/lib/workflow';
+import { getDaysOverdue, isOverdue } from '@/lib/sla';
+import { DEFAULT_CATEGORIES, ProjectCategories } from '@/lib/categories';
+import { CategoryChips } from './CategoryFields';
+import { getSnagPhotos } from '@/lib/photos';
+import { InspectionRound, getRoundLabel } from '@/lib/rounds';
+import { getOriginLabel } from '@/lib/transfer';
 import React from 'react';
 
 interface SnagListItemProps {
@@ -23,7 +37,18 @@ interface SnagListItemProps {
   onToggleSelect: (snag: Snag) => void;
   onEdit: (snag: Snag) => void;
   onDelete: (id: string) => void;
+  // Opens the move or copy to another project dialog
+  onTransfer?: (snag: Snag) => void;
   onViewAnnotations: (snag: Snag) => void;
+  onSnagUpdate?: (snag: Snag) => void;
+  // Set while a search is active, to show where it matched
+  searchHit?: SearchHit;
+  // Parts of the card to show; everything when omitted
+  columns?: SnagColumn[];
+  workflow?: Workflow;
+  categories?: ProjectCategories;
+  // The project's inspection rounds, to label the one the entry was found in
+  rounds?: InspectionRound[];
   isDarkMode?: boolean;
 }
 
@@ -33,10 +58,23 @@ export function SnagListItem({
   onToggleSelect, 
   onEdit, 
   onDelete, 
+  onTransfer,
   onViewAnnotations,
+  onSnagUpdate,
+  searchHit,
+  columns,
+  workflow = DEFAULT_WORKFLOW,
+  categories = DEFAULT_CATEGORIES,
+  rounds = [],
   isDarkMode = false 
 }: SnagListItemProps) {
   console.log('Snag data:', snag);
+  const [showHistory, setShowHistory] = React.useState(false);
+  const shows = (column: SnagColumn) => !columns || columns.includes(column);
+  const isDone = isDoneStatus(workflow, snag.status);
+  const overdue = isOverdue(snag.dueDate, isDone);
+  const photoCount = getSnagPhotos(snag).length;
+  const round = rounds.find(candidate => candidate.id === snag.roundId);
 
   const formattedDate = React.useMemo(() => {
     try {
@@ -64,11 +102,17 @@ export function SnagListItem({
     }
   }, [snag.completionDate]);
 
+  const formattedDueDate = React.useMemo(() => {
+    if (!snag.dueDate) return null;
+    const date = new Date(snag.dueDate);
+    return isNaN(date.getTime()) ? null : formatDate(date);
+  }, [snag.dueDate]);
+
   const priorityColors = getPriorityColor(snag.priority);
 
   return (
     <Card className="p-4 mb-3 hover:shadow-md transition-shadow duration-200 relative overflow-hidden">
-      {snag.status === 'Completed' && (
+      {isDone && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <div className="transform rotate-[-30deg] text-green-600/20 dark:text-green-500/20 flex flex-col items-center select-none">
             <span className="text-[72px] font-bold tracking-wider">COMPLETED</span>
@@ -93,16 +137,21 @@ export function SnagListItem({
         )}
 
         {/* Image Section */}
-        <div className="relative w-[200px] h-[200px] flex-shrink-0">
-          <Image
-            src={snag.photoPath}
-            alt={`Entry #${snag.snagNumber}`}
-            className="object-cover w-full h-full rounded-lg border border-gray-200"
-            width={200}
-            height={200}
-            priority
-          />
-        </div>
+        {shows('photo') && (
+          <div className="relative w-[200px] h-[200px] flex-shrink-0">
+            <MediaImage
+              mediaId={snag.photoId}
+              alt={`Entry #${snag.snagNumber}`}
+              className="object-cover w-full h-full rounded-lg border border-gray-200"
+            />
+            {photoCount > 1 && (
+              <span className="absolute bottom-2 right-2 bg-black/70 text-white px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1">
+                <Images className="w-3 h-3" />
+                {photoCount}
+              </span>
+            )}
+          </div>
+        )}
 
         {/* Content Section */}
         <div className="flex-grow min-w-0">
@@ -110,20 +159,41 @@ export function SnagListItem({
             <div className="min-w-0">
               <div className="flex items-center gap-2">
                 <h3 className={`text-lg font-semibold truncate ${
-                  snag.status === 'Completed' ? 'text-green-600 font-bold' : ''
+                  isDone ? 'text-green-600 font-bold' : ''
                 }`}>
                   Entry #{snag.snagNumber} - {snag.name || 'Untitled Entry'}
                 </h3>
                 <div className="flex flex-col items-start">
                   <div className="flex items-center gap-2">
-                    <Badge variant={getStatusVariant(snag.status)} className="text-xs px-2 py-0.5">
-                      {snag.status}
+                    <Badge variant={isDone ? 'outline' : 'secondary'} className="text-xs px-2 py-0.5 gap-1" title={snag.statusNote ?? undefined}>
+                      <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getStatusColor(workflow, snag.status) }} />
+                      {getStatusLabel(workflow, snag.status)}
                     </Badge>
-                    {snag.status === 'Completed' && (
+                    {isDone && (
                       <div className="w-2 h-2 rounded-full bg-green-500"></div>
                     )}
+                    {round && (
+                      <Badge variant="outline" className="text-xs px-2 py-0.5 whitespace-nowrap" title={`Found in ${getRoundLabel(round)}`}>
+                        Round {round.number}
+                      </Badge>
+                    )}
+                    {overdue && (
+                      <Badge variant="destructive" className="text-xs px-2 py-0.5">
+                        Overdue {getDaysOverdue(snag.dueDate!)}d
+                      </Badge>
+                    )}
                   </div>
-                  {snag.status === 'Completed' && formattedCompletionDate && (
+                  {snag.origin && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {getOriginLabel(snag.origin)}
+                    </div>
+                  )}
+                  {snag.waiver && (
+                    <div className="text-xs text-amber-600 mt-1" title={`Waived by ${snag.waiver.waivedBy || 'unknown'}`}>
+                      Waived: {snag.waiver.reason}
+                    </div>
+                  )}
+                  {isDone && formattedCompletionDate && (
                     <div className="text-xs text-gray-500 mt-1">
                       Completed on {formattedCompletionDate}
                     </div>
@@ -131,19 +201,35 @@ export function SnagListItem({
                 </div>
               </div>
               <div className="flex items-center gap-4 mt-1 text-sm text-gray-500">
-                <div className="flex items-center gap-1">
-                  <Calendar className="w-4 h-4" />
-                  {formattedDate}
-                </div>
-                <div className="flex items-center gap-1">
-                  <MapPin className="w-4 h-4" />
-                  {snag.location || 'No location'}
-                </div>
-                <div className="flex items-center gap-1">
-                  <User className="w-4 h-4" />
-                  {snag.assignedTo || 'Unassigned'}
-                </div>
+                {shows('observationDate') && (
+                  <div className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    {formattedDate}
+                  </div>
+                )}
+                {shows('dueDate') && formattedDueDate && (
+                  <div className={`flex items-center gap-1 ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                    <Clock className="w-4 h-4" />
+                    Due {formattedDueDate}
+                  </div>
+                )}
+                {shows('location') && (
+                  <div className="flex items-center gap-1">
+                    <MapPin className="w-4 h-4" />
+                    {snag.location || 'No location'}
+                  </div>
+                )}
+                {shows('assignedTo') && (
+                  <div className="flex items-center gap-1">
+                    <User className="w-4 h-4" />
+                    {snag.assignedTo || 'Unassigned'}
+                  </div>
+                )}
               </div>
+              {shows('categories') && (
+                <CategoryChips trade={snag.trade} tags={snag.tags} categories={categories} className="mt-1.5" />
+              )}
+              {searchHit && <SearchSnippet hit={searchHit} className="mt-1" />}
             </div>
             
             {/* Actions Section */}
@@ -180,6 +266,26 @@ export function SnagListItem({
               >
                 <Pencil className="w-4 h-4" />
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowHistory(prev => !prev)}
+                className="h-8 w-8"
+                title="Show history"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+              {onTransfer && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onTransfer(snag)}
+                  className="h-8 w-8"
+                  title="Move or copy to another project"
+                >
+                  <FolderInput className="w-4 h-4" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -194,28 +300,32 @@ export function SnagListItem({
 
           <div className="flex gap-4">
             {/* Description Section */}
-            <div className="flex-grow">
-              <div className="text-sm font-medium text-gray-500 mb-1.5">Description</div>
-              <p className="text-sm text-gray-700 line-clamp-3">{snag.description || 'No description provided'}</p>
-            </div>
+            {shows('description') && (
+              <div className="flex-grow">
+                <div className="text-sm font-medium text-gray-500 mb-1.5">Description</div>
+                <p className="text-sm text-gray-700 line-clamp-3">{snag.description || 'No description provided'}</p>
+              </div>
+            )}
 
             {/* Priority Badge */}
-            <div className="flex-shrink-0">
-              <div className="text-sm font-medium text-gray-500 mb-1.5">Priority</div>
-              <Badge 
-                style={{
-                  backgroundColor: priorityColors.bg,
-                  color: priorityColors.color,
-                }}
-                className="text-xs px-2 py-0.5"
-              >
-                {snag.priority}
-              </Badge>
-            </div>
+            {shows('priority') && (
+              <div className="flex-shrink-0">
+                <div className="text-sm font-medium text-gray-500 mb-1.5">Priority</div>
+                <Badge 
+                  style={{
+                    backgroundColor: priorityColors.bg,
+                    color: priorityColors.color,
+                  }}
+                  className="text-xs px-2 py-0.5"
+                >
+                  {snag.priority}
+                </Badge>
+              </div>
+            )}
           </div>
 
           {/* Annotations Section */}
-          {snag.annotations && snag.annotations.length > 0 && (
+          {shows('annotations') && snag.annotations && snag.annotations.length > 0 && (
             <div className="mt-3">
               <div className="text-sm font-medium text-gray-500 mb-2">Annotations</div>
               <div className="space-y-2 max-h-[120px] overflow-y-auto pr-2">
@@ -228,6 +338,18 @@ export function SnagListItem({
               </div>
             </div>
           )}
+
+          {/* History Section */}
+          {showHistory && (
+            <div className="mt-3 pt-3 border-t border-gray-200">
+              <SnagHistory
+                snagId={snag.id}
+                updatedAt={snag.updatedAt}
+                onReverted={onSnagUpdate}
+                isDarkMode={isDarkMode}
+              />
+            </div>
+          )}
         </div>
       </div>
     </Card>
@@ -242,11 +364,4 @@ const getPriorityColor = (priority: string) => {
     default: return { color: '#6B7280', bg: '#F3F4F6' };
   }
 };
-
-const getStatusVariant = (status: string): "secondary" | "outline" => {
-  switch (status.toLowerCase()) {
-    case 'in progress': return 'secondary';
-    case 'completed': return 'outline';
-    default: return 'secondary';
-  }
-}; 
\ No newline at end of file
+ 
\ No newline at end of file
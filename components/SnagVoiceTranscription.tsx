@@ -3,9 +3,11 @@ import { Mic, MicOff, Plus, RefreshCw } from 'lucide-react';
 import { Button } from './ui/button';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { saveVoiceRecording, updateVoiceRecordingTranscription } from '@/lib/db';
 
 interface SnagVoiceTranscriptionProps {
   snagId: string;
+  projectName: string;
   currentDescription: string;
   currentName: string;
   onSnagUpdate: (updates: { description: string; name?: string }) => void;
@@ -19,6 +21,7 @@ interface SnagVoiceTranscriptionProps {
 
 export function SnagVoiceTranscription({
   snagId,
+  projectName,
   currentDescription,
   currentName,
   onSnagUpdate,
@@ -86,7 +89,20 @@ export function SnagVoiceTranscription({
 
       mediaRecorder.current.onstop = async () => {
         const audioBlob = new Blob(audioChunks.current, { type: 'audio/wav' });
-        await transcribeAudio(audioBlob);
+        // Keep the dictation with the entry, so it moves and copies with it
+        let recordingId: string | null = null;
+        try {
+          const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+          recordingId = await saveVoiceRecording(projectName, `dictation_${timestamp}.wav`, audioBlob, snagId);
+        } catch (error) {
+          console.error('Error saving dictation:', error);
+        }
+        const text = await transcribeAudio(audioBlob);
+        if (recordingId && text) {
+          await updateVoiceRecordingTranscription(recordingId, text).catch(error => {
+            console.error('Error saving dictation transcript:', error);
+          });
+        }
       };
 
       mediaRecorder.current.start();
@@ -125,9 +141,11 @@ export function SnagVoiceTranscription({
       
       setTranscribedText(text);
       toast.success('Audio transcribed successfully');
+      return text as string;
     } catch (error) {
       console.error('Transcription error:', error);
       toast.error('Failed to transcribe audio. Please try again.');
+      return null;
     } finally {
       setIsTranscribing(false);
     }
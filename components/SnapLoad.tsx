@@ -3,11 +3,12 @@ import { Button } from './ui/button';
 import ImageAnnotator from './ImageAnnotator';
 import { QuickSnagVoiceTranscription } from './QuickSnagVoiceTranscription';
 import { addSnag, updateSnag } from '@/lib/db';
-import { generateThumbnail } from '@/lib/utils';
+import { generateThumbnail, dataUrlToBlob } from '@/lib/utils';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { Maximize, Mic, MicOff, Sparkles, FolderOpen, Save, Check, AlertCircle, PencilLine, BookmarkPlus, X } from 'lucide-react';
 import { Input } from './ui/input';
+import { LocationPicker } from './LocationPicker';
 
 // Add webkitdirectory to HTMLInputElement
 declare module 'react' {
@@ -238,7 +239,6 @@ export function SnapLoad({ projectName, onComplete, isDarkMode = false }: SnapLo
         savedSnag = await updateSnag(currentImage.dbId, {
           name: currentImage.name,
           description: currentImage.description,
-          photoPath: currentImage.dataUrl,
           location,
           annotations: currentImage.annotations
         });
@@ -257,10 +257,11 @@ export function SnapLoad({ projectName, onComplete, isDarkMode = false }: SnapLo
           projectName,
           name: currentImage.name,
           description: currentImage.description,
-          photoPath: currentImage.dataUrl,
-          thumbnailPath: thumbnail,
+          photo: {
+            compressed: dataUrlToBlob(currentImage.dataUrl),
+            thumbnail: dataUrlToBlob(thumbnail)
+          },
           priority: 'Medium' as const,
-          status: 'In Progress' as const,
           assignedTo: '',
           location,
           observationDate: new Date(),
@@ -316,7 +317,6 @@ export function SnapLoad({ projectName, onComplete, isDarkMode = false }: SnapLo
             await updateSnag(image.dbId, {
               name: image.name,
               description: image.description,
-              photoPath: image.dataUrl,
               location,
               annotations: image.annotations
             });
@@ -334,10 +334,11 @@ export function SnapLoad({ projectName, onComplete, isDarkMode = false }: SnapLo
               projectName,
               name: image.name,
               description: image.description,
-              photoPath: image.dataUrl,
-              thumbnailPath: thumbnail,
+              photo: {
+                compressed: dataUrlToBlob(image.dataUrl),
+                thumbnail: dataUrlToBlob(thumbnail)
+              },
               priority: 'Medium' as const,
-              status: 'In Progress' as const,
               assignedTo: '',
               location,
               observationDate: new Date(),
@@ -770,6 +771,15 @@ export function SnapLoad({ projectName, onComplete, isDarkMode = false }: SnapLo
                             )}
                           </Button>
                         </div>
+
+                        {/* Shared by the whole folder; starts as the folder name */}
+                        <LocationPicker
+                          projectName={projectName}
+                          value={location}
+                          onChange={setLocation}
+                          placeholder="Location..."
+                          isDarkMode={isDarkMode}
+                        />
                       </div>
 
                       {/* Status Bar */}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+
+interface StatusChangeDialogProps {
+  isOpen: boolean;
+  // Label of the status being moved to
+  targetLabel: string;
+  askCompletionDate: boolean;
+  askEvidence: boolean;
+  onSubmit: (values: { completionDate: Date | null; statusNote: string | null }) => void;
+  onCancel: () => void;
+}
+
+// Collects what a workflow transition requires before the status changes
+export function StatusChangeDialog({
+  isOpen,
+  targetLabel,
+  askCompletionDate,
+  askEvidence,
+  onSubmit,
+  onCancel
+}: StatusChangeDialogProps) {
+  const [completionDate, setCompletionDate] = useState('');
+  const [evidence, setEvidence] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setCompletionDate('');
+      setEvidence('');
+    }
+  }, [isOpen]);
+
+  const date = completionDate ? new Date(completionDate) : null;
+  const isValid = (!askCompletionDate || (date && !isNaN(date.getTime()))) && (!askEvidence || evidence.trim());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-white dark:bg-gray-800 border-0 shadow-lg sm:max-w-[425px]">
+        <DialogHeader className="space-y-3 pb-4 border-b">
+          <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">Move to {targetLabel}</DialogTitle>
+          <DialogDescription className="text-gray-500 dark:text-gray-400">
+            {askCompletionDate && askEvidence
+              ? 'Please enter the completion date and the evidence for this change.'
+              : askCompletionDate
+                ? 'Please enter the completion date for this entry.'
+                : 'Please describe the evidence for this change.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-6 space-y-4">
+          {askCompletionDate && (
+            <div className="flex items-center gap-4">
+              <Label htmlFor="completionDate" className="min-w-[80px] text-gray-700 dark:text-gray-300">
+                Date
+              </Label>
+              <Input
+                id="completionDate"
+                type="date"
+                value={completionDate}
+                onChange={(e) => setCompletionDate(e.target.value)}
+                className="flex-1 bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+          {askEvidence && (
+            <div className="space-y-2">
+              <Label htmlFor="statusEvidence" className="text-gray-700 dark:text-gray-300">
+                Evidence
+              </Label>
+              <Textarea
+                id="statusEvidence"
+                value={evidence}
+                placeholder="What was done, and how it was checked"
+                onChange={(e) => setEvidence(e.target.value)}
+                className="bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+              />
+            </div>
+          )}
+        </div>
+        <div className="pt-4 border-t flex justify-end gap-3">
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            className="bg-white hover:bg-gray-50 dark:bg-gray-800 dark:hover:bg-gray-700 border-gray-200 dark:border-gray-600"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isValid}
+            onClick={() => onSubmit({
+              completionDate: askCompletionDate ? date : null,
+              statusNote: askEvidence ? evidence.trim() : null
+            })}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
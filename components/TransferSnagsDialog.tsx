@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { FolderInput } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { bulkDeleteSnags, copySnagsToProject, getAllProjects, moveSnagsToProject, restoreSnagRecords } from '@/lib/db';
+import { TRANSFER_MODES, TransferMode } from '@/lib/transfer';
+import { cn } from '@/lib/utils';
+
+interface TransferSnagsDialogProps {
+  isOpen: boolean;
+  // Project the entries are listed in
+  projectName: string;
+  snagIds: string[];
+  onClose: () => void;
+  // Called after the entries were moved or copied, and again after an undo
+  onTransferred: (mode: TransferMode) => void;
+  isDarkMode?: boolean;
+}
+
+// Moves or copies entries to another project, with an undo toast
+export function TransferSnagsDialog({
+  isOpen,
+  projectName,
+  snagIds,
+  onClose,
+  onTransferred,
+  isDarkMode = false
+}: TransferSnagsDialogProps) {
+  const [mode, setMode] = useState<TransferMode>('move');
+  const [targetProject, setTargetProject] = useState('');
+  const [projectNames, setProjectNames] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setMode('move');
+    setTargetProject('');
+    getAllProjects()
+      .then(projects => setProjectNames(projects.map(project => project.name).sort((a, b) => a.localeCompare(b))))
+      .catch(error => {
+        console.error('❌ Failed to load projects:', error);
+      });
+  }, [isOpen]);
+
+  // Entries can be copied within their own project, but not moved there
+  const targets = mode === 'move' ? projectNames.filter(name => name !== projectName) : projectNames;
+  const count = snagIds.length;
+  const noun = `${count} entr${count === 1 ? 'y' : 'ies'}`;
+
+  const handleSubmit = async () => {
+    if (!targetProject) return;
+
+    try {
+      setIsSaving(true);
+      const undo = mode === 'move'
+        ? await moveSnagsToProject(snagIds, targetProject).then(before => () => restoreSnagRecords(before))
+        : await copySnagsToProject(snagIds, targetProject).then(copies => () => bulkDeleteSnags(copies.map(copy => copy.id)));
+
+      onTransferred(mode);
+      onClose();
+      toast.success(`${noun} ${mode === 'move' ? 'moved' : 'copied'} to ${targetProject}`, {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            try {
+              await undo();
+              toast.success(mode === 'move' ? 'Move undone' : 'Copies moved to the Trash');
+              onTransferred(mode);
+            } catch (error) {
+              console.error('❌ Failed to undo transfer:', error);
+              toast.error('Failed to undo the change');
+            }
+          }
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to transfer entries:', error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${mode} entries`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[440px] ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderInput className="h-5 w-5" />
+            Move or Copy {count === 1 ? 'Entry' : 'Entries'}
+          </DialogTitle>
+          <DialogDescription>
+            {noun} get new numbers in the target project and keep a reference to their current number.
+            Photos, annotations and linked voice recordings go with them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+          className="space-y-4"
+        >
+          <div className="flex gap-1">
+            {TRANSFER_MODES.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => {
+                  setMode(option.id);
+                  if (option.id === 'move' && targetProject === projectName) setTargetProject('');
+                }}
+                className={cn(
+                  'px-3 py-1 rounded-full text-sm font-medium transition-colors',
+                  mode === option.id
+                    ? 'bg-blue-600 text-white'
+                    : isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {targets.length > 0 ? (
+            <Select value={targetProject} onValueChange={setTargetProject}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(name => (
+                  <SelectItem key={name} value={name}>
+                    {name}{name === projectName ? ' (this project)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>There are no other projects to move to.</p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !targetProject}>
+              {isSaving ? 'Saving...' : mode === 'move' ? 'Move' : 'Copy'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Folder, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import MediaImage from './MediaImage';
+import {
+  getTrash,
+  restoreSnag,
+  restoreProject,
+  purgeSnag,
+  purgeProject,
+  emptyTrash,
+  purgeExpiredTrash,
+  getTrashRetentionDays,
+  setTrashRetentionDays
+} from '@/lib/db';
+
+interface TrashViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: () => void;
+  isDarkMode?: boolean;
+}
+
+type TrashContents = Awaited<ReturnType<typeof getTrash>>;
+
+export function TrashView({ isOpen, onClose, onRestore, isDarkMode = false }: TrashViewProps) {
+  const [trash, setTrash] = useState<TrashContents>({ projects: [], snags: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTrash(await getTrash());
+    } catch (error) {
+      console.error('❌ Error loading trash:', error);
+      toast.error('Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTrash();
+    }
+  }, [isOpen, loadTrash]);
+
+  // Wraps a trash action with error reporting and a reload
+  const runAction = async (action: () => Promise<unknown>, successMessage: string, restored = false) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      if (restored) onRestore();
+    } catch (error) {
+      console.error('❌ Trash action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    }
+    await loadTrash();
+  };
+
+  const handleRetentionChange = async () => {
+    setTrashRetentionDays(retentionDays);
+    const purged = await purgeExpiredTrash(retentionDays);
+    if (purged > 0) {
+      toast.success(`Purged ${purged} expired item${purged === 1 ? '' : 's'}`);
+      await loadTrash();
+    }
+  };
+
+  const isEmpty = trash.projects.length === 0 && trash.snags.length === 0;
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted projects and entries can be restored until they are purged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="trash-retention">Purge automatically after (days, 0 = never)</Label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={0}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(Math.max(0, Number(e.target.value) || 0))}
+              onBlur={handleRetentionChange}
+              className="w-32"
+            />
+          </div>
+          <Button
+            variant="destructive"
+            disabled={isEmpty}
+            onClick={() => {
+              if (confirm('Permanently delete everything in the trash? This action cannot be undone.')) {
+                runAction(emptyTrash, 'Trash emptied');
+              }
+            }}
+          >
+            Empty Trash
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className={`text-sm ${mutedText}`}>Loading trash...</p>
+        ) : isEmpty ? (
+          <p className={`text-sm text-center py-6 ${mutedText}`}>The trash is empty</p>
+        ) : (
+          <div className="space-y-6">
+            {trash.projects.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Projects</h3>
+                {trash.projects.map(project => (
+                  <div key={project.id} className="flex items-center gap-3 p-3 rounded-lg border">
+                    <Folder className={`w-8 h-8 ${mutedText}`} />
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium truncate">{project.name}</p>
+                      <p className={`text-xs ${mutedText}`}>
+                        {project.snagCount} {project.snagCount === 1 ? 'entry' : 'entries'} · deleted {format(new Date(project.deletedAt!), 'MMM d, yyyy HH:mm')}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runAction(() => restoreProject(project.id), `Restored "${project.name}"`, true)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete forever"
+                      onClick={() => {
+                        if (confirm(`Permanently delete "${project.name}" and all its entries? This action cannot be undone.`)) {
+                          runAction(() => purgeProject(project.id), `Deleted "${project.name}"`);
+                        }
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {trash.snags.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Entries</h3>
+                {trash.snags.map(snag => (
+                  <div key={snag.id} className="flex items-center gap-3 p-3 rounded-lg border">
+                    <div className="w-16 h-16 flex-shrink-0 overflow-hidden rounded-md">
+                      <MediaImage
+                        mediaId={snag.thumbnailId}
+                        alt={snag.name}
+                        className="w-full h-full object-cover"
+                      />
+                    </div>
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium truncate">
+                        Entry #{snag.snagNumber} - {snag.name || 'Untitled Entry'}
+                      </p>
+                      <p className={`text-xs ${mutedText}`}>
+                        {snag.projectName} · deleted {format(new Date(snag.deletedAt!), 'MMM d, yyyy HH:mm')}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runAction(() => restoreSnag(snag.id), `Restored entry #${snag.snagNumber}`, true)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete forever"
+                      onClick={() => {
+                        if (confirm(`Permanently delete entry #${snag.snagNumber}? This action cannot be undone.`)) {
+                          runAction(() => purgeSnag(snag.id), `Deleted entry #${snag.snagNumber}`);
+                        }
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
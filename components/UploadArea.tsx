@@ -1,9 +1,12 @@
 import { useCallback, useState, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Upload, X, Check, FileText, Info } from 'lucide-react';
-import { addSnag } from '@/lib/db';
-import { compressImage, generateThumbnail } from '@/lib/utils';
+import { addSnag, getProjectWorkflow } from '@/lib/db';
+import { isDoneStatus, resolveStatus } from '@/lib/workflow';
+import { compressImage, generateThumbnail, dataUrlToBlob } from '@/lib/utils';
 import { toast } from 'react-hot-toast';
+import { AssigneePicker } from './AssigneePicker';
+import { LocationPicker } from './LocationPicker';
 
 interface UploadAreaProps {
   projectName: string;
@@ -15,7 +18,8 @@ interface BatchFields {
   description: string;
   priority?: 'Low' | 'Medium' | 'High';
   assignedTo?: string;
-  status?: 'In Progress' | 'Completed';
+  // Status as written in the text file; matched against the workflow on upload
+  status?: string;
   location?: string;
   completionDate?: Date | null;
   observationDate?: Date;
@@ -28,7 +32,7 @@ interface Preview {
   description: string;
   priority?: 'Low' | 'Medium' | 'High';
   assignedTo?: string;
-  status?: 'In Progress' | 'Completed';
+  status?: string;
   location?: string;
   completionDate?: Date | null;
   observationDate?: Date;
@@ -106,11 +110,11 @@ export function UploadArea({
           console.log('Status line found:', lines[3]);
           // Split only on the first hyphen to keep the date intact
           const [statusPart, ...dateParts] = lines[3].split('-');
-          status = statusPart.trim() as BatchFields['status'];
+          status = statusPart.trim() || undefined;
           console.log('Parsed status:', status);
           
-          // If status is Completed and there's a date part, try to parse it
-          if (status === 'Completed' && dateParts.length > 0) {
+          // If there's a date part, try to parse it; it's kept only for done statuses
+          if (dateParts.length > 0) {
             try {
               // Join back the date parts in case there were hyphens in the date
               const dateStr = dateParts.join('-').trim();
@@ -146,15 +150,11 @@ export function UploadArea({
         console.log('Final fields object:', fields);
         console.log('Completion date in fields:', fields.completionDate);
 
-        // Validate priority and status
+        // Validate priority; status is checked against the workflow on upload
         if (fields.priority && !['Low', 'Medium', 'High'].includes(fields.priority)) {
           console.warn(`Invalid priority "${fields.priority}" in file ${file.name}. Using default "Medium".`);
           fields.priority = undefined;
         }
-        if (fields.status && !['In Progress', 'Completed'].includes(fields.status)) {
-          console.warn(`Invalid status "${fields.status}" in file ${file.name}. Using default "In Progress".`);
-          fields.status = undefined;
-        }
         
         resolve({ [baseFileName]: fields });
       }
@@ -292,6 +292,7 @@ export function UploadArea({
     try {
       setUploading(true);
       setUploadStatus('idle');
+      const workflow = await getProjectWorkflow(projectName);
 
       for (const preview of previews) {
         const reader = new FileReader();
@@ -317,9 +318,10 @@ export function UploadArea({
                   ? preview.priority as 'Low' | 'Medium' | 'High'
                   : 'Medium';
 
-                const status = preview.status && ['In Progress', 'Completed'].includes(preview.status)
-                  ? preview.status as 'In Progress' | 'Completed'
-                  : 'In Progress';
+                const status = preview.status ? resolveStatus(workflow, preview.status) : undefined;
+                if (preview.status && !status) {
+                  console.warn(`Invalid status "${preview.status}" for ${preview.name}. Using the starting status "${workflow.initialState}".`);
+                }
                 
                 console.log('Preview before addSnag:', preview);
                 console.log('Status:', status);
@@ -329,13 +331,16 @@ export function UploadArea({
                   projectName,
                   name: preview.name,
                   description: preview.description,
-                  photoPath: compressedImage,
-                  thumbnailPath: thumbnail,
+                  photo: {
+                    original: preview.file,
+                    compressed: dataUrlToBlob(compressedImage),
+                    thumbnail: dataUrlToBlob(thumbnail)
+                  },
                   priority,
                   assignedTo: preview.assignedTo || '',
                   status,
                   location: preview.location || '',
-                  completionDate: status === 'Completed' ? preview.completionDate || null : null,
+                  completionDate: status && isDoneStatus(workflow, status) ? preview.completionDate || null : null,
                   observationDate: preview.observationDate || new Date(preview.file.lastModified)
                 });
                 
@@ -389,6 +394,22 @@ export function UploadArea({
     });
   };
 
+  const updateAssignee = (index: number, assignedTo: string) => {
+    setPreviews(prev => {
+      const newPreviews = [...prev];
+      newPreviews[index] = { ...newPreviews[index], assignedTo };
+      return newPreviews;
+    });
+  };
+
+  const updateLocation = (index: number, location: string) => {
+    setPreviews(prev => {
+      const newPreviews = [...prev];
+      newPreviews[index] = { ...newPreviews[index], location };
+      return newPreviews;
+    });
+  };
+
   return (
     <div className={`rounded-lg shadow p-4 space-y-3 transition-colors duration-300 ${
       isDarkMode ? 'bg-gray-800' : 'bg-white'
@@ -431,13 +452,13 @@ export function UploadArea({
             <div className="space-y-3 text-sm">
               <p>To use batch upload:</p>
               <ol className="list-decimal list-inside space-y-2">
-                <li>Create a text file with the same name as your photo (e.g., "photo1.jpg" and "photo1.txt")</li>
+                <li>Create a text file with the same name as your photo (e.g., &quot;photo1.jpg&quot; and &quot;photo1.txt&quot;)</li>
                 <li>In the text file, add fields in this order (one per line):
                   <ul className="ml-6 mt-1 list-disc">
                     <li>Line 1: Description-YYYY-MM-DD (required, date optional)</li>
                     <li>Line 2: Priority (optional: Low/Medium/High)</li>
                     <li>Line 3: Assigned To (optional)</li>
-                    <li>Line 4: Status (optional: In Progress/Completed-YYYY-MM-DD)</li>
+                    <li>Line 4: Status (optional: a status from the project&apos;s workflow, e.g. Open or Closed-YYYY-MM-DD)</li>
                     <li>Line 5: Location (optional)</li>
                   </ul>
                 </li>
@@ -455,8 +476,8 @@ export function UploadArea({
               <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
                 Note: For dates, use YYYY-MM-DD format after a hyphen.<br />
                 Examples:<br />
-                - Description with date: "Wall needs painting-2024-03-14"<br />
-                - Completed status with date: "Completed-2024-03-20"<br />
+                - Description with date: &quot;Wall needs painting-2024-03-14&quot;<br />
+                - Completed status with date: &quot;Completed-2024-03-20&quot;<br />
                 If a date format is incorrect, it will be ignored and current date will be used.
               </p>
             </div>
@@ -559,6 +580,25 @@ export function UploadArea({
                   }`}
                   rows={2}
                 />
+                <AssigneePicker
+                  value={preview.assignedTo || ''}
+                  onChange={(assignedTo) => updateAssignee(index, assignedTo)}
+                  placeholder="Assign to..."
+                  className={`h-8 text-sm ${
+                    isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-200 text-gray-900'
+                  }`}
+                  isDarkMode={isDarkMode}
+                />
+                <LocationPicker
+                  projectName={projectName}
+                  value={preview.location || ''}
+                  onChange={(location) => updateLocation(index, location)}
+                  placeholder="Location..."
+                  className={`h-8 text-sm ${
+                    isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-200 text-gray-900'
+                  }`}
+                  isDarkMode={isDarkMode}
+                />
               </div>
             ))}
           </div>
@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { getProject, updateProjectWorkflow } from '@/lib/db';
+import {
+  DEFAULT_WORKFLOW,
+  StatusRequirement,
+  Workflow,
+  WorkflowState,
+  getStatusLabel,
+  toStatusId,
+  validateWorkflow
+} from '@/lib/workflow';
+
+interface WorkflowEditorProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  onSaved: () => void;
+  isDarkMode?: boolean;
+}
+
+const REQUIREMENT_LABELS: Record<StatusRequirement, string> = {
+  completionDate: 'Completion date',
+  evidence: 'Evidence'
+};
+
+const copyWorkflow = (workflow: Workflow): Workflow => ({
+  states: workflow.states.map(state => ({ ...state })),
+  transitions: workflow.transitions.map(transition => ({ ...transition, requires: [...transition.requires] })),
+  initialState: workflow.initialState
+});
+
+// Edits a project's statuses and the moves allowed between them
+export function WorkflowEditor({ isOpen, projectId, onClose, onSaved, isDarkMode = false }: WorkflowEditorProps) {
+  const [projectName, setProjectName] = useState('');
+  const [workflow, setWorkflow] = useState<Workflow>(copyWorkflow(DEFAULT_WORKFLOW));
+  const [newStateLabel, setNewStateLabel] = useState('');
+  const [newFrom, setNewFrom] = useState('');
+  const [newTo, setNewTo] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+
+    getProject(projectId)
+      .then(project => {
+        setProjectName(project?.name ?? '');
+        setWorkflow(copyWorkflow(project?.workflow ?? DEFAULT_WORKFLOW));
+        setNewStateLabel('');
+        setNewFrom('');
+        setNewTo('');
+      })
+      .catch(error => {
+        console.error('❌ Failed to load workflow:', error);
+        toast.error('Failed to load workflow');
+      });
+  }, [isOpen, projectId]);
+
+  const errors = validateWorkflow(workflow);
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const updateState = (id: string, changes: Partial<WorkflowState>) => {
+    setWorkflow(prev => ({
+      ...prev,
+      states: prev.states.map(state => state.id === id ? { ...state, ...changes } : state)
+    }));
+  };
+
+  const removeState = (id: string) => {
+    setWorkflow(prev => ({
+      ...prev,
+      states: prev.states.filter(state => state.id !== id),
+      transitions: prev.transitions.filter(transition => transition.from !== id && transition.to !== id)
+    }));
+  };
+
+  const addState = () => {
+    const id = toStatusId(newStateLabel);
+    if (!id) return;
+    if (workflow.states.some(state => state.id === id)) {
+      toast.error(`A status called "${newStateLabel.trim()}" already exists`);
+      return;
+    }
+
+    setWorkflow(prev => ({
+      ...prev,
+      states: [...prev.states, { id, label: newStateLabel.trim(), color: '#6B7280', done: false }]
+    }));
+    setNewStateLabel('');
+  };
+
+  const toggleRequirement = (index: number, requirement: StatusRequirement) => {
+    setWorkflow(prev => ({
+      ...prev,
+      transitions: prev.transitions.map((transition, i) => {
+        if (i !== index) return transition;
+        const requires = transition.requires.includes(requirement)
+          ? transition.requires.filter(r => r !== requirement)
+          : [...transition.requires, requirement];
+        return { ...transition, requires };
+      })
+    }));
+  };
+
+  const addTransition = () => {
+    if (!newFrom || !newTo || newFrom === newTo) return;
+    if (workflow.transitions.some(t => t.from === newFrom && t.to === newTo)) {
+      toast.error('That transition already exists');
+      return;
+    }
+
+    setWorkflow(prev => ({
+      ...prev,
+      transitions: [...prev.transitions, { from: newFrom, to: newTo, requires: [] }]
+    }));
+    setNewTo('');
+  };
+
+  const handleSave = async () => {
+    if (!projectId) return;
+
+    try {
+      setIsSaving(true);
+      await updateProjectWorkflow(projectId, workflow);
+      toast.success('Workflow saved');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save workflow');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`sm:max-w-[640px] max-h-[85vh] overflow-y-auto ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+        <DialogHeader>
+          <DialogTitle>Status Workflow</DialogTitle>
+          <DialogDescription>
+            The statuses entries in {projectName || 'this project'} move through, and which moves are allowed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Statuses */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Statuses</h3>
+            {workflow.states.map(state => (
+              <div key={state.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={state.color}
+                  onChange={(e) => updateState(state.id, { color: e.target.value })}
+                  className="h-8 w-8 flex-shrink-0 cursor-pointer rounded border-0 bg-transparent"
+                  title="Colour"
+                />
+                <Input
+                  value={state.label}
+                  onChange={(e) => updateState(state.id, { label: e.target.value })}
+                  className="h-8"
+                  aria-label="Status name"
+                />
+                <label className={`flex items-center gap-1.5 text-xs whitespace-nowrap ${mutedText}`}>
+                  <Checkbox
+                    checked={state.done}
+                    onCheckedChange={(checked) => updateState(state.id, { done: checked === true })}
+                  />
+                  Done
+                </label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  onClick={() => removeState(state.id)}
+                  title="Remove status"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addState();
+              }}
+              className="flex items-center gap-2"
+            >
+              <Input
+                value={newStateLabel}
+                onChange={(e) => setNewStateLabel(e.target.value)}
+                placeholder="New status, e.g. Awaiting Verification"
+                className="h-8"
+              />
+              <Button type="submit" size="sm" variant="outline" disabled={!toStatusId(newStateLabel)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </form>
+          </div>
+
+          {/* Starting status */}
+          <div className="flex items-center gap-4">
+            <Label className="min-w-[120px]">New entries start as</Label>
+            <Select
+              value={workflow.initialState}
+              onValueChange={(value) => setWorkflow(prev => ({ ...prev, initialState: value }))}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                {workflow.states.map(state => (
+                  <SelectItem key={state.id} value={state.id}>{state.label || state.id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Transitions */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Allowed moves</h3>
+            {workflow.transitions.length === 0 && (
+              <p className={`text-xs ${mutedText}`}>No moves yet. Entries will stay in their starting status.</p>
+            )}
+            {workflow.transitions.map((transition, index) => (
+              <div key={`${transition.from}-${transition.to}`} className="flex items-center gap-2 text-sm">
+                <span className="w-28 truncate">{getStatusLabel(workflow, transition.from)}</span>
+                <ArrowRight className={`h-3 w-3 flex-shrink-0 ${mutedText}`} />
+                <span className="w-28 truncate">{getStatusLabel(workflow, transition.to)}</span>
+                <div className="flex flex-grow items-center gap-3">
+                  {(Object.keys(REQUIREMENT_LABELS) as StatusRequirement[]).map(requirement => (
+                    <label key={requirement} className={`flex items-center gap-1.5 text-xs ${mutedText}`}>
+                      <Checkbox
+                        checked={transition.requires.includes(requirement)}
+                        onCheckedChange={() => toggleRequirement(index, requirement)}
+                      />
+                      {REQUIREMENT_LABELS[requirement]}
+                    </label>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  onClick={() => setWorkflow(prev => ({
+                    ...prev,
+                    transitions: prev.transitions.filter((_, i) => i !== index)
+                  }))}
+                  title="Remove move"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Select value={newFrom} onValueChange={setNewFrom}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="From" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workflow.states.map(state => (
+                    <SelectItem key={state.id} value={state.id}>{state.label || state.id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className={`h-3 w-3 flex-shrink-0 ${mutedText}`} />
+              <Select value={newTo} onValueChange={setNewTo}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="To" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workflow.states.filter(state => state.id !== newFrom).map(state => (
+                    <SelectItem key={state.id} value={state.id}>{state.label || state.id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={addTransition} disabled={!newFrom || !newTo}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="space-y-0.5 text-xs text-red-500">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 pt-4 border-t">
+          <Button
+            variant="ghost"
+            onClick={() => setWorkflow(copyWorkflow(DEFAULT_WORKFLOW))}
+            title="Start over from the default workflow"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset to default
+          </Button>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+              {isSaving ? 'Saving...' : 'Save Workflow'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import * as React from "react"
+import { getMediaBlob } from "@/lib/db"
+
+// Resolves a media record to an object URL, revoking it when the id changes
+// or the component unmounts. Pass enabled=false to defer loading.
+export function useMediaUrl(mediaId: string | null | undefined, enabled = true) {
+  const [url, setUrl] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!mediaId || !enabled) {
+      setUrl(null)
+      return
+    }
+
+    let cancelled = false
+    let objectUrl: string | null = null
+
+    getMediaBlob(mediaId)
+      .then(blob => {
+        if (cancelled || !blob) return
+        objectUrl = URL.createObjectURL(blob)
+        setUrl(objectUrl)
+      })
+      .catch(error => {
+        console.error('❌ Error loading media:', mediaId, error)
+      })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [mediaId, enabled])
+
+  return url
+}
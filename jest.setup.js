@@ -0,0 +1,12 @@
+// IndexedDB and localStorage for the database tests. db.ts only opens the
+// database in a browser window.
+require('fake-indexeddb/auto')
+
+const storage = new Map()
+globalThis.localStorage = {
+  getItem: key => (storage.has(key) ? storage.get(key) : null),
+  setItem: (key, value) => storage.set(key, String(value)),
+  removeItem: key => storage.delete(key),
+  clear: () => storage.clear(),
+}
+globalThis.window = globalThis
@@ -0,0 +1,39 @@
+import { ImportEntry, classifyImportEntry, countImportEntries } from './backupImport';
+
+describe('classifyImportEntry', () => {
+  it('is unchanged when no field differs', () => {
+    expect(classifyImportEntry([], 3, 2)).toBe('unchanged');
+  });
+
+  it('takes the backup when only it moved on', () => {
+    expect(classifyImportEntry(['status'], 1, 0)).toBe('changed');
+  });
+
+  it('keeps this copy when only it moved on', () => {
+    expect(classifyImportEntry(['status'], 0, 2)).toBe('unchanged');
+  });
+
+  it('is a conflict when both sides were edited', () => {
+    expect(classifyImportEntry(['status', 'description'], 1, 1)).toBe('conflict');
+  });
+
+  it('is a conflict when fields differ without revisions to explain it', () => {
+    expect(classifyImportEntry(['name'], 0, 0)).toBe('conflict');
+  });
+});
+
+describe('countImportEntries', () => {
+  it('counts entries by status', () => {
+    const entry = (status: ImportEntry['status']): ImportEntry => ({
+      snagId: status,
+      name: '',
+      snagNumber: 1,
+      status,
+      localNumber: null,
+      changedFields: [],
+      renumbered: false
+    });
+    expect(countImportEntries([entry('new'), entry('new'), entry('conflict'), entry('unchanged')]))
+      .toEqual({ new: 2, changed: 0, conflict: 1, unchanged: 1 });
+  });
+});
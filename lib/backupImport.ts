@@ -0,0 +1,73 @@
+// Importing a backup next to what's already here instead of replacing it,
+// e.g. to take in a colleague's work. Projects and entries are matched by id.
+// An entry's revision history tells whether only one side moved on since the
+// two copies split, which is taken as it is, or both were edited, which is a
+// conflict for the user to resolve.
+
+export type ImportEntryStatus = 'new' | 'changed' | 'conflict' | 'unchanged';
+
+export type ConflictResolution = 'keep-local' | 'take-incoming' | 'keep-both';
+
+export const CONFLICT_RESOLUTIONS: { id: ConflictResolution; label: string }[] = [
+  { id: 'keep-local', label: 'Keep this copy' },
+  { id: 'take-incoming', label: 'Take the backup' },
+  { id: 'keep-both', label: 'Keep both' }
+];
+
+export interface ImportEntry {
+  snagId: string;
+  name: string;
+  // Number in the backup
+  snagNumber: number;
+  status: ImportEntryStatus;
+  // Number of the entry with the same id here, if there is one
+  localNumber: number | null;
+  // Fields that differ from the entry here
+  changedFields: string[];
+  // New entries whose number is taken here are renumbered
+  renumbered: boolean;
+}
+
+export interface ImportProjectPreview {
+  id: string;
+  name: string;
+  // Name of the project with the same id here, or null for a new one
+  localName: string | null;
+  // Name the project is imported under; new projects whose name is taken
+  // get a number appended
+  importName: string;
+  entries: ImportEntry[];
+}
+
+export interface ImportPreview {
+  timestamp: string;
+  projects: ImportProjectPreview[];
+}
+
+export interface ImportResult {
+  projectCount: number;
+  added: number;
+  updated: number;
+  // Conflicts kept both ways, added as renumbered copies
+  copied: number;
+}
+
+// Where an entry stands, from the fields that differ and the revisions only
+// one side has. An entry that changed here since the backup was taken, but
+// not in the backup, is already up to date.
+export function classifyImportEntry(
+  changedFields: string[],
+  incomingRevisions: number,
+  localRevisions: number
+): ImportEntryStatus {
+  if (changedFields.length === 0) return 'unchanged';
+  if (incomingRevisions > 0 && localRevisions === 0) return 'changed';
+  if (localRevisions > 0 && incomingRevisions === 0) return 'unchanged';
+  return 'conflict';
+}
+
+export function countImportEntries(entries: ImportEntry[]): Record<ImportEntryStatus, number> {
+  const counts: Record<ImportEntryStatus, number> = { new: 0, changed: 0, conflict: 0, unchanged: 0 };
+  entries.forEach(entry => counts[entry.status]++);
+  return counts;
+}
@@ -0,0 +1,148 @@
+// Trade categories and tags. Each project defines its own, with colours;
+// an entry has at most one trade and any number of tags, stored by id.
+
+export interface Category {
+  id: string;
+  label: string;
+  // Hex colour for chips and PDFs
+  color: string;
+}
+
+export interface ProjectCategories {
+  trades: Category[];
+  tags: Category[];
+}
+
+export const DEFAULT_CATEGORIES: ProjectCategories = {
+  trades: [
+    { id: 'electrical', label: 'Electrical', color: '#F59E0B' },
+    { id: 'plumbing', label: 'Plumbing', color: '#3B82F6' },
+    { id: 'mechanical', label: 'Mechanical', color: '#6366F1' },
+    { id: 'carpentry', label: 'Carpentry', color: '#A16207' },
+    { id: 'finishes', label: 'Finishes', color: '#EC4899' },
+    { id: 'structural', label: 'Structural', color: '#64748B' }
+  ],
+  tags: []
+};
+
+export function toCategoryId(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Matches an id or a label, ignoring case, e.g. "Electrical" or "electrical"
+export function findCategory(list: Category[], value: string): Category | undefined {
+  const key = value.trim().toLowerCase();
+  return list.find(category => category.id === key || category.label.toLowerCase() === key)
+    ?? list.find(category => category.id === toCategoryId(key));
+}
+
+export function getCategoryLabel(list: Category[], id: string): string {
+  return list.find(category => category.id === id)?.label ?? id;
+}
+
+export function getCategoryColor(list: Category[], id: string): string {
+  return list.find(category => category.id === id)?.color ?? '#6B7280';
+}
+
+// Maps typed trades and tags to ids, refusing ones the project doesn't have
+export function resolveTrade(categories: ProjectCategories, value: string | null | undefined): string | null {
+  if (!value?.trim()) return null;
+  const trade = findCategory(categories.trades, value);
+  if (!trade) {
+    throw new Error(`Unknown trade "${value}"`);
+  }
+  return trade.id;
+}
+
+export function resolveTags(categories: ProjectCategories, values: string[] | null | undefined): string[] {
+  const ids = (values ?? []).filter(value => value.trim()).map(value => {
+    const tag = findCategory(categories.tags, value);
+    if (!tag) {
+      throw new Error(`Unknown tag "${value}"`);
+    }
+    return tag.id;
+  });
+  return Array.from(new Set(ids));
+}
+
+// Carries an entry's trade and tags over to another project's categories by
+// label, dropping any that project doesn't have
+export function mapCategories(
+  from: ProjectCategories,
+  to: ProjectCategories,
+  trade: string | null,
+  tags: string[]
+): { trade: string | null; tags: string[] } {
+  const carry = (fromList: Category[], toList: Category[], id: string) =>
+    findCategory(toList, getCategoryLabel(fromList, id))?.id;
+
+  return {
+    trade: (trade && carry(from.trades, to.trades, trade)) || null,
+    tags: Array.from(new Set(tags.map(tag => carry(from.tags, to.tags, tag)).filter((id): id is string => !!id)))
+  };
+}
+
+// The target's categories plus any from the other project it lacks, matched
+// by label, e.g. when projects are merged
+export function mergeCategories(target: ProjectCategories, other: ProjectCategories): ProjectCategories {
+  const combine = (list: Category[], extra: Category[]) => [
+    ...list,
+    ...extra.filter(category => !findCategory(list, category.label) && !list.some(existing => existing.id === category.id))
+  ];
+
+  return {
+    trades: combine(target.trades, other.trades),
+    tags: combine(target.tags, other.tags)
+  };
+}
+
+// Checks categories before they are saved
+export function validateCategories(categories: ProjectCategories): string[] {
+  const errors: string[] = [];
+
+  for (const [kind, list] of [['trade', categories.trades], ['tag', categories.tags]] as const) {
+    const ids = new Set<string>();
+    for (const category of list) {
+      if (!category.label.trim() || !category.id) {
+        errors.push(`Every ${kind} needs a name`);
+      } else if (ids.has(category.id)) {
+        errors.push(`There are two ${kind}s called "${category.label}"`);
+      }
+      if (!/^#[0-9a-f]{6}$/i.test(category.color)) {
+        errors.push(`"${category.label}" needs a colour like #3B82F6`);
+      }
+      ids.add(category.id);
+    }
+  }
+
+  return errors;
+}
+
+// Entries per trade and per tag, most used first, for summaries and reports
+export function countByCategory(
+  snags: { trade?: string | null; tags?: string[] }[],
+  categories: ProjectCategories
+): { trades: { category: Category; count: number }[]; tags: { category: Category; count: number }[] } {
+  const count = (list: Category[], matches: (snag: { trade?: string | null; tags?: string[] }, id: string) => boolean) =>
+    list
+      .map(category => ({ category, count: snags.filter(snag => matches(snag, category.id)).length }))
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count);
+
+  return {
+    trades: count(categories.trades, (snag, id) => snag.trade === id),
+    tags: count(categories.tags, (snag, id) => !!snag.tags?.includes(id))
+  };
+}
+
+// One line per kind for report headers, e.g. "Trades: Electrical 4, Plumbing 2"
+export function describeCategoryCounts(
+  snags: { trade?: string | null; tags?: string[] }[],
+  categories: ProjectCategories
+): string[] {
+  const counts = countByCategory(snags, categories);
+  const describe = (title: string, entries: { category: Category; count: number }[]) =>
+    entries.length > 0 ? [`${title}: ${entries.map(({ category, count }) => `${category.label} ${count}`).join(', ')}`] : [];
+
+  return [...describe('Trades', counts.trades), ...describe('Tags', counts.tags)];
+}
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import type { SnagPriority } from './sla';
+
+// Inspection checklists. Templates live in a library shared by all projects;
+// applying one to a project copies its items into a checklist, where each is
+// marked pass, fail or N/A. Failing an item turns it into a full entry.
+
+export interface TemplateItem {
+  id: string;
+  title: string;
+  location: string;
+  priority: SnagPriority;
+  // Trade id or label, matched to the project's trades when applied
+  trade: string | null;
+  description: string;
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // In inspection order
+  items: TemplateItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An item being edited or imported; existing items keep their id
+export type TemplateItemDraft = Omit<TemplateItem, 'id'> & { id?: string };
+
+export type TemplateDraft = Pick<ChecklistTemplate, 'name' | 'description'> & {
+  items: TemplateItemDraft[];
+};
+
+export type ChecklistResult = 'pending' | 'pass' | 'fail' | 'na';
+
+export const CHECKLIST_RESULTS: { id: Exclude<ChecklistResult, 'pending'>; label: string }[] = [
+  { id: 'pass', label: 'Pass' },
+  { id: 'fail', label: 'Fail' },
+  { id: 'na', label: 'N/A' }
+];
+
+export interface ChecklistItem extends TemplateItem {
+  result: ChecklistResult;
+  // The entry raised when the item failed
+  snagId: string | null;
+  checkedAt: Date | null;
+}
+
+export interface Checklist {
+  id: string;
+  projectName: string;
+  // The template it came from; the items are a copy, so later template
+  // edits don't change checklists already under way
+  templateId: string | null;
+  name: string;
+  items: ChecklistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// File format for sharing templates between installs
+const TEMPLATE_FILE_FORMAT = 'snaglist-checklist-templates';
+
+const TemplateItemSchema = z.object({
+  title: z.string().trim().min(1, 'Every item needs a title'),
+  location: z.string().default(''),
+  priority: z.enum(['Low', 'Medium', 'High']).default('Medium'),
+  trade: z.string().nullable().default(null),
+  description: z.string().default('')
+});
+
+const TemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Every template needs a name'),
+  description: z.string().default(''),
+  items: z.array(TemplateItemSchema)
+});
+
+const TemplateFileSchema = z.object({
+  format: z.literal(TEMPLATE_FILE_FORMAT),
+  version: z.literal(1),
+  templates: z.array(TemplateSchema)
+});
+
+export function validateTemplate(template: TemplateDraft): string[] {
+  const errors: string[] = [];
+
+  if (!template.name.trim()) {
+    errors.push('Template name is required');
+  }
+  if (template.items.length === 0) {
+    errors.push('Add at least one item');
+  }
+  if (template.items.length > 500) {
+    errors.push('Templates can hold up to 500 items');
+  }
+  template.items.forEach((item, index) => {
+    if (!item.title.trim()) {
+      errors.push(`Item ${index + 1} needs a title`);
+    }
+  });
+
+  return errors;
+}
+
+export function serializeTemplates(templates: ChecklistTemplate[]): string {
+  return JSON.stringify({
+    format: TEMPLATE_FILE_FORMAT,
+    version: 1,
+    templates: templates.map(template => ({
+      name: template.name,
+      description: template.description,
+      items: template.items.map(({ id, ...item }) => item)
+    }))
+  }, null, 2);
+}
+
+// Reads an exported template file. Throws with the first problem found.
+export function parseTemplateFile(text: string): TemplateDraft[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const parsed = TemplateFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+
+  return parsed.data.templates;
+}
+
+export function createChecklistItems(template: ChecklistTemplate): ChecklistItem[] {
+  return template.items.map(item => ({
+    ...item,
+    id: crypto.randomUUID(),
+    result: 'pending',
+    snagId: null,
+    checkedAt: null
+  }));
+}
+
+export function summarizeChecklist(items: Pick<ChecklistItem, 'result'>[]): Record<ChecklistResult, number> {
+  const counts: Record<ChecklistResult, number> = { pending: 0, pass: 0, fail: 0, na: 0 };
+  for (const item of items) {
+    counts[item.result]++;
+  }
+  return counts;
+}
@@ -5,7 +5,8 @@ export async function getSnagDetails(snagNumber: number) {
     console.log('🔍 Looking up snag details for number:', snagNumber);
     const db = await getDB();
     const index = db.transaction('snags', 'readonly').store.index('by-snagNumber');
-    const snag = await index.get(snagNumber);
+    const match = await index.get(snagNumber);
+    const snag = match && !match.deletedAt ? match : undefined;
     
     if (snag) {
       console.log('✨ Found snag:', {
@@ -27,7 +28,8 @@ export async function getSnagDetails(snagNumber: number) {
 
 export async function querySnags(options: {
   projectName?: string;
-  status?: 'In Progress' | 'Completed';
+  // Workflow state id
+  status?: string;
   priority?: 'Low' | 'Medium' | 'High';
   assignedTo?: string;
 } = {}) {
@@ -37,7 +39,7 @@ export async function querySnags(options: {
     const tx = db.transaction('snags', 'readonly');
     const store = tx.objectStore('snags');
     
-    let snags = await store.getAll();
+    let snags = (await store.getAll()).filter(snag => !snag.deletedAt);
     
     // Apply filters
     if (options.projectName) {
@@ -75,7 +77,7 @@ export async function getAllSnagNumbers(): Promise<number[]> {
     const db = await getDB();
     const tx = db.transaction('snags', 'readonly');
     const store = tx.objectStore('snags');
-    const snags = await store.getAll();
+    const snags = (await store.getAll()).filter(snag => !snag.deletedAt);
     const numbers = snags.map(snag => snag.snagNumber).sort((a, b) => a - b);
     
     console.log('✨ Found snag numbers:', numbers);
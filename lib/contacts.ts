@@ -0,0 +1,44 @@
+// Contacts are the people entries get assigned to. Entries keep the contact's
+// name in assignedTo for display and filtering, and its id in assigneeId.
+
+export interface Contact {
+  id: string;
+  name: string;
+  company: string;
+  trade: string;
+  email: string;
+  phone: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ContactDetails = Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Key used to match names: "Bob  Smith" and "bob smith" are the same person
+export function normalizeContactName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function findContactByName<T extends { name: string }>(contacts: T[], name: string): T | undefined {
+  const key = normalizeContactName(name);
+  return contacts.find(contact => normalizeContactName(contact.name) === key);
+}
+
+// Groups contacts that probably name the same person, e.g. "Bob" and
+// "Bob Smith", for the merge tool to suggest
+export function findLikelyDuplicates<T extends { name: string }>(contacts: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+
+  for (const contact of contacts) {
+    const firstWord = normalizeContactName(contact.name).split(' ')[0];
+    if (!firstWord) continue;
+    groups.set(firstWord, [...(groups.get(firstWord) ?? []), contact]);
+  }
+
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+// Short description shown next to a name, e.g. "Acme Electrical · Electrician"
+export function describeContact(contact: Pick<Contact, 'company' | 'trade'>): string {
+  return [contact.company, contact.trade].filter(part => part.trim()).join(' · ');
+}
@@ -0,0 +1,438 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { createBlobSink } from './zip';
+
+type Database = typeof import('./db');
+type NewEntry = Parameters<Database['addSnag']>[0];
+
+let db: Database;
+
+const photo = () => ({
+  compressed: new Blob(['photo'], { type: 'image/jpeg' }),
+  thumbnail: new Blob(['thumb'], { type: 'image/jpeg' })
+});
+
+async function addProject(name: string) {
+  const { id } = await db.addProject(name);
+  return id;
+}
+
+function addEntry(projectName: string, fields: Partial<NewEntry> = {}) {
+  return db.addSnag({
+    projectName,
+    name: 'Cracked tile',
+    description: '',
+    photo: photo(),
+    priority: 'Medium',
+    assignedTo: '',
+    location: '',
+    ...fields
+  });
+}
+
+async function getEntry(id: string) {
+  return (await db.getDB()).get('snags', id);
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  db = await import('./db');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('project locations and categories', () => {
+  it('records a revision for each entry a renamed location moves', async () => {
+    const projectId = await addProject('Tower A');
+    const locations = [
+      { id: 'level-1', name: 'Level 1', parentId: null },
+      { id: 'kitchen', name: 'Kitchen', parentId: 'level-1' }
+    ];
+    await db.updateProjectLocations(projectId, locations);
+    const entry = await addEntry('Tower A', { location: 'Kitchen' });
+    expect(entry.location).toBe('Level 1 / Kitchen');
+
+    await db.updateProjectLocations(projectId, [locations[0], { ...locations[1], name: 'Galley' }]);
+
+    const revision = (await db.getSnagHistory(entry.id)).find(revision => revision.action === 'update');
+    expect(revision?.changes).toEqual([{ field: 'location', from: 'Level 1 / Kitchen', to: 'Level 1 / Galley' }]);
+    expect((await getEntry(entry.id))?.location).toBe('Level 1 / Galley');
+  });
+
+  it('records a revision for each entry that loses a removed tag', async () => {
+    const projectId = await addProject('Tower A');
+    const handover = { id: 'handover', label: 'Handover', color: '#000000' };
+    await db.updateProjectCategories(projectId, { trades: [], tags: [handover] });
+    const entry = await addEntry('Tower A', { tags: ['handover'] });
+    const untagged = await addEntry('Tower A');
+
+    await db.updateProjectCategories(projectId, { trades: [], tags: [] });
+
+    const revision = (await db.getSnagHistory(entry.id)).find(revision => revision.action === 'update');
+    expect(revision?.changes).toEqual([{ field: 'tags', from: ['handover'], to: [] }]);
+    expect((await db.getSnagHistory(untagged.id)).map(revision => revision.action)).toEqual(['create']);
+
+    const created = (await db.getSnagHistory(entry.id)).find(revision => revision.action === 'create');
+    expect((await db.revertSnagToRevision(created!.id)).tags).toEqual(['handover']);
+  });
+});
+
+describe('trash', () => {
+  it('refuses changes to a trashed entry', async () => {
+    await addProject('Tower A');
+    const entry = await addEntry('Tower A');
+    await db.deleteSnag(entry.id);
+
+    await expect(db.updateSnag(entry.id, { name: 'Chipped tile' })).rejects.toThrow(
+      '#1 is in the Trash. Restore it to make changes.'
+    );
+    await expect(db.updateSnagAnnotations(entry.id, [])).rejects.toThrow('is in the Trash');
+    expect((await getEntry(entry.id))?.name).toBe('Cracked tile');
+
+    await db.restoreSnag(entry.id);
+    expect((await db.updateSnag(entry.id, { name: 'Chipped tile' })).name).toBe('Chipped tile');
+  });
+
+  it('leaves entries of trashed projects out of query results', async () => {
+    const { executeQuery } = await import('./queryHandler');
+    await addProject('Tower A');
+    const trashedId = await addProject('Tower B');
+    const kept = await addEntry('Tower A');
+    await addEntry('Tower B');
+    await db.deleteProject(trashedId);
+
+    const result = await executeQuery({ operation: 'list' });
+    expect(result.data?.map(snag => snag.id)).toEqual([kept.id]);
+    expect((await executeQuery({ operation: 'search', searchTerm: 'tile' })).data?.map(snag => snag.id)).toEqual([kept.id]);
+  });
+});
+
+describe('search', () => {
+  beforeEach(async () => {
+    await addProject('Tower A');
+    await addProject('Tower B');
+    await addEntry('Tower A', { name: 'Cracked tile', location: 'Kitchen' });
+    await addEntry('Tower A', { name: 'Loose socket', location: 'Kitchen' });
+    await addEntry('Tower B', { name: 'Cracked window', location: 'Lobby' });
+  });
+
+  const names = async (query: string, projectName?: string) =>
+    (await db.searchSnags(query, projectName)).map(snag => snag.name).sort();
+
+  it('matches whole words, prefixes and typos', async () => {
+    expect(await names('socket')).toEqual(['Loose socket']);
+    expect(await names('crack')).toEqual(['Cracked tile', 'Cracked window']);
+    expect(await names('kitchn')).toEqual(['Cracked tile', 'Loose socket']);
+  });
+
+  it('needs every term to match, within the project asked for', async () => {
+    expect(await names('cracked kitchen')).toEqual(['Cracked tile']);
+    expect(await names('cracked', 'Tower B')).toEqual(['Cracked window']);
+    expect(await names('socket lobby')).toEqual([]);
+  });
+
+  it('finds candidates through the token index instead of reading every document', async () => {
+    const getAll = jest.spyOn(IDBObjectStore.prototype, 'getAll');
+    const getAllFromIndex = jest.spyOn(IDBIndex.prototype, 'getAll');
+
+    expect((await db.searchIndex('tile', { kind: 'snag' })).map(hit => hit.field)).toEqual(['name']);
+    expect(getAll).not.toHaveBeenCalled();
+    expect(getAllFromIndex).not.toHaveBeenCalled();
+  });
+});
+
+describe('completion dates', () => {
+  it('clears the date when an entry is reopened, one at a time or in bulk', async () => {
+    await addProject('Tower A');
+    const closedOn = new Date(2026, 4, 20);
+    const entry = await addEntry('Tower A');
+    const other = await addEntry('Tower A');
+    await db.updateSnag(entry.id, { status: 'closed', completionDate: closedOn });
+    await db.bulkUpdateSnags([other.id], { status: 'closed', completionDate: closedOn });
+
+    // Saving a closed entry again keeps the date it was closed on
+    expect((await db.updateSnag(entry.id, { status: 'closed', name: 'Chipped tile' })).completionDate).toEqual(closedOn);
+
+    expect((await db.updateSnag(entry.id, { status: 'open' })).completionDate).toBeNull();
+    await db.bulkUpdateSnags([other.id], { status: 'open' });
+    expect((await getEntry(other.id))?.completionDate).toBeNull();
+  });
+});
+
+describe('contacts', () => {
+  const contact = (name: string, details: Partial<Parameters<Database['addContact']>[0]> = {}) =>
+    db.addContact({ name, company: '', trade: '', email: '', phone: '', ...details });
+
+  it('merges duplicates into one contact and reassigns their entries', async () => {
+    await addProject('Tower A');
+    const target = await contact('Acme Electrical', { phone: '0123' });
+    const duplicate = await contact('Acme Elec', { email: 'office@acme.test' });
+    const entry = await addEntry('Tower A', { assignedTo: 'Acme Elec' });
+
+    const merged = await db.mergeContacts(target.id, [duplicate.id, duplicate.id]);
+
+    expect(merged).toMatchObject({ name: 'Acme Electrical', phone: '0123', email: 'office@acme.test' });
+    expect((await db.getContacts()).map(c => c.name)).toEqual(['Acme Electrical']);
+    expect(await getEntry(entry.id)).toMatchObject({ assignedTo: 'Acme Electrical', assigneeId: target.id });
+    const revision = (await db.getSnagHistory(entry.id)).find(revision => revision.action === 'update');
+    expect(revision?.changes).toEqual([{ field: 'assignedTo', from: 'Acme Elec', to: 'Acme Electrical' }]);
+  });
+
+  it('changes nothing when one of the duplicates is unknown', async () => {
+    await addProject('Tower A');
+    const target = await contact('Acme Electrical');
+    const duplicate = await contact('Acme Elec');
+    const entry = await addEntry('Tower A', { assignedTo: 'Acme Elec' });
+
+    await expect(db.mergeContacts(target.id, [duplicate.id, 'missing'])).rejects.toThrow('Contact not found');
+
+    expect((await db.getContacts()).map(c => c.name).sort()).toEqual(['Acme Elec', 'Acme Electrical']);
+    expect(await getEntry(entry.id)).toMatchObject({ assignedTo: 'Acme Elec', assigneeId: duplicate.id });
+    expect((await db.getSnagHistory(entry.id)).map(revision => revision.action)).toEqual(['create']);
+  });
+});
+
+describe('query summary', () => {
+  it('breaks statuses down by their workflow labels', async () => {
+    const { executeQuery } = await import('./queryHandler');
+    await addProject('Tower A');
+    const entry = await addEntry('Tower A');
+    await addEntry('Tower A');
+    await db.updateSnag(entry.id, { status: 'closed', completionDate: new Date() });
+
+    const { summary } = await executeQuery({ operation: 'summary' });
+    const statuses = summary?.match(/Status breakdown: (.*?)\./)?.[1].split(', ').sort();
+    expect(statuses).toEqual(['Closed: 1', 'Open: 1']);
+  });
+});
+
+describe('moving and copying entries', () => {
+  beforeEach(async () => {
+    await addProject('Tower A');
+    await addProject('Tower B');
+    await addEntry('Tower B', { name: 'Scuffed skirting' });
+  });
+
+  it('numbers moved entries in the target and keeps their history and old number', async () => {
+    const entry = await addEntry('Tower A', { name: 'Loose socket' });
+
+    const [before] = await db.moveSnagsToProject([entry.id], 'Tower B');
+
+    const moved = await getEntry(entry.id);
+    expect(moved).toMatchObject({
+      projectName: 'Tower B',
+      snagNumber: 2,
+      origin: expect.objectContaining({ mode: 'move', projectName: 'Tower A', snagNumber: 1 })
+    });
+    expect(await db.getSnagsByProject('Tower A')).toEqual([]);
+    expect((await db.getSnagHistory(entry.id)).map(revision => revision.action).sort()).toEqual(['create', 'update']);
+    expect((await db.searchSnags('socket', 'Tower B')).map(snag => snag.id)).toEqual([entry.id]);
+
+    // Undo puts the entry back as it was
+    await db.restoreSnagRecords([before]);
+    expect(await getEntry(entry.id)).toMatchObject({ projectName: 'Tower A', snagNumber: 1 });
+  });
+
+  it('copies entries with photos of their own, leaving the originals alone', async () => {
+    const entry = await addEntry('Tower A', { name: 'Loose socket' });
+
+    const [copy] = await db.copySnagsToProject([entry.id], 'Tower B');
+
+    expect(copy.id).not.toBe(entry.id);
+    expect(copy).toMatchObject({ projectName: 'Tower B', snagNumber: 2, origin: expect.objectContaining({ mode: 'copy' }) });
+    expect(copy.photos[0].photoId).not.toBe(entry.photos[0].photoId);
+    expect(await (await db.getMediaBlob(copy.photos[0].photoId))?.text()).toBe('photo');
+    expect(await getEntry(entry.id)).toEqual(entry);
+
+    // The original's photo can go without taking the copy's with it
+    await db.purgeSnag(entry.id);
+    expect(await db.getMediaBlob(copy.photos[0].photoId)).toBeTruthy();
+  });
+
+  it('refuses to move entries into a project that is not there', async () => {
+    const entry = await addEntry('Tower A');
+    await expect(db.moveSnagsToProject([entry.id], 'Tower C')).rejects.toThrow('Project "Tower C" not found');
+    expect((await getEntry(entry.id))?.projectName).toBe('Tower A');
+  });
+});
+
+describe('cloning projects', () => {
+  it('copies the open entries and the structure, leaving the source alone', async () => {
+    const sourceId = await addProject('Tower A');
+    const locations = [{ id: 'kitchen', name: 'Kitchen', parentId: null }];
+    await db.updateProjectLocations(sourceId, locations);
+    const closed = await addEntry('Tower A', { name: 'Loose socket' });
+    await db.updateSnag(closed.id, { status: 'closed', completionDate: new Date() });
+    const open = await addEntry('Tower A', { name: 'Cracked tile', location: 'Kitchen' });
+    const trashed = await addEntry('Tower A', { name: 'Scuffed skirting' });
+    await db.deleteSnag(trashed.id);
+
+    const clone = await db.cloneProject(sourceId, 'Tower A Phase 2', 'open');
+
+    expect(clone.entryCount).toBe(1);
+    expect(await db.getProject(clone.id)).toMatchObject({
+      locations,
+      clonedFrom: expect.objectContaining({ projectId: sourceId, depth: 'open' })
+    });
+    const [copy] = await db.getSnagsByProject('Tower A Phase 2');
+    expect(copy).toMatchObject({
+      name: 'Cracked tile',
+      snagNumber: 1,
+      location: 'Kitchen',
+      locationId: 'kitchen',
+      origin: expect.objectContaining({ projectName: 'Tower A', snagNumber: open.snagNumber })
+    });
+    expect(await db.getSnagsByProject('Tower A')).toHaveLength(2);
+  });
+
+  it('takes only the structure when asked to', async () => {
+    const sourceId = await addProject('Tower A');
+    await addEntry('Tower A');
+
+    const clone = await db.cloneProject(sourceId, 'Tower B', 'structure');
+
+    expect(clone.entryCount).toBe(0);
+    expect(await db.getSnagsByProject('Tower B')).toEqual([]);
+  });
+
+  it('leaves no project behind when the name is taken', async () => {
+    const sourceId = await addProject('Tower A');
+    await addProject('Tower B');
+
+    await expect(db.cloneProject(sourceId, 'tower b', 'all')).rejects.toThrow('A project named "Tower B" already exists');
+    expect((await db.getAllProjects()).map(project => project.name).sort()).toEqual(['Tower A', 'Tower B']);
+  });
+});
+
+describe('locations', () => {
+  const tree = [
+    { id: 'level-1', name: 'Level 1', parentId: null },
+    { id: 'kitchen-1', name: 'Kitchen', parentId: 'level-1' },
+    { id: 'level-2', name: 'Level 2', parentId: null },
+    { id: 'kitchen-2', name: 'Kitchen', parentId: 'level-2' }
+  ];
+
+  it('links typed locations to the tree and filters by everything below a location', async () => {
+    const { executeQuery } = await import('./queryHandler');
+    const projectId = await addProject('Tower A');
+    await db.updateProjectLocations(projectId, tree);
+    const first = await addEntry('Tower A', { location: 'level 1 / kitchen' });
+    const second = await addEntry('Tower A', { location: 'Level 2 / Kitchen' });
+    await addEntry('Tower A', { location: 'Roof' });
+
+    expect(first).toMatchObject({ location: 'Level 1 / Kitchen', locationId: 'kitchen-1' });
+    const ids = async (location: string) =>
+      (await executeQuery({ operation: 'list', filters: { location } })).data?.map(snag => snag.id).sort();
+    expect(await ids('Level 1')).toEqual([first.id]);
+    expect(await ids('Kitchen')).toEqual([first.id, second.id].sort());
+  });
+
+  it('keeps the text of entries whose location is removed', async () => {
+    const projectId = await addProject('Tower A');
+    await db.updateProjectLocations(projectId, tree);
+    const entry = await addEntry('Tower A', { location: 'Level 2 / Kitchen' });
+
+    await db.updateProjectLocations(projectId, tree.slice(0, 2));
+
+    expect(await getEntry(entry.id)).toMatchObject({ location: 'Level 2 / Kitchen', locationId: null });
+  });
+
+  it('refuses a tree with a location inside one that is not there', async () => {
+    const projectId = await addProject('Tower A');
+    await db.updateProjectLocations(projectId, tree);
+
+    await expect(db.updateProjectLocations(projectId, tree.slice(1))).rejects.toThrow(
+      '"Kitchen" is inside a location that no longer exists'
+    );
+    expect(await db.getProjectLocations('Tower A')).toEqual(tree);
+  });
+});
+
+describe('checklists', () => {
+  const draft = {
+    name: 'Bathroom handover',
+    description: '',
+    items: [
+      { title: 'Sealant around bath', location: 'Bathroom', priority: 'High' as const, trade: null, description: 'Check for gaps' },
+      { title: 'Extractor fan runs', location: 'Bathroom', priority: 'Low' as const, trade: null, description: '' }
+    ]
+  };
+
+  it('raises an entry from a failed item, once', async () => {
+    await addProject('Tower A');
+    const template = await db.saveChecklistTemplate(draft);
+    const checklist = await db.applyChecklistTemplate(template.id, 'Tower A');
+    const [sealant, fan] = checklist.items;
+
+    await db.setChecklistItemResult(checklist.id, fan.id, 'pass');
+    const updated = await db.failChecklistItem(checklist.id, sealant.id, photo());
+
+    const failed = updated.items.find(item => item.id === sealant.id);
+    expect(updated.items.map(item => item.result)).toEqual(['fail', 'pass']);
+    expect(await getEntry(failed!.snagId!)).toMatchObject({
+      projectName: 'Tower A',
+      name: 'Sealant around bath',
+      description: 'Check for gaps',
+      priority: 'High',
+      location: 'Bathroom'
+    });
+
+    await expect(db.failChecklistItem(checklist.id, sealant.id, photo())).rejects.toThrow('This item already has an entry');
+    await expect(db.setChecklistItemResult(checklist.id, sealant.id, 'pass')).rejects.toThrow('This item already has an entry');
+    expect(await db.getSnagsByProject('Tower A')).toHaveLength(1);
+  });
+
+  it('imports templates under a new name when the name is taken', async () => {
+    await db.saveChecklistTemplate(draft);
+
+    const [imported] = await db.importChecklistTemplates([draft]);
+
+    expect(imported.name).toBe('Bathroom handover (2)');
+    expect((await db.getChecklistTemplates()).map(template => template.name)).toEqual([
+      'Bathroom handover',
+      'Bathroom handover (2)'
+    ]);
+  });
+});
+
+describe('backups', () => {
+  async function backup() {
+    const sink = createBlobSink();
+    await db.writeBackupZip(sink);
+    return sink.toBlob();
+  }
+
+  it('restores entries, photos and recordings from a ZIP backup', async () => {
+    await addProject('Tower A');
+    const entry = await addEntry('Tower A', { name: 'Loose socket' });
+    const recordingId = await db.saveVoiceRecording('Tower A', 'note.webm', new Blob(['audio'], { type: 'audio/webm' }), entry.id);
+    const archive = await backup();
+
+    await db.updateSnag(entry.id, { name: 'Chipped tile' });
+    await addEntry('Tower A');
+    await db.deleteVoiceRecording(recordingId);
+
+    await db.restoreFromBackupFile(archive);
+
+    expect((await db.getSnagsByProject('Tower A')).map(snag => snag.name)).toEqual(['Loose socket']);
+    const photoBlob = await db.getMediaBlob(entry.photos[0].photoId);
+    expect(photoBlob?.type).toBe('image/jpeg');
+    expect(await photoBlob?.text()).toBe('photo');
+    const recording = await db.getVoiceRecording(recordingId);
+    expect(recording?.audioBlob.type).toBe('audio/webm');
+    expect(await recording?.audioBlob.text()).toBe('audio');
+    expect((await db.searchSnags('socket')).map(snag => snag.id)).toEqual([entry.id]);
+  });
+
+  it('refuses a file that is not a backup, leaving the data alone', async () => {
+    await addProject('Tower A');
+    await addEntry('Tower A');
+
+    await expect(db.restoreFromBackupFile(new Blob(['{"data":{}}']))).rejects.toThrow('This file is not a snag list backup');
+    expect(await db.getSnagsByProject('Tower A')).toHaveLength(1);
+  });
+});
@@ -1,9 +1,64 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, DBSchema, IDBPDatabase, IDBPObjectStore, StoreNames } from 'idb';
+import { blobToDataUrl, dataUrlToBlob, downloadBlob } from './utils';
+import {
+  SearchDoc,
+  SearchHit,
+  SearchDocKind,
+  buildSnagSearchDoc,
+  buildRecordingSearchDoc,
+  tokenize,
+  expandSearchTerms,
+  maxTypos,
+  rankDoc
+} from './search';
+import {
+  DB_VERSION,
+  MigrationError,
+  runMigrations,
+  createPreMigrationSnapshot,
+  pruneMigrationSnapshots,
+  restoreMigrationSnapshot,
+  extractLegacyPhotos
+} from './migrations';
+import { SnagColumn, SnagSortOption, SnagViewMode } from '@/types/snag';
+import {
+  Workflow,
+  DEFAULT_WORKFLOW,
+  assertTransitionAllowed,
+  isDoneStatus,
+  mapStatusToWorkflow,
+  migrateLegacyStatus,
+  resolveCompletionDate,
+  resolveStatus,
+  validateWorkflow
+} from './workflow';
+import { SlaSettings, computeDueDate, validateSla } from './sla';
+import { Contact, ContactDetails, findContactByName } from './contacts';
+import { LocationNode, getLocationPath, linkLocation, validateLocations } from './locations';
+import { ProjectCategories, DEFAULT_CATEGORIES, mapCategories, mergeCategories, resolveTags, resolveTrade, validateCategories } from './categories';
+import { PhotoRole, SnagPhoto, getSnagPhotos, withPhotos } from './photos';
+import { EMPTY_PROJECT_DETAILS, ProjectDetails, validateProjectDetails } from './projectDetails';
+import { InspectionRound, RoundCheck, RoundCheckResult, getOpenRound, setRoundCheck } from './rounds';
+import { CloneDepth, ProjectSource, SnagOrigin, TransferMode } from './transfer';
+import {
+  ProjectCompaction,
+  ProjectStatus,
+  SnagWaiver,
+  getClosureBlockers,
+  getNextProjectStatuses,
+  getProjectStatusLabel
+} from './projectStatus';
+import { ZipSink, createBlobSink, createZipWriter, getFileExtension, isZipFile, readZip } from './zip';
+import { MergePreview, MergeResult, SnagNumberMapping, findLikelyDuplicates } from './merge';
+import { ConflictResolution, ImportEntry, ImportPreview, ImportProjectPreview, ImportResult, classifyImportEntry } from './backupImport';
+import { Checklist, ChecklistResult, ChecklistTemplate, TemplateDraft, createChecklistItems, validateTemplate } from './checklists';
+
+export { getMigrationSnapshots } from './migrations';
 
 // Check if we're on the client side
 const isClient = typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
 
-interface SnagListDB extends DBSchema {
+export interface SnagListDB extends DBSchema {
   snags: {
     key: string;
     value: {
@@ -12,22 +67,50 @@ interface SnagListDB extends DBSchema {
       snagNumber: number;
       name: string;
       description: string;
-      photoPath: string;
-      thumbnailPath: string;
+      // Ids into the media store; images are never stored on the record itself.
+      // These and `annotations` mirror the first entry of `photos`.
+      photoId: string;
+      thumbnailId: string;
+      originalId: string | null;
+      // Every photo of the entry, in display order
+      photos: SnagPhoto[];
       priority: 'Low' | 'Medium' | 'High';
+      // Name of the assigned contact, kept for display and filtering
       assignedTo: string;
-      status: 'In Progress' | 'Completed';
+      assigneeId: string | null;
+      // Id of a state in the project's workflow
+      status: string;
+      // Evidence or comment given with the latest status change
+      statusNote: string | null;
+      // Full path of the location, or free text outside the project's tree
       location: string;
+      locationId: string | null;
+      // Ids from the project's categories
+      trade: string | null;
+      tags: string[];
       createdAt: Date;
       updatedAt: Date;
       completionDate: Date | null;
       observationDate: Date;
+      // When the entry must be fixed by
+      dueDate: Date | null;
+      // Inspection round the entry was found in, and its re-checks in later ones
+      roundId: string | null;
+      roundChecks: RoundCheck[];
+      // Where the entry was moved or copied from, if anywhere
+      origin: SnagOrigin | null;
+      // Set when the entry was accepted as it is so the project could close
+      waiver: SnagWaiver | null;
       annotations: any[];
+      // Set while the entry is in the Trash
+      deletedAt: Date | null;
     };
     indexes: {
       'by-project': string;
       'by-project-snagNumber': [string, number];
       'by-snagNumber': number;
+      'by-deletedAt': Date;
+      'by-assignee': string;
     };
   };
   projects: {
@@ -35,11 +118,34 @@ interface SnagListDB extends DBSchema {
     value: {
       id: string;
       name: string;
+      // Highest entry number ever issued in this project. Numbers are never
+      // reused, even after the entry holding them is deleted.
+      lastSnagNumber: number;
+      // Status workflow for the project's entries; null uses DEFAULT_WORKFLOW
+      workflow: Workflow | null;
+      // Default days to fix per priority; null sets no due dates
+      sla: SlaSettings | null;
+      // Sites, buildings, levels and rooms, as a flat list of tree nodes
+      locations: LocationNode[];
+      // Trades and tags for entries; null uses DEFAULT_CATEGORIES
+      categories: ProjectCategories | null;
+      // Client, site and inspection details for reports; null until filled in
+      details: ProjectDetails | null;
+      // Inspection rounds, oldest first; at most one is open
+      rounds: InspectionRound[];
+      // The project this one was cloned from, if any
+      clonedFrom: ProjectSource | null;
+      status: ProjectStatus;
+      // Set once an archived project's full-size photos were moved out
+      compaction: ProjectCompaction | null;
       createdAt: Date;
       updatedAt: Date;
+      // Set while the project is in the Trash
+      deletedAt: Date | null;
     };
     indexes: {
       'by-name': string;
+      'by-deletedAt': Date;
     };
   };
   voiceRecordings: {
@@ -51,23 +157,142 @@ interface SnagListDB extends DBSchema {
       audioBlob: Blob;
       transcription?: string;
       processed: boolean;
+      // Entry the recording was dictated for, if any
+      snagId: string | null;
       createdAt: Date;
     };
+    indexes: {
+      'by-project': string;
+      'by-snag': string;
+    };
+  };
+  media: {
+    key: string;
+    value: MediaRecord;
+    indexes: {
+      'by-snag': string;
+    };
+  };
+  snagHistory: {
+    key: string;
+    value: SnagHistoryEntry;
+    indexes: {
+      'by-snag': string;
+      'by-project': string;
+    };
+  };
+  searchIndex: {
+    key: string;
+    value: SearchDoc;
+    indexes: {
+      'by-token': string;
+      'by-project': string;
+    };
+  };
+  savedViews: {
+    key: string;
+    value: SavedView;
+    indexes: {
+      'by-project': string;
+    };
+  };
+  contacts: {
+    key: string;
+    value: Contact;
+  };
+  checklistTemplates: {
+    key: string;
+    value: ChecklistTemplate;
+  };
+  checklists: {
+    key: string;
+    value: Checklist;
     indexes: {
       'by-project': string;
     };
   };
 }
 
+type SnagRecord = SnagListDB['snags']['value'];
+type ProjectRecord = SnagListDB['projects']['value'];
+
+export type MediaKind = 'original' | 'compressed' | 'thumbnail' | 'logo';
+
+export interface MediaRecord {
+  id: string;
+  snagId: string | null;
+  kind: MediaKind;
+  blob: Blob;
+  createdAt: Date;
+}
+
+export type SnagHistoryAction = 'create' | 'update' | 'status' | 'annotations' | 'photos' | 'delete' | 'restore' | 'revert';
+
+export interface SnagFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SnagHistoryEntry {
+  id: string;
+  snagId: string;
+  projectName: string;
+  snagNumber: number;
+  action: SnagHistoryAction;
+  changes: SnagFieldChange[];
+  changedBy: string;
+  createdAt: Date;
+  // The entry as it was after this change (null once purged). Reverting
+  // copies these values back onto the live record.
+  snapshot: SnagRecord | null;
+  revertedTo?: string;
+}
+
+// A named filter, sort and layout for a project, pinned in the sidebar
+export interface SavedView {
+  id: string;
+  projectName: string;
+  name: string;
+  // Filter query in the search box syntax (see lib/filterQuery)
+  query: string;
+  sortBy: SnagSortOption;
+  viewMode: SnagViewMode;
+  columns: SnagColumn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SnagPhotoInput {
+  original?: Blob | null;
+  compressed: Blob;
+  thumbnail: Blob;
+}
+
+const DB_NAME = 'snaglist-db';
+
 let dbInstance: IDBPDatabase<SnagListDB> | null = null;
+let dbPromise: Promise<IDBPDatabase<SnagListDB>> | null = null;
 
-interface BackupData {
+// Blobs are not JSON-serialisable, so backups point at them instead: ZIP
+// backups by the path of the file, older JSON ones as data URLs. JSON
+// backups carry no audio.
+type BackupMedia = Omit<MediaRecord, 'blob'> & { file?: string; mimeType?: string; dataUrl?: string };
+type BackupRecording = Omit<SnagListDB['voiceRecordings']['value'], 'audioBlob'> & { audioFile?: string; audioType?: string };
+
+export interface BackupData {
   version: number;
   timestamp: string;
   data: {
     snags: SnagListDB['snags']['value'][];
     projects: SnagListDB['projects']['value'][];
-    voiceRecordings: Omit<SnagListDB['voiceRecordings']['value'], 'audioBlob'>[];
+    voiceRecordings: BackupRecording[];
+    media?: BackupMedia[];
+    snagHistory?: SnagHistoryEntry[];
+    savedViews?: SavedView[];
+    contacts?: Contact[];
+    checklistTemplates?: ChecklistTemplate[];
+    checklists?: Checklist[];
   };
 }
 
@@ -81,40 +306,56 @@ export async function getDB(): Promise<IDBPDatabase<SnagListDB>> {
     return dbInstance;
   }
 
+  if (!dbPromise) {
+    dbPromise = openSnagListDB().finally(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+}
+
+async function openSnagListDB(): Promise<IDBPDatabase<SnagListDB>> {
   console.log('🔄 Initializing database connection...');
-  
-  try {
-    dbInstance = await openDB<SnagListDB>('snaglist-db', 3, {
-      async upgrade(db, oldVersion, newVersion) {
-        console.log('🔧 Running database upgrade...', { oldVersion, newVersion });
-        
-        // Delete old stores if they exist (to handle schema changes)
-        if (oldVersion > 0) {
-          if (db.objectStoreNames.contains('snags')) {
-            db.deleteObjectStore('snags');
-          }
-          if (db.objectStoreNames.contains('projects')) {
-            db.deleteObjectStore('projects');
-          }
-          if (db.objectStoreNames.contains('voiceRecordings')) {
-            db.deleteObjectStore('voiceRecordings');
-          }
-        }
-        
-        // Create stores with new schema
-        console.log('📝 Creating stores...');
-        const snagStore = db.createObjectStore('snags', { keyPath: 'id' });
-        snagStore.createIndex('by-project', 'projectName');
-        snagStore.createIndex('by-project-snagNumber', ['projectName', 'snagNumber'], { unique: true });
-        snagStore.createIndex('by-snagNumber', 'snagNumber', { unique: false });
 
-        const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
-        projectStore.createIndex('by-name', 'name', { unique: false });
+  // The snapshot is a safety net: failing to take one, e.g. for lack of
+  // space, must not keep the app from opening its data
+  const snapshot = await createPreMigrationSnapshot(DB_NAME, DB_VERSION).catch(error => {
+    console.error('❌ Failed to create pre-migration snapshot, upgrading without one:', error);
+    return null;
+  });
+  let migrationFailure: unknown = null;
+  let fromVersion = 0;
 
-        const voiceStore = db.createObjectStore('voiceRecordings', { keyPath: 'id' });
-        voiceStore.createIndex('by-project', 'projectName');
+  try {
+    dbInstance = await openDB<SnagListDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion, newVersion, transaction) {
+        // A database with no stores was only probed, never initialised
+        fromVersion = db.objectStoreNames.length === 0 ? 0 : oldVersion;
+        console.log('🔧 Running database upgrade...', { oldVersion: fromVersion, newVersion });
 
-        console.log('✅ Database stores created successfully');
+        // Any failing step aborts the versionchange transaction, which rolls
+        // the database back to its previous version with all data intact.
+        runMigrations(db, transaction, fromVersion, newVersion ?? DB_VERSION).catch(error => {
+          console.error('❌ Migration failed, rolling back:', error);
+          migrationFailure = error;
+          try {
+            transaction.abort();
+          } catch (abortError) {
+            console.error('❌ Failed to abort upgrade transaction:', abortError);
+          }
+        });
+      },
+      blocked() {
+        console.warn('⚠️ Database upgrade blocked by another open tab');
+      },
+      blocking() {
+        // Let a newer version in another tab upgrade the schema
+        dbInstance?.close();
+        dbInstance = null;
+      },
+      terminated() {
+        dbInstance = null;
       },
     });
 
@@ -124,32 +365,570 @@ export async function getDB(): Promise<IDBPDatabase<SnagListDB>> {
       stores: dbInstance.objectStoreNames
     });
 
+    if (snapshot) {
+      await pruneMigrationSnapshots(snapshot.id).catch(error => {
+        console.error('❌ Failed to prune migration snapshots:', error);
+      });
+    }
+
     return dbInstance;
   } catch (error) {
+    dbInstance = null;
+    if (migrationFailure) {
+      throw new MigrationError(
+        `Database migration to v${DB_VERSION} failed and was rolled back`,
+        fromVersion,
+        DB_VERSION,
+        snapshot?.id ?? null,
+        migrationFailure
+      );
+    }
     console.error('❌ Database initialization error:', error);
     throw error;
   }
 }
 
+// Restores the database to the state captured before a schema upgrade
+export async function rollbackToMigrationSnapshot(snapshotId: string): Promise<void> {
+  dbInstance?.close();
+  dbInstance = null;
+  await restoreMigrationSnapshot(DB_NAME, snapshotId);
+}
+
 // Project operations
-export async function addProject(name: string) {
+
+// Entries are linked by project name, so names must be unique - compared
+// case-insensitively, and including projects in the Trash
+async function assertProjectNameAvailable<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  projectStore: IDBPObjectStore<SnagListDB, TxStores, 'projects', Mode>,
+  name: string,
+  excludeId?: string
+): Promise<void> {
+  const normalized = name.toLowerCase();
+  const conflict = (await projectStore.getAll()).find(
+    project => project.id !== excludeId && project.name.trim().toLowerCase() === normalized
+  );
+
+  if (conflict?.deletedAt) {
+    throw new Error(`A project named "${conflict.name}" is in the Trash. Restore or purge it first.`);
+  }
+  if (conflict) {
+    throw new Error(`A project named "${conflict.name}" already exists`);
+  }
+}
+
+// Archived projects are kept as they were closed: nothing in them changes
+// until they are unarchived
+function assertProjectWritable(project: ProjectRecord | undefined): void {
+  if (project?.status === 'archived') {
+    throw new Error(`"${project.name}" is archived. Unarchive it to make changes.`);
+  }
+}
+
+async function assertProjectNameWritable<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  projectStore: IDBPObjectStore<SnagListDB, TxStores, 'projects', Mode>,
+  projectName: string
+): Promise<void> {
+  assertProjectWritable(await projectStore.index('by-name').get(projectName));
+}
+
+function assertSnagWritable(snag: SnagRecord): void {
+  if (snag.deletedAt) {
+    throw new Error(`#${snag.snagNumber} is in the Trash. Restore it to make changes.`);
+  }
+}
+
+export async function addProject(name: string, details: ProjectDetails | null = null, logo: Blob | null = null) {
   const db = await getDB();
   const id = crypto.randomUUID();
   const now = new Date();
+  const trimmedName = name.trim();
+  
+  if (!trimmedName) {
+    throw new Error('Project name is required');
+  }
+  const errors = details ? validateProjectDetails(details) : [];
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
   
-  await db.add('projects', {
+  const tx = db.transaction(['projects', 'media'], 'readwrite');
+  await assertProjectNameAvailable(tx.objectStore('projects'), trimmedName);
+  const logoId = logo ? await tx.objectStore('media').add(createMediaRecord(null, 'logo', logo, now)) : null;
+  await tx.objectStore('projects').add({
     id,
-    name,
+    name: trimmedName,
+    lastSnagNumber: 0,
+    workflow: null,
+    sla: null,
+    locations: [],
+    categories: null,
+    details: details || logoId ? { ...(details ?? EMPTY_PROJECT_DETAILS), logoId } : null,
+    rounds: [],
+    clonedFrom: null,
+    status: 'active',
+    compaction: null,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+  });
+  await tx.done;
+  
+  return { id, name: trimmedName };
+}
+
+// Starts a new project from an existing one. It gets its own numbering, so
+// cloned entries are numbered from 1 and keep their old number as a
+// reference. Checklists come along with their results cleared.
+export async function cloneProject(sourceId: string, name: string, depth: CloneDepth) {
+  const db = await getDB();
+  const trimmedName = name.trim();
+
+  if (!trimmedName) {
+    throw new Error('Project name is required');
+  }
+
+  const tx = db.transaction(
+    ['projects', 'snags', 'media', 'voiceRecordings', 'snagHistory', 'searchIndex', 'savedViews', 'checklists'],
+    'readwrite'
+  );
+  const projectStore = tx.objectStore('projects');
+  const source = await projectStore.get(sourceId);
+  if (!source || source.deletedAt) {
+    throw new Error('Project not found');
+  }
+  await assertProjectNameAvailable(projectStore, trimmedName);
+
+  // Entries in the Trash stay behind. Checked before the project is written,
+  // so a failed clone doesn't hold on to the new name.
+  const workflow = source.workflow ?? DEFAULT_WORKFLOW;
+  const snags = depth === 'structure'
+    ? []
+    : (await tx.objectStore('snags').index('by-project').getAll(source.name))
+      .filter(snag => !snag.deletedAt && (depth === 'all' || !isDoneStatus(workflow, snag.status)));
+  await assertSnagsCopyable(tx.objectStore('media'), snags);
+
+  const id = crypto.randomUUID();
+  const now = new Date();
+
+  // The logo is deleted with its project, so the clone gets its own copy
+  const logo = source.details?.logoId ? await tx.objectStore('media').get(source.details.logoId) : undefined;
+  const logoId = logo ? await tx.objectStore('media').add({ ...logo, id: crypto.randomUUID(), createdAt: now }) : null;
+
+  await projectStore.add({
+    id,
+    name: trimmedName,
+    lastSnagNumber: 0,
+    workflow: source.workflow ?? null,
+    sla: source.sla ?? null,
+    locations: source.locations ?? [],
+    categories: source.categories ?? null,
+    details: source.details ? { ...source.details, logoId } : null,
+    rounds: [],
+    clonedFrom: { projectId: source.id, projectName: source.name, depth, clonedAt: now },
+    status: 'active',
+    compaction: null,
     createdAt: now,
     updatedAt: now,
+    deletedAt: null
   });
+
+  let entryCount = 0;
+  if (snags.length > 0) {
+    const placement = await startTransfer(projectStore, tx.objectStore('snags'), snags.map(snag => snag.id), trimmedName);
+    const stores = {
+      snags: tx.objectStore('snags'),
+      media: tx.objectStore('media'),
+      voiceRecordings: tx.objectStore('voiceRecordings'),
+      snagHistory: tx.objectStore('snagHistory'),
+      searchIndex: tx.objectStore('searchIndex')
+    };
+
+    for (const snag of placement.snags) {
+      await copySnag(stores, snag, await placement.place(snag, 'copy'));
+    }
+    await placement.finish();
+    entryCount = placement.snags.length;
+  }
+
+  for (const view of await tx.objectStore('savedViews').index('by-project').getAll(source.name)) {
+    await tx.objectStore('savedViews').add({ ...view, id: crypto.randomUUID(), projectName: trimmedName, createdAt: now, updatedAt: now });
+  }
+
+  for (const checklist of await tx.objectStore('checklists').index('by-project').getAll(source.name)) {
+    await tx.objectStore('checklists').add({
+      ...checklist,
+      id: crypto.randomUUID(),
+      projectName: trimmedName,
+      items: checklist.items.map(item => ({ ...item, result: 'pending', snagId: null, checkedAt: null })),
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  await tx.done;
+  return { id, name: trimmedName, entryCount };
+}
+
+// Renames a project and rewrites projectName on everything that points at it,
+// all in one transaction so a failure can't leave records orphaned
+export async function renameProject(id: string, newName: string) {
+  const db = await getDB();
+  const trimmedName = newName.trim();
+  
+  if (!trimmedName) {
+    throw new Error('Project name is required');
+  }
+  
+  const tx = db.transaction(['projects', 'snags', 'voiceRecordings', 'snagHistory', 'searchIndex', 'savedViews', 'checklists'], 'readwrite');
+  const project = await tx.objectStore('projects').get(id);
+  
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+  if (project.name === trimmedName) {
+    return project;
+  }
+  
+  await assertProjectNameAvailable(tx.objectStore('projects'), trimmedName, id);
+  
+  const oldName = project.name;
+  const now = new Date();
   
-  return { id, name };
+  const renamedProject = { ...project, name: trimmedName, updatedAt: now };
+  await tx.objectStore('projects').put(renamedProject);
+  
+  let snagCursor = await tx.objectStore('snags').index('by-project').openCursor(oldName);
+  while (snagCursor) {
+    await snagCursor.update({ ...snagCursor.value, projectName: trimmedName });
+    snagCursor = await snagCursor.continue();
+  }
+  
+  let voiceCursor = await tx.objectStore('voiceRecordings').index('by-project').openCursor(oldName);
+  while (voiceCursor) {
+    await voiceCursor.update({ ...voiceCursor.value, projectName: trimmedName });
+    voiceCursor = await voiceCursor.continue();
+  }
+  
+  let historyCursor = await tx.objectStore('snagHistory').index('by-project').openCursor(oldName);
+  while (historyCursor) {
+    await historyCursor.update({ ...historyCursor.value, projectName: trimmedName });
+    historyCursor = await historyCursor.continue();
+  }
+  
+  let searchCursor = await tx.objectStore('searchIndex').index('by-project').openCursor(oldName);
+  while (searchCursor) {
+    await searchCursor.update({ ...searchCursor.value, projectName: trimmedName });
+    searchCursor = await searchCursor.continue();
+  }
+  
+  let viewCursor = await tx.objectStore('savedViews').index('by-project').openCursor(oldName);
+  while (viewCursor) {
+    await viewCursor.update({ ...viewCursor.value, projectName: trimmedName });
+    viewCursor = await viewCursor.continue();
+  }
+  
+  let checklistCursor = await tx.objectStore('checklists').index('by-project').openCursor(oldName);
+  while (checklistCursor) {
+    await checklistCursor.update({ ...checklistCursor.value, projectName: trimmedName });
+    checklistCursor = await checklistCursor.continue();
+  }
+  
+  await tx.done;
+  return renamedProject;
+}
+
+// The workflow a project's entries follow
+export async function getProjectWorkflow(projectName: string): Promise<Workflow> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.workflow ?? DEFAULT_WORKFLOW;
+}
+
+// Replaces a project's workflow. Refuses to drop a status that entries
+// (including trashed ones) are still in.
+export async function updateProjectWorkflow(projectId: string, workflow: Workflow): Promise<void> {
+  const errors = validateWorkflow(workflow);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags'], 'readwrite');
+  const project = await tx.objectStore('projects').get(projectId);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+
+  const stateIds = new Set(workflow.states.map(state => state.id));
+  const stranded = new Map<string, number>();
+  for (const snag of await tx.objectStore('snags').index('by-project').getAll(project.name)) {
+    if (!stateIds.has(snag.status)) {
+      stranded.set(snag.status, (stranded.get(snag.status) ?? 0) + 1);
+    }
+  }
+  if (stranded.size > 0) {
+    const [status, count] = Array.from(stranded.entries())[0];
+    throw new Error(`${count} ${count === 1 ? 'entry is' : 'entries are'} still in the removed status "${status}". Move ${count === 1 ? 'it' : 'them'} first.`);
+  }
+
+  await tx.objectStore('projects').put({ ...project, workflow, updatedAt: new Date() });
+  await tx.done;
 }
 
 export async function getAllProjects() {
   const db = await getDB();
-  return await db.getAll('projects');
+  const projects = await db.getAll('projects');
+  return projects.filter(project => !project.deletedAt);
+}
+
+export async function getProjectSla(projectName: string): Promise<SlaSettings | null> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.sla ?? null;
+}
+
+// Sets the default days to fix per priority. Only entries added afterwards
+// get the new due dates; existing ones keep theirs.
+export async function updateProjectSla(projectId: string, sla: SlaSettings | null): Promise<void> {
+  const errors = sla ? validateSla(sla) : [];
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const db = await getDB();
+  const tx = db.transaction('projects', 'readwrite');
+  const project = await tx.store.get(projectId);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+
+  await tx.store.put({ ...project, sla, updatedAt: new Date() });
+  await tx.done;
+}
+
+export async function getProjectDetails(projectName: string): Promise<ProjectDetails | null> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.details ?? null;
+}
+
+// Saves a project's report details. Pass a logo to replace the current one,
+// null to remove it, or leave it out to keep it.
+export async function updateProjectDetails(
+  projectId: string,
+  details: Omit<ProjectDetails, 'logoId'>,
+  logo?: Blob | null
+): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'media'], 'readwrite');
+  const project = await tx.objectStore('projects').get(projectId);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+
+  let logoId = project.details?.logoId ?? null;
+  const errors = validateProjectDetails({ ...details, logoId });
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  if (logo !== undefined) {
+    if (logoId) {
+      await tx.objectStore('media').delete(logoId);
+    }
+    logoId = logo ? await tx.objectStore('media').add(createMediaRecord(null, 'logo', logo, new Date())) : null;
+  }
+
+  await tx.objectStore('projects').put({ ...project, details: { ...details, logoId }, updatedAt: new Date() });
+  await tx.done;
+}
+
+export async function getInspectionRounds(projectName: string): Promise<InspectionRound[]> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.rounds ?? [];
+}
+
+// Starts the next inspection round, closing the one in progress. Entries
+// added from now on are tagged with it.
+export async function startInspectionRound(projectName: string, name = ''): Promise<InspectionRound> {
+  const db = await getDB();
+  const tx = db.transaction('projects', 'readwrite');
+  const project = await tx.store.index('by-name').get(projectName);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+  if (name.trim().length > 80) {
+    throw new Error('Round name is too long');
+  }
+
+  const now = new Date();
+  const rounds = project.rounds ?? [];
+  const round: InspectionRound = {
+    id: crypto.randomUUID(),
+    number: rounds.reduce((highest, other) => Math.max(highest, other.number), 0) + 1,
+    name: name.trim(),
+    startedAt: now,
+    closedAt: null
+  };
+
+  await tx.store.put({
+    ...project,
+    rounds: [...rounds.map(other => other.closedAt ? other : { ...other, closedAt: now }), round],
+    updatedAt: now
+  });
+  await tx.done;
+  return round;
+}
+
+export async function closeInspectionRound(projectName: string, roundId: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('projects', 'readwrite');
+  const project = await tx.store.index('by-name').get(projectName);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+  if (!(project.rounds ?? []).some(round => round.id === roundId)) {
+    throw new Error('Round not found');
+  }
+
+  const now = new Date();
+  await tx.store.put({
+    ...project,
+    rounds: project.rounds.map(round => round.id === roundId && !round.closedAt ? { ...round, closedAt: now } : round),
+    updatedAt: now
+  });
+  await tx.done;
+}
+
+// Records the outcome of re-checking an entry in a round; null clears it.
+// The entry's status is left alone.
+export async function recordRoundCheck(snagId: string, roundId: string, result: RoundCheckResult | null): Promise<SnagRecord> {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'snagHistory'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(snagId);
+
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+  assertSnagWritable(snag);
+
+  const project = await tx.objectStore('projects').index('by-name').get(snag.projectName);
+  assertProjectWritable(project);
+  if (!project?.rounds?.some(round => round.id === roundId)) {
+    throw new Error('Round not found');
+  }
+  if (snag.roundId === roundId) {
+    throw new Error('Entries found in a round are not re-checked in it');
+  }
+
+  const now = new Date();
+  const updatedSnag = { ...snag, roundChecks: setRoundCheck(snag.roundChecks ?? [], roundId, result, now), updatedAt: now };
+  await tx.objectStore('snags').put(updatedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'update', snag, updatedSnag);
+  await tx.done;
+  return updatedSnag;
+}
+
+export async function getProjectLocations(projectName: string): Promise<LocationNode[]> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.locations ?? [];
+}
+
+// Replaces a project's location tree and brings its entries in line: linked
+// entries take their node's new path, entries whose node was removed keep
+// the text, and free text that now names a node gets linked to it.
+export async function updateProjectLocations(projectId: string, locations: LocationNode[]): Promise<void> {
+  const errors = validateLocations(locations);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags', 'snagHistory', 'searchIndex'], 'readwrite');
+  const project = await tx.objectStore('projects').get(projectId);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+
+  const now = new Date();
+  const nodeIds = new Set(locations.map(node => node.id));
+  let snagCursor = await tx.objectStore('snags').index('by-project').openCursor(project.name);
+  while (snagCursor) {
+    const snag = snagCursor.value;
+    const linked = snag.locationId && nodeIds.has(snag.locationId)
+      ? { location: getLocationPath(locations, snag.locationId), locationId: snag.locationId }
+      : linkLocation(locations, snag.location);
+
+    if (linked.location !== snag.location || linked.locationId !== snag.locationId) {
+      const updatedSnag = { ...snag, ...linked, updatedAt: now };
+      await snagCursor.update(updatedSnag);
+      await recordHistory(tx.objectStore('snagHistory'), 'update', snag, updatedSnag);
+      await syncSnagSearchDoc(tx.objectStore('searchIndex'), updatedSnag);
+    }
+    snagCursor = await snagCursor.continue();
+  }
+
+  await tx.objectStore('projects').put({ ...project, locations, updatedAt: now });
+  await tx.done;
+}
+
+export async function getProjectCategories(projectName: string): Promise<ProjectCategories> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.categories ?? DEFAULT_CATEGORIES;
+}
+
+// Replaces a project's trades and tags. Entries lose any trade or tag that
+// was removed.
+export async function updateProjectCategories(projectId: string, categories: ProjectCategories): Promise<void> {
+  const errors = validateCategories(categories);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags', 'snagHistory'], 'readwrite');
+  const project = await tx.objectStore('projects').get(projectId);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(project);
+
+  const now = new Date();
+  const tradeIds = new Set(categories.trades.map(trade => trade.id));
+  const tagIds = new Set(categories.tags.map(tag => tag.id));
+  let snagCursor = await tx.objectStore('snags').index('by-project').openCursor(project.name);
+  while (snagCursor) {
+    const snag = snagCursor.value;
+    const trade = snag.trade && tradeIds.has(snag.trade) ? snag.trade : null;
+    const tags = snag.tags.filter(tag => tagIds.has(tag));
+    if (trade !== snag.trade || tags.length !== snag.tags.length) {
+      const updatedSnag = { ...snag, trade, tags, updatedAt: now };
+      await snagCursor.update(updatedSnag);
+      await recordHistory(tx.objectStore('snagHistory'), 'update', snag, updatedSnag);
+    }
+    snagCursor = await snagCursor.continue();
+  }
+
+  await tx.objectStore('projects').put({ ...project, categories, updatedAt: now });
+  await tx.done;
 }
 
 export async function getProject(id: string) {
@@ -157,8 +936,24 @@ export async function getProject(id: string) {
   return await db.get('projects', id);
 }
 
+// Moves a project to the Trash. Its entries stay untouched and reappear with
+// it on restore; entries trashed individually stay in the Trash.
 export async function deleteProject(id: string) {
-  console.log('🗑️ Starting to delete project:', id);
+  console.log('🗑️ Moving project to trash:', id);
+  const db = await getDB();
+  const project = await db.get('projects', id);
+  
+  if (!project) {
+    console.warn('⚠️ Attempted to delete non-existent project:', id);
+    return;
+  }
+  
+  await db.put('projects', { ...project, deletedAt: new Date() });
+  console.log('✅ Project moved to trash:', project.name);
+}
+
+export async function purgeProject(id: string) {
+  console.log('🗑️ Starting to permanently delete project:', id);
   
   try {
     const db = await getDB();
@@ -176,15 +971,16 @@ export async function deleteProject(id: string) {
     });
 
     // Start a transaction that includes all stores we need to modify
-    const tx = db.transaction(['projects', 'snags', 'voiceRecordings'], 'readwrite');
+    const tx = db.transaction(['projects', 'snags', 'media', 'voiceRecordings', 'snagHistory', 'searchIndex', 'savedViews', 'checklists'], 'readwrite');
     
     try {
-      // Delete all snags associated with the project
+      // Delete all snags associated with the project, along with their photos
       const snagIndex = tx.objectStore('snags').index('by-project');
       const snags = await snagIndex.getAllKeys(project.name);
       console.log(`🗑️ Deleting ${snags.length} snags for project:`, project.name);
       
       for (const snagId of snags) {
+        await deleteMediaForSnag(tx.objectStore('media'), snagId);
         await tx.objectStore('snags').delete(snagId);
       }
       
@@ -197,12 +993,37 @@ export async function deleteProject(id: string) {
         await tx.objectStore('voiceRecordings').delete(recordingId);
       }
       
-      // Finally delete the project itself
-      await tx.objectStore('projects').delete(id);
+      // The audit trail goes with the project
+      const historyKeys = await tx.objectStore('snagHistory').index('by-project').getAllKeys(project.name);
+      for (const historyId of historyKeys) {
+        await tx.objectStore('snagHistory').delete(historyId);
+      }
+      
+      const searchKeys = await tx.objectStore('searchIndex').index('by-project').getAllKeys(project.name);
+      for (const docId of searchKeys) {
+        await tx.objectStore('searchIndex').delete(docId);
+      }
+      
+      const viewKeys = await tx.objectStore('savedViews').index('by-project').getAllKeys(project.name);
+      for (const viewId of viewKeys) {
+        await tx.objectStore('savedViews').delete(viewId);
+      }
+      
+      const checklistKeys = await tx.objectStore('checklists').index('by-project').getAllKeys(project.name);
+      for (const checklistId of checklistKeys) {
+        await tx.objectStore('checklists').delete(checklistId);
+      }
+      
+      if (project.details?.logoId) {
+        await tx.objectStore('media').delete(project.details.logoId);
+      }
+      
+      // Finally delete the project itself
+      await tx.objectStore('projects').delete(id);
       
       // Commit the transaction
       await tx.done;
-      console.log('✅ Successfully deleted project and all associated data');
+      console.log('✅ Successfully purged project and all associated data');
     } catch (error) {
       console.error('❌ Transaction failed:', error);
       throw error;
@@ -221,99 +1042,267 @@ export async function deleteProject(id: string) {
 // Snag operations
 export async function getAllSnags() {
   const db = await getDB();
-  return await db.getAll('snags');
+  const snags = await db.getAll('snags');
+  return snags.filter(snag => !snag.deletedAt);
 }
 
 export async function getSnagsByProject(projectName: string) {
   const db = await getDB();
   const index = db.transaction('snags').store.index('by-project');
-  return await index.getAll(projectName);
+  const snags = await index.getAll(projectName);
+  return snags.filter(snag => !snag.deletedAt);
 }
 
-export async function addSnag({
-  projectName,
-  name,
-  description,
-  photoPath,
-  thumbnailPath,
-  priority,
-  assignedTo,
-  status,
-  location,
-  completionDate = null,
-  observationDate = new Date(),
-  annotations = []
-}: {
+interface NewSnag {
   projectName: string;
   name: string;
   description: string;
-  photoPath: string;
-  thumbnailPath: string;
+  photo: SnagPhotoInput;
   priority: 'Low' | 'Medium' | 'High';
   assignedTo: string;
-  status: 'In Progress' | 'Completed';
+  // Defaults to the workflow's starting status
+  status?: string;
   location: string;
+  // Trade and tags, by id or label
+  trade?: string | null;
+  tags?: string[];
   completionDate?: Date | null;
   observationDate?: Date;
+  // Defaults to the project's SLA for the priority
+  dueDate?: Date | null;
   annotations?: any[];
-}) {
+}
+
+export async function addSnag(fields: NewSnag) {
   const db = await getDB();
+
+  // Allocate the number and insert in one transaction so concurrent saves
+  // can never be handed the same number
+  const tx = db.transaction(['projects', 'snags', 'media', 'snagHistory', 'searchIndex', 'contacts'], 'readwrite');
+  const snag = await insertSnag({
+    projects: tx.objectStore('projects'),
+    snags: tx.objectStore('snags'),
+    media: tx.objectStore('media'),
+    snagHistory: tx.objectStore('snagHistory'),
+    searchIndex: tx.objectStore('searchIndex'),
+    contacts: tx.objectStore('contacts')
+  }, fields);
+  await tx.done;
+  return snag;
+}
+
+// Adds an entry in the caller's transaction, numbering it from the project
+async function insertSnag<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  stores: {
+    projects: IDBPObjectStore<SnagListDB, TxStores, 'projects', 'readwrite'>;
+    snags: IDBPObjectStore<SnagListDB, TxStores, 'snags', 'readwrite'>;
+    media: IDBPObjectStore<SnagListDB, TxStores, 'media', 'readwrite'>;
+    snagHistory: IDBPObjectStore<SnagListDB, TxStores, 'snagHistory', 'readwrite'>;
+    searchIndex: IDBPObjectStore<SnagListDB, TxStores, 'searchIndex', 'readwrite'>;
+    contacts: IDBPObjectStore<SnagListDB, TxStores, 'contacts', 'readwrite'>;
+  },
+  {
+    projectName,
+    name,
+    description,
+    photo,
+    priority,
+    assignedTo,
+    status,
+    location,
+    trade = null,
+    tags = [],
+    completionDate = null,
+    observationDate = new Date(),
+    dueDate,
+    annotations = []
+  }: NewSnag
+): Promise<SnagRecord> {
   const id = crypto.randomUUID();
   const now = new Date();
+  const projectStore = stores.projects;
+  const snagStore = stores.snags;
+  const mediaStore = stores.media;
 
-  // Get the next snag number for this project
-  const snagIndex = db.transaction('snags', 'readonly')
-    .store
-    .index('by-project');
-  
-  const existingSnags = await snagIndex.getAll(projectName);
-  const snagNumber = existingSnags.length + 1;
+  const project = await projectStore.index('by-name').get(projectName);
+  if (!project) {
+    throw new Error(`Project "${projectName}" not found`);
+  }
+  assertProjectWritable(project);
 
-  const snag = {
+  const snagNumber = await nextSnagNumber(snagStore, project);
+  const workflow = project.workflow ?? DEFAULT_WORKFLOW;
+  const assignee = await linkAssignee(stores.contacts, assignedTo);
+  const place = linkLocation(project.locations ?? [], location);
+  const categories = project.categories ?? DEFAULT_CATEGORIES;
+
+  const firstPhoto = await addPhotoMedia(mediaStore, id, photo, 'before', now);
+
+  const snag: SnagRecord = {
     id,
     projectName,
     snagNumber,
     name,
     description,
-    photoPath,
-    thumbnailPath,
+    ...withPhotos([{ ...firstPhoto, annotations }]),
     priority,
-    assignedTo,
-    status,
-    location,
+    ...assignee,
+    status: (status && resolveStatus(workflow, status)) || workflow.initialState,
+    statusNote: null,
+    ...place,
+    trade: resolveTrade(categories, trade),
+    tags: resolveTags(categories, tags),
     createdAt: now,
     updatedAt: now,
     completionDate,
     observationDate,
-    annotations
+    dueDate: dueDate === undefined ? computeDueDate(observationDate, priority, project.sla) : dueDate,
+    // New findings belong to the round being walked
+    roundId: getOpenRound(project.rounds ?? [])?.id ?? null,
+    roundChecks: [],
+    origin: null,
+    waiver: null,
+    deletedAt: null
   };
 
-  await db.add('snags', snag);
+  await projectStore.put({ ...project, lastSnagNumber: snagNumber, updatedAt: now });
+  await snagStore.add(snag);
+  await stores.snagHistory.add(createHistoryEntry('create', null, snag));
+  await stores.searchIndex.put(buildSnagSearchDoc(snag));
   return snag;
 }
 
+// Next free number for a project. Also checks the highest stored entry so
+// projects restored from older backups without a counter stay collision-free.
+async function nextSnagNumber<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  snagStore: IDBPObjectStore<SnagListDB, TxStores, 'snags', Mode>,
+  project: SnagListDB['projects']['value']
+): Promise<number> {
+  const highest = await snagStore
+    .index('by-project-snagNumber')
+    .openCursor(IDBKeyRange.bound([project.name, -Infinity], [project.name, Infinity]), 'prev');
+
+  return Math.max(project.lastSnagNumber ?? 0, highest?.value.snagNumber ?? 0) + 1;
+}
+
+function createMediaRecord(snagId: string | null, kind: MediaKind, blob: Blob, createdAt: Date): MediaRecord {
+  return {
+    id: crypto.randomUUID(),
+    snagId,
+    kind,
+    blob,
+    createdAt
+  };
+}
+
+// Stores the three sizes of a photo and returns the gallery entry for them
+async function addPhotoMedia<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  mediaStore: IDBPObjectStore<SnagListDB, TxStores, 'media', 'readwrite'>,
+  snagId: string,
+  photo: SnagPhotoInput,
+  role: PhotoRole,
+  now: Date
+): Promise<SnagPhoto> {
+  const photoId = await mediaStore.add(createMediaRecord(snagId, 'compressed', photo.compressed, now));
+  const thumbnailId = await mediaStore.add(createMediaRecord(snagId, 'thumbnail', photo.thumbnail, now));
+  const originalId = photo.original
+    ? await mediaStore.add(createMediaRecord(snagId, 'original', photo.original, now))
+    : null;
+
+  return { id: crypto.randomUUID(), photoId, thumbnailId, originalId, role, annotations: [] };
+}
+
+async function deleteMediaForSnag<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  mediaStore: IDBPObjectStore<SnagListDB, TxStores, 'media', 'readwrite'>,
+  snagId: string
+): Promise<void> {
+  const mediaIds = await mediaStore.index('by-snag').getAllKeys(snagId);
+  for (const mediaId of mediaIds) {
+    await mediaStore.delete(mediaId);
+  }
+}
+
+// Media operations
+export async function getMediaBlob(id: string): Promise<Blob | null> {
+  if (!id) return null;
+  const db = await getDB();
+  const record = await db.get('media', id);
+  return record?.blob ?? null;
+}
+
+export async function getMediaDataUrl(id: string): Promise<string | null> {
+  const blob = await getMediaBlob(id);
+  return blob ? await blobToDataUrl(blob) : null;
+}
+
 export async function updateSnag(id: string, updates: Partial<Omit<SnagListDB['snags']['value'], 'id' | 'snagNumber'>>) {
   const db = await getDB();
-  const snag = await db.get('snags', id);
+  const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex', 'contacts'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(id);
   
   if (!snag) {
     throw new Error('Snag not found');
   }
+  assertSnagWritable(snag);
+  
+  const project = await tx.objectStore('projects').index('by-name').get(snag.projectName);
+  assertProjectWritable(project);
+  
+  // Checked before linking the assignee, which may add a contact
+  const workflow = project?.workflow ?? DEFAULT_WORKFLOW;
+  if (updates.status !== undefined && updates.status !== snag.status) {
+    assertTransitionAllowed(workflow, snag.status, updates.status, {
+      completionDate: updates.completionDate,
+      evidence: updates.statusNote
+    });
+  }
+  
+  // Typed names are matched to a contact, or become a new one
+  if (updates.assignedTo !== undefined) {
+    updates = { ...updates, ...await linkAssignee(tx.objectStore('contacts'), updates.assignedTo) };
+  }
+  
+  // Typed locations are matched to the project's tree
+  if (updates.location !== undefined) {
+    updates = { ...updates, ...linkLocation(project?.locations ?? [], updates.location) };
+  }
+  
+  const categories = project?.categories ?? DEFAULT_CATEGORIES;
+  if (updates.trade !== undefined) {
+    updates = { ...updates, trade: resolveTrade(categories, updates.trade) };
+  }
+  if (updates.tags !== undefined) {
+    updates = { ...updates, tags: resolveTags(categories, updates.tags) };
+  }
+  
+  // Photos change through the gallery operations below, so a stale copy of
+  // the entry passed back from a view can't undo them. Annotations given
+  // here belong to the first photo.
+  const photos = [...getSnagPhotos(snag)];
+  if (updates.annotations !== undefined && photos.length > 0) {
+    photos[0] = { ...photos[0], annotations: updates.annotations };
+  }
   
   const updatedSnag = {
     ...snag,
     ...updates,
+    ...(photos.length > 0 ? withPhotos(photos) : {}),
+    // Re-checks are recorded through recordRoundCheck
+    roundChecks: snag.roundChecks ?? [],
     updatedAt: new Date(),
-    // Only set completion date to current date if status is Completed and no completion date was provided
-    completionDate: updates.status === 'Completed' && !updates.completionDate ? new Date() : updates.completionDate || snag.completionDate
+    completionDate: resolveCompletionDate(workflow, snag.status, updates.status ?? snag.status, snag.completionDate, updates.completionDate)
   };
   
-  await db.put('snags', updatedSnag);
+  await tx.objectStore('snags').put(updatedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), snag.status !== updatedSnag.status ? 'status' : 'update', snag, updatedSnag);
+  await syncSnagSearchDoc(tx.objectStore('searchIndex'), updatedSnag);
+  await tx.done;
   return updatedSnag;
 }
 
+// Moves an entry to the Trash. It keeps its number and photos until purged.
 export async function deleteSnag(id: string) {
-  console.log('🗑️ Starting to delete snag:', id);
+  console.log('🗑️ Moving snag to trash:', id);
   
   try {
     const db = await getDB();
@@ -332,9 +1321,14 @@ export async function deleteSnag(id: string) {
       return;
     }
 
-    console.log('🗑️ Deleting snag from database...');
-    await db.delete('snags', id);
-    console.log('✅ Successfully deleted snag:', id);
+    const trashedSnag = { ...snag, deletedAt: new Date() };
+    const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex'], 'readwrite');
+    await assertProjectNameWritable(tx.objectStore('projects'), snag.projectName);
+    await tx.objectStore('snags').put(trashedSnag);
+    await recordHistory(tx.objectStore('snagHistory'), 'delete', snag, trashedSnag);
+    await syncSnagSearchDoc(tx.objectStore('searchIndex'), trashedSnag);
+    await tx.done;
+    console.log('✅ Successfully moved snag to trash:', id);
   } catch (error: any) {
     console.error('❌ Error deleting snag:', error);
     console.error('📄 Error details:', {
@@ -346,161 +1340,2439 @@ export async function deleteSnag(id: string) {
   }
 }
 
-// Voice recording operations
-export async function saveVoiceRecording(
-  projectName: string,
-  fileName: string,
-  audioBlob: Blob
-): Promise<string> {
+// Bulk operations on a selection. Each runs as one transaction, so the whole
+// selection changes or none of it does, and returns the entries as they were
+// so the change can be undone with restoreSnagRecords.
+
+export interface BulkSnagUpdate {
+  status?: string;
+  // Evidence and completion date for the status change, when it needs them
+  statusNote?: string | null;
+  completionDate?: Date | null;
+  priority?: SnagRecord['priority'];
+  assignedTo?: string;
+  location?: string;
+  // Tag ids or labels
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+export async function bulkUpdateSnags(ids: string[], changes: BulkSnagUpdate): Promise<SnagRecord[]> {
   const db = await getDB();
-  const id = crypto.randomUUID();
+  const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex', 'contacts'], 'readwrite');
+  const snagStore = tx.objectStore('snags');
+  const projects = new Map<string, ProjectRecord | undefined>();
   const now = new Date();
+  const updates: [SnagRecord, SnagRecord][] = [];
 
-  const recording = {
-    id,
-    projectName,
-    fileName,
-    audioBlob,
-    processed: false,
-    createdAt: now,
-  };
+  // Every entry is checked before anything is written, so one refused
+  // transition leaves the whole selection untouched
+  for (const id of ids) {
+    const snag = await snagStore.get(id);
+    if (!snag || snag.deletedAt) continue;
 
-  await db.add('voiceRecordings', recording);
-  return id;
+    if (!projects.has(snag.projectName)) {
+      projects.set(snag.projectName, await tx.objectStore('projects').index('by-name').get(snag.projectName));
+    }
+    const project = projects.get(snag.projectName);
+    assertProjectWritable(project);
+    const workflow = project?.workflow ?? DEFAULT_WORKFLOW;
+    const categories = project?.categories ?? DEFAULT_CATEGORIES;
+    const updated: SnagRecord = { ...snag, updatedAt: now };
+
+    if (changes.status !== undefined && changes.status !== snag.status) {
+      try {
+        assertTransitionAllowed(workflow, snag.status, changes.status, {
+          completionDate: changes.completionDate,
+          evidence: changes.statusNote
+        });
+      } catch (error) {
+        throw new Error(`#${snag.snagNumber}: ${error instanceof Error ? error.message : 'Status change not allowed'}`);
+      }
+      updated.status = changes.status;
+      updated.statusNote = changes.statusNote ?? null;
+      updated.completionDate = resolveCompletionDate(workflow, snag.status, changes.status, snag.completionDate, changes.completionDate, now);
+    }
+    if (changes.priority !== undefined) {
+      updated.priority = changes.priority;
+    }
+    if (changes.location !== undefined) {
+      Object.assign(updated, linkLocation(project?.locations ?? [], changes.location));
+    }
+    if (changes.addTags || changes.removeTags) {
+      const removed = new Set(resolveTags(categories, changes.removeTags));
+      updated.tags = resolveTags(categories, [...snag.tags.filter(tag => !removed.has(tag)), ...changes.addTags ?? []]);
+    }
+    updates.push([snag, updated]);
+  }
+
+  const assignee = changes.assignedTo !== undefined ? await linkAssignee(tx.objectStore('contacts'), changes.assignedTo) : null;
+  for (const [snag, updated] of updates) {
+    const saved = assignee ? { ...updated, ...assignee } : updated;
+    await snagStore.put(saved);
+    await recordHistory(tx.objectStore('snagHistory'), snag.status !== saved.status ? 'status' : 'update', snag, saved);
+    await syncSnagSearchDoc(tx.objectStore('searchIndex'), saved);
+  }
+  await tx.done;
+  return updates.map(([snag]) => snag);
 }
 
-export async function getVoiceRecording(id: string) {
+export async function bulkDeleteSnags(ids: string[]): Promise<SnagRecord[]> {
   const db = await getDB();
-  return await db.get('voiceRecordings', id);
+  const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex'], 'readwrite');
+  const snagStore = tx.objectStore('snags');
+  const now = new Date();
+  const trashed: SnagRecord[] = [];
+
+  for (const id of ids) {
+    const snag = await snagStore.get(id);
+    if (snag && !snag.deletedAt) {
+      trashed.push(snag);
+    }
+  }
+  for (const projectName of new Set(trashed.map(snag => snag.projectName))) {
+    await assertProjectNameWritable(tx.objectStore('projects'), projectName);
+  }
+
+  for (const snag of trashed) {
+    const trashedSnag = { ...snag, deletedAt: now };
+    await snagStore.put(trashedSnag);
+    await recordHistory(tx.objectStore('snagHistory'), 'delete', snag, trashedSnag);
+    await syncSnagSearchDoc(tx.objectStore('searchIndex'), trashedSnag);
+  }
+  await tx.done;
+
+  console.log('🗑️ Moved snags to trash:', trashed.length);
+  return trashed;
 }
 
-export async function getVoiceRecordingsByProject(projectName: string) {
+// Moves entries to another project. They are numbered in the target as if
+// newly added and keep their old number as a reference. Their photos,
+// history and linked voice recordings go with them.
+export async function moveSnagsToProject(ids: string[], targetProjectName: string): Promise<SnagRecord[]> {
   const db = await getDB();
-  const index = db.transaction('voiceRecordings').store.index('by-project');
-  return await index.getAll(projectName);
+  const tx = db.transaction(['projects', 'snags', 'voiceRecordings', 'snagHistory', 'searchIndex'], 'readwrite');
+  const placement = await startTransfer(tx.objectStore('projects'), tx.objectStore('snags'), ids, targetProjectName, { moving: true });
+
+  for (const snag of placement.snags) {
+    const movedSnag: SnagRecord = { ...snag, ...await placement.place(snag, 'move') };
+
+    await moveSnagHistory(tx.objectStore('snagHistory'), snag.id, targetProjectName);
+    await moveSnagRecordings(tx.objectStore('voiceRecordings'), tx.objectStore('searchIndex'), snag.id, targetProjectName);
+    await tx.objectStore('snags').put(movedSnag);
+    await recordHistory(tx.objectStore('snagHistory'), 'update', snag, movedSnag);
+    await syncSnagSearchDoc(tx.objectStore('searchIndex'), movedSnag);
+  }
+  await placement.finish();
+  await tx.done;
+  return placement.snags;
 }
 
-// Snag annotation operations
-export async function updateSnagAnnotations(snagId: string, annotations: any[]) {
+// Copies entries into another project as new entries with their own photos
+// and recordings, so either side can change without affecting the other.
+// Returns the copies.
+export async function copySnagsToProject(ids: string[], targetProjectName: string): Promise<SnagRecord[]> {
   const db = await getDB();
-  const snag = await db.get('snags', snagId);
-  
-  if (!snag) {
-    throw new Error('Snag not found');
+  const tx = db.transaction(['projects', 'snags', 'media', 'voiceRecordings', 'snagHistory', 'searchIndex'], 'readwrite');
+  const placement = await startTransfer(tx.objectStore('projects'), tx.objectStore('snags'), ids, targetProjectName, { allowSameProject: true });
+  await assertSnagsCopyable(tx.objectStore('media'), placement.snags);
+  const stores = {
+    snags: tx.objectStore('snags'),
+    media: tx.objectStore('media'),
+    voiceRecordings: tx.objectStore('voiceRecordings'),
+    snagHistory: tx.objectStore('snagHistory'),
+    searchIndex: tx.objectStore('searchIndex')
+  };
+  const copies: SnagRecord[] = [];
+
+  for (const snag of placement.snags) {
+    copies.push(await copySnag(stores, snag, await placement.place(snag, 'copy')));
   }
-  
-  const updatedSnag = {
+  await placement.finish();
+  await tx.done;
+  return copies;
+}
+
+// An entry can only be copied with at least one of its photos. Checked for
+// every entry before the first copy is written, since a throw part way
+// through would leave the earlier copies behind.
+async function assertSnagsCopyable<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  mediaStore: IDBPObjectStore<SnagListDB, TxStores, 'media', Mode>,
+  snags: SnagRecord[]
+): Promise<void> {
+  for (const snag of snags) {
+    let hasPhoto = false;
+    for (const photo of getSnagPhotos(snag)) {
+      if (await mediaStore.getKey(photo.photoId)) {
+        hasPhoto = true;
+        break;
+      }
+    }
+    if (!hasPhoto) {
+      throw new Error(`#${snag.snagNumber}: its photo is missing, so it can't be copied`);
+    }
+  }
+}
+
+// Adds a copy of an entry with the given fields changed. Each size of each
+// photo and each linked recording gets its own record for the copy. Check
+// the entries with assertSnagsCopyable first.
+async function copySnag<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  stores: {
+    snags: IDBPObjectStore<SnagListDB, TxStores, 'snags', 'readwrite'>;
+    media: IDBPObjectStore<SnagListDB, TxStores, 'media', 'readwrite'>;
+    voiceRecordings: IDBPObjectStore<SnagListDB, TxStores, 'voiceRecordings', 'readwrite'>;
+    snagHistory: IDBPObjectStore<SnagListDB, TxStores, 'snagHistory', 'readwrite'>;
+    searchIndex: IDBPObjectStore<SnagListDB, TxStores, 'searchIndex', 'readwrite'>;
+  },
+  snag: SnagRecord,
+  changes: Partial<SnagRecord> & Pick<SnagRecord, 'projectName'>
+): Promise<SnagRecord> {
+  const id = crypto.randomUUID();
+  const now = new Date();
+
+  const copyMedia = async (mediaId: string | null) => {
+    const record = mediaId ? await stores.media.get(mediaId) : undefined;
+    return record ? stores.media.add({ ...record, id: crypto.randomUUID(), snagId: id, createdAt: now }) : null;
+  };
+  const photos: SnagPhoto[] = [];
+  for (const photo of getSnagPhotos(snag)) {
+    const photoId = await copyMedia(photo.photoId);
+    if (!photoId) continue;
+    photos.push({
+      ...photo,
+      id: crypto.randomUUID(),
+      photoId,
+      thumbnailId: await copyMedia(photo.thumbnailId) ?? photoId,
+      originalId: await copyMedia(photo.originalId)
+    });
+  }
+  if (photos.length === 0) {
+    throw new Error(`#${snag.snagNumber}: its photo is missing, so it can't be copied`);
+  }
+
+  const copy: SnagRecord = {
     ...snag,
-    annotations,
-    updatedAt: new Date()
+    ...changes,
+    id,
+    ...withPhotos(photos),
+    createdAt: now
   };
-  
-  await db.put('snags', updatedSnag);
-  return updatedSnag;
+  await stores.snags.add(copy);
+  await stores.snagHistory.add(createHistoryEntry('create', null, copy));
+  await syncSnagSearchDoc(stores.searchIndex, copy);
+
+  for (const recording of await stores.voiceRecordings.index('by-snag').getAll(snag.id)) {
+    const recordingCopy = { ...recording, id: crypto.randomUUID(), projectName: changes.projectName, snagId: id };
+    await stores.voiceRecordings.add(recordingCopy);
+    await stores.searchIndex.put(buildRecordingSearchDoc(recordingCopy));
+  }
+  return copy;
 }
 
-export async function searchSnags(query: string) {
-  const db = await getDB();
-  const allSnags = await getAllSnags();
-  
-  // Search in description, name, location, and assignedTo fields
-  const searchTerms = query.toLowerCase().split(/\s+/);
-  
-  return allSnags.filter(snag => {
-    const searchableText = `
-      ${snag.description} 
-      ${snag.name} 
-      ${snag.location} 
-      ${snag.assignedTo}
-      ${snag.priority}
-      ${snag.status}
-    `.toLowerCase();
-    
-    return searchTerms.every(term => searchableText.includes(term));
-  });
+// Shared setup for moving and copying: checks the target, collects the
+// entries in order and hands out the target's numbers
+async function startTransfer<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  projectStore: IDBPObjectStore<SnagListDB, TxStores, 'projects', 'readwrite'>,
+  snagStore: IDBPObjectStore<SnagListDB, TxStores, 'snags', 'readwrite'>,
+  ids: string[],
+  targetProjectName: string,
+  {
+    // Copies may go to the project the entry is already in
+    allowSameProject = false,
+    // Merges bring entries in the Trash along too
+    includeTrashed = false,
+    // Entries can be copied out of an archived project, but not moved
+    moving = false
+  } = {}
+) {
+  const target = await projectStore.index('by-name').get(targetProjectName);
+  if (!target || target.deletedAt) {
+    throw new Error(`Project "${targetProjectName}" not found`);
+  }
+  assertProjectWritable(target);
+
+  const snags: SnagRecord[] = [];
+  for (const id of ids) {
+    const snag = await snagStore.get(id);
+    if (snag && (includeTrashed || !snag.deletedAt) && (allowSameProject || snag.projectName !== targetProjectName)) {
+      snags.push(snag);
+    }
+  }
+  // Keep their relative order in the target
+  snags.sort((a, b) => a.projectName.localeCompare(b.projectName) || a.snagNumber - b.snagNumber);
+
+  const sources = new Map<string, ProjectRecord | undefined>();
+  for (const snag of snags) {
+    if (!sources.has(snag.projectName)) {
+      const source = await projectStore.index('by-name').get(snag.projectName);
+      if (moving) {
+        assertProjectWritable(source);
+      }
+      sources.set(snag.projectName, source);
+    }
+  }
+  const targetWorkflow = target.workflow ?? DEFAULT_WORKFLOW;
+  const targetCategories = target.categories ?? DEFAULT_CATEGORIES;
+  const now = new Date();
+  let lastSnagNumber = await nextSnagNumber(snagStore, target) - 1;
+
+  // The fields an entry takes on in the target: its number, the reference
+  // back, and its location, status, trade and tags matched to the target
+  const place = async (snag: SnagRecord, mode: TransferMode) => {
+    const source = sources.get(snag.projectName);
+    lastSnagNumber++;
+
+    return {
+      projectName: targetProjectName,
+      snagNumber: lastSnagNumber,
+      origin: { mode, projectName: snag.projectName, snagNumber: snag.snagNumber, transferredAt: now },
+      status: mapStatusToWorkflow(source?.workflow ?? DEFAULT_WORKFLOW, targetWorkflow, snag.status),
+      ...linkLocation(target.locations ?? [], snag.location),
+      ...mapCategories(source?.categories ?? DEFAULT_CATEGORIES, targetCategories, snag.trade, snag.tags ?? []),
+      // Rounds belong to the project they were walked in
+      roundId: null,
+      roundChecks: [],
+      // ...and so do waivers
+      waiver: null,
+      updatedAt: now
+    };
+  };
+
+  const finish = async () => {
+    if (snags.length > 0) {
+      await projectStore.put({ ...target, lastSnagNumber, updatedAt: now });
+    }
+  };
+
+  return { snags, place, finish };
 }
 
-export async function createBackup(): Promise<BackupData> {
-  console.log('📦 Creating database backup...');
+// Keeps an entry's timeline with it when it changes project
+async function moveSnagHistory<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  historyStore: IDBPObjectStore<SnagListDB, TxStores, 'snagHistory', 'readwrite'>,
+  snagId: string,
+  projectName: string
+): Promise<void> {
+  let cursor = await historyStore.index('by-snag').openCursor(snagId);
+  while (cursor) {
+    if (cursor.value.projectName !== projectName) {
+      await cursor.update({ ...cursor.value, projectName });
+    }
+    cursor = await cursor.continue();
+  }
+}
+
+// ...and the voice recordings made for it
+async function moveSnagRecordings<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  recordingStore: IDBPObjectStore<SnagListDB, TxStores, 'voiceRecordings', 'readwrite'>,
+  searchStore: IDBPObjectStore<SnagListDB, TxStores, 'searchIndex', 'readwrite'>,
+  snagId: string,
+  projectName: string
+): Promise<void> {
+  let cursor = await recordingStore.index('by-snag').openCursor(snagId);
+  while (cursor) {
+    const recording = { ...cursor.value, projectName };
+    await cursor.update(recording);
+    await searchStore.put(buildRecordingSearchDoc(recording));
+    cursor = await cursor.continue();
+  }
+}
+
+// Undoes a bulk operation by putting back the entries it returned. Their
+// photos are kept as they are now. Numbers given out in a target project
+// stay used there.
+export async function restoreSnagRecords(records: SnagRecord[]): Promise<void> {
   const db = await getDB();
-  
-  try {
-    // Fetch all data from stores
-    const snags = await db.getAll('snags');
-    const projects = await db.getAll('projects');
-    const voiceRecordings = await db.getAll('voiceRecordings');
-    
-    // Create backup object
-    const backup: BackupData = {
-      version: db.version,
-      timestamp: new Date().toISOString(),
-      data: {
-        snags,
-        projects,
-        // Exclude large binary data from backup
-        voiceRecordings: voiceRecordings.map(({ audioBlob, ...rest }) => rest)
-      }
+  const tx = db.transaction(['snags', 'voiceRecordings', 'snagHistory', 'searchIndex'], 'readwrite');
+  const snagStore = tx.objectStore('snags');
+  const now = new Date();
+
+  for (const record of records) {
+    const current = await snagStore.get(record.id);
+    if (!current) continue;
+
+    const photos = getSnagPhotos(current);
+    const restoredSnag: SnagRecord = {
+      ...record,
+      ...(photos.length > 0 ? withPhotos(photos) : {}),
+      updatedAt: now
     };
-    
-    console.log('✅ Backup created successfully', {
-      snags: backup.data.snags.length,
-      projects: backup.data.projects.length,
-      recordings: backup.data.voiceRecordings.length
-    });
-    
-    return backup;
-  } catch (error) {
-    console.error('❌ Error creating backup:', error);
-    throw error;
+    if (current.projectName !== record.projectName) {
+      await moveSnagHistory(tx.objectStore('snagHistory'), record.id, record.projectName);
+      await moveSnagRecordings(tx.objectStore('voiceRecordings'), tx.objectStore('searchIndex'), record.id, record.projectName);
+    }
+    await snagStore.put(restoredSnag);
+    await recordHistory(
+      tx.objectStore('snagHistory'),
+      current.deletedAt && !restoredSnag.deletedAt ? 'restore' : 'revert',
+      current,
+      restoredSnag
+    );
+    await syncSnagSearchDoc(tx.objectStore('searchIndex'), restoredSnag);
   }
+  await tx.done;
 }
 
-export async function restoreFromBackup(backup: BackupData): Promise<void> {
-  console.log('📥 Starting database restore...');
+// Merging projects
+
+async function getMergeProjects<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  projectStore: IDBPObjectStore<SnagListDB, TxStores, 'projects', Mode>,
+  sourceId: string,
+  targetId: string
+): Promise<[ProjectRecord, ProjectRecord]> {
+  if (sourceId === targetId) {
+    throw new Error('Choose a different project to merge into');
+  }
+  const source = await projectStore.get(sourceId);
+  const target = await projectStore.get(targetId);
+  if (!source || source.deletedAt || !target || target.deletedAt) {
+    throw new Error('Project not found');
+  }
+  assertProjectWritable(source);
+  assertProjectWritable(target);
+  return [source, target];
+}
+
+// What merging would do, without changing anything
+export async function previewProjectMerge(sourceId: string, targetId: string): Promise<MergePreview> {
   const db = await getDB();
-  
-  if (backup.version !== db.version) {
-    console.warn('⚠️ Backup version mismatch:', {
-      backup: backup.version,
-      current: db.version
+  const tx = db.transaction(['projects', 'snags', 'voiceRecordings']);
+  const [source, target] = await getMergeProjects(tx.objectStore('projects'), sourceId, targetId);
+  const snagIndex = tx.objectStore('snags').index('by-project');
+  const incoming = (await snagIndex.getAll(source.name)).sort((a, b) => a.snagNumber - b.snagNumber);
+  const existing = await snagIndex.getAll(target.name);
+  const firstNumber = await nextSnagNumber(tx.objectStore('snags'), target);
+  const recordingCount = await tx.objectStore('voiceRecordings').index('by-project').count(source.name);
+
+  return {
+    sourceName: source.name,
+    targetName: target.name,
+    mapping: incoming.map((snag, index) => ({
+      snagId: snag.id,
+      name: snag.name,
+      fromNumber: snag.snagNumber,
+      toNumber: firstNumber + index
+    })),
+    recordingCount,
+    duplicates: findLikelyDuplicates(incoming, existing)
+  };
+}
+
+// Moves every entry, recording, checklist and saved view of the source into
+// the target and removes the source. Entries are renumbered after the
+// target's highest number and keep their old number as a reference; the
+// source's trades and tags are added to the target's.
+export async function mergeProjects(sourceId: string, targetId: string): Promise<MergeResult> {
+  const db = await getDB();
+  const tx = db.transaction(
+    ['projects', 'snags', 'media', 'voiceRecordings', 'snagHistory', 'searchIndex', 'savedViews', 'checklists'],
+    'readwrite'
+  );
+  const projectStore = tx.objectStore('projects');
+  const [source, target] = await getMergeProjects(projectStore, sourceId, targetId);
+
+  if (source.categories || target.categories) {
+    await projectStore.put({
+      ...target,
+      categories: mergeCategories(target.categories ?? DEFAULT_CATEGORIES, source.categories ?? DEFAULT_CATEGORIES)
     });
   }
-  
-  const tx = db.transaction(['snags', 'projects'], 'readwrite');
-  
-  try {
-    // Clear existing data
-    await Promise.all([
-      tx.objectStore('snags').clear(),
-      tx.objectStore('projects').clear()
-    ]);
-    
-    // Restore projects first
-    for (const project of backup.data.projects) {
-      await tx.objectStore('projects').add(project);
+
+  const snagIds = await tx.objectStore('snags').index('by-project').getAllKeys(source.name);
+  const placement = await startTransfer(projectStore, tx.objectStore('snags'), snagIds, target.name, { includeTrashed: true });
+  const mapping: SnagNumberMapping[] = [];
+
+  for (const snag of placement.snags) {
+    const mergedSnag: SnagRecord = { ...snag, ...await placement.place(snag, 'move') };
+
+    await moveSnagHistory(tx.objectStore('snagHistory'), snag.id, target.name);
+    await tx.objectStore('snags').put(mergedSnag);
+    await recordHistory(tx.objectStore('snagHistory'), 'update', snag, mergedSnag);
+    await syncSnagSearchDoc(tx.objectStore('searchIndex'), mergedSnag);
+    mapping.push({ snagId: snag.id, name: snag.name, fromNumber: snag.snagNumber, toNumber: mergedSnag.snagNumber });
+  }
+  await placement.finish();
+
+  let recordingCount = 0;
+  let recordingCursor = await tx.objectStore('voiceRecordings').index('by-project').openCursor(source.name);
+  while (recordingCursor) {
+    const recording = { ...recordingCursor.value, projectName: target.name };
+    await recordingCursor.update(recording);
+    await tx.objectStore('searchIndex').put(buildRecordingSearchDoc(recording));
+    recordingCount++;
+    recordingCursor = await recordingCursor.continue();
+  }
+
+  let checklistCursor = await tx.objectStore('checklists').index('by-project').openCursor(source.name);
+  while (checklistCursor) {
+    await checklistCursor.update({ ...checklistCursor.value, projectName: target.name });
+    checklistCursor = await checklistCursor.continue();
+  }
+
+  let viewCursor = await tx.objectStore('savedViews').index('by-project').openCursor(source.name);
+  while (viewCursor) {
+    await viewCursor.update({ ...viewCursor.value, projectName: target.name });
+    viewCursor = await viewCursor.continue();
+  }
+
+  // The target keeps its own report details, so the source's logo goes
+  if (source.details?.logoId) {
+    await tx.objectStore('media').delete(source.details.logoId);
+  }
+  await projectStore.delete(source.id);
+  await tx.done;
+  return { targetName: target.name, mapping, recordingCount };
+}
+
+// Project lifecycle
+
+export async function getProjectStatus(projectName: string): Promise<ProjectStatus> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  return project?.status ?? 'active';
+}
+
+// Live entries that keep the project from closing
+export async function getProjectClosureBlockers(projectName: string): Promise<SnagRecord[]> {
+  const db = await getDB();
+  const project = await db.getFromIndex('projects', 'by-name', projectName);
+  const snags = (await db.getAllFromIndex('snags', 'by-project', projectName)).filter(snag => !snag.deletedAt);
+  return getClosureBlockers(snags, project?.workflow ?? DEFAULT_WORKFLOW).sort((a, b) => a.snagNumber - b.snagNumber);
+}
+
+// Moves a project to another status. Closing needs every live entry done or
+// waived; archiving and unarchiving go through closed.
+export async function setProjectStatus(id: string, status: ProjectStatus): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags'], 'readwrite');
+  const project = await tx.objectStore('projects').get(id);
+
+  if (!project || project.deletedAt) {
+    throw new Error('Project not found');
+  }
+
+  const current = project.status ?? 'active';
+  if (current === status) return;
+  if (!getNextProjectStatuses(current).includes(status)) {
+    throw new Error(`A project can't go from ${getProjectStatusLabel(current)} to ${getProjectStatusLabel(status)}`);
+  }
+
+  if (status === 'closed' && current !== 'archived') {
+    const snags = (await tx.objectStore('snags').index('by-project').getAll(project.name)).filter(snag => !snag.deletedAt);
+    const blockers = getClosureBlockers(snags, project.workflow ?? DEFAULT_WORKFLOW);
+    if (blockers.length > 0) {
+      const count = blockers.length;
+      throw new Error(`${count} ${count === 1 ? 'entry is' : 'entries are'} still open. Complete or waive ${count === 1 ? 'it' : 'them'} first.`);
     }
-    
-    // Restore snags
-    for (const snag of backup.data.snags) {
-      await tx.objectStore('snags').add(snag);
+  }
+
+  await tx.objectStore('projects').put({ ...project, status, updatedAt: new Date() });
+  await tx.done;
+}
+
+// Accepts open entries as they are, with the reason recorded on each; a null
+// reason lifts their waivers. Returns the entries as they were, for undo.
+export async function waiveSnags(ids: string[], reason: string | null): Promise<SnagRecord[]> {
+  const trimmedReason = reason?.trim() ?? null;
+  if (trimmedReason !== null && !trimmedReason) {
+    throw new Error('Give a reason for the waiver');
+  }
+  if (trimmedReason && trimmedReason.length > 500) {
+    throw new Error('The reason is too long');
+  }
+
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'snagHistory'], 'readwrite');
+  const snagStore = tx.objectStore('snags');
+  const now = new Date();
+  const waiver: SnagWaiver | null = trimmedReason ? { reason: trimmedReason, waivedBy: getEditorName(), waivedAt: now } : null;
+  const before: SnagRecord[] = [];
+
+  for (const id of ids) {
+    const snag = await snagStore.get(id);
+    if (snag && !snag.deletedAt && (snag.waiver ?? null) !== waiver) {
+      before.push(snag);
     }
-    
-    await tx.done;
-    console.log('✅ Backup restored successfully');
-  } catch (error) {
-    console.error('❌ Error restoring backup:', error);
-    throw error;
   }
+  for (const projectName of new Set(before.map(snag => snag.projectName))) {
+    await assertProjectNameWritable(tx.objectStore('projects'), projectName);
+  }
+
+  for (const snag of before) {
+    const updatedSnag = { ...snag, waiver, updatedAt: now };
+    await snagStore.put(updatedSnag);
+    await recordHistory(tx.objectStore('snagHistory'), 'update', snag, updatedSnag);
+  }
+  await tx.done;
+  return before;
 }
 
-export function downloadBackupFile(backup: BackupData): void {
-  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `snaglist-backup-${backup.timestamp}.json`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-} 
\ No newline at end of file
+export interface PhotoBundle {
+  blob: Blob;
+  fileName: string;
+  // The original media the bundle holds, to remove on compaction
+  mediaIds: string[];
+  byteCount: number;
+}
+
+// Packs a project's full-size photos into a ZIP with a manifest naming the
+// entry and photo each file belongs to
+export async function exportProjectPhotoBundle(projectId: string): Promise<PhotoBundle> {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags', 'media']);
+  const project = await tx.objectStore('projects').get(projectId);
+
+  if (!project || project.deletedAt) {
+    throw new Error('Project not found');
+  }
+
+  // Blobs read from IndexedDB are backed by disk, so holding them is cheap
+  const photos: { snag: SnagRecord; photo: SnagPhoto; media: MediaRecord; index: number }[] = [];
+  const snags = (await tx.objectStore('snags').index('by-project').getAll(project.name)).sort((a, b) => a.snagNumber - b.snagNumber);
+  for (const snag of snags) {
+    const snagPhotos = getSnagPhotos(snag);
+    for (const [index, photo] of snagPhotos.entries()) {
+      const media = photo.originalId ? await tx.objectStore('media').get(photo.originalId) : undefined;
+      if (media) {
+        photos.push({ snag, photo, media, index });
+      }
+    }
+  }
+  await tx.done;
+
+  if (photos.length === 0) {
+    throw new Error('This project has no full-size photos left to export');
+  }
+
+  const sink = createBlobSink();
+  const zip = createZipWriter(sink);
+  const manifest = [];
+  let byteCount = 0;
+  for (const { snag, photo, media, index } of photos) {
+    const file = `photos/${String(snag.snagNumber).padStart(4, '0')}-${index + 1}.${getFileExtension(media.blob.type)}`;
+    await zip.addFile(file, media.blob);
+    manifest.push({ file, snagNumber: snag.snagNumber, snagName: snag.name, photoId: photo.id, role: photo.role, mediaId: media.id, size: media.blob.size });
+    byteCount += media.blob.size;
+  }
+  await zip.addFile('manifest.json', JSON.stringify({ project: project.name, exportedAt: new Date().toISOString(), photos: manifest }, null, 2));
+  await zip.finish();
+
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    blob: sink.toBlob(),
+    fileName: `${project.name.replace(/[^a-zA-Z0-9]+/g, '-')}-full-size-photos-${date}.zip`,
+    mediaIds: photos.map(({ media }) => media.id),
+    byteCount
+  };
+}
+
+// Frees browser storage on an archived project by deleting the full-size
+// photos in a downloaded bundle. The compressed copies and thumbnails stay,
+// so entries and reports look the same.
+export async function compactProject(projectId: string, bundle: Pick<PhotoBundle, 'fileName' | 'mediaIds'>): Promise<ProjectCompaction> {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags', 'media'], 'readwrite');
+  const project = await tx.objectStore('projects').get(projectId);
+
+  if (!project || project.deletedAt) {
+    throw new Error('Project not found');
+  }
+  if (project.status !== 'archived') {
+    throw new Error('Only archived projects can be compacted');
+  }
+
+  const bundled = new Set(bundle.mediaIds);
+  let photoCount = 0;
+  let byteCount = 0;
+  let snagCursor = await tx.objectStore('snags').index('by-project').openCursor(project.name);
+  while (snagCursor) {
+    const photos = getSnagPhotos(snagCursor.value);
+    if (photos.some(photo => photo.originalId && bundled.has(photo.originalId))) {
+      for (const photo of photos) {
+        const media = photo.originalId && bundled.has(photo.originalId) ? await tx.objectStore('media').get(photo.originalId) : undefined;
+        if (media) {
+          await tx.objectStore('media').delete(media.id);
+          photoCount++;
+          byteCount += media.blob.size;
+        }
+      }
+      await snagCursor.update({
+        ...snagCursor.value,
+        ...withPhotos(photos.map(photo => photo.originalId && bundled.has(photo.originalId) ? { ...photo, originalId: null } : photo))
+      });
+    }
+    snagCursor = await snagCursor.continue();
+  }
+
+  const compaction: ProjectCompaction = {
+    compactedAt: new Date(),
+    photoCount: (project.compaction?.photoCount ?? 0) + photoCount,
+    byteCount: (project.compaction?.byteCount ?? 0) + byteCount,
+    fileName: bundle.fileName
+  };
+  await tx.objectStore('projects').put({ ...project, compaction });
+  await tx.done;
+  return compaction;
+}
+
+// Trash operations
+const TRASH_RETENTION_KEY = 'snaglist-trash-retention-days';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Days before trashed items are purged automatically; 0 keeps them forever
+export function getTrashRetentionDays(): number {
+  if (typeof window === 'undefined') return DEFAULT_TRASH_RETENTION_DAYS;
+  const stored = localStorage.getItem(TRASH_RETENTION_KEY);
+  const days = stored === null ? DEFAULT_TRASH_RETENTION_DAYS : Number(stored);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number): void {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(Math.max(0, Math.floor(days))));
+}
+
+export async function getTrash(): Promise<{
+  projects: (ProjectRecord & { snagCount: number })[];
+  snags: SnagRecord[];
+}> {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags']);
+  const projects = await tx.objectStore('projects').index('by-deletedAt').getAll();
+  const snags = await tx.objectStore('snags').index('by-deletedAt').getAll();
+
+  const projectsWithCounts = [];
+  for (const project of projects) {
+    const projectSnags = await tx.objectStore('snags').index('by-project').getAll(project.name);
+    projectsWithCounts.push({
+      ...project,
+      snagCount: projectSnags.filter(snag => !snag.deletedAt).length
+    });
+  }
+
+  const byNewest = (a: { deletedAt: Date | null }, b: { deletedAt: Date | null }) =>
+    new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime();
+
+  return {
+    projects: projectsWithCounts.sort(byNewest),
+    snags: snags.sort(byNewest)
+  };
+}
+
+export async function restoreSnag(id: string): Promise<SnagRecord> {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags', 'snagHistory', 'searchIndex'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(id);
+
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+
+  const project = await tx.objectStore('projects').index('by-name').get(snag.projectName);
+  if (!project) {
+    throw new Error(`Project "${snag.projectName}" no longer exists`);
+  }
+  if (project.deletedAt) {
+    throw new Error(`Restore project "${snag.projectName}" first`);
+  }
+  assertProjectWritable(project);
+
+  // The number was never reissued, so the entry goes back exactly where it was
+  const restoredSnag = { ...snag, deletedAt: null };
+  await tx.objectStore('snags').put(restoredSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'restore', snag, restoredSnag);
+  await syncSnagSearchDoc(tx.objectStore('searchIndex'), restoredSnag);
+  await tx.done;
+
+  console.log('♻️ Restored snag from trash:', { id, snagNumber: snag.snagNumber });
+  return restoredSnag;
+}
+
+export async function restoreProject(id: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('projects', 'readwrite');
+  const project = await tx.store.get(id);
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  await tx.store.put({ ...project, deletedAt: null });
+  await tx.done;
+  console.log('♻️ Restored project from trash:', project.name);
+}
+
+export async function purgeSnag(id: string): Promise<void> {
+  console.log('🗑️ Permanently deleting snag:', id);
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'media', 'voiceRecordings', 'snagHistory', 'searchIndex'], 'readwrite');
+
+  await deleteMediaForSnag(tx.objectStore('media'), id);
+  await tx.objectStore('searchIndex').delete(`snag:${id}`);
+  // Recordings dictated for the entry go with it
+  const recordingKeys = await tx.objectStore('voiceRecordings').index('by-snag').getAllKeys(id);
+  for (const recordingId of recordingKeys) {
+    await tx.objectStore('voiceRecordings').delete(recordingId);
+    await tx.objectStore('searchIndex').delete(`recording:${recordingId}`);
+  }
+  const historyKeys = await tx.objectStore('snagHistory').index('by-snag').getAllKeys(id);
+  for (const historyId of historyKeys) {
+    await tx.objectStore('snagHistory').delete(historyId);
+  }
+  await tx.objectStore('snags').delete(id);
+  await tx.done;
+}
+
+export async function emptyTrash(): Promise<void> {
+  const { projects, snags } = await getTrash();
+  const purgedProjects = new Set(projects.map(project => project.name));
+
+  for (const project of projects) {
+    await purgeProject(project.id);
+  }
+  for (const snag of snags) {
+    // Already gone with its project
+    if (!purgedProjects.has(snag.projectName)) {
+      await purgeSnag(snag.id);
+    }
+  }
+  console.log('✅ Trash emptied');
+}
+
+// Purges everything that has been in the Trash longer than the retention
+// period. Returns the number of projects and entries removed.
+export async function purgeExpiredTrash(retentionDays = getTrashRetentionDays()): Promise<number> {
+  if (retentionDays <= 0) return 0;
+
+  const db = await getDB();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const range = IDBKeyRange.upperBound(cutoff);
+  const tx = db.transaction(['projects', 'snags']);
+  const expiredProjects = await tx.objectStore('projects').index('by-deletedAt').getAll(range);
+  const expiredSnags = await tx.objectStore('snags').index('by-deletedAt').getAll(range);
+  await tx.done;
+
+  const purgedProjects = new Set(expiredProjects.map(project => project.name));
+  for (const project of expiredProjects) {
+    await purgeProject(project.id);
+  }
+  let purgedSnags = 0;
+  for (const snag of expiredSnags) {
+    if (!purgedProjects.has(snag.projectName)) {
+      await purgeSnag(snag.id);
+      purgedSnags++;
+    }
+  }
+
+  const total = expiredProjects.length + purgedSnags;
+  if (total > 0) {
+    console.log(`🧹 Auto-purged ${total} item(s) older than ${retentionDays} days from trash`);
+  }
+  return total;
+}
+
+// Revision history
+const EDITOR_NAME_KEY = 'snaglist-editor-name';
+
+// Name recorded against every change made from this browser
+export function getEditorName(): string {
+  if (typeof window === 'undefined') return 'Unknown';
+  return localStorage.getItem(EDITOR_NAME_KEY) || 'Unknown';
+}
+
+export function setEditorName(name: string): void {
+  localStorage.setItem(EDITOR_NAME_KEY, name.trim());
+}
+
+// updatedAt changes on every write, so it would show up in every diff
+// Link ids change together with the name or path shown next to them
+const UNTRACKED_FIELDS = new Set(['id', 'updatedAt', 'assigneeId', 'locationId']);
+
+function diffSnag(before: SnagRecord | null, after: SnagRecord | null): SnagFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})] as (keyof SnagRecord)[]);
+  const changes: SnagFieldChange[] = [];
+
+  fields.forEach(field => {
+    if (UNTRACKED_FIELDS.has(field)) return;
+    const from = before?.[field];
+    const to = after?.[field];
+    // JSON comparison handles Dates and annotation arrays alike
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from: from ?? null, to: to ?? null });
+    }
+  });
+
+  return changes;
+}
+
+function createHistoryEntry(
+  action: SnagHistoryAction,
+  before: SnagRecord | null,
+  after: SnagRecord | null,
+  revertedTo?: string
+): SnagHistoryEntry {
+  const snag = (after ?? before)!;
+  return {
+    id: crypto.randomUUID(),
+    snagId: snag.id,
+    projectName: snag.projectName,
+    snagNumber: snag.snagNumber,
+    action,
+    changes: diffSnag(before, after),
+    changedBy: getEditorName(),
+    createdAt: new Date(),
+    snapshot: after,
+    ...(revertedTo ? { revertedTo } : {})
+  };
+}
+
+// Skips writes that didn't change anything, e.g. saving an unchanged form
+async function recordHistory<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  historyStore: IDBPObjectStore<SnagListDB, TxStores, 'snagHistory', 'readwrite'>,
+  action: SnagHistoryAction,
+  before: SnagRecord,
+  after: SnagRecord,
+  revertedTo?: string
+): Promise<void> {
+  const entry = createHistoryEntry(action, before, after, revertedTo);
+  if (entry.changes.length > 0) {
+    await historyStore.add(entry);
+  }
+}
+
+export async function getSnagHistory(snagId: string): Promise<SnagHistoryEntry[]> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('snagHistory', 'by-snag', snagId);
+  return entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+// Restores the field values an entry had after the given revision. Photos are
+// left alone since earlier media may no longer exist; only their annotations
+// are reverted.
+export async function revertSnagToRevision(historyId: string): Promise<SnagRecord> {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex', 'contacts'], 'readwrite');
+  const revision = await tx.objectStore('snagHistory').get(historyId);
+
+  if (!revision?.snapshot) {
+    throw new Error('Revision not found');
+  }
+
+  const snag = await tx.objectStore('snags').get(revision.snagId);
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+  assertSnagWritable(snag);
+
+  const project = await tx.objectStore('projects').index('by-name').get(snag.projectName);
+  assertProjectWritable(project);
+  // Photos stay as they are, but get back the annotations they had then
+  const snapshotPhotos = getSnagPhotos(revision.snapshot);
+  const photos = getSnagPhotos(snag).map(photo => ({
+    ...photo,
+    annotations: snapshotPhotos.find(candidate => candidate.id === photo.id)?.annotations ?? photo.annotations
+  }));
+  const revertedSnag: SnagRecord = {
+    ...revision.snapshot,
+    id: snag.id,
+    projectName: snag.projectName,
+    snagNumber: snag.snagNumber,
+    origin: snag.origin ?? null,
+    ...withPhotos(photos),
+    createdAt: snag.createdAt,
+    deletedAt: snag.deletedAt,
+    updatedAt: new Date(),
+    // The contact may have been merged or deleted since
+    ...await linkAssignee(tx.objectStore('contacts'), revision.snapshot.assignedTo),
+    // ...and the location moved or removed
+    ...linkLocation(project?.locations ?? [], revision.snapshot.location)
+  };
+
+  await tx.objectStore('snags').put(revertedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'revert', snag, revertedSnag, historyId);
+  await syncSnagSearchDoc(tx.objectStore('searchIndex'), revertedSnag);
+  await tx.done;
+  return revertedSnag;
+}
+
+// Voice recording operations
+export async function saveVoiceRecording(
+  projectName: string,
+  fileName: string,
+  audioBlob: Blob,
+  // The entry it was dictated for; it then moves and copies with the entry
+  snagId: string | null = null
+): Promise<string> {
+  const db = await getDB();
+  const id = crypto.randomUUID();
+  const now = new Date();
+
+  const recording = {
+    id,
+    projectName,
+    fileName,
+    audioBlob,
+    processed: false,
+    snagId,
+    createdAt: now,
+  };
+
+  const tx = db.transaction(['voiceRecordings', 'projects', 'searchIndex'], 'readwrite');
+  await assertProjectNameWritable(tx.objectStore('projects'), projectName);
+  await tx.objectStore('voiceRecordings').add(recording);
+  await tx.objectStore('searchIndex').put(buildRecordingSearchDoc(recording));
+  await tx.done;
+  return id;
+}
+
+export async function updateVoiceRecordingTranscription(id: string, transcription: string) {
+  const db = await getDB();
+  const tx = db.transaction(['voiceRecordings', 'searchIndex'], 'readwrite');
+  const recording = await tx.objectStore('voiceRecordings').get(id);
+  
+  if (!recording) {
+    throw new Error('Voice recording not found');
+  }
+  
+  const updatedRecording = { ...recording, transcription };
+  await tx.objectStore('voiceRecordings').put(updatedRecording);
+  await tx.objectStore('searchIndex').put(buildRecordingSearchDoc(updatedRecording));
+  await tx.done;
+  return updatedRecording;
+}
+
+export async function deleteVoiceRecording(id: string) {
+  const db = await getDB();
+  const tx = db.transaction(['voiceRecordings', 'searchIndex'], 'readwrite');
+  await tx.objectStore('voiceRecordings').delete(id);
+  await tx.objectStore('searchIndex').delete(`recording:${id}`);
+  await tx.done;
+}
+
+export async function getVoiceRecording(id: string) {
+  const db = await getDB();
+  return await db.get('voiceRecordings', id);
+}
+
+export async function getVoiceRecordingsByProject(projectName: string) {
+  const db = await getDB();
+  const index = db.transaction('voiceRecordings').store.index('by-project');
+  return await index.getAll(projectName);
+}
+
+// Snag annotation operations
+
+// Replaces the annotations on one of an entry's photos (the first by default)
+export async function updateSnagAnnotations(snagId: string, annotations: any[], photoEntryId?: string) {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(snagId);
+  
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+  assertSnagWritable(snag);
+  await assertProjectNameWritable(tx.objectStore('projects'), snag.projectName);
+  
+  const photos = getSnagPhotos(snag);
+  const targetId = photoEntryId ?? photos[0]?.id;
+  if (!photos.some(photo => photo.id === targetId)) {
+    throw new Error('Photo not found');
+  }
+  
+  const updatedSnag = {
+    ...snag,
+    ...withPhotos(photos.map(photo => photo.id === targetId ? { ...photo, annotations } : photo)),
+    updatedAt: new Date()
+  };
+  
+  await tx.objectStore('snags').put(updatedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'annotations', snag, updatedSnag);
+  await syncSnagSearchDoc(tx.objectStore('searchIndex'), updatedSnag);
+  await tx.done;
+  return updatedSnag;
+}
+
+// Photo gallery operations
+
+export async function addSnagPhoto(snagId: string, photo: SnagPhotoInput, role: PhotoRole): Promise<SnagRecord> {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'media', 'snagHistory'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(snagId);
+
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+  assertSnagWritable(snag);
+  await assertProjectNameWritable(tx.objectStore('projects'), snag.projectName);
+
+  const now = new Date();
+  const added = await addPhotoMedia(tx.objectStore('media'), snagId, photo, role, now);
+  const updatedSnag = { ...snag, ...withPhotos([...getSnagPhotos(snag), added]), updatedAt: now };
+
+  await tx.objectStore('snags').put(updatedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'photos', snag, updatedSnag);
+  await tx.done;
+  return updatedSnag;
+}
+
+// Deletes a photo and its media. The last photo can't be removed.
+export async function removeSnagPhoto(snagId: string, photoEntryId: string): Promise<SnagRecord> {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'media', 'snagHistory', 'searchIndex'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(snagId);
+
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+  assertSnagWritable(snag);
+  await assertProjectNameWritable(tx.objectStore('projects'), snag.projectName);
+
+  const photos = getSnagPhotos(snag);
+  const removed = photos.find(photo => photo.id === photoEntryId);
+  if (!removed) {
+    throw new Error('Photo not found');
+  }
+  if (photos.length === 1) {
+    throw new Error('An entry needs at least one photo');
+  }
+
+  const updatedSnag = {
+    ...snag,
+    ...withPhotos(photos.filter(photo => photo.id !== photoEntryId)),
+    updatedAt: new Date()
+  };
+
+  for (const mediaId of [removed.photoId, removed.thumbnailId, removed.originalId]) {
+    if (mediaId) await tx.objectStore('media').delete(mediaId);
+  }
+  await tx.objectStore('snags').put(updatedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'photos', snag, updatedSnag);
+  await syncSnagSearchDoc(tx.objectStore('searchIndex'), updatedSnag);
+  await tx.done;
+  return updatedSnag;
+}
+
+// Reorders an entry's photos and sets their roles. `order` must list every
+// photo exactly once; the first becomes the entry's cover photo.
+export async function arrangeSnagPhotos(snagId: string, order: { id: string; role: PhotoRole }[]): Promise<SnagRecord> {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'snagHistory', 'searchIndex'], 'readwrite');
+  const snag = await tx.objectStore('snags').get(snagId);
+
+  if (!snag) {
+    throw new Error('Snag not found');
+  }
+  assertSnagWritable(snag);
+  await assertProjectNameWritable(tx.objectStore('projects'), snag.projectName);
+
+  const photos = getSnagPhotos(snag);
+  const byId = new Map(photos.map(photo => [photo.id, photo]));
+  if (order.length !== photos.length || new Set(order.map(photo => photo.id)).size !== order.length || order.some(photo => !byId.has(photo.id))) {
+    throw new Error('The photo order must list each of the entry\'s photos once');
+  }
+
+  const updatedSnag = {
+    ...snag,
+    ...withPhotos(order.map(({ id, role }) => ({ ...byId.get(id)!, role }))),
+    updatedAt: new Date()
+  };
+
+  await tx.objectStore('snags').put(updatedSnag);
+  await recordHistory(tx.objectStore('snagHistory'), 'photos', snag, updatedSnag);
+  await syncSnagSearchDoc(tx.objectStore('searchIndex'), updatedSnag);
+  await tx.done;
+  return updatedSnag;
+}
+
+// Search operations
+
+// Keeps a snag's search document in step with the record. Trashed entries are
+// dropped from the index and added back on restore.
+async function syncSnagSearchDoc<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  searchStore: IDBPObjectStore<SnagListDB, TxStores, 'searchIndex', 'readwrite'>,
+  snag: SnagRecord
+): Promise<void> {
+  if (snag.deletedAt) {
+    await searchStore.delete(`snag:${snag.id}`);
+  } else {
+    await searchStore.put(buildSnagSearchDoc(snag));
+  }
+}
+
+export async function searchIndex(
+  query: string,
+  options: { projectName?: string; kind?: SearchDocKind } = {}
+): Promise<SearchHit[]> {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const db = await getDB();
+  const tx = db.transaction('searchIndex', 'readonly');
+  const tokenIndex = tx.store.index('by-token');
+
+  // Only the index keys are read here. Prefixes sit in one key range per
+  // term, but a typo can land anywhere, so typo-tolerant terms walk every
+  // distinct token.
+  const vocabulary = new Set<string>();
+  const ranges = terms.some(term => maxTypos(term) > 0)
+    ? [undefined]
+    : terms.map(term => IDBKeyRange.bound(term, term + '\uffff'));
+  for (const range of ranges) {
+    let cursor = await tokenIndex.openKeyCursor(range, 'nextunique');
+    while (cursor) {
+      vocabulary.add(cursor.key);
+      cursor = await cursor.continue();
+    }
+  }
+  const expansions = expandSearchTerms(vocabulary, terms);
+
+  // Every term has to match, so the candidates are the documents each term
+  // reaches through the index
+  let candidates: string[] | null = null;
+  for (const matches of expansions) {
+    const reached = new Set<string>();
+    for (const token of Array.from(matches.keys())) {
+      (await tokenIndex.getAllKeys(token)).forEach(id => reached.add(id));
+    }
+    candidates = (candidates ?? Array.from(reached)).filter(id => reached.has(id));
+    if (candidates.length === 0) return [];
+  }
+
+  // Narrowed by id and project before any document is read
+  const kindPrefix = options.kind ? `${options.kind}:` : '';
+  const inProject = options.projectName
+    ? new Set(await tx.store.index('by-project').getAllKeys(options.projectName))
+    : null;
+  const docs = await Promise.all(
+    (candidates ?? [])
+      .filter(id => id.startsWith(kindPrefix) && (!inProject || inProject.has(id)))
+      .map(id => tx.store.get(id))
+  );
+  await tx.done;
+
+  const hits: SearchHit[] = [];
+  docs.forEach(doc => {
+    if (!doc) return;
+    const hit = rankDoc(doc, expansions);
+    if (hit) hits.push(hit);
+  });
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+// Entries matching the query, most relevant first
+export async function searchSnags(query: string, projectName?: string) {
+  const hits = await searchIndex(query, { projectName, kind: 'snag' });
+  const db = await getDB();
+  // Entries of a trashed project stay indexed so they come back with it
+  const trashedProjects = new Set(
+    (await db.getAllFromIndex('projects', 'by-deletedAt')).map(project => project.name)
+  );
+  const snags = await Promise.all(hits.map(hit => db.get('snags', hit.refId)));
+  return snags.filter((snag): snag is SnagRecord =>
+    !!snag && !snag.deletedAt && !trashedProjects.has(snag.projectName)
+  );
+}
+
+export async function rebuildSearchIndex(): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'voiceRecordings', 'searchIndex'], 'readwrite');
+  await tx.objectStore('searchIndex').clear();
+
+  for (const snag of await tx.objectStore('snags').getAll()) {
+    if (!snag.deletedAt) {
+      await tx.objectStore('searchIndex').put(buildSnagSearchDoc(snag));
+    }
+  }
+  for (const recording of await tx.objectStore('voiceRecordings').getAll()) {
+    await tx.objectStore('searchIndex').put(buildRecordingSearchDoc(recording));
+  }
+
+  await tx.done;
+}
+
+// Saved view operations
+
+export async function getSavedViews(projectName: string): Promise<SavedView[]> {
+  const db = await getDB();
+  const views = await db.getAllFromIndex('savedViews', 'by-project', projectName);
+  return views.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+async function assertViewNameAvailable<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  viewStore: IDBPObjectStore<SnagListDB, TxStores, 'savedViews', Mode>,
+  projectName: string,
+  name: string,
+  excludeId?: string
+): Promise<void> {
+  const normalized = name.toLowerCase();
+  const conflict = (await viewStore.index('by-project').getAll(projectName)).find(
+    view => view.id !== excludeId && view.name.trim().toLowerCase() === normalized
+  );
+
+  if (conflict) {
+    throw new Error(`A view named "${conflict.name}" already exists in this project`);
+  }
+}
+
+export async function addSavedView(
+  view: Omit<SavedView, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<SavedView> {
+  const db = await getDB();
+  const name = view.name.trim();
+
+  if (!name) {
+    throw new Error('View name is required');
+  }
+
+  const now = new Date();
+  const record: SavedView = {
+    ...view,
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const tx = db.transaction('savedViews', 'readwrite');
+  await assertViewNameAvailable(tx.store, view.projectName, name);
+  await tx.store.add(record);
+  await tx.done;
+  return record;
+}
+
+export async function updateSavedView(
+  id: string,
+  updates: Partial<Omit<SavedView, 'id' | 'projectName' | 'createdAt' | 'updatedAt'>>
+): Promise<SavedView> {
+  const db = await getDB();
+  const tx = db.transaction('savedViews', 'readwrite');
+  const view = await tx.store.get(id);
+
+  if (!view) {
+    throw new Error('Saved view not found');
+  }
+
+  const updated: SavedView = { ...view, ...updates, updatedAt: new Date() };
+  updated.name = updated.name.trim();
+  if (!updated.name) {
+    throw new Error('View name is required');
+  }
+  await assertViewNameAvailable(tx.store, view.projectName, updated.name, id);
+  await tx.store.put(updated);
+  await tx.done;
+
+  return updated;
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('savedViews', id);
+}
+
+// Contact operations
+
+export async function getContacts(): Promise<Contact[]> {
+  const db = await getDB();
+  const contacts = await db.getAll('contacts');
+  return contacts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Number of live entries assigned to each contact, by contact id
+export async function getContactEntryCounts(): Promise<Record<string, number>> {
+  const db = await getDB();
+  const counts: Record<string, number> = {};
+  for (const snag of await db.getAll('snags')) {
+    if (snag.assigneeId && !snag.deletedAt) {
+      counts[snag.assigneeId] = (counts[snag.assigneeId] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+async function assertContactNameAvailable<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  contactStore: IDBPObjectStore<SnagListDB, TxStores, 'contacts', Mode>,
+  name: string,
+  excludeId?: string
+): Promise<void> {
+  const conflict = findContactByName(
+    (await contactStore.getAll()).filter(contact => contact.id !== excludeId),
+    name
+  );
+
+  if (conflict) {
+    throw new Error(`A contact named "${conflict.name}" already exists`);
+  }
+}
+
+// Matches a typed assignee name to a contact, creating one for new names.
+// Returns the fields to store on the entry.
+async function linkAssignee<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  contactStore: IDBPObjectStore<SnagListDB, TxStores, 'contacts', 'readwrite'>,
+  name: string | null | undefined
+): Promise<{ assignedTo: string; assigneeId: string | null }> {
+  const trimmedName = (name ?? '').trim().replace(/\s+/g, ' ');
+  if (!trimmedName) {
+    return { assignedTo: '', assigneeId: null };
+  }
+
+  const existing = findContactByName(await contactStore.getAll(), trimmedName);
+  if (existing) {
+    return { assignedTo: existing.name, assigneeId: existing.id };
+  }
+
+  const now = new Date();
+  const contact: Contact = {
+    id: crypto.randomUUID(),
+    name: trimmedName,
+    company: '',
+    trade: '',
+    email: '',
+    phone: '',
+    createdAt: now,
+    updatedAt: now
+  };
+  await contactStore.add(contact);
+  return { assignedTo: contact.name, assigneeId: contact.id };
+}
+
+export async function addContact(details: ContactDetails): Promise<Contact> {
+  const db = await getDB();
+  const name = details.name.trim().replace(/\s+/g, ' ');
+
+  if (!name) {
+    throw new Error('Contact name is required');
+  }
+
+  const now = new Date();
+  const contact: Contact = {
+    ...details,
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const tx = db.transaction('contacts', 'readwrite');
+  await assertContactNameAvailable(tx.store, name);
+  await tx.store.add(contact);
+  await tx.done;
+  return contact;
+}
+
+// Updates a contact. A new name is written onto every entry assigned to it.
+export async function updateContact(id: string, updates: Partial<ContactDetails>): Promise<Contact> {
+  const db = await getDB();
+  const tx = db.transaction(['contacts', 'snags', 'searchIndex'], 'readwrite');
+  const contact = await tx.objectStore('contacts').get(id);
+
+  if (!contact) {
+    throw new Error('Contact not found');
+  }
+
+  const updated: Contact = { ...contact, ...updates, updatedAt: new Date() };
+  updated.name = updated.name.trim().replace(/\s+/g, ' ');
+  if (!updated.name) {
+    throw new Error('Contact name is required');
+  }
+  await assertContactNameAvailable(tx.objectStore('contacts'), updated.name, id);
+  await tx.objectStore('contacts').put(updated);
+
+  if (updated.name !== contact.name) {
+    let snagCursor = await tx.objectStore('snags').index('by-assignee').openCursor(id);
+    while (snagCursor) {
+      const snag = { ...snagCursor.value, assignedTo: updated.name };
+      await snagCursor.update(snag);
+      await syncSnagSearchDoc(tx.objectStore('searchIndex'), snag);
+      snagCursor = await snagCursor.continue();
+    }
+  }
+
+  await tx.done;
+  return updated;
+}
+
+// Removes a contact from the directory. Its entries keep the name as plain
+// text until they are next edited.
+export async function deleteContact(id: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['contacts', 'snags'], 'readwrite');
+
+  let snagCursor = await tx.objectStore('snags').index('by-assignee').openCursor(id);
+  while (snagCursor) {
+    await snagCursor.update({ ...snagCursor.value, assigneeId: null });
+    snagCursor = await snagCursor.continue();
+  }
+
+  await tx.objectStore('contacts').delete(id);
+  await tx.done;
+}
+
+// Folds duplicate contacts into one. Their entries are reassigned (and the
+// change recorded in each entry's history), and details the target lacks
+// are copied over from the duplicates.
+export async function mergeContacts(targetId: string, duplicateIds: string[]): Promise<Contact> {
+  const db = await getDB();
+  const tx = db.transaction(['contacts', 'snags', 'snagHistory', 'searchIndex'], 'readwrite');
+  const contactStore = tx.objectStore('contacts');
+  const target = await contactStore.get(targetId);
+
+  if (!target) {
+    throw new Error('Contact not found');
+  }
+
+  // Every duplicate is looked up before anything is written, so an unknown
+  // id leaves all the contacts as they were
+  const duplicates: Contact[] = [];
+  for (const duplicateId of Array.from(new Set(duplicateIds))) {
+    if (duplicateId === targetId) continue;
+    const duplicate = await contactStore.get(duplicateId);
+    if (!duplicate) {
+      throw new Error('Contact not found');
+    }
+    duplicates.push(duplicate);
+  }
+
+  const merged: Contact = { ...target, updatedAt: new Date() };
+
+  for (const duplicate of duplicates) {
+    merged.company = merged.company || duplicate.company;
+    merged.trade = merged.trade || duplicate.trade;
+    merged.email = merged.email || duplicate.email;
+    merged.phone = merged.phone || duplicate.phone;
+
+    let snagCursor = await tx.objectStore('snags').index('by-assignee').openCursor(duplicate.id);
+    while (snagCursor) {
+      const snag = snagCursor.value;
+      const reassigned = { ...snag, assignedTo: merged.name, assigneeId: merged.id, updatedAt: new Date() };
+      await snagCursor.update(reassigned);
+      await recordHistory(tx.objectStore('snagHistory'), 'update', snag, reassigned);
+      await syncSnagSearchDoc(tx.objectStore('searchIndex'), reassigned);
+      snagCursor = await snagCursor.continue();
+    }
+
+    await contactStore.delete(duplicate.id);
+  }
+
+  await contactStore.put(merged);
+  await tx.done;
+  return merged;
+}
+
+export async function getChecklistTemplates(): Promise<ChecklistTemplate[]> {
+  const db = await getDB();
+  const templates = await db.getAll('checklistTemplates');
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Adds a template, or replaces the one with the given id. Item ids are kept
+// when passed so checklists can still be traced back to them.
+export async function saveChecklistTemplate(draft: TemplateDraft, id?: string): Promise<ChecklistTemplate> {
+  const errors = validateTemplate(draft);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const db = await getDB();
+  const tx = db.transaction('checklistTemplates', 'readwrite');
+  const existing = id ? await tx.store.get(id) : undefined;
+  if (id && !existing) {
+    throw new Error('Template not found');
+  }
+
+  const now = new Date();
+  const template: ChecklistTemplate = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    items: draft.items.map(item => ({
+      id: item.id ?? crypto.randomUUID(),
+      title: item.title.trim(),
+      location: item.location.trim(),
+      priority: item.priority,
+      trade: item.trade,
+      description: item.description.trim()
+    })),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  await tx.store.put(template);
+  await tx.done;
+  return template;
+}
+
+export async function deleteChecklistTemplate(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('checklistTemplates', id);
+}
+
+// Adds templates read from an exported file. Names already in the library
+// get a number appended rather than replacing what's there.
+export async function importChecklistTemplates(drafts: TemplateDraft[]): Promise<ChecklistTemplate[]> {
+  for (const draft of drafts) {
+    const errors = validateTemplate(draft);
+    if (errors.length > 0) {
+      throw new Error(`${draft.name || 'Template'}: ${errors[0]}`);
+    }
+  }
+
+  const db = await getDB();
+  const tx = db.transaction('checklistTemplates', 'readwrite');
+  const names = new Set((await tx.store.getAll()).map(template => template.name.toLowerCase()));
+  const now = new Date();
+  const imported: ChecklistTemplate[] = [];
+
+  for (const draft of drafts) {
+    let name = draft.name.trim();
+    for (let copy = 2; names.has(name.toLowerCase()); copy++) {
+      name = `${draft.name.trim()} (${copy})`;
+    }
+    names.add(name.toLowerCase());
+
+    const template: ChecklistTemplate = {
+      id: crypto.randomUUID(),
+      name,
+      description: draft.description.trim(),
+      items: draft.items.map(({ title, location, priority, trade, description }) => ({
+        id: crypto.randomUUID(),
+        title,
+        location,
+        priority,
+        trade,
+        description
+      })),
+      createdAt: now,
+      updatedAt: now
+    };
+    await tx.store.add(template);
+    imported.push(template);
+  }
+
+  await tx.done;
+  return imported;
+}
+
+export async function getChecklists(projectName: string): Promise<Checklist[]> {
+  const db = await getDB();
+  const checklists = await db.getAllFromIndex('checklists', 'by-project', projectName);
+  return checklists.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+// Starts a checklist in a project from a template's items
+export async function applyChecklistTemplate(templateId: string, projectName: string, name?: string): Promise<Checklist> {
+  const db = await getDB();
+  const tx = db.transaction(['checklistTemplates', 'projects', 'checklists'], 'readwrite');
+  const template = await tx.objectStore('checklistTemplates').get(templateId);
+
+  if (!template) {
+    throw new Error('Template not found');
+  }
+  const project = await tx.objectStore('projects').index('by-name').get(projectName);
+  if (!project) {
+    throw new Error(`Project "${projectName}" not found`);
+  }
+  assertProjectWritable(project);
+
+  const now = new Date();
+  const checklist: Checklist = {
+    id: crypto.randomUUID(),
+    projectName,
+    templateId,
+    name: name?.trim() || template.name,
+    items: createChecklistItems(template),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await tx.objectStore('checklists').add(checklist);
+  await tx.done;
+  return checklist;
+}
+
+// Marks an item pass, N/A or back to pending. Failing goes through
+// failChecklistItem, since it needs a photo for the entry.
+export async function setChecklistItemResult(
+  checklistId: string,
+  itemId: string,
+  result: Exclude<ChecklistResult, 'fail'>
+): Promise<Checklist> {
+  const db = await getDB();
+  const tx = db.transaction(['checklists', 'projects'], 'readwrite');
+  const checklist = await tx.objectStore('checklists').get(checklistId);
+
+  if (!checklist) {
+    throw new Error('Checklist not found');
+  }
+  await assertProjectNameWritable(tx.objectStore('projects'), checklist.projectName);
+  const item = checklist.items.find(candidate => candidate.id === itemId);
+  if (!item) {
+    throw new Error('Checklist item not found');
+  }
+  if (item.snagId) {
+    throw new Error('This item already has an entry');
+  }
+
+  const now = new Date();
+  const updated = {
+    ...checklist,
+    items: checklist.items.map(candidate => candidate.id === itemId
+      ? { ...candidate, result, checkedAt: result === 'pending' ? null : now }
+      : candidate),
+    updatedAt: now
+  };
+  await tx.objectStore('checklists').put(updated);
+  await tx.done;
+  return updated;
+}
+
+// Fails an item, raising an entry from its title, location, priority,
+// trade and description with the given photo
+export async function failChecklistItem(checklistId: string, itemId: string, photo: SnagPhotoInput): Promise<Checklist> {
+  const db = await getDB();
+  // One transaction, so a second click finds the item already linked
+  const tx = db.transaction(['checklists', 'projects', 'snags', 'media', 'snagHistory', 'searchIndex', 'contacts'], 'readwrite');
+  const checklist = await tx.objectStore('checklists').get(checklistId);
+  const item = checklist?.items.find(candidate => candidate.id === itemId);
+
+  if (!checklist || !item) {
+    throw new Error('Checklist item not found');
+  }
+  if (item.snagId) {
+    throw new Error('This item already has an entry');
+  }
+
+  const snag = await insertSnag({
+    projects: tx.objectStore('projects'),
+    snags: tx.objectStore('snags'),
+    media: tx.objectStore('media'),
+    snagHistory: tx.objectStore('snagHistory'),
+    searchIndex: tx.objectStore('searchIndex'),
+    contacts: tx.objectStore('contacts')
+  }, {
+    projectName: checklist.projectName,
+    name: item.title,
+    description: item.description,
+    photo,
+    priority: item.priority,
+    assignedTo: '',
+    location: item.location,
+    trade: item.trade
+  });
+
+  const now = new Date();
+  const updated = {
+    ...checklist,
+    items: checklist.items.map(candidate => candidate.id === itemId
+      ? { ...candidate, result: 'fail' as const, snagId: snag.id, checkedAt: now }
+      : candidate),
+    updatedAt: now
+  };
+  await tx.objectStore('checklists').put(updated);
+  await tx.done;
+  return updated;
+}
+
+export async function deleteChecklist(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('checklists', id);
+}
+
+// Backups
+
+const BACKUP_MANIFEST = 'manifest.json';
+
+// Writes every store to a ZIP: manifest.json holds the records, and each
+// photo and recording follows as a file of its own. Blobs are read one at a
+// time, so memory use stays flat however large the database is.
+export async function writeBackupZip(sink: ZipSink): Promise<void> {
+  console.log('📦 Creating database backup...');
+  const db = await getDB();
+  const tx = db.transaction(['snags', 'projects', 'voiceRecordings', 'media', 'snagHistory', 'savedViews', 'contacts', 'checklistTemplates', 'checklists']);
+
+  const media: BackupMedia[] = [];
+  let mediaCursor = await tx.objectStore('media').openCursor();
+  while (mediaCursor) {
+    const { blob, ...rest } = mediaCursor.value;
+    media.push({ ...rest, file: `media/${rest.id}.${getFileExtension(blob.type)}`, mimeType: blob.type });
+    mediaCursor = await mediaCursor.continue();
+  }
+
+  const voiceRecordings: BackupRecording[] = [];
+  let recordingCursor = await tx.objectStore('voiceRecordings').openCursor();
+  while (recordingCursor) {
+    const { audioBlob, ...rest } = recordingCursor.value;
+    voiceRecordings.push({ ...rest, audioFile: `audio/${rest.id}.${getFileExtension(audioBlob.type)}`, audioType: audioBlob.type });
+    recordingCursor = await recordingCursor.continue();
+  }
+
+  const backup: BackupData = {
+    version: db.version,
+    timestamp: new Date().toISOString(),
+    data: {
+      snags: await tx.objectStore('snags').getAll(),
+      projects: await tx.objectStore('projects').getAll(),
+      voiceRecordings,
+      media,
+      snagHistory: await tx.objectStore('snagHistory').getAll(),
+      savedViews: await tx.objectStore('savedViews').getAll(),
+      contacts: await tx.objectStore('contacts').getAll(),
+      checklistTemplates: await tx.objectStore('checklistTemplates').getAll(),
+      checklists: await tx.objectStore('checklists').getAll()
+    }
+  };
+  await tx.done;
+
+  // The manifest goes first so a restore can check it before the files
+  const zip = createZipWriter(sink);
+  await zip.addFile(BACKUP_MANIFEST, JSON.stringify(backup));
+  for (const record of media) {
+    const blob = await getMediaBlob(record.id);
+    if (blob) await zip.addFile(record.file!, blob);
+  }
+  for (const recording of voiceRecordings) {
+    const stored = await db.get('voiceRecordings', recording.id);
+    if (stored) await zip.addFile(recording.audioFile!, stored.audioBlob);
+  }
+  await zip.finish();
+
+  console.log('✅ Backup created successfully', {
+    snags: backup.data.snags.length,
+    projects: backup.data.projects.length,
+    recordings: voiceRecordings.length,
+    media: media.length
+  });
+}
+
+// Saves a ZIP backup. Where the browser can ask for the file up front, the
+// backup is written straight to disk; otherwise it is built in memory and
+// downloaded. Returns false if the save prompt was dismissed.
+export async function downloadBackup(): Promise<boolean> {
+  const fileName = `snaglist-backup-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`;
+  const pickerWindow = window as Window & {
+    showSaveFilePicker?: (options: {
+      suggestedName: string;
+      types: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
+  };
+
+  if (!pickerWindow.showSaveFilePicker) {
+    const sink = createBlobSink();
+    await writeBackupZip(sink);
+    downloadBlob(sink.toBlob(), fileName);
+    return true;
+  }
+
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await pickerWindow.showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{ description: 'Snag list backup', accept: { 'application/zip': ['.zip'] } }]
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return false;
+    throw error;
+  }
+
+  const writable = await handle.createWritable();
+  try {
+    await writeBackupZip({ write: chunk => writable.write(chunk) });
+    await writable.close();
+  } catch (error) {
+    await writable.abort();
+    throw error;
+  }
+  return true;
+}
+
+// A backup read from disk. Of a ZIP backup only the manifest is read up
+// front; its photos and audio are written as the archive is read again.
+export interface BackupFile {
+  backup: BackupData;
+  archive: Blob | null;
+}
+
+// Reads a backup file: a ZIP, or JSON from before backups carried audio
+export async function readBackupFile(file: Blob): Promise<BackupFile> {
+  let backup = null as BackupData | null;
+  const isZip = await isZipFile(file);
+
+  if (isZip) {
+    await readZip(file, async (_path, data) => {
+      backup = JSON.parse(await data.text());
+      return false;
+    }, path => path === BACKUP_MANIFEST);
+  } else {
+    backup = JSON.parse(await file.text());
+  }
+
+  if (!backup?.data?.projects || !backup.data.snags) {
+    throw new Error('This file is not a snag list backup');
+  }
+  return { backup, archive: isZip ? file : null };
+}
+
+export async function restoreFromBackupFile(file: Blob): Promise<void> {
+  const { backup, archive } = await readBackupFile(file);
+  await restoreFromBackup(backup, archive);
+}
+
+// A backup's photo or logo: decoded already when the backup embeds it, or
+// a file of the ZIP still to be read
+interface BackupMediaItem {
+  record: Omit<MediaRecord, 'blob'>;
+  blob: Blob | null;
+  file: string | null;
+  type: string;
+}
+
+// Where a file of a ZIP backup is written once it's read
+type BackupFileTarget =
+  | { kind: 'media'; record: Omit<MediaRecord, 'blob'>; type: string }
+  | { kind: 'audio'; recordingId: string; type: string };
+
+// Decodes what a backup embeds and brings entries from older backups up to
+// date. Runs ahead of any transaction, which would auto-commit while
+// waiting on non-IndexedDB work.
+function readBackupRecords(backup: BackupData) {
+  const media: BackupMediaItem[] = [];
+  for (const { file, mimeType, dataUrl, ...rest } of backup.data.media ?? []) {
+    if (file) {
+      media.push({ record: rest, blob: null, file, type: mimeType ?? '' });
+    } else if (dataUrl) {
+      const blob = dataUrlToBlob(dataUrl);
+      media.push({ record: rest, blob, file: null, type: blob.type });
+    } else {
+      console.warn('⚠️ Backup is missing a media file:', rest.id);
+    }
+  }
+  // Recordings come back without audio, which is filled in from the ZIP.
+  // Those from JSON backups stay silent but keep their transcriptions.
+  const audioFiles = new Map<string, string>();
+  const voiceRecordings: SnagListDB['voiceRecordings']['value'][] = (backup.data.voiceRecordings ?? []).map(({ audioFile, audioType, ...rest }) => {
+    if (audioFile) audioFiles.set(rest.id, audioFile);
+    return {
+      ...rest,
+      snagId: rest.snagId ?? null,
+      createdAt: new Date(rest.createdAt),
+      audioBlob: new Blob([], { type: audioType || 'audio/webm' })
+    };
+  });
+  const snags: SnagRecord[] = [];
+  for (const snag of backup.data.snags) {
+    // Backups made before the media store embed photos as data URLs
+    if ('photoPath' in snag) {
+      const converted = extractLegacyPhotos(snag);
+      snags.push(reviveBackupSnag(converted.snag));
+      media.push(...converted.media.map(({ blob, ...record }) => ({ record, blob, file: null, type: blob.type })));
+    } else {
+      snags.push(reviveBackupSnag(snag));
+    }
+  }
+  return { media, voiceRecordings, audioFiles, snags };
+}
+
+// Stores a backup's photo in the caller's transaction if it's decoded, or
+// notes where its file goes once the archive is read
+async function putBackupMedia<TxStores extends ArrayLike<StoreNames<SnagListDB>>>(
+  mediaStore: IDBPObjectStore<SnagListDB, TxStores, 'media', 'readwrite'>,
+  files: Map<string, BackupFileTarget>,
+  item: BackupMediaItem,
+  record = item.record
+): Promise<void> {
+  if (item.blob) {
+    await mediaStore.put({ ...record, blob: item.blob });
+  } else if (item.file) {
+    files.set(item.file, { kind: 'media', record, type: item.type });
+  }
+}
+
+// Reads a ZIP backup again and writes each photo and recording's audio as
+// it comes out, before the next is unpacked, so a large backup is never
+// held in memory whole. Each file gets a transaction of its own, since
+// reading the archive would commit a shared one.
+async function writeBackupFiles(archive: Blob | null, files: Map<string, BackupFileTarget>): Promise<void> {
+  if (files.size === 0) return;
+  const missing = new Set(files.keys());
+
+  if (archive) {
+    const db = await getDB();
+    await readZip(archive, async (path, data) => {
+      const target = files.get(path)!;
+      missing.delete(path);
+      const blob = new Blob([data], { type: target.type });
+      if (target.kind === 'media') {
+        await db.put('media', { ...target.record, blob });
+      } else {
+        const tx = db.transaction('voiceRecordings', 'readwrite');
+        const recording = await tx.store.get(target.recordingId);
+        if (recording) await tx.store.put({ ...recording, audioBlob: blob });
+        await tx.done;
+      }
+    }, path => files.has(path));
+  }
+
+  if (missing.size > 0) {
+    console.warn('⚠️ Backup is missing files:', Array.from(missing));
+  }
+}
+
+// deletedAt must be a Date (or null) for the Trash index to pick it up, and
+// older backups lack it entirely
+function reviveBackupProject(project: ProjectRecord): ProjectRecord {
+  return {
+    ...project,
+    workflow: project.workflow ?? null,
+    sla: project.sla ?? null,
+    locations: project.locations ?? [],
+    categories: project.categories ?? null,
+    details: project.details
+      ? { ...project.details, inspectionDate: project.details.inspectionDate ? new Date(project.details.inspectionDate) : null }
+      : null,
+    rounds: (project.rounds ?? []).map(round => ({
+      ...round,
+      startedAt: new Date(round.startedAt),
+      closedAt: round.closedAt ? new Date(round.closedAt) : null
+    })),
+    clonedFrom: project.clonedFrom ? { ...project.clonedFrom, clonedAt: new Date(project.clonedFrom.clonedAt) } : null,
+    status: project.status ?? 'active',
+    compaction: project.compaction ? { ...project.compaction, compactedAt: new Date(project.compaction.compactedAt) } : null,
+    deletedAt: project.deletedAt ? new Date(project.deletedAt) : null
+  };
+}
+
+// Backups from before workflows hold In Progress / Completed
+function reviveBackupSnag(snag: SnagRecord): SnagRecord {
+  return {
+    ...snag,
+    trade: snag.trade ?? null,
+    tags: snag.tags ?? [],
+    photos: getSnagPhotos(snag),
+    status: migrateLegacyStatus(snag.status),
+    statusNote: snag.statusNote ?? null,
+    dueDate: snag.dueDate ?? null,
+    roundId: snag.roundId ?? null,
+    roundChecks: snag.roundChecks ?? [],
+    origin: snag.origin ? { ...snag.origin, transferredAt: new Date(snag.origin.transferredAt) } : null,
+    waiver: snag.waiver ? { ...snag.waiver, waivedAt: new Date(snag.waiver.waivedAt) } : null,
+    deletedAt: snag.deletedAt ? new Date(snag.deletedAt) : null
+  };
+}
+
+// Replaces everything with the backup's contents. The photos and audio of a
+// ZIP backup are written from its archive once the records are in.
+export async function restoreFromBackup(backup: BackupData, archive: Blob | null = null): Promise<void> {
+  console.log('📥 Starting database restore...');
+  const db = await getDB();
+  
+  if (backup.version !== db.version) {
+    console.warn('⚠️ Backup version mismatch:', {
+      backup: backup.version,
+      current: db.version
+    });
+  }
+  
+  const { media, voiceRecordings, audioFiles, snags } = readBackupRecords(backup);
+  const files = new Map<string, BackupFileTarget>();
+  
+  const tx = db.transaction(['snags', 'projects', 'voiceRecordings', 'media', 'snagHistory', 'savedViews', 'contacts', 'checklistTemplates', 'checklists'], 'readwrite');
+  
+  try {
+    // Clear existing data
+    await Promise.all([
+      tx.objectStore('snags').clear(),
+      tx.objectStore('projects').clear(),
+      tx.objectStore('voiceRecordings').clear(),
+      tx.objectStore('media').clear(),
+      tx.objectStore('snagHistory').clear(),
+      tx.objectStore('savedViews').clear(),
+      tx.objectStore('contacts').clear(),
+      tx.objectStore('checklistTemplates').clear(),
+      tx.objectStore('checklists').clear()
+    ]);
+    
+    for (const contact of backup.data.contacts ?? []) {
+      await tx.objectStore('contacts').add(contact);
+    }
+    
+    // Restore projects first
+    const restoredLocations = new Map<string, LocationNode[]>();
+    for (const project of backup.data.projects) {
+      // Backups from before names were unique may hold duplicates, which
+      // shared their entries anyway
+      if (restoredLocations.has(project.name)) {
+        console.warn('⚠️ Skipping duplicate project in backup:', project.name);
+        continue;
+      }
+      restoredLocations.set(project.name, project.locations ?? []);
+      await tx.objectStore('projects').add(reviveBackupProject(project));
+    }
+    
+    // Restore snags. Backups from before contacts existed only hold
+    // names, which get matched to (or become) contacts here.
+    for (const snag of snags) {
+      const assignee = snag.assigneeId
+        ? { assignedTo: snag.assignedTo, assigneeId: snag.assigneeId }
+        : await linkAssignee(tx.objectStore('contacts'), snag.assignedTo);
+      const place = snag.locationId
+        ? { location: snag.location, locationId: snag.locationId }
+        : linkLocation(restoredLocations.get(snag.projectName) ?? [], snag.location);
+      await tx.objectStore('snags').add({ ...snag, ...assignee, ...place });
+    }
+    
+    for (const item of media) {
+      await putBackupMedia(tx.objectStore('media'), files, item);
+    }
+    
+    for (const recording of voiceRecordings) {
+      await tx.objectStore('voiceRecordings').add(recording);
+      const audioFile = audioFiles.get(recording.id);
+      if (audioFile) files.set(audioFile, { kind: 'audio', recordingId: recording.id, type: recording.audioBlob.type });
+    }
+    
+    for (const entry of backup.data.snagHistory ?? []) {
+      await tx.objectStore('snagHistory').add(entry);
+    }
+    
+    for (const view of backup.data.savedViews ?? []) {
+      await tx.objectStore('savedViews').add(view);
+    }
+    
+    for (const template of backup.data.checklistTemplates ?? []) {
+      await tx.objectStore('checklistTemplates').add(template);
+    }
+    
+    for (const checklist of backup.data.checklists ?? []) {
+      await tx.objectStore('checklists').add(checklist);
+    }
+    
+    await tx.done;
+    await writeBackupFiles(archive, files);
+    await rebuildSearchIndex();
+    console.log('✅ Backup restored successfully');
+  } catch (error) {
+    console.error('❌ Error restoring backup:', error);
+    throw error;
+  }
+}
+
+// Merge import
+
+interface ImportPlan {
+  preview: ImportProjectPreview;
+  // The project as it is in the backup, and here
+  incoming: ProjectRecord;
+  local: ProjectRecord | undefined;
+}
+
+// Matches a backup's live projects and their entries to what's here by id.
+// Shared by the preview and the import, so both see the same picture.
+async function planBackupImport<TxStores extends ArrayLike<StoreNames<SnagListDB>>, Mode extends IDBTransactionMode>(
+  stores: {
+    projects: IDBPObjectStore<SnagListDB, TxStores, 'projects', Mode>;
+    snags: IDBPObjectStore<SnagListDB, TxStores, 'snags', Mode>;
+    snagHistory: IDBPObjectStore<SnagListDB, TxStores, 'snagHistory', Mode>;
+  },
+  backup: BackupData,
+  snags: SnagRecord[]
+): Promise<ImportPlan[]> {
+  const names = new Set((await stores.projects.getAll()).map(project => project.name.toLowerCase()));
+  const incomingRevisions = new Map<string, Set<string>>();
+  for (const entry of backup.data.snagHistory ?? []) {
+    if (!incomingRevisions.has(entry.snagId)) incomingRevisions.set(entry.snagId, new Set());
+    incomingRevisions.get(entry.snagId)!.add(entry.id);
+  }
+
+  const plans: ImportPlan[] = [];
+  const seen = new Set<string>();
+  for (const project of backup.data.projects) {
+    if (project.deletedAt || seen.has(project.name)) continue;
+    seen.add(project.name);
+
+    const local = await stores.projects.get(project.id);
+    let importName = local?.name ?? project.name;
+    if (!local) {
+      for (let copy = 2; names.has(importName.toLowerCase()); copy++) {
+        importName = `${project.name} (${copy})`;
+      }
+      names.add(importName.toLowerCase());
+    }
+
+    const entries: ImportEntry[] = [];
+    const projectSnags = snags.filter(snag => snag.projectName === project.name).sort((a, b) => a.snagNumber - b.snagNumber);
+    for (const snag of projectSnags) {
+      const existing = await stores.snags.get(snag.id);
+      if (!existing) {
+        const taken = local ? await stores.snags.index('by-project-snagNumber').get([importName, snag.snagNumber]) : undefined;
+        entries.push({
+          snagId: snag.id,
+          name: snag.name,
+          snagNumber: snag.snagNumber,
+          status: 'new',
+          localNumber: null,
+          changedFields: [],
+          renumbered: !!taken
+        });
+        continue;
+      }
+
+      const changedFields = diffSnag(existing, { ...snag, projectName: importName }).map(change => change.field);
+      const theirs = incomingRevisions.get(snag.id) ?? new Set<string>();
+      const ours = new Set(await stores.snagHistory.index('by-snag').getAllKeys(snag.id));
+      entries.push({
+        snagId: snag.id,
+        name: snag.name,
+        snagNumber: snag.snagNumber,
+        status: classifyImportEntry(
+          changedFields,
+          Array.from(theirs).filter(id => !ours.has(id)).length,
+          Array.from(ours).filter(id => !theirs.has(id)).length
+        ),
+        localNumber: existing.snagNumber,
+        changedFields,
+        renumbered: false
+      });
+    }
+
+    plans.push({
+      preview: { id: project.id, name: project.name, localName: local?.name ?? null, importName, entries },
+      incoming: reviveBackupProject(project),
+      local
+    });
+  }
+  return plans;
+}
+
+// What importing a backup would add and change here, without changing anything
+export async function previewBackupImport(file: BackupFile): Promise<ImportPreview> {
+  const { snags } = readBackupRecords(file.backup);
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'snags', 'snagHistory']);
+  const plans = await planBackupImport(
+    { projects: tx.objectStore('projects'), snags: tx.objectStore('snags'), snagHistory: tx.objectStore('snagHistory') },
+    file.backup,
+    snags
+  );
+  await tx.done;
+
+  return { timestamp: file.backup.timestamp, projects: plans.map(plan => plan.preview) };
+}
+
+// Imports the chosen projects of a backup alongside what's here. New
+// projects come in whole; into a project that's already here go its new
+// entries, entries only the backup changed, and conflicts as resolved (kept
+// as they are here unless told otherwise). Its own settings stay, gaining
+// any trades and tags from the backup. Renumbered entries and copies kept
+// for a conflict get the project's next numbers. Photos and audio from a ZIP
+// backup are written once the records are in.
+export async function importBackup(
+  file: BackupFile,
+  projectIds: string[],
+  resolutions: Record<string, ConflictResolution> = {}
+): Promise<ImportResult> {
+  const records = readBackupRecords(file.backup);
+  const mediaBySnag = new Map<string, BackupMediaItem[]>();
+  for (const item of records.media) {
+    const { snagId } = item.record;
+    if (!snagId) continue;
+    if (!mediaBySnag.has(snagId)) mediaBySnag.set(snagId, []);
+    mediaBySnag.get(snagId)!.push(item);
+  }
+  const files = new Map<string, BackupFileTarget>();
+
+  const db = await getDB();
+  const tx = db.transaction(
+    ['projects', 'snags', 'media', 'voiceRecordings', 'snagHistory', 'searchIndex', 'savedViews', 'contacts', 'checklists'],
+    'readwrite'
+  );
+  const stores = {
+    projects: tx.objectStore('projects'),
+    snags: tx.objectStore('snags'),
+    media: tx.objectStore('media'),
+    voiceRecordings: tx.objectStore('voiceRecordings'),
+    snagHistory: tx.objectStore('snagHistory'),
+    searchIndex: tx.objectStore('searchIndex'),
+    savedViews: tx.objectStore('savedViews'),
+    contacts: tx.objectStore('contacts'),
+    checklists: tx.objectStore('checklists')
+  };
+  const plans = (await planBackupImport(stores, file.backup, records.snags)).filter(plan => projectIds.includes(plan.preview.id));
+
+  // Check every project before writing anything
+  if (plans.length === 0) {
+    throw new Error('Choose at least one project to import');
+  }
+  for (const { local } of plans) {
+    if (local?.deletedAt) {
+      throw new Error(`"${local.name}" is in the Trash. Restore it to import into it.`);
+    }
+    assertProjectWritable(local);
+  }
+
+  console.log('🔀 Importing backup:', plans.map(plan => plan.preview.importName));
+  const now = new Date();
+  const result: ImportResult = { projectCount: plans.length, added: 0, updated: 0, copied: 0 };
+
+  for (const { preview, incoming, local } of plans) {
+    const name = preview.importName;
+    let target: ProjectRecord;
+    if (local) {
+      target = {
+        ...local,
+        categories: local.categories || incoming.categories
+          ? mergeCategories(local.categories ?? DEFAULT_CATEGORIES, incoming.categories ?? DEFAULT_CATEGORIES)
+          : null
+      };
+    } else {
+      // The logo belongs to no entry, so it comes over with the project
+      const logo = incoming.details?.logoId ? records.media.find(item => item.record.id === incoming.details?.logoId) : undefined;
+      let logoId: string | null = null;
+      if (logo) {
+        logoId = crypto.randomUUID();
+        await putBackupMedia(stores.media, files, logo, { ...logo.record, id: logoId });
+      }
+      target = { ...incoming, name, details: incoming.details ? { ...incoming.details, logoId } : null };
+    }
+    const roundIds = new Set(target.rounds.map(round => round.id));
+    const incomingSnags = new Map(records.snags.filter(snag => snag.projectName === incoming.name).map(snag => [snag.id, snag]));
+    let lastSnagNumber = Math.max(
+      local ? await nextSnagNumber(stores.snags, local) - 1 : incoming.lastSnagNumber ?? 0,
+      ...Array.from(incomingSnags.values()).map(snag => snag.snagNumber)
+    );
+
+    // The fields an entry takes on here: its project, and its status,
+    // location, trade, tags and assignee matched to what's here. Rounds
+    // the project doesn't have are dropped.
+    const fit = async (snag: SnagRecord) => {
+      const assignee = snag.assigneeId && await stores.contacts.get(snag.assigneeId)
+        ? { assignedTo: snag.assignedTo, assigneeId: snag.assigneeId }
+        : await linkAssignee(stores.contacts, snag.assignedTo);
+      const place = snag.locationId && target.locations.some(node => node.id === snag.locationId)
+        ? { location: snag.location, locationId: snag.locationId }
+        : linkLocation(target.locations, snag.location);
+
+      return {
+        projectName: name,
+        status: mapStatusToWorkflow(incoming.workflow ?? DEFAULT_WORKFLOW, target.workflow ?? DEFAULT_WORKFLOW, snag.status),
+        ...mapCategories(incoming.categories ?? DEFAULT_CATEGORIES, target.categories ?? DEFAULT_CATEGORIES, snag.trade, snag.tags),
+        ...assignee,
+        ...place,
+        roundId: snag.roundId && roundIds.has(snag.roundId) ? snag.roundId : null,
+        roundChecks: snag.roundChecks.filter(check => roundIds.has(check.roundId))
+      };
+    };
+
+    // Brings over an entry's photos and the revisions missing here
+    const takeRecords = async (snag: SnagRecord) => {
+      for (const item of mediaBySnag.get(snag.id) ?? []) {
+        await putBackupMedia(stores.media, files, item);
+      }
+      const ours = new Set(await stores.snagHistory.index('by-snag').getAllKeys(snag.id));
+      for (const entry of file.backup.data.snagHistory ?? []) {
+        if (entry.snagId === snag.id && !ours.has(entry.id)) {
+          await stores.snagHistory.put({ ...entry, projectName: name });
+        }
+      }
+    };
+
+    const copiedIds = new Map<string, string>();
+    for (const entry of preview.entries) {
+      const snag = incomingSnags.get(entry.snagId)!;
+      const action = entry.status === 'new' || entry.status === 'changed'
+        ? 'take-incoming'
+        : entry.status === 'conflict' ? resolutions[entry.snagId] ?? 'keep-local' : 'keep-local';
+      if (action === 'keep-local') continue;
+
+      const existing = entry.status === 'new' ? undefined : await stores.snags.get(entry.snagId);
+      if (action === 'keep-both' && existing) {
+        const id = crypto.randomUUID();
+        const mediaIds = new Map<string, string>();
+        for (const item of mediaBySnag.get(snag.id) ?? []) {
+          const mediaId = crypto.randomUUID();
+          mediaIds.set(item.record.id, mediaId);
+          await putBackupMedia(stores.media, files, item, { ...item.record, id: mediaId, snagId: id });
+        }
+        const remap = (mediaId: string) => mediaIds.get(mediaId) ?? mediaId;
+
+        const copy: SnagRecord = {
+          ...snag,
+          ...await fit(snag),
+          id,
+          snagNumber: ++lastSnagNumber,
+          ...withPhotos(getSnagPhotos(snag).map(photo => ({
+            ...photo,
+            id: crypto.randomUUID(),
+            photoId: remap(photo.photoId),
+            thumbnailId: remap(photo.thumbnailId),
+            originalId: photo.originalId ? remap(photo.originalId) : null
+          }))),
+          origin: { mode: 'copy', projectName: existing.projectName, snagNumber: existing.snagNumber, transferredAt: now },
+          updatedAt: now
+        };
+        await stores.snags.add(copy);
+        await stores.snagHistory.add(createHistoryEntry('create', null, copy));
+        await syncSnagSearchDoc(stores.searchIndex, copy);
+        copiedIds.set(snag.id, id);
+        result.copied++;
+        continue;
+      }
+
+      const snagNumber = existing
+        ? existing.projectName === name ? existing.snagNumber : ++lastSnagNumber
+        : entry.renumbered ? ++lastSnagNumber : snag.snagNumber;
+      const imported: SnagRecord = { ...snag, ...await fit(snag), snagNumber };
+
+      if (existing) {
+        await deleteMediaForSnag(stores.media, existing.id);
+      }
+      await takeRecords(snag);
+      await stores.snags.put(imported);
+      // A conflict settled in the backup's favour shows up as an edit here
+      if (existing && entry.status === 'conflict') {
+        await recordHistory(stores.snagHistory, 'update', existing, imported);
+      }
+      await syncSnagSearchDoc(stores.searchIndex, imported);
+      if (existing) result.updated++;
+      else result.added++;
+    }
+
+    for (const recording of records.voiceRecordings) {
+      if (recording.projectName !== incoming.name) continue;
+
+      const copyFor = recording.snagId ? copiedIds.get(recording.snagId) : undefined;
+      if (!copyFor && await stores.voiceRecordings.get(recording.id)) continue;
+
+      const imported = copyFor
+        ? { ...recording, id: crypto.randomUUID(), projectName: name, snagId: copyFor }
+        : { ...recording, projectName: name };
+      await stores.voiceRecordings.add(imported);
+      await stores.searchIndex.put(buildRecordingSearchDoc(imported));
+      const audioFile = records.audioFiles.get(recording.id);
+      if (audioFile) files.set(audioFile, { kind: 'audio', recordingId: imported.id, type: imported.audioBlob.type });
+    }
+
+    for (const checklist of file.backup.data.checklists ?? []) {
+      if (checklist.projectName === incoming.name && !await stores.checklists.get(checklist.id)) {
+        await stores.checklists.add({ ...checklist, projectName: name });
+      }
+    }
+
+    // Views named like one here are left out
+    const viewNames = new Set((await stores.savedViews.index('by-project').getAll(name)).map(view => view.name.trim().toLowerCase()));
+    for (const view of file.backup.data.savedViews ?? []) {
+      if (view.projectName !== incoming.name || viewNames.has(view.name.trim().toLowerCase())) continue;
+      if (!await stores.savedViews.get(view.id)) {
+        await stores.savedViews.add({ ...view, projectName: name });
+        viewNames.add(view.name.trim().toLowerCase());
+      }
+    }
+
+    await stores.projects.put({ ...target, lastSnagNumber, updatedAt: local ? now : target.updatedAt });
+  }
+
+  await tx.done;
+  await writeBackupFiles(file.archive, files);
+  console.log('✅ Imported backup:', result);
+  return result;
+}
@@ -0,0 +1,141 @@
+import { getFilterSuggestions, parseFilterQuery, toggleFilterToken, tokenizeFilterQuery } from './filterQuery';
+import { DEFAULT_CATEGORIES } from './categories';
+import { filterSnags } from './queryHandler';
+import { DEFAULT_WORKFLOW, Workflow } from './workflow';
+
+describe('tokenizeFilterQuery', () => {
+  it('keeps quoted values together', () => {
+    expect(tokenizeFilterQuery('assigned:"Acme Electrical"  leak').map(token => token.text))
+      .toEqual(['assigned:"Acme Electrical"', 'leak']);
+  });
+
+  it('records where each token sits', () => {
+    expect(tokenizeFilterQuery(' #12 tap')).toEqual([
+      { text: '#12', start: 1, end: 4 },
+      { text: 'tap', start: 5, end: 8 }
+    ]);
+  });
+});
+
+describe('parseFilterQuery', () => {
+  it('reads filters and passes the rest on as search text', () => {
+    const { intent, errors, hasFilters } = parseFilterQuery('priority:high assigned:"Acme Electrical" cracked tile');
+    expect(errors).toEqual([]);
+    expect(hasFilters).toBe(true);
+    expect(intent.operation).toBe('search');
+    expect(intent.searchTerm).toBe('cracked tile');
+    expect(intent.filters).toMatchObject({ priority: 'High', assignedTo: 'Acme Electrical' });
+  });
+
+  it('is a plain filter without free text', () => {
+    const { intent } = parseFilterQuery('status:open');
+    expect(intent.operation).toBe('filter');
+    expect(intent.searchTerm).toBeUndefined();
+  });
+
+  it('puts negated filters under exclude and missing', () => {
+    const { intent } = parseFilterQuery('-priority:low -trade:Electrical -has:annotations');
+    expect(intent.filters).toEqual({
+      exclude: { priority: ['Low'], trade: ['electrical'] },
+      missing: ['annotations']
+    });
+  });
+
+  it('keeps every value of a repeated negation', () => {
+    const { intent } = parseFilterQuery('-status:open -status:closed -assigned:Bob -assigned:"Acme Electrical"');
+    expect(intent.filters?.exclude).toEqual({ status: ['open', 'closed'], assignedTo: ['Bob', 'Acme Electrical'] });
+
+    const snags = ['open', 'closed', 'fixed'].map(status => ({ projectName: 'Tower A', status, assignedTo: '' }));
+    expect(filterSnags(snags, intent.filters!).map(snag => snag.status)).toEqual(['fixed']);
+  });
+
+  it('accepts field aliases', () => {
+    expect(parseFilterQuery('prio:med loc:"Level 2"').intent.filters).toEqual({ priority: 'Medium', location: 'Level 2' });
+  });
+
+  it('checks statuses against the project workflow', () => {
+    const workflow: Workflow = {
+      ...DEFAULT_WORKFLOW,
+      states: [...DEFAULT_WORKFLOW.states, { id: 'on-hold', label: 'On Hold', color: '#6B7280', done: false }]
+    };
+    expect(parseFilterQuery('status:"on hold"', workflow).intent.filters?.status).toBe('on-hold');
+    expect(parseFilterQuery('status:"on hold"').errors[0].message).toMatch(/^Unknown status "on hold"/);
+  });
+
+  it('checks tags against the project categories', () => {
+    const categories = { ...DEFAULT_CATEGORIES, tags: [{ id: 'handover', label: 'Handover', color: '#000000' }] };
+    expect(parseFilterQuery('tag:handover tag:Handover', DEFAULT_WORKFLOW, categories).intent.filters?.tags)
+      .toEqual(['handover', 'handover']);
+    expect(parseFilterQuery('tag:handover').errors[0].message).toBe('Unknown tag "handover". Use one defined for the project');
+  });
+
+  it('reads entry numbers and ranges', () => {
+    expect(parseFilterQuery('#12').intent.filters).toEqual({ snagNumber: 12 });
+    expect(parseFilterQuery('#12..#40').intent.filters).toEqual({ snagNumberRange: { min: 12, max: 40 } });
+    expect(parseFilterQuery('#..40').intent.filters).toEqual({ snagNumberRange: { min: undefined, max: 40 } });
+    expect(parseFilterQuery('#40..#12').errors[0].message).toBe('Range #40..#12 is backwards');
+  });
+
+  it('reads created dates and ranges', () => {
+    expect(parseFilterQuery('created:2026-01-01').intent.filters?.dateRange).toEqual({
+      start: new Date(2026, 0, 1),
+      end: new Date(2026, 0, 1, 23, 59, 59, 999)
+    });
+    expect(parseFilterQuery('created:>2026-01-01').intent.filters?.dateRange).toEqual({
+      start: new Date(2026, 0, 1, 23, 59, 59, 999)
+    });
+    expect(parseFilterQuery('created:<=2026-01-01').intent.filters?.dateRange).toEqual({
+      end: new Date(2026, 0, 1, 23, 59, 59, 999)
+    });
+    expect(parseFilterQuery('created:2026-01-01..').intent.filters?.dateRange).toEqual({
+      start: new Date(2026, 0, 1),
+      end: undefined
+    });
+  });
+
+  it('reports each mistake with its position', () => {
+    const { errors, hasFilters } = parseFilterQuery('colour:red due:never -created:2026-01-01 priority:');
+    expect(hasFilters).toBe(false);
+    expect(errors.map(error => [error.token, error.start])).toEqual([
+      ['colour:red', 0],
+      ['due:never', 11],
+      ['-created:2026-01-01', 21],
+      ['priority:', 41]
+    ]);
+    expect(errors[2].message).toBe("created: can't be negated");
+    expect(errors[3].message).toBe('priority: needs a value (low, medium or high)');
+  });
+});
+
+describe('toggleFilterToken', () => {
+  it('adds a filter that is missing', () => {
+    expect(toggleFilterToken('leak ', 'tag:handover')).toBe('leak tag:handover');
+    expect(toggleFilterToken('', 'due:overdue')).toBe('due:overdue');
+  });
+
+  it('removes a filter that is there, ignoring case', () => {
+    expect(toggleFilterToken('leak Tag:Handover priority:high', 'tag:handover')).toBe('leak priority:high');
+  });
+});
+
+describe('getFilterSuggestions', () => {
+  it('suggests field names while typing a word', () => {
+    const result = getFilterSuggestions('pr', 2);
+    expect(result?.suggestions.map(suggestion => suggestion.insertText)).toEqual(['priority:']);
+  });
+
+  it('only suggests negatable fields after a minus', () => {
+    expect(getFilterSuggestions('c', 1)?.suggestions.map(suggestion => suggestion.insertText)).toEqual(['created:']);
+    expect(getFilterSuggestions('-c', 2)).toBeNull();
+  });
+
+  it('suggests known values once the field is complete, quoting spaces', () => {
+    const result = getFilterSuggestions('leak assigned:ac', 16, { assigned: ['Acme Electrical', 'Bob'] });
+    expect(result?.token).toEqual({ text: 'assigned:ac', start: 5, end: 16 });
+    expect(result?.suggestions).toEqual([{ label: 'Acme Electrical', insertText: 'assigned:"Acme Electrical" ' }]);
+  });
+
+  it('suggests nothing once a value is complete', () => {
+    expect(getFilterSuggestions('priority:high', 13)).toBeNull();
+  });
+});
@@ -0,0 +1,377 @@
+import { FilterCriteriaType, QueryIntent, QueryIntentType } from './queryParser';
+import { DEFAULT_WORKFLOW, Workflow, resolveStatus } from './workflow';
+import { Category, DEFAULT_CATEGORIES, ProjectCategories, findCategory } from './categories';
+
+// Typed filter syntax for the search boxes, e.g.
+//   priority:high status:open assigned:"Acme Electrical" trade:electrical tag:handover created:>2026-01-01 due:overdue #12..#40 -has:annotations
+// Anything that isn't a filter is passed on as free-text search.
+
+export interface FilterQueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface FilterQueryError {
+  token: string;
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedFilterQuery {
+  intent: QueryIntentType;
+  errors: FilterQueryError[];
+  // True when any filter (not just free text) was given
+  hasFilters: boolean;
+}
+
+export interface FilterSuggestion {
+  label: string;
+  // Replaces the token under the caret
+  insertText: string;
+  description?: string;
+}
+
+type PresenceField = NonNullable<FilterCriteriaType['has']>[number];
+
+export const FILTER_FIELDS: { name: string; description: string; negatable: boolean }[] = [
+  { name: 'priority', description: 'low, medium or high', negatable: true },
+  { name: 'status', description: 'a status from the workflow', negatable: true },
+  { name: 'assigned', description: 'who the entry is assigned to', negatable: true },
+  { name: 'location', description: 'a location and everything in it', negatable: true },
+  { name: 'trade', description: 'a trade category', negatable: true },
+  { name: 'tag', description: 'a tag; repeat to require several', negatable: true },
+  { name: 'created', description: 'date, >date, <date or date..date', negatable: false },
+  { name: 'due', description: 'overdue, today or week', negatable: false },
+  { name: 'has', description: 'annotations, description, assignee, location, due, trade or tags', negatable: true },
+];
+
+const FIELD_ALIASES: Record<string, string> = {
+  assignee: 'assigned',
+  assignedto: 'assigned',
+  loc: 'location',
+  prio: 'priority',
+  tags: 'tag',
+  category: 'trade',
+};
+
+const PRIORITY_VALUES: Record<string, 'Low' | 'Medium' | 'High'> = {
+  low: 'Low',
+  medium: 'Medium',
+  med: 'Medium',
+  high: 'High',
+};
+
+const PRESENCE_VALUES: PresenceField[] = ['annotations', 'description', 'assignee', 'location', 'due', 'trade', 'tags'];
+
+const DUE_VALUES: Record<string, NonNullable<FilterCriteriaType['due']>> = {
+  overdue: 'overdue',
+  today: 'today',
+  week: 'this-week',
+};
+
+// Splits on whitespace, keeping quoted values ("Acme Electrical") together
+export function tokenizeFilterQuery(text: string): FilterQueryToken[] {
+  const tokens: FilterQueryToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < text.length && (inQuotes || !/\s/.test(text[i]))) {
+      if (text[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ text: text.slice(start, i), start, end: i });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+function parseDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function parseCreated(value: string): FilterCriteriaType['dateRange'] | string {
+  const invalid = `"${value}" is not a date. Use YYYY-MM-DD, >YYYY-MM-DD, <YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD`;
+
+  if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    const start = from ? parseDate(from) : undefined;
+    const end = to ? parseDate(to) : undefined;
+    if (start === null || end === null || (!start && !end)) return invalid;
+    return { start, end: end ? endOfDay(end) : undefined };
+  }
+
+  const comparison = value.match(/^([<>]=?)(.*)$/);
+  if (comparison) {
+    const date = parseDate(comparison[2]);
+    if (!date) return invalid;
+    const inclusive = comparison[1].endsWith('=');
+    return comparison[1].startsWith('>')
+      ? { start: inclusive ? date : endOfDay(date) }
+      : { end: inclusive ? endOfDay(date) : date };
+  }
+
+  const date = parseDate(value);
+  if (!date) return invalid;
+  return { start: date, end: endOfDay(date) };
+}
+
+// Status values are checked against the project's workflow, and trades and
+// tags against its categories
+export function parseFilterQuery(
+  text: string,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+  categories: ProjectCategories = DEFAULT_CATEGORIES
+): ParsedFilterQuery {
+  const filters: FilterCriteriaType = {};
+  const errors: FilterQueryError[] = [];
+  const searchWords: string[] = [];
+
+  const fail = (token: FilterQueryToken, message: string) => {
+    errors.push({ token: token.text, start: token.start, end: token.end, message });
+  };
+
+  for (const token of tokenizeFilterQuery(text)) {
+    // Entry numbers: #12 or #12..#40
+    if (token.text.startsWith('#')) {
+      const range = token.text.match(/^#(\d*)(?:\.\.#?(\d*))?$/);
+      if (!range || (!range[1] && !range[2])) {
+        fail(token, `"${token.text}" is not an entry number. Use #12 or #12..#40`);
+        continue;
+      }
+      if (token.text.includes('..')) {
+        const min = range[1] ? parseInt(range[1], 10) : undefined;
+        const max = range[2] ? parseInt(range[2], 10) : undefined;
+        if (min !== undefined && max !== undefined && min > max) {
+          fail(token, `Range ${token.text} is backwards`);
+          continue;
+        }
+        filters.snagNumberRange = { min, max };
+      } else {
+        filters.snagNumber = parseInt(range[1], 10);
+      }
+      continue;
+    }
+
+    const field = token.text.match(/^(-?)([a-zA-Z]+):([\s\S]*)$/);
+    if (!field) {
+      searchWords.push(unquote(token.text));
+      continue;
+    }
+
+    const negated = field[1] === '-';
+    const rawName = field[2].toLowerCase();
+    const name = FIELD_ALIASES[rawName] ?? rawName;
+    const value = unquote(field[3]).trim();
+    const definition = FILTER_FIELDS.find(f => f.name === name);
+
+    if (!definition) {
+      fail(token, `Unknown filter "${field[2]}:". Try ${FILTER_FIELDS.map(f => `${f.name}:`).join(', ')}`);
+      continue;
+    }
+    if (!value) {
+      fail(token, `${name}: needs a value (${definition.description})`);
+      continue;
+    }
+    if (negated && !definition.negatable) {
+      fail(token, `${name}: can't be negated`);
+      continue;
+    }
+
+    switch (name) {
+      case 'priority': {
+        const priority = PRIORITY_VALUES[value.toLowerCase()];
+        if (!priority) {
+          fail(token, `Unknown priority "${value}". Use low, medium or high`);
+        } else if (negated) {
+          filters.exclude = { ...filters.exclude, priority: [...(filters.exclude?.priority ?? []), priority] };
+        } else {
+          filters.priority = priority;
+        }
+        break;
+      }
+      case 'status': {
+        const status = resolveStatus(workflow, value);
+        if (!status) {
+          fail(token, `Unknown status "${value}". Use ${workflow.states.map(state => state.id).join(', ')}`);
+        } else if (negated) {
+          filters.exclude = { ...filters.exclude, status: [...(filters.exclude?.status ?? []), status] };
+        } else {
+          filters.status = status;
+        }
+        break;
+      }
+      case 'assigned':
+        if (negated) {
+          filters.exclude = { ...filters.exclude, assignedTo: [...(filters.exclude?.assignedTo ?? []), value] };
+        } else {
+          filters.assignedTo = value;
+        }
+        break;
+      case 'location':
+        if (negated) {
+          filters.exclude = { ...filters.exclude, location: [...(filters.exclude?.location ?? []), value] };
+        } else {
+          filters.location = value;
+        }
+        break;
+      case 'trade': {
+        const trade = findCategory(categories.trades, value);
+        if (!trade) {
+          fail(token, `Unknown trade "${value}". Use ${listIds(categories.trades)}`);
+        } else if (negated) {
+          filters.exclude = { ...filters.exclude, trade: [...(filters.exclude?.trade ?? []), trade.id] };
+        } else {
+          filters.trade = trade.id;
+        }
+        break;
+      }
+      case 'tag': {
+        const tag = findCategory(categories.tags, value);
+        if (!tag) {
+          fail(token, `Unknown tag "${value}". Use ${listIds(categories.tags)}`);
+        } else if (negated) {
+          filters.exclude = { ...filters.exclude, tags: [...(filters.exclude?.tags ?? []), tag.id] };
+        } else {
+          filters.tags = [...(filters.tags ?? []), tag.id];
+        }
+        break;
+      }
+      case 'created': {
+        const range = parseCreated(value);
+        if (typeof range === 'string') {
+          fail(token, range);
+        } else {
+          filters.dateRange = range;
+        }
+        break;
+      }
+      case 'due': {
+        const due = DUE_VALUES[value.toLowerCase()];
+        if (!due) {
+          fail(token, `Unknown due: value "${value}". Use ${Object.keys(DUE_VALUES).join(', ')}`);
+        } else {
+          filters.due = due;
+        }
+        break;
+      }
+      case 'has': {
+        const presence = PRESENCE_VALUES.find(p => p === value.toLowerCase());
+        if (!presence) {
+          fail(token, `Unknown has: value "${value}". Use ${PRESENCE_VALUES.join(', ')}`);
+        } else if (negated) {
+          filters.missing = [...(filters.missing ?? []), presence];
+        } else {
+          filters.has = [...(filters.has ?? []), presence];
+        }
+        break;
+      }
+    }
+  }
+
+  const searchTerm = searchWords.join(' ').trim();
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return {
+    intent: QueryIntent.parse({
+      operation: searchTerm ? 'search' : 'filter',
+      filters: hasFilters ? filters : undefined,
+      searchTerm: searchTerm || undefined,
+    }),
+    errors,
+    hasFilters,
+  };
+}
+
+function listIds(list: Category[]): string {
+  return list.length > 0 ? list.map(category => category.id).join(', ') : 'one defined for the project';
+}
+
+// Adds a filter like tag:handover to the query, or removes it if present.
+// Used by the facet chips.
+export function toggleFilterToken(text: string, filter: string): string {
+  const tokens = tokenizeFilterQuery(text);
+  const existing = tokens.find(token => token.text.toLowerCase() === filter.toLowerCase());
+  if (!existing) {
+    return `${text.trim()} ${filter}`.trim();
+  }
+  return tokens.filter(token => token !== existing).map(token => token.text).join(' ');
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+// Suggestions for the token under the caret: field names while typing a
+// word, known values once the field is complete
+export function getFilterSuggestions(
+  text: string,
+  caret: number,
+  knownValues: { assigned?: string[]; location?: string[]; status?: string[]; trade?: string[]; tag?: string[] } = {}
+): { token: FilterQueryToken; suggestions: FilterSuggestion[] } | null {
+  const token = tokenizeFilterQuery(text).find(t => caret >= t.start && caret <= t.end)
+    ?? { text: '', start: caret, end: caret };
+
+  const field = token.text.match(/^(-?)([a-zA-Z]*)(:?)([\s\S]*)$/);
+  if (!field) return null;
+
+  const [, negation, rawName, colon, rawValue] = field;
+
+  if (!colon) {
+    if (!rawName) return null;
+    const prefix = rawName.toLowerCase();
+    const suggestions = FILTER_FIELDS
+      .filter(f => f.name.startsWith(prefix) && f.name !== prefix && (!negation || f.negatable))
+      .map(f => ({ label: `${negation}${f.name}:`, insertText: `${negation}${f.name}:`, description: f.description }));
+    return suggestions.length > 0 ? { token, suggestions } : null;
+  }
+
+  const name = FIELD_ALIASES[rawName.toLowerCase()] ?? rawName.toLowerCase();
+  const valuePrefix = unquote(rawValue).toLowerCase();
+  const values: string[] = name === 'priority'
+    ? ['low', 'medium', 'high']
+    : name === 'status'
+      ? knownValues.status ?? DEFAULT_WORKFLOW.states.map(state => state.id)
+      : name === 'has'
+        ? PRESENCE_VALUES
+        : name === 'due'
+          ? Object.keys(DUE_VALUES)
+          : name === 'assigned'
+            ? knownValues.assigned ?? []
+            : name === 'location'
+              ? knownValues.location ?? []
+              : name === 'trade'
+                ? knownValues.trade ?? DEFAULT_CATEGORIES.trades.map(trade => trade.id)
+                : name === 'tag'
+                  ? knownValues.tag ?? []
+                  : [];
+
+  const suggestions = values
+    .filter(value => value.toLowerCase().startsWith(valuePrefix) && value.toLowerCase() !== valuePrefix)
+    .slice(0, 8)
+    .map(value => ({
+      label: value,
+      insertText: `${negation}${rawName}:${quoteIfNeeded(value)} `,
+    }));
+
+  return suggestions.length > 0 ? { token, suggestions } : null;
+}
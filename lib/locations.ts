@@ -0,0 +1,191 @@
+// Location trees. Each project can lay out its sites, buildings, levels and
+// rooms as a tree; entries keep the full path as text in `location` (so
+// display, search and PDFs need nothing else) and the node's id in
+// `locationId`. Free text that isn't in the tree is still allowed.
+
+export interface LocationNode {
+  id: string;
+  name: string;
+  // null for top-level nodes
+  parentId: string | null;
+}
+
+export interface FlatLocation {
+  node: LocationNode;
+  depth: number;
+  path: string;
+}
+
+export const LOCATION_SEPARATOR = ' / ';
+
+// What each depth of the tree usually holds, for labels in the editor
+export const LOCATION_LEVELS = ['Site', 'Building', 'Level', 'Room'];
+
+function normalizeLocation(text: string): string {
+  return text
+    .split('/')
+    .map(part => part.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+    .join('/');
+}
+
+// Whether text names a location: its full path, or the end of it ("Level 2"
+// or "Block A / Level 2" for "Site / Block A / Level 2")
+function namesLocation(location: FlatLocation, key: string): boolean {
+  const path = normalizeLocation(location.path);
+  return path === key || path.endsWith(`/${key}`);
+}
+
+export function getLocationPath(nodes: LocationNode[], id: string): string {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const names: string[] = [];
+  const seen = new Set<string>();
+
+  for (let node = byId.get(id); node && !seen.has(node.id); node = node.parentId ? byId.get(node.parentId) : undefined) {
+    seen.add(node.id);
+    names.unshift(node.name);
+  }
+
+  return names.join(LOCATION_SEPARATOR);
+}
+
+// The tree in display order: each node followed by its children
+export function flattenLocations(nodes: LocationNode[]): FlatLocation[] {
+  const flat: FlatLocation[] = [];
+
+  const visit = (parentId: string | null, depth: number, parentPath: string) => {
+    for (const node of nodes.filter(candidate => candidate.parentId === parentId)) {
+      const path = parentPath ? `${parentPath}${LOCATION_SEPARATOR}${node.name}` : node.name;
+      flat.push({ node, depth, path });
+      visit(node.id, depth + 1, path);
+    }
+  };
+
+  visit(null, 0, '');
+  return flat;
+}
+
+// A node's id plus the ids of everything below it
+export function getDescendantIds(nodes: LocationNode[], id: string): Set<string> {
+  const ids = new Set([id]);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    for (const node of nodes) {
+      if (node.parentId && ids.has(node.parentId) && !ids.has(node.id)) {
+        ids.add(node.id);
+        grew = true;
+      }
+    }
+  }
+
+  return ids;
+}
+
+// Finds the node typed text refers to: its full path, or a shorter name
+// that only one node has ("Room 201" when there's a single Room 201)
+export function findLocationByText(nodes: LocationNode[], text: string): FlatLocation | undefined {
+  const key = normalizeLocation(text);
+  if (!key) return undefined;
+
+  const flat = flattenLocations(nodes);
+  const byPath = flat.find(location => normalizeLocation(location.path) === key);
+  if (byPath) return byPath;
+
+  const byName = flat.filter(location => namesLocation(location, key));
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+// Whether an entry is at or below the location a filter names. "Level 2"
+// covers every room on any Level 2; "Block A / Level 2" only that block's.
+// Text that matches no node falls back to a plain substring match.
+export function matchesLocation(
+  snag: { location?: string | null; locationId?: string | null },
+  filter: string,
+  nodes: LocationNode[]
+): boolean {
+  const key = normalizeLocation(filter);
+  const matched = flattenLocations(nodes).filter(location => namesLocation(location, key));
+
+  if (matched.length === 0) {
+    return (snag.location || '').toLowerCase().includes(filter.toLowerCase());
+  }
+
+  const snagPath = normalizeLocation(snag.location || '');
+  return matched.some(location => {
+    if (snag.locationId && getDescendantIds(nodes, location.node.id).has(snag.locationId)) {
+      return true;
+    }
+    // Entries typed before the tree existed only have the text
+    const path = normalizeLocation(location.path);
+    return snagPath === path || snagPath.startsWith(`${path}/`);
+  });
+}
+
+// Checks a tree before it is saved
+export function validateLocations(nodes: LocationNode[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set(nodes.map(node => node.id));
+  const siblingNames = new Set<string>();
+
+  for (const node of nodes) {
+    const name = node.name.trim();
+    if (!name) {
+      errors.push('Every location needs a name');
+      continue;
+    }
+    if (name.includes('/')) {
+      errors.push(`"${name}" can't contain "/"`);
+    }
+    if (node.parentId && !ids.has(node.parentId)) {
+      errors.push(`"${name}" is inside a location that no longer exists`);
+    }
+
+    const siblingKey = `${node.parentId ?? ''}|${normalizeLocation(name)}`;
+    if (siblingNames.has(siblingKey)) {
+      errors.push(`There are two locations called "${name}" in the same place`);
+    }
+    siblingNames.add(siblingKey);
+  }
+
+  if (flattenLocations(nodes).length !== nodes.length && errors.length === 0) {
+    errors.push('Locations can\'t be inside themselves');
+  }
+
+  return errors;
+}
+
+// Groups entries by location for reports, in tree order. Locations outside
+// the tree follow alphabetically, and entries with none come last.
+export function groupSnagsByLocation<T extends { location?: string | null }>(
+  snags: T[],
+  nodes: LocationNode[]
+): { location: string; snags: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const snag of snags) {
+    const location = snag.location?.trim() || '';
+    groups.set(location, [...(groups.get(location) ?? []), snag]);
+  }
+
+  const treeOrder = new Map(flattenLocations(nodes).map((location, index) => [normalizeLocation(location.path), index]));
+  const rank = (location: string) =>
+    !location ? Infinity : treeOrder.get(normalizeLocation(location)) ?? treeOrder.size;
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([location, groupSnags]) => ({ location, snags: groupSnags }));
+}
+
+// The fields to store on an entry for typed location text. Text naming a
+// node is stored as that node's full path.
+export function linkLocation(
+  nodes: LocationNode[],
+  text: string | null | undefined
+): { location: string; locationId: string | null } {
+  const trimmed = (text ?? '').trim();
+  const match = findLocationByText(nodes, trimmed);
+  return match
+    ? { location: match.path, locationId: match.node.id }
+    : { location: trimmed, locationId: null };
+}
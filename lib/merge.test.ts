@@ -0,0 +1,68 @@
+import { MergeCandidate, findLikelyDuplicates } from './merge';
+
+function candidate(fields: Partial<MergeCandidate> & Pick<MergeCandidate, 'id' | 'name'>): MergeCandidate {
+  return { snagNumber: 1, description: '', location: 'Kitchen', deletedAt: null, ...fields };
+}
+
+describe('findLikelyDuplicates', () => {
+  it('matches names that differ only in case and spacing', () => {
+    const matches = findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Cracked  tile ' })],
+      [candidate({ id: 'ex-1', snagNumber: 7, name: 'cracked tile' })]
+    );
+    expect(matches).toEqual([
+      { snagId: 'in-1', existingId: 'ex-1', existingNumber: 7, existingName: 'cracked tile', reason: 'Same name' }
+    ]);
+  });
+
+  it('matches mostly overlapping wording', () => {
+    const matches = findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Leak', description: 'under the sink cabinet' })],
+      [candidate({ id: 'ex-1', name: 'Leak under sink', description: 'the cabinet' })]
+    );
+    expect(matches.map(match => match.reason)).toEqual(['Similar wording']);
+  });
+
+  it('ignores entries at another location', () => {
+    expect(findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Cracked tile' })],
+      [candidate({ id: 'ex-1', name: 'Cracked tile', location: 'Bathroom' })]
+    )).toEqual([]);
+  });
+
+  it('ignores entries with little wording in common', () => {
+    expect(findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Scratched door frame' })],
+      [candidate({ id: 'ex-1', name: 'Missing door handle' })]
+    )).toEqual([]);
+  });
+
+  it('leaves out entries in the Trash on both sides', () => {
+    expect(findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Cracked tile' })],
+      [candidate({ id: 'ex-1', name: 'Cracked tile', deletedAt: new Date() })]
+    )).toEqual([]);
+    expect(findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Cracked tile', deletedAt: '2026-01-01T00:00:00.000Z' })],
+      [candidate({ id: 'ex-1', name: 'Cracked tile' })]
+    )).toEqual([]);
+  });
+
+  it('pairs each entry with the closest match', () => {
+    const matches = findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: 'Loose socket cover plate' })],
+      [
+        candidate({ id: 'ex-1', name: 'Loose socket cover' }),
+        candidate({ id: 'ex-2', name: 'Loose socket cover plate' })
+      ]
+    );
+    expect(matches.map(match => match.existingId)).toEqual(['ex-2']);
+  });
+
+  it('does not pair untitled entries by name', () => {
+    expect(findLikelyDuplicates(
+      [candidate({ id: 'in-1', name: '' })],
+      [candidate({ id: 'ex-1', name: '' })]
+    )).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { tokenize } from './search';
+
+// Merging one project into another, e.g. when the same site was started
+// twice by accident. Incoming entries are renumbered after the target's
+// highest number; the preview flags ones that look like entries the target
+// already has, so they can be checked before committing.
+
+// The parts of an entry compared when looking for duplicates
+export interface MergeCandidate {
+  id: string;
+  snagNumber: number;
+  name: string;
+  description: string;
+  location: string;
+  deletedAt?: Date | string | null;
+}
+
+// Old and new number of an incoming entry
+export interface SnagNumberMapping {
+  snagId: string;
+  name: string;
+  fromNumber: number;
+  toNumber: number;
+}
+
+export interface DuplicateMatch {
+  snagId: string;
+  existingId: string;
+  existingNumber: number;
+  existingName: string;
+  reason: 'Same name' | 'Similar wording';
+}
+
+export interface MergePreview {
+  sourceName: string;
+  targetName: string;
+  // Numbers the entries will get if nothing is added to the target first
+  mapping: SnagNumberMapping[];
+  recordingCount: number;
+  duplicates: DuplicateMatch[];
+}
+
+export interface MergeResult {
+  targetName: string;
+  mapping: SnagNumberMapping[];
+  recordingCount: number;
+}
+
+// Share of words two texts have in common, from 0 to 1
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+const SIMILAR_WORDING = 0.6;
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Pairs each incoming entry with the closest existing one at the same
+// location, when their names match or their wording mostly overlaps.
+// Entries in the Trash are left out on both sides.
+export function findLikelyDuplicates(incoming: MergeCandidate[], existing: MergeCandidate[]): DuplicateMatch[] {
+  const live = existing.filter(snag => !snag.deletedAt);
+  const matches: DuplicateMatch[] = [];
+
+  for (const snag of incoming) {
+    if (snag.deletedAt) continue;
+
+    let best: { match: DuplicateMatch; score: number } | null = null;
+    for (const other of live) {
+      if (normalize(other.location) !== normalize(snag.location)) continue;
+
+      const sameName = !!normalize(snag.name) && normalize(snag.name) === normalize(other.name);
+      const score = sameName
+        ? 1
+        : Math.max(similarity(snag.name, other.name), similarity(`${snag.name} ${snag.description}`, `${other.name} ${other.description}`));
+      if (score < SIMILAR_WORDING || (best && best.score >= score)) continue;
+
+      best = {
+        score,
+        match: {
+          snagId: snag.id,
+          existingId: other.id,
+          existingNumber: other.snagNumber,
+          existingName: other.name,
+          reason: sameName ? 'Same name' : 'Similar wording'
+        }
+      };
+    }
+    if (best) {
+      matches.push(best.match);
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,160 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+
+const DB_NAME = 'snaglist-db';
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+// A database as the app left it before migrations existed: version 3, with
+// photos as data URLs on the entries and the old two statuses
+async function createLegacyDatabase() {
+  const db = await openDB(DB_NAME, 3, {
+    upgrade(db) {
+      const snags = db.createObjectStore('snags', { keyPath: 'id' });
+      snags.createIndex('by-project', 'projectName');
+      snags.createIndex('by-project-snagNumber', ['projectName', 'snagNumber'], { unique: true });
+      snags.createIndex('by-snagNumber', 'snagNumber', { unique: false });
+      db.createObjectStore('projects', { keyPath: 'id' }).createIndex('by-name', 'name', { unique: false });
+      db.createObjectStore('voiceRecordings', { keyPath: 'id' }).createIndex('by-project', 'projectName');
+    }
+  });
+
+  const createdAt = new Date(2024, 0, 10);
+  const legacySnag = {
+    projectName: 'Tower A',
+    description: '',
+    photoPath: PIXEL,
+    thumbnailPath: PIXEL,
+    priority: 'High',
+    assignedTo: 'Acme Electrical',
+    location: 'Kitchen',
+    createdAt,
+    updatedAt: createdAt,
+    completionDate: null,
+    observationDate: createdAt,
+    annotations: []
+  };
+  await db.put('projects', { id: 'p1', name: 'Tower A', createdAt, updatedAt: createdAt });
+  await db.put('snags', { ...legacySnag, id: 's1', snagNumber: 1, name: 'Cracked tile', status: 'In Progress' });
+  await db.put('snags', { ...legacySnag, id: 's2', snagNumber: 7, name: 'Loose socket', status: 'Completed', completionDate: createdAt });
+  await db.put('voiceRecordings', {
+    id: 'r1',
+    projectName: 'Tower A',
+    fileName: 'note.webm',
+    audioBlob: new Blob(['audio'], { type: 'audio/webm' }),
+    transcription: 'Tap drips in the kitchen',
+    processed: true,
+    createdAt
+  });
+  db.close();
+}
+
+describe('database migrations', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    jest.resetModules();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('upgrades a version 3 database without losing data', async () => {
+    await createLegacyDatabase();
+    const db = await import('./db');
+
+    const snags = (await db.getSnagsByProject('Tower A')).sort((a, b) => a.snagNumber - b.snagNumber);
+    expect(snags.map(snag => [snag.name, snag.snagNumber, snag.status])).toEqual([
+      ['Cracked tile', 1, 'open'],
+      ['Loose socket', 7, 'closed']
+    ]);
+    expect(snags[0]).not.toHaveProperty('photoPath');
+    expect(snags[0].assigneeId).toBeTruthy();
+    expect(snags[0].assigneeId).toBe(snags[1].assigneeId);
+
+    const photo = await db.getMediaBlob(snags[0].photos[0].photoId);
+    expect(photo?.type).toBe('image/png');
+
+    const [recording] = await db.getVoiceRecordingsByProject('Tower A');
+    expect(await recording.audioBlob.text()).toBe('audio');
+
+    expect((await db.searchSnags('tile', 'Tower A')).map(snag => snag.id)).toEqual(['s1']);
+    expect(await db.getMigrationSnapshots()).toEqual([
+      expect.objectContaining({ fromVersion: 3 })
+    ]);
+  });
+
+  it('numbers new entries after the highest number already used', async () => {
+    await createLegacyDatabase();
+    const db = await import('./db');
+
+    const photo = new Blob(['jpeg'], { type: 'image/jpeg' });
+    const added = await db.addSnag({
+      projectName: 'Tower A',
+      name: 'Scuffed skirting',
+      description: '',
+      photo: { compressed: photo, thumbnail: photo },
+      priority: 'Low',
+      assignedTo: '',
+      location: 'Hall'
+    });
+    expect(added.snagNumber).toBe(8);
+  });
+
+  it('rolls back to the snapshot, photos and audio included', async () => {
+    await createLegacyDatabase();
+    const db = await import('./db');
+    await db.getDB();
+    const [snapshot] = await db.getMigrationSnapshots();
+
+    await db.rollbackToMigrationSnapshot(snapshot.id);
+
+    const restored = await openDB(DB_NAME);
+    expect(restored.version).toBe(3);
+    expect((await restored.get('snags', 's1')).photoPath).toBe(PIXEL);
+    const recording = await restored.get('voiceRecordings', 'r1');
+    expect(await recording.audioBlob.text()).toBe('audio');
+    restored.close();
+
+    // The next open migrates forward again
+    expect((await db.getSnagsByProject('Tower A')).map(snag => snag.status).sort()).toEqual(['closed', 'open']);
+  });
+
+  it('opens the database when the snapshot cannot be taken', async () => {
+    await createLegacyDatabase();
+    // A newer snapshot database can't be opened at the version the app asks for
+    (await openDB('snaglist-migration-backups', 2)).close();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const db = await import('./db');
+
+    expect(await db.getSnagsByProject('Tower A')).toHaveLength(2);
+    expect(console.error).toHaveBeenCalledWith(
+      '❌ Failed to create pre-migration snapshot, upgrading without one:',
+      expect.anything()
+    );
+  });
+
+  it('keeps only the snapshot of the latest upgrade', async () => {
+    const snapshots = await openDB('snaglist-migration-backups', 1, {
+      upgrade(db) {
+        db.createObjectStore('snapshots', { keyPath: 'id' });
+      }
+    });
+    await snapshots.put('snapshots', { id: 'old', fromVersion: 1, toVersion: 2, createdAt: new Date(2023, 0, 1), data: {} });
+    snapshots.close();
+    await createLegacyDatabase();
+    const db = await import('./db');
+    await db.getDB();
+
+    const kept = await db.getMigrationSnapshots();
+    expect(kept).toHaveLength(1);
+    expect(kept[0].id).not.toBe('old');
+  });
+
+  it('takes no snapshot of a new database', async () => {
+    const db = await import('./db');
+    await db.getDB();
+    expect(await db.getMigrationSnapshots()).toEqual([]);
+  });
+});
@@ -0,0 +1,712 @@
+import { openDB, deleteDB, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { SnagListDB, MediaRecord, MediaKind } from './db';
+import { dataUrlToBlob } from './utils';
+import { buildSnagSearchDoc, buildRecordingSearchDoc } from './search';
+import { migrateLegacyStatus } from './workflow';
+import { normalizeContactName } from './contacts';
+
+export type UpgradeTransaction = IDBPTransaction<SnagListDB, StoreNames<SnagListDB>[], 'versionchange'>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction. Only await IndexedDB requests
+  // here - awaiting anything else lets the transaction auto-commit mid-step.
+  migrate: (db: IDBPDatabase<SnagListDB>, tx: UpgradeTransaction) => Promise<void>;
+}
+
+export interface MigrationSnapshot {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: Date;
+  data: Record<string, any[]>;
+  // Blob fields left out of the records, by store
+  omittedBlobs?: Record<string, string[]>;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly toVersion: number,
+    public readonly snapshotId: string | null,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+type SnagRecord = SnagListDB['snags']['value'];
+
+// Moves the data URLs of a pre-v5 snag (photoPath/thumbnailPath) into media
+// records. Used by the v5 migration and when restoring old backups.
+export function extractLegacyPhotos(legacySnag: any): { snag: SnagRecord; media: MediaRecord[] } {
+  const { photoPath, thumbnailPath, ...rest } = legacySnag;
+  const media: MediaRecord[] = [];
+
+  const toMedia = (dataUrl: unknown, kind: MediaKind): string => {
+    if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) {
+      console.warn(`⚠️ Entry ${legacySnag.id} has no usable ${kind} image`);
+      return '';
+    }
+    const record: MediaRecord = {
+      id: crypto.randomUUID(),
+      snagId: legacySnag.id,
+      kind,
+      blob: dataUrlToBlob(dataUrl),
+      createdAt: legacySnag.createdAt ? new Date(legacySnag.createdAt) : new Date(),
+    };
+    media.push(record);
+    return record.id;
+  };
+
+  const photoId = toMedia(photoPath, 'compressed');
+  // Older entries sometimes share one image for both; avoid storing it twice
+  const thumbnailId = thumbnailPath && thumbnailPath !== photoPath
+    ? toMedia(thumbnailPath, 'thumbnail')
+    : photoId;
+
+  return {
+    snag: { ...rest, photoId, thumbnailId, originalId: null },
+    media,
+  };
+}
+
+const SNAPSHOT_DB_NAME = 'snaglist-migration-backups';
+const MAX_SNAPSHOTS = 3;
+
+// Ordered list of schema steps. Never edit a step that has shipped - add a new
+// one with the next version number instead. Each step must be safe to run on
+// a database created by the old wipe-and-recreate upgrade.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create snags and projects stores',
+    async migrate(db) {
+      if (!db.objectStoreNames.contains('snags')) {
+        const snagStore = db.createObjectStore('snags', { keyPath: 'id' });
+        snagStore.createIndex('by-project', 'projectName');
+        snagStore.createIndex('by-project-snagNumber', ['projectName', 'snagNumber'], { unique: true });
+      }
+      if (!db.objectStoreNames.contains('projects')) {
+        const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
+        projectStore.createIndex('by-name', 'name', { unique: false });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Create voiceRecordings store',
+    async migrate(db) {
+      if (!db.objectStoreNames.contains('voiceRecordings')) {
+        const voiceStore = db.createObjectStore('voiceRecordings', { keyPath: 'id' });
+        voiceStore.createIndex('by-project', 'projectName');
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Index snags by snagNumber',
+    async migrate(db, tx) {
+      const snagStore = tx.objectStore('snags');
+      if (!snagStore.indexNames.contains('by-snagNumber')) {
+        snagStore.createIndex('by-snagNumber', 'snagNumber', { unique: false });
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Backfill per-project entry number counters',
+    async migrate(db, tx) {
+      const projectStore = tx.objectStore('projects');
+      const numberIndex = tx.objectStore('snags').index('by-project-snagNumber');
+
+      for (const project of await projectStore.getAll()) {
+        const highest = await numberIndex.openCursor(
+          IDBKeyRange.bound([project.name, -Infinity], [project.name, Infinity]),
+          'prev'
+        );
+        await projectStore.put({
+          ...project,
+          lastSnagNumber: Math.max(project.lastSnagNumber ?? 0, highest?.value.snagNumber ?? 0)
+        });
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Move photos from snag records into the media store',
+    async migrate(db, tx) {
+      const mediaStore = db.createObjectStore('media', { keyPath: 'id' });
+      mediaStore.createIndex('by-snag', 'snagId');
+
+      let cursor = await tx.objectStore('snags').openCursor();
+      while (cursor) {
+        if ('photoPath' in cursor.value) {
+          const { snag, media } = extractLegacyPhotos(cursor.value);
+          for (const record of media) {
+            await mediaStore.add(record);
+          }
+          await cursor.update(snag);
+        }
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Create snagHistory store',
+    async migrate(db) {
+      const historyStore = db.createObjectStore('snagHistory', { keyPath: 'id' });
+      historyStore.createIndex('by-snag', 'snagId');
+      historyStore.createIndex('by-project', 'projectName');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add soft-delete markers for the Trash',
+    async migrate(db, tx) {
+      const snagStore = tx.objectStore('snags');
+      const projectStore = tx.objectStore('projects');
+      // Null keys are left out of an index, so these only list trashed records
+      snagStore.createIndex('by-deletedAt', 'deletedAt');
+      projectStore.createIndex('by-deletedAt', 'deletedAt');
+
+      let snagCursor = await snagStore.openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, deletedAt: snagCursor.value.deletedAt ?? null });
+        snagCursor = await snagCursor.continue();
+      }
+
+      let projectCursor = await projectStore.openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, deletedAt: projectCursor.value.deletedAt ?? null });
+        projectCursor = await projectCursor.continue();
+      }
+    },
+  },
+  {
+    version: 8,
+    description: 'Make project names unique',
+    async migrate(db, tx) {
+      const projectStore = tx.objectStore('projects');
+
+      // Duplicates already shared their entries through the name, so fold
+      // them into the oldest project rather than renaming any of them
+      const byName = new Map<string, SnagListDB['projects']['value'][]>();
+      for (const project of await projectStore.getAll()) {
+        byName.set(project.name, [...(byName.get(project.name) ?? []), project]);
+      }
+
+      for (const [name, projects] of Array.from(byName.entries())) {
+        if (projects.length < 2) continue;
+        const [keep, ...duplicates] = projects.sort(
+          (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+        console.log(`🔧 Merging ${duplicates.length} duplicate project(s) named "${name}"`);
+        for (const duplicate of duplicates) {
+          await projectStore.delete(duplicate.id);
+        }
+        await projectStore.put({
+          ...keep,
+          lastSnagNumber: Math.max(...projects.map(project => project.lastSnagNumber ?? 0)),
+          // Keep it visible if any copy was still in use
+          deletedAt: projects.some(project => !project.deletedAt) ? null : keep.deletedAt
+        });
+      }
+
+      projectStore.deleteIndex('by-name');
+      projectStore.createIndex('by-name', 'name', { unique: true });
+    },
+  },
+  {
+    version: 9,
+    description: 'Build the full-text search index',
+    async migrate(db, tx) {
+      const searchStore = db.createObjectStore('searchIndex', { keyPath: 'id' });
+      searchStore.createIndex('by-token', 'tokens', { multiEntry: true });
+      searchStore.createIndex('by-project', 'projectName');
+
+      for (const snag of await tx.objectStore('snags').getAll()) {
+        if (!snag.deletedAt) {
+          await searchStore.put(buildSnagSearchDoc(snag));
+        }
+      }
+      for (const recording of await tx.objectStore('voiceRecordings').getAll()) {
+        await searchStore.put(buildRecordingSearchDoc(recording));
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Add saved views',
+    async migrate(db) {
+      const viewStore = db.createObjectStore('savedViews', { keyPath: 'id' });
+      viewStore.createIndex('by-project', 'projectName');
+    },
+  },
+  {
+    version: 11,
+    description: 'Move entries onto the default status workflow',
+    async migrate(_db, tx) {
+      // Existing projects keep using the default workflow until configured
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, workflow: null });
+        projectCursor = await projectCursor.continue();
+      }
+
+      const searchStore = tx.objectStore('searchIndex');
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        const snag = {
+          ...snagCursor.value,
+          status: migrateLegacyStatus(snagCursor.value.status),
+          statusNote: null
+        };
+        await snagCursor.update(snag);
+        if (!snag.deletedAt) {
+          await searchStore.put(buildSnagSearchDoc(snag));
+        }
+        snagCursor = await snagCursor.continue();
+      }
+
+      // Revisions are reverted by copying their snapshot back, so they
+      // need the new status ids too
+      let historyCursor = await tx.objectStore('snagHistory').openCursor();
+      while (historyCursor) {
+        const entry = historyCursor.value;
+        await historyCursor.update({
+          ...entry,
+          changes: entry.changes.map(change => change.field === 'status'
+            ? { ...change, from: migrateLegacyStatus(String(change.from)), to: migrateLegacyStatus(String(change.to)) }
+            : change),
+          snapshot: entry.snapshot
+            ? { ...entry.snapshot, status: migrateLegacyStatus(entry.snapshot.status), statusNote: null }
+            : null
+        });
+        historyCursor = await historyCursor.continue();
+      }
+    },
+  },
+  {
+    version: 12,
+    description: 'Add due dates to entries and SLA settings to projects',
+    async migrate(_db, tx) {
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, sla: null });
+        projectCursor = await projectCursor.continue();
+      }
+
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, dueDate: null });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+  {
+    version: 13,
+    description: 'Add a contacts directory and link entries to their assignee',
+    async migrate(db, tx) {
+      const contactStore = db.createObjectStore('contacts', { keyPath: 'id' });
+      const snagStore = tx.objectStore('snags');
+      snagStore.createIndex('by-assignee', 'assigneeId');
+
+      // One contact per name, ignoring case and spacing, under its most used spelling
+      const spellings = new Map<string, Map<string, number>>();
+      for (const snag of await snagStore.getAll()) {
+        const name = (snag.assignedTo ?? '').trim().replace(/\s+/g, ' ');
+        if (!name) continue;
+        const key = normalizeContactName(name);
+        const counts = spellings.get(key) ?? new Map<string, number>();
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+        spellings.set(key, counts);
+      }
+
+      const now = new Date();
+      const contacts = new Map<string, { id: string; name: string }>();
+      for (const [key, counts] of Array.from(spellings.entries())) {
+        const name = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+        const contact = { id: crypto.randomUUID(), name, company: '', trade: '', email: '', phone: '', createdAt: now, updatedAt: now };
+        await contactStore.add(contact);
+        contacts.set(key, contact);
+      }
+
+      let snagCursor = await snagStore.openCursor();
+      while (snagCursor) {
+        const contact = contacts.get(normalizeContactName(snagCursor.value.assignedTo ?? ''));
+        await snagCursor.update({
+          ...snagCursor.value,
+          assignedTo: contact?.name ?? '',
+          assigneeId: contact?.id ?? null
+        });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+  {
+    version: 14,
+    description: 'Add location trees to projects',
+    async migrate(_db, tx) {
+      // Existing locations stay as free text until the tree names them
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, locations: [] });
+        projectCursor = await projectCursor.continue();
+      }
+
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, locationId: null });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+  {
+    version: 15,
+    description: 'Add trade categories and tags to entries',
+    async migrate(_db, tx) {
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, categories: null });
+        projectCursor = await projectCursor.continue();
+      }
+
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, trade: null, tags: [] });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+  {
+    version: 16,
+    description: 'Add photo galleries to entries',
+    async migrate(_db, tx) {
+      // Each entry's photo becomes the first of its gallery, keeping its
+      // annotations. The photo id doubles as the gallery entry id so
+      // history snapshots taken before this still line up.
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        const snag = snagCursor.value;
+        await snagCursor.update({
+          ...snag,
+          photos: snag.photoId
+            ? [{
+                id: snag.photoId,
+                photoId: snag.photoId,
+                thumbnailId: snag.thumbnailId,
+                originalId: snag.originalId ?? null,
+                role: 'before',
+                annotations: snag.annotations ?? []
+              }]
+            : []
+        });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+  {
+    version: 17,
+    description: 'Add report details to projects',
+    async migrate(_db, tx) {
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, details: null });
+        projectCursor = await projectCursor.continue();
+      }
+    },
+  },
+  {
+    version: 18,
+    description: 'Add inspection rounds',
+    async migrate(_db, tx) {
+      // Existing entries predate rounds; they carry over into the first one
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, rounds: [] });
+        projectCursor = await projectCursor.continue();
+      }
+
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, roundId: null, roundChecks: [] });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+  {
+    version: 19,
+    description: 'Add checklist templates and project checklists',
+    async migrate(db) {
+      db.createObjectStore('checklistTemplates', { keyPath: 'id' });
+      const checklistStore = db.createObjectStore('checklists', { keyPath: 'id' });
+      checklistStore.createIndex('by-project', 'projectName');
+    },
+  },
+  {
+    version: 20,
+    description: 'Add moved/copied references to snags and link recordings to snags',
+    async migrate(_db, tx) {
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, origin: null });
+        snagCursor = await snagCursor.continue();
+      }
+
+      const recordingStore = tx.objectStore('voiceRecordings');
+      let recordingCursor = await recordingStore.openCursor();
+      while (recordingCursor) {
+        await recordingCursor.update({ ...recordingCursor.value, snagId: null });
+        recordingCursor = await recordingCursor.continue();
+      }
+      recordingStore.createIndex('by-snag', 'snagId');
+    },
+  },
+  {
+    version: 21,
+    description: 'Add clone source to projects',
+    async migrate(_db, tx) {
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, clonedFrom: null });
+        projectCursor = await projectCursor.continue();
+      }
+    },
+  },
+  {
+    version: 22,
+    description: 'Add project status and compaction, and waivers on snags',
+    async migrate(_db, tx) {
+      let projectCursor = await tx.objectStore('projects').openCursor();
+      while (projectCursor) {
+        await projectCursor.update({ ...projectCursor.value, status: 'active', compaction: null });
+        projectCursor = await projectCursor.continue();
+      }
+
+      let snagCursor = await tx.objectStore('snags').openCursor();
+      while (snagCursor) {
+        await snagCursor.update({ ...snagCursor.value, waiver: null });
+        snagCursor = await snagCursor.continue();
+      }
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+export async function runMigrations(
+  db: IDBPDatabase<SnagListDB>,
+  tx: UpgradeTransaction,
+  oldVersion: number,
+  newVersion: number
+): Promise<void> {
+  const pending = migrations.filter(m => m.version > oldVersion && m.version <= newVersion);
+
+  for (const migration of pending) {
+    console.log(`🔧 Running migration v${migration.version}: ${migration.description}`);
+    await migration.migrate(db, tx);
+    console.log(`✅ Migration v${migration.version} complete`);
+  }
+}
+
+async function getSnapshotDB() {
+  return openDB(SNAPSHOT_DB_NAME, 1, {
+    upgrade(db) {
+      db.createObjectStore('snapshots', { keyPath: 'id' });
+    },
+  });
+}
+
+// The blobs a snapshot left out, by store and key, read from the database
+// as it is now
+async function readOmittedBlobs(dbName: string, snapshot: MigrationSnapshot): Promise<Map<string, Map<IDBValidKey, Record<string, Blob>>>> {
+  const blobs = new Map<string, Map<IDBValidKey, Record<string, Blob>>>();
+  const omitted = Object.entries(snapshot.omittedBlobs ?? {});
+  if (omitted.length === 0) return blobs;
+
+  const current = await openDB(dbName);
+  try {
+    for (const [storeName, fields] of omitted) {
+      if (!current.objectStoreNames.contains(storeName)) continue;
+      const byKey = new Map<IDBValidKey, Record<string, Blob>>();
+      let cursor = await current.transaction(storeName).store.openCursor();
+      while (cursor) {
+        const record = cursor.value;
+        byKey.set(cursor.primaryKey, Object.fromEntries(fields.filter(field => record[field] instanceof Blob).map(field => [field, record[field]])));
+        cursor = await cursor.continue();
+      }
+      blobs.set(storeName, byKey);
+    }
+  } finally {
+    current.close();
+  }
+  return blobs;
+}
+
+async function getStoredVersion(dbName: string): Promise<number> {
+  if (typeof indexedDB.databases === 'function') {
+    const databases = await indexedDB.databases();
+    return databases.find(info => info.name === dbName)?.version ?? 0;
+  }
+
+  // Older browsers: opening without a version never triggers an upgrade, but
+  // creates an empty v1 database if none existed. An empty database is
+  // treated as fresh by getDB, so this is harmless.
+  const probe = await openDB(dbName);
+  const version = probe.objectStoreNames.length > 0 ? probe.version : 0;
+  probe.close();
+  return version;
+}
+
+// Photos and audio are left out of snapshots, which would otherwise each be
+// a full copy of the media; no migration rewrites them. Returns the record
+// with its blobs nulled, noting which fields held them.
+function withoutBlobs(record: any, fields: Set<string>): any {
+  if (!record || typeof record !== 'object') return record;
+  const copy = { ...record };
+  for (const [key, value] of Object.entries(copy)) {
+    if (value instanceof Blob) {
+      copy[key] = null;
+      fields.add(key);
+    }
+  }
+  return copy;
+}
+
+// Copies every store of the current database into a separate database before
+// an upgrade runs, so a migration that produces bad data can be undone. Does
+// nothing when no upgrade is due.
+export async function createPreMigrationSnapshot(dbName: string, targetVersion: number): Promise<MigrationSnapshot | null> {
+  const fromVersion = await getStoredVersion(dbName);
+  if (fromVersion === 0 || fromVersion >= targetVersion) {
+    return null;
+  }
+
+  console.log('📦 Creating pre-migration snapshot...', { fromVersion, targetVersion });
+
+  const source = await openDB(dbName, fromVersion);
+  const data: Record<string, any[]> = {};
+  const omittedBlobs: Record<string, string[]> = {};
+  try {
+    for (const storeName of Array.from(source.objectStoreNames)) {
+      const fields = new Set<string>();
+      data[storeName] = (await source.getAll(storeName)).map(record => withoutBlobs(record, fields));
+      if (fields.size > 0) omittedBlobs[storeName] = Array.from(fields);
+    }
+  } finally {
+    source.close();
+  }
+
+  const snapshot: MigrationSnapshot = {
+    id: crypto.randomUUID(),
+    fromVersion,
+    toVersion: targetVersion,
+    createdAt: new Date(),
+    data,
+    omittedBlobs,
+  };
+
+  const snapshotDB = await getSnapshotDB();
+  try {
+    await snapshotDB.put('snapshots', snapshot);
+
+    // Keep only the most recent snapshots
+    const all: MigrationSnapshot[] = await snapshotDB.getAll('snapshots');
+    const stale = all
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(MAX_SNAPSHOTS);
+    for (const old of stale) {
+      await snapshotDB.delete('snapshots', old.id);
+    }
+  } finally {
+    snapshotDB.close();
+  }
+
+  console.log('✅ Pre-migration snapshot saved', snapshot.id);
+  return snapshot;
+}
+
+// Once an upgrade has gone through, only the snapshot taken for it is kept
+export async function pruneMigrationSnapshots(keepId: string): Promise<void> {
+  const snapshotDB = await getSnapshotDB();
+  try {
+    for (const id of await snapshotDB.getAllKeys('snapshots')) {
+      if (id !== keepId) await snapshotDB.delete('snapshots', id);
+    }
+  } finally {
+    snapshotDB.close();
+  }
+}
+
+export async function getMigrationSnapshots(): Promise<Omit<MigrationSnapshot, 'data'>[]> {
+  const snapshotDB = await getSnapshotDB();
+  try {
+    const all: MigrationSnapshot[] = await snapshotDB.getAll('snapshots');
+    return all
+      .map(({ data, ...rest }) => rest)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  } finally {
+    snapshotDB.close();
+  }
+}
+
+// Rebuilds the database as it was before the snapshot's migration: the
+// schema is recreated at the old version and the saved records written
+// back, with the blobs the snapshot left out taken from the database being
+// replaced. The next getDB call migrates forward again. Callers must close
+// any open connection first.
+export async function restoreMigrationSnapshot(dbName: string, snapshotId: string): Promise<void> {
+  const snapshotDB = await getSnapshotDB();
+  const snapshot: MigrationSnapshot | undefined = await snapshotDB.get('snapshots', snapshotId);
+  snapshotDB.close();
+
+  if (!snapshot) {
+    throw new Error('Migration snapshot not found');
+  }
+
+  console.log('⏪ Rolling back to pre-migration snapshot...', {
+    id: snapshot.id,
+    version: snapshot.fromVersion
+  });
+
+  const blobs = await readOmittedBlobs(dbName, snapshot);
+  await deleteDB(dbName);
+
+  let upgradeError: unknown = null;
+  let db: IDBPDatabase<SnagListDB>;
+  try {
+    db = await openDB<SnagListDB>(dbName, snapshot.fromVersion, {
+      upgrade(db, _oldVersion, _newVersion, transaction) {
+        runMigrations(db, transaction, 0, snapshot.fromVersion).catch(error => {
+          upgradeError = error;
+          transaction.abort();
+        });
+      },
+    });
+  } catch (error) {
+    throw upgradeError ?? error;
+  }
+
+  try {
+    const storeNames = Object.keys(snapshot.data).filter(name => db.objectStoreNames.contains(name as StoreNames<SnagListDB>));
+    const tx = db.transaction(storeNames as StoreNames<SnagListDB>[], 'readwrite');
+    for (const storeName of storeNames) {
+      const store = tx.objectStore(storeName as StoreNames<SnagListDB>);
+      const storeBlobs = blobs.get(storeName);
+      for (const record of snapshot.data[storeName]) {
+        const key = typeof store.keyPath === 'string' ? record[store.keyPath] : undefined;
+        await store.put({ ...record, ...(key !== undefined ? storeBlobs?.get(key) : undefined) });
+      }
+    }
+    await tx.done;
+  } finally {
+    db.close();
+  }
+
+  console.log('✅ Snapshot restored');
+}
@@ -0,0 +1,81 @@
+import type { Annotation } from '@/types/snag';
+
+// Photo galleries. An entry has an ordered list of photos, each with its own
+// annotations and a role in the fix. The first photo is also mirrored onto
+// the entry's photoId/thumbnailId/originalId/annotations, so thumbnails,
+// search and older backups keep working off a single photo.
+
+export type PhotoRole = 'before' | 'during' | 'after';
+
+export const PHOTO_ROLES: { id: PhotoRole; label: string }[] = [
+  { id: 'before', label: 'Before' },
+  { id: 'during', label: 'During' },
+  { id: 'after', label: 'After' }
+];
+
+export interface SnagPhoto {
+  id: string;
+  // Ids into the media store
+  photoId: string;
+  thumbnailId: string;
+  originalId: string | null;
+  role: PhotoRole;
+  annotations: Annotation[];
+}
+
+// The photo fields of an entry, as stored or as found in older records
+interface PhotoFields {
+  photoId?: string | null;
+  thumbnailId?: string | null;
+  originalId?: string | null;
+  annotations?: Annotation[];
+  photos?: SnagPhoto[];
+}
+
+export function getPhotoRoleLabel(role: PhotoRole): string {
+  return PHOTO_ROLES.find(option => option.id === role)?.label ?? role;
+}
+
+// An entry's photos, treating entries saved before galleries as one photo
+export function getSnagPhotos(snag: PhotoFields): SnagPhoto[] {
+  if (snag.photos?.length) return snag.photos;
+  if (!snag.photoId) return [];
+
+  return [{
+    id: snag.photoId,
+    photoId: snag.photoId,
+    thumbnailId: snag.thumbnailId || snag.photoId,
+    originalId: snag.originalId ?? null,
+    role: 'before',
+    annotations: snag.annotations ?? []
+  }];
+}
+
+// The entry fields to store for a gallery, with the first photo mirrored
+export function withPhotos(photos: SnagPhoto[]): Pick<SnagPhoto, 'photoId' | 'thumbnailId' | 'originalId' | 'annotations'> & { photos: SnagPhoto[] } {
+  if (photos.length === 0) {
+    throw new Error('An entry needs at least one photo');
+  }
+
+  const [first] = photos;
+  return {
+    photos,
+    photoId: first.photoId,
+    thumbnailId: first.thumbnailId,
+    originalId: first.originalId,
+    annotations: first.annotations
+  };
+}
+
+// Annotations from every photo, e.g. for search
+export function getAllAnnotations(snag: PhotoFields): Annotation[] {
+  return getSnagPhotos(snag).flatMap(photo => photo.annotations ?? []);
+}
+
+// The photos to compare at close-out: the first "before" (or the first
+// photo) against the last "after". Null until there is an "after" photo.
+export function getBeforeAfterPair(photos: SnagPhoto[]): { before: SnagPhoto; after: SnagPhoto } | null {
+  const after = photos.filter(photo => photo.role === 'after').pop();
+  const before = photos.find(photo => photo.role === 'before') ?? photos.find(photo => photo.role !== 'after');
+  return before && after ? { before, after } : null;
+}
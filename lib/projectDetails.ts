@@ -0,0 +1,79 @@
+import { format } from 'date-fns';
+
+// Project details printed on report cover pages and page headers. The logo
+// lives in the media store like entry photos; the project only keeps its id.
+
+export interface ProjectDetails {
+  clientName: string;
+  siteAddress: string;
+  projectNumber: string;
+  inspectorName: string;
+  inspectionDate: Date | null;
+  contractReference: string;
+  logoId: string | null;
+}
+
+export type ProjectDetailsText = Exclude<keyof ProjectDetails, 'inspectionDate' | 'logoId'>;
+
+export const EMPTY_PROJECT_DETAILS: ProjectDetails = {
+  clientName: '',
+  siteAddress: '',
+  projectNumber: '',
+  inspectorName: '',
+  inspectionDate: null,
+  contractReference: '',
+  logoId: null
+};
+
+export const PROJECT_DETAIL_FIELDS: { id: ProjectDetailsText; label: string; placeholder: string }[] = [
+  { id: 'clientName', label: 'Client', placeholder: 'Acme Developments Ltd' },
+  { id: 'siteAddress', label: 'Site address', placeholder: '12 Harbour Road, Dublin' },
+  { id: 'projectNumber', label: 'Project number', placeholder: 'P-2041' },
+  { id: 'contractReference', label: 'Contract reference', placeholder: 'CT-88/2026' },
+  { id: 'inspectorName', label: 'Inspector', placeholder: 'Name of the inspector' }
+];
+
+// Logos are stored as uploaded, so PNG transparency survives into reports
+export const LOGO_TYPES = ['image/png', 'image/jpeg'];
+export const LOGO_MAX_BYTES = 1024 * 1024;
+
+export function validateProjectDetails(details: ProjectDetails): string[] {
+  const errors: string[] = [];
+
+  if (details.inspectionDate && isNaN(new Date(details.inspectionDate).getTime())) {
+    errors.push('Inspection date is not a valid date');
+  }
+  if (details.siteAddress.length > 300) {
+    errors.push('Site address is too long');
+  }
+  for (const field of PROJECT_DETAIL_FIELDS) {
+    if (field.id !== 'siteAddress' && details[field.id].length > 120) {
+      errors.push(`${field.label} is too long`);
+    }
+  }
+
+  return errors;
+}
+
+// Label/value pairs for the filled-in details, in display order
+export function describeProjectDetails(details: ProjectDetails | null): { label: string; value: string }[] {
+  if (!details) return [];
+
+  const rows = PROJECT_DETAIL_FIELDS
+    .map(field => ({ label: field.label, value: details[field.id].trim() }))
+    .filter(row => row.value);
+
+  if (details.inspectionDate) {
+    const date = new Date(details.inspectionDate);
+    if (!isNaN(date.getTime())) {
+      rows.push({ label: 'Inspection date', value: format(date, 'MMM d, yyyy') });
+    }
+  }
+
+  return rows;
+}
+
+// Short line for page headers, e.g. "Harbour View · P-2041 · Acme Developments Ltd"
+export function getProjectHeaderLine(projectName: string, details: ProjectDetails | null): string {
+  return [projectName, details?.projectNumber.trim(), details?.clientName.trim()].filter(Boolean).join(' · ');
+}
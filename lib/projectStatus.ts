@@ -0,0 +1,59 @@
+import { Workflow, isDoneStatus } from './workflow';
+
+// Project lifecycle. Active and on-hold projects work the same; a project is
+// closed once every entry is done or waived, and archived after that to keep
+// it out of the way. Archived projects are read-only until unarchived.
+
+export type ProjectStatus = 'active' | 'on-hold' | 'closed' | 'archived';
+
+export const PROJECT_STATUSES: { id: ProjectStatus; label: string; color: string }[] = [
+  { id: 'active', label: 'Active', color: '#22C55E' },
+  { id: 'on-hold', label: 'On hold', color: '#F59E0B' },
+  { id: 'closed', label: 'Closed', color: '#6B7280' },
+  { id: 'archived', label: 'Archived', color: '#8B5CF6' }
+];
+
+// The statuses a project can move to from each one. Archiving goes through
+// closing, so an archived project never has open entries.
+const PROJECT_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  'active': ['on-hold', 'closed'],
+  'on-hold': ['active', 'closed'],
+  'closed': ['active', 'archived'],
+  'archived': ['closed']
+};
+
+export function getProjectStatusLabel(status: ProjectStatus): string {
+  return PROJECT_STATUSES.find(option => option.id === status)?.label ?? status;
+}
+
+export function getNextProjectStatuses(status: ProjectStatus): ProjectStatus[] {
+  return PROJECT_TRANSITIONS[status] ?? [];
+}
+
+export function isProjectReadOnly(status: ProjectStatus | undefined): boolean {
+  return status === 'archived';
+}
+
+// An entry accepted as it is, so it no longer stops the project closing
+export interface SnagWaiver {
+  reason: string;
+  waivedBy: string;
+  waivedAt: Date;
+}
+
+// Entries that keep a project from closing: neither done nor waived
+export function getClosureBlockers<T extends { status: string; waiver?: SnagWaiver | null }>(
+  snags: T[],
+  workflow: Workflow
+): T[] {
+  return snags.filter(snag => !snag.waiver && !isDoneStatus(workflow, snag.status));
+}
+
+// Full-size photos moved out of the browser when an archived project was
+// compacted. The compressed copies and thumbnails stay for viewing.
+export interface ProjectCompaction {
+  compactedAt: Date;
+  photoCount: number;
+  byteCount: number;
+  fileName: string;
+}
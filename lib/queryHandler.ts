@@ -1,5 +1,13 @@
 import { QueryIntentType, FilterCriteriaType } from './queryParser';
-import { getDB } from './db';
+import { SnagListDB, getDB, getProjectCategories, getProjectLocations, getProjectWorkflow, searchIndex } from './db';
+import { parseFilterQuery } from './filterQuery';
+import { DEFAULT_WORKFLOW, Workflow, getStatusLabel, isDoneStatus } from './workflow';
+import { matchesDueFilter } from './sla';
+import { LocationNode, matchesLocation } from './locations';
+import { DEFAULT_CATEGORIES, ProjectCategories, getCategoryLabel } from './categories';
+import { getAllAnnotations } from './photos';
+
+type SnagRecord = SnagListDB['snags']['value'];
 
 interface QueryResult {
   data?: any[];
@@ -24,10 +32,17 @@ export async function executeQuery(intent: QueryIntentType): Promise<QueryResult
     const db = await getDB();
     console.log('📁 Database connection established');
     
+    // Entries span projects, each with its own workflow and locations
+    const projects = await db.getAll('projects');
     const store = db.transaction('snags', 'readonly').objectStore('snags');
     console.log('📂 Accessed snags store');
     
-    let snags = await store.getAll();
+    // Trashed entries, and those of trashed projects, are only reachable from the Trash
+    const trashedProjects = new Set(projects.filter(project => project.deletedAt).map(project => project.name));
+    let snags = (await store.getAll()).filter(snag => !snag.deletedAt && !trashedProjects.has(snag.projectName));
+    const workflows = new Map(projects.map(project => [project.name, project.workflow ?? DEFAULT_WORKFLOW]));
+    const locations = new Map(projects.map(project => [project.name, project.locations ?? []]));
+    const categories = new Map(projects.map(project => [project.name, project.categories ?? DEFAULT_CATEGORIES]));
     console.log('📊 Retrieved snags from store:', {
       totalSnags: snags.length,
       sampleSnag: snags[0] ? {
@@ -43,7 +58,12 @@ export async function executeQuery(intent: QueryIntentType): Promise<QueryResult
     // Apply filters if they exist
     if (intent.filters) {
       console.log('🔍 Applying filters:', intent.filters);
-      snags = filterSnags(snags, intent.filters);
+      snags = filterSnags(
+        snags,
+        intent.filters,
+        projectName => workflows.get(projectName) ?? DEFAULT_WORKFLOW,
+        projectName => locations.get(projectName) ?? []
+      );
       console.log('✨ After filtering:', { 
         filteredCount: snags.length,
         filters: intent.filters 
@@ -70,10 +90,15 @@ export async function executeQuery(intent: QueryIntentType): Promise<QueryResult
 
       case 'search':
         if (!intent.searchTerm) return { data: [], debug };
-        const searchResults = snags.filter(snag => 
-          snag.description.toLowerCase().includes(intent.searchTerm!.toLowerCase()) ||
-          snag.name.toLowerCase().includes(intent.searchTerm!.toLowerCase())
-        );
+        // Keep the filtered set, in relevance order
+        const hits = await searchIndex(intent.searchTerm, {
+          kind: 'snag',
+          projectName: intent.filters?.projectName
+        });
+        const snagsById = new Map(snags.map(snag => [snag.id, snag]));
+        const searchResults = hits
+          .map(hit => snagsById.get(hit.refId))
+          .filter((snag): snag is typeof snags[number] => !!snag);
         return {
           data: searchResults,
           count: searchResults.length,
@@ -134,9 +159,7 @@ export async function executeQuery(intent: QueryIntentType): Promise<QueryResult
         };
 
       case 'annotation':
-        const snagsWithAnnotations = snags.filter(snag => 
-          snag.annotations && snag.annotations.length > 0
-        );
+        const snagsWithAnnotations = snags.filter(snag => getAllAnnotations(snag).length > 0);
         return {
           data: snagsWithAnnotations,
           count: snagsWithAnnotations.length,
@@ -147,7 +170,11 @@ export async function executeQuery(intent: QueryIntentType): Promise<QueryResult
         return {
           data: snags,
           count: snags.length,
-          summary: generateSummary(snags),
+          summary: generateSummary(
+            snags,
+            projectName => workflows.get(projectName) ?? DEFAULT_WORKFLOW,
+            projectName => categories.get(projectName) ?? DEFAULT_CATEGORIES
+          ),
           debug
         };
 
@@ -164,8 +191,16 @@ export async function executeQuery(intent: QueryIntentType): Promise<QueryResult
   }
 }
 
-// Helper function to filter snags based on criteria
-function filterSnags(snags: any[], filters: FilterCriteriaType): any[] {
+// Filters snags by the given criteria. Shared with the filter syntax in the
+// search boxes. The workflow decides which entries are done, for due filters,
+// and the location tree lets a location filter take in everything below it.
+export function filterSnags<T extends Record<string, any>>(
+  snags: T[],
+  filters: FilterCriteriaType,
+  getWorkflow: (projectName: string) => Workflow = () => DEFAULT_WORKFLOW,
+  getLocations: (projectName: string) => LocationNode[] = () => []
+): T[] {
+  const now = new Date();
   return snags.filter(snag => {
     // Project name filter
     if (filters.projectName && 
@@ -195,8 +230,8 @@ function filterSnags(snags: any[], filters: FilterCriteriaType): any[] {
     }
 
     // Location filter
-    if (filters.location && 
-        !snag.location.toLowerCase().includes(filters.location.toLowerCase())) {
+    if (filters.location &&
+        !matchesLocation(snag, filters.location, getLocations(snag.projectName))) {
       return false;
     }
 
@@ -211,10 +246,70 @@ function filterSnags(snags: any[], filters: FilterCriteriaType): any[] {
       return false;
     }
 
+    // Snag number range filter
+    if (filters.snagNumberRange) {
+      const { min, max } = filters.snagNumberRange;
+      if ((min !== undefined && snag.snagNumber < min) || (max !== undefined && snag.snagNumber > max)) {
+        return false;
+      }
+    }
+
+    // Category filters
+    if (filters.trade && snag.trade !== filters.trade) {
+      return false;
+    }
+    if (filters.tags?.some(tag => !(snag.tags ?? []).includes(tag))) {
+      return false;
+    }
+
+    // Due date filter
+    if (filters.due &&
+        !matchesDueFilter(snag.dueDate, filters.due, isDoneStatus(getWorkflow(snag.projectName), snag.status), now)) {
+      return false;
+    }
+
+    // Presence filters
+    if (filters.has?.some(field => !hasValue(snag, field))) {
+      return false;
+    }
+    if (filters.missing?.some(field => hasValue(snag, field))) {
+      return false;
+    }
+
+    // Exclusions
+    if (filters.exclude) {
+      const { priority, status, location, assignedTo, trade, tags } = filters.exclude;
+      if (priority?.includes(snag.priority)) return false;
+      if (status?.includes(snag.status)) return false;
+      if (location?.some(value => matchesLocation(snag, value, getLocations(snag.projectName)))) return false;
+      if (assignedTo?.some(value => (snag.assignedTo || '').toLowerCase() === value.toLowerCase())) return false;
+      if (trade?.includes(snag.trade)) return false;
+      if (tags?.some(tag => (snag.tags ?? []).includes(tag))) return false;
+    }
+
     return true;
   });
 }
 
+function hasValue(snag: Record<string, any>, field: NonNullable<FilterCriteriaType['has']>[number]): boolean {
+  switch (field) {
+    case 'annotations':
+      return getAllAnnotations(snag).length > 0;
+    case 'description':
+      return !!snag.description?.trim();
+    case 'assignee':
+      return !!snag.assignedTo?.trim();
+    case 'location':
+      return !!snag.location?.trim();
+    case 'due':
+      return !!snag.dueDate;
+    case 'trade':
+      return !!snag.trade;
+    case 'tags':
+      return Array.isArray(snag.tags) && snag.tags.length > 0;
+  }
+}
+
 // Helper function to sort snags
 function sortSnags(snags: any[], sort: NonNullable<QueryIntentType['sort']>): any[] {
   return [...snags].sort((a, b) => {
@@ -229,21 +324,77 @@ function sortSnags(snags: any[], sort: NonNullable<QueryIntentType['sort']>): an
   });
 }
 
-// Helper function to generate summary
-function generateSummary(snags: any[]): string {
+// Helper function to generate summary. Trades and tags are stored by id, so
+// their labels come from each entry's project.
+function generateSummary(
+  snags: SnagRecord[],
+  getWorkflow: (projectName: string) => Workflow,
+  getCategories: (projectName: string) => ProjectCategories
+): string {
   const total = snags.length;
-  const byStatus = snags.reduce((acc: any, snag) => {
-    acc[snag.status] = (acc[snag.status] || 0) + 1;
+  const byStatus = snags.reduce<Record<string, number>>((acc, snag) => {
+    const status = getStatusLabel(getWorkflow(snag.projectName), snag.status);
+    acc[status] = (acc[status] || 0) + 1;
     return acc;
   }, {});
-  const byPriority = snags.reduce((acc: any, snag) => {
+  const byPriority = snags.reduce<Record<string, number>>((acc, snag) => {
     acc[snag.priority] = (acc[snag.priority] || 0) + 1;
     return acc;
   }, {});
+  // assignedTo holds the contact's name, so spellings are already consistent
+  const byAssignee = snags.reduce<Record<string, number>>((acc, snag) => {
+    const assignee = snag.assignedTo || 'Unassigned';
+    acc[assignee] = (acc[assignee] || 0) + 1;
+    return acc;
+  }, {});
+
+  const byTrade = snags.reduce<Record<string, number>>((acc, snag) => {
+    const trade = snag.trade ? getCategoryLabel(getCategories(snag.projectName).trades, snag.trade) : 'No trade';
+    acc[trade] = (acc[trade] || 0) + 1;
+    return acc;
+  }, {});
+  const byTag = snags.reduce<Record<string, number>>((acc, snag) => {
+    for (const tag of snag.tags ?? []) {
+      const label = getCategoryLabel(getCategories(snag.projectName).tags, tag);
+      acc[label] = (acc[label] || 0) + 1;
+    }
+    return acc;
+  }, {});
 
   return `Found ${total} snags. ` +
     `Status breakdown: ${Object.entries(byStatus).map(([status, count]) => 
       `${status}: ${count}`).join(', ')}. ` +
     `Priority breakdown: ${Object.entries(byPriority).map(([priority, count]) => 
-      `${priority}: ${count}`).join(', ')}.`;
-} 
\ No newline at end of file
+      `${priority}: ${count}`).join(', ')}. ` +
+    `Assignee breakdown: ${Object.entries(byAssignee).map(([assignee, count]) => 
+      `${assignee}: ${count}`).join(', ')}. ` +
+    `Trade breakdown: ${Object.entries(byTrade).map(([trade, count]) => 
+      `${trade}: ${count}`).join(', ')}.` +
+    (Object.keys(byTag).length > 0
+      ? ` Tag breakdown: ${Object.entries(byTag).map(([tag, count]) => `${tag}: ${count}`).join(', ')}.`
+      : '');
+} 
+
+// Applies a search box query (filters plus free text) to a project's
+// entries, e.g. to count what a saved view would show
+export async function matchFilterQuery<T extends { id: string } & Record<string, any>>(
+  snags: T[],
+  query: string,
+  projectName: string
+): Promise<T[]> {
+  const [workflow, locations, categories] = await Promise.all([
+    getProjectWorkflow(projectName),
+    getProjectLocations(projectName),
+    getProjectCategories(projectName)
+  ]);
+  const { intent } = parseFilterQuery(query, workflow, categories);
+  let matches = intent.filters ? filterSnags(snags, intent.filters, () => workflow, () => locations) : snags;
+
+  if (intent.searchTerm) {
+    const hits = await searchIndex(intent.searchTerm, { projectName, kind: 'snag' });
+    const hitIds = new Set(hits.map(hit => hit.refId));
+    matches = matches.filter(snag => hitIds.has(snag.id));
+  }
+
+  return matches;
+}
@@ -0,0 +1,57 @@
+import { parseQuery } from './queryParser';
+import { DEFAULT_WORKFLOW, Workflow } from './workflow';
+
+describe('parseQuery', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads the assignee without taking "assigned" as a status', async () => {
+    const query = await parseQuery('show snags assigned to bob');
+    expect(query.filters?.status).toBeUndefined();
+    expect(query.filters?.assignedTo).toBe('bob');
+  });
+
+  it('reads the assignee without taking "fixed" as a status', async () => {
+    const query = await parseQuery('list items fixed by acme');
+    expect(query.filters?.status).toBeUndefined();
+    expect(query.filters?.assignedTo).toBe('acme');
+  });
+
+  it('reads a status named before the entries', async () => {
+    expect((await parseQuery('show fixed entries')).filters?.status).toBe('fixed');
+    expect((await parseQuery('list rejected snags assigned to bob')).filters).toMatchObject({
+      status: 'rejected',
+      assignedTo: 'bob'
+    });
+  });
+
+  it('reads a status given as "status x" or "is x"', async () => {
+    expect((await parseQuery('show entries with status verified')).filters?.status).toBe('verified');
+    expect((await parseQuery('which snags are still open')).filters?.status).toBe('open');
+  });
+
+  it('maps everyday words to the workflow', async () => {
+    expect((await parseQuery('list completed items')).filters?.status).toBe('closed');
+    expect((await parseQuery('show open items')).filters?.status).toBe('open');
+  });
+
+  it('matches states of a custom workflow', async () => {
+    const workflow: Workflow = {
+      ...DEFAULT_WORKFLOW,
+      states: [...DEFAULT_WORKFLOW.states, { id: 'on-hold', label: 'On Hold', color: '#6B7280', done: false }]
+    };
+    const query = await parseQuery('show on hold items', [], undefined, workflow);
+    expect(query.filters?.status).toBe('on-hold');
+  });
+
+  it('treats a number as a detail query', async () => {
+    const query = await parseQuery('show me snag #12');
+    expect(query.operation).toBe('detail');
+    expect(query.filters?.snagNumber).toBe(12);
+  });
+});
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { DEFAULT_WORKFLOW, Workflow, resolveStatus } from './workflow';
+import { DEFAULT_CATEGORIES, ProjectCategories, findCategory, toCategoryId } from './categories';
 
 // Define the possible query types
 export const QueryType = {
@@ -17,7 +19,8 @@ type OperationType = typeof QueryType[keyof typeof QueryType];
 export const FilterCriteria = z.object({
   projectName: z.string().optional(),
   priority: z.enum(['Low', 'Medium', 'High']).optional(),
-  status: z.enum(['In Progress', 'Completed']).optional(),
+  // Workflow state id
+  status: z.string().optional(),
   dateRange: z.object({
     start: z.date().optional(),
     end: z.date().optional(),
@@ -25,6 +28,27 @@ export const FilterCriteria = z.object({
   location: z.string().optional(),
   assignedTo: z.string().optional(),
   snagNumber: z.number().optional(),
+  snagNumberRange: z.object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }).optional(),
+  // Open entries by due date
+  due: z.enum(['overdue', 'today', 'this-week']).optional(),
+  // Category ids; an entry needs every tag listed
+  trade: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  // Fields that must be filled in / left empty
+  has: z.array(z.enum(['annotations', 'description', 'assignee', 'location', 'due', 'trade', 'tags'])).optional(),
+  missing: z.array(z.enum(['annotations', 'description', 'assignee', 'location', 'due', 'trade', 'tags'])).optional(),
+  // Values to leave out, e.g. -priority:low; an entry matching any is left out
+  exclude: z.object({
+    priority: z.array(z.enum(['Low', 'Medium', 'High'])).optional(),
+    status: z.array(z.string()).optional(),
+    location: z.array(z.string()).optional(),
+    assignedTo: z.array(z.string()).optional(),
+    trade: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+  }).optional(),
 });
 
 // Define the query intent schema
@@ -78,13 +102,40 @@ function extractPriority(text: string): 'Low' | 'Medium' | 'High' | undefined {
   return undefined;
 }
 
-// Helper function to extract status from text
-function extractStatus(text: string): 'In Progress' | 'Completed' | undefined {
-  const inProgress = text.match(/\b(in progress|ongoing|open|active)\b/i);
-  const completed = text.match(/\b(completed|done|finished|closed)\b/i);
+// Whether the text names a status where a status is expected: "status
+// fixed", "is fixed" or "fixed entries". Phrases like "assigned to bob" or
+// "fixed by acme" name a person, so the word before to/by is skipped.
+function mentionsStatus(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const withoutPeople = text.replace(/\b[a-z]+\s+(?:to|by)\b/g, ' ');
+  return [
+    `\\bstatus\\s*(?::|=|is)?\\s*${escaped}\\b`,
+    `\\b(?:is|are)\\s+(?:still\\s+)?${escaped}\\b`,
+    `\\b${escaped}\\s+(?:entries|snags|items|issues|defects|ones)\\b`
+  ].some(pattern => new RegExp(pattern, 'i').test(withoutPeople));
+}
+
+// Helper function to extract status from text. Matches the workflow's own
+// status names first, then the everyday words for open and finished work.
+function extractStatus(text: string, workflow: Workflow): string | undefined {
+  const state = workflow.states.find(option => mentionsStatus(text, option.label.toLowerCase()));
+  if (state) {
+    return state.id;
+  }
+
+  const inProgress = ['in progress', 'ongoing', 'open', 'active'].some(term => mentionsStatus(text, term));
+  const completed = ['completed', 'done', 'finished', 'closed'].some(term => mentionsStatus(text, term));
 
-  if (inProgress) return 'In Progress';
-  if (completed) return 'Completed';
+  if (inProgress) return resolveStatus(workflow, 'In Progress') ?? workflow.initialState;
+  if (completed) return resolveStatus(workflow, 'Completed') ?? workflow.states.find(option => option.done)?.id;
+  return undefined;
+}
+
+// Helper function to extract due date filters from text
+function extractDue(text: string): FilterCriteriaType['due'] {
+  if (text.match(/\b(overdue|late|past due)\b/i)) return 'overdue';
+  if (text.match(/\bdue (this week|within a week)\b/i)) return 'this-week';
+  if (text.match(/\bdue today\b/i)) return 'today';
   return undefined;
 }
 
@@ -112,8 +163,54 @@ function extractSnagNumber(text: string): number | undefined {
   return undefined;
 }
 
-// Main function to parse natural language into structured query
-export async function parseQuery(text: string): Promise<QueryIntentType> {
+// Finds a location the text mentions. Names from the project's location
+// tree are recognised anywhere ("open items on level 2"); otherwise only
+// phrases like "in the kitchen" are.
+function extractLocation(text: string, knownLocations: string[]): string | undefined {
+  const known = [...knownLocations]
+    .sort((a, b) => b.length - a.length)
+    .find(name => {
+      const escaped = name.trim().toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return escaped && new RegExp(`(^|\\W)${escaped}($|\\W)`).test(text);
+    });
+  if (known) {
+    return known.trim();
+  }
+
+  const locationMatch = text.match(/\b(?:in|on|at)\s+(?:the\s+)?([a-z0-9\s]+(?:room|area|location|kitchen|bathroom|bedroom|level|floor|building|block|site)(?:\s+\d+[a-z]?)?)\b/i);
+  return locationMatch?.[1].trim();
+}
+
+// Finds tags given as "tag:snagging" or "tagged handover". Tags the project
+// doesn't define are kept as typed, and simply match nothing.
+function extractTags(text: string, categories: ProjectCategories): string[] | undefined {
+  const tags: string[] = [];
+  const tagPattern = /\b(?:tag:|tagged\s+(?:as\s+|with\s+)?)"?([a-z0-9-]+)/g;
+  let match;
+  while ((match = tagPattern.exec(text)) !== null) {
+    tags.push(findCategory(categories.tags, match[1])?.id ?? toCategoryId(match[1]));
+  }
+  return tags.length > 0 ? tags : undefined;
+}
+
+// Finds a trade named in the text, e.g. "electrical items"
+function extractTrade(text: string, categories: ProjectCategories): string | undefined {
+  const tradeMatch = text.match(/\btrade:"?([a-z0-9-]+)/);
+  if (tradeMatch) {
+    return findCategory(categories.trades, tradeMatch[1])?.id ?? toCategoryId(tradeMatch[1]);
+  }
+  return categories.trades.find(trade => new RegExp(`\\b${toCategoryId(trade.label).replace(/-/g, '\\W+')}\\b`).test(text))?.id;
+}
+
+// Main function to parse natural language into structured query. Pass the
+// project's location names, categories and workflow so they can be picked
+// out of the text.
+export async function parseQuery(
+  text: string,
+  knownLocations: string[] = [],
+  categories: ProjectCategories = DEFAULT_CATEGORIES,
+  workflow: Workflow = DEFAULT_WORKFLOW
+): Promise<QueryIntentType> {
   text = text.toLowerCase();
   console.log('🔍 Parsing query text:', text);
   
@@ -148,11 +245,16 @@ export async function parseQuery(text: string): Promise<QueryIntentType> {
     operation = 'summary';
   }
 
-  // Extract filters
+  // Extract filters. "due today" is about the due date, not when the
+  // entry was created.
+  const due = extractDue(text);
   const filters: FilterCriteriaType = {
-    dateRange: extractDateRange(text),
+    dateRange: due ? {} : extractDateRange(text),
     priority: extractPriority(text),
-    status: extractStatus(text),
+    status: extractStatus(text, workflow),
+    due,
+    trade: extractTrade(text, categories),
+    tags: extractTags(text, categories),
   };
 
   // Extract project name if mentioned
@@ -162,9 +264,9 @@ export async function parseQuery(text: string): Promise<QueryIntentType> {
   }
 
   // Extract location if mentioned
-  const locationMatch = text.match(/\bin\s+([a-z0-9\s]+(?:room|area|location|kitchen|bathroom|bedroom))\b/i);
-  if (locationMatch) {
-    filters.location = locationMatch[1].trim();
+  const location = extractLocation(text, knownLocations);
+  if (location) {
+    filters.location = location;
   }
 
   // Extract assigned person if mentioned
@@ -0,0 +1,129 @@
+import type jsPDF from 'jspdf';
+import { getMediaDataUrl } from './db';
+import { describeProjectDetails, getProjectHeaderLine, ProjectDetails } from './projectDetails';
+
+// Cover pages and running page headers shared by the PDF reports
+
+export interface ReportLogo {
+  dataUrl: string;
+  format: 'PNG' | 'JPEG';
+  width: number;
+  height: number;
+}
+
+export interface ReportCover {
+  projectName: string;
+  title: string;
+  details: ProjectDetails | null;
+  logo: ReportLogo | null;
+  // Extra lines under the details, e.g. entry counts
+  summary: string[];
+  generatedAt: Date;
+}
+
+export async function loadReportLogo(details: ProjectDetails | null): Promise<ReportLogo | null> {
+  if (!details?.logoId) return null;
+
+  const dataUrl = await getMediaDataUrl(details.logoId);
+  if (!dataUrl) return null;
+
+  const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = () => reject(new Error('Failed to load project logo'));
+    img.src = dataUrl;
+  });
+
+  return { dataUrl, format: dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG', width, height };
+}
+
+// Reports only get a cover once there is something to put on it
+export function hasCover(cover: Pick<ReportCover, 'details' | 'logo'>): boolean {
+  return cover.logo !== null || describeProjectDetails(cover.details).length > 0;
+}
+
+// Draws the cover on the current page; the caller adds the next page
+export function drawCoverPage(doc: jsPDF, cover: ReportCover) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - 2 * margin;
+  let yPosition = margin;
+
+  if (cover.logo) {
+    // Fit within 70 x 30 mm, keeping the aspect ratio
+    const scale = Math.min(70 / cover.logo.width, 30 / cover.logo.height);
+    const width = cover.logo.width * scale;
+    const height = cover.logo.height * scale;
+    doc.addImage(cover.logo.dataUrl, cover.logo.format, margin, yPosition, width, height);
+    yPosition += height;
+  }
+
+  yPosition = Math.max(yPosition + 25, 90);
+  doc.setFont(undefined, 'bold');
+  doc.setFontSize(28);
+  doc.setTextColor(0, 0, 0);
+  const titleLines = doc.splitTextToSize(cover.projectName, contentWidth);
+  doc.text(titleLines, margin, yPosition);
+  yPosition += titleLines.length * 11;
+
+  doc.setFont(undefined, 'normal');
+  doc.setFontSize(16);
+  doc.setTextColor(100, 100, 100);
+  doc.text(cover.title, margin, yPosition);
+  yPosition += 8;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 12;
+
+  doc.setFontSize(11);
+  for (const row of describeProjectDetails(cover.details)) {
+    const valueLines = doc.splitTextToSize(row.value, contentWidth - 50);
+    doc.setFont(undefined, 'bold');
+    doc.setTextColor(100, 100, 100);
+    doc.text(row.label, margin, yPosition);
+    doc.setFont(undefined, 'normal');
+    doc.setTextColor(0, 0, 0);
+    doc.text(valueLines, margin + 50, yPosition);
+    yPosition += valueLines.length * 6 + 2;
+  }
+
+  if (cover.summary.length > 0) {
+    yPosition += 6;
+    doc.setFontSize(10);
+    doc.setTextColor(60, 60, 60);
+    for (const line of cover.summary) {
+      const splitLine = doc.splitTextToSize(line, contentWidth);
+      doc.text(splitLine, margin, yPosition);
+      yPosition += splitLine.length * 5;
+    }
+  }
+
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    `Generated on ${cover.generatedAt.toLocaleDateString()} at ${cover.generatedAt.toLocaleTimeString()}`,
+    margin,
+    pageHeight - margin
+  );
+  doc.setTextColor(0, 0, 0);
+}
+
+// Writes the project line and page numbers at the top of every page from
+// firstPage on. Call once all pages have been added.
+export function drawPageHeaders(doc: jsPDF, projectName: string, details: ProjectDetails | null, firstPage = 1) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageCount = doc.internal.getNumberOfPages();
+  const margin = 15;
+  const headerLine = getProjectHeaderLine(projectName, details);
+
+  for (let page = firstPage; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont(undefined, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(140, 140, 140);
+    doc.text(doc.splitTextToSize(headerLine, pageWidth - 2 * margin - 30)[0], margin, 8);
+    doc.text(`Page ${page - firstPage + 1} of ${pageCount - firstPage + 1}`, pageWidth - margin, 8, { align: 'right' });
+  }
+  doc.setTextColor(0, 0, 0);
+}
@@ -0,0 +1,100 @@
+// Inspection rounds. A project is walked repeatedly; each walk is a round.
+// New entries are tagged with the round that is open when they're added,
+// and open entries from earlier rounds are re-checked in the next one.
+// Re-check results live on the entry, one per round.
+
+export interface InspectionRound {
+  id: string;
+  // 1-based, in the order rounds were started
+  number: number;
+  // Optional label, e.g. "Pre-handover walk"
+  name: string;
+  startedAt: Date;
+  // Null while the round is in progress
+  closedAt: Date | null;
+}
+
+export type RoundCheckResult = 'still-open' | 'fixed';
+
+export interface RoundCheck {
+  roundId: string;
+  result: RoundCheckResult;
+  checkedAt: Date;
+}
+
+// Where an entry stands in a round: found in it, or carried over and
+// (maybe not yet) re-checked
+export type RoundEntryState = 'new' | RoundCheckResult | 'unchecked';
+
+export const ROUND_CHECK_RESULTS: { id: RoundCheckResult; label: string }[] = [
+  { id: 'still-open', label: 'Still open' },
+  { id: 'fixed', label: 'Fixed' }
+];
+
+interface RoundFields {
+  roundId?: string | null;
+  roundChecks?: RoundCheck[];
+  createdAt: Date | string;
+}
+
+export function getRoundLabel(round: InspectionRound): string {
+  return round.name.trim() ? `Round ${round.number}: ${round.name.trim()}` : `Round ${round.number}`;
+}
+
+export function getRoundStateLabel(state: RoundEntryState): string {
+  return state === 'new' ? 'New' : state === 'unchecked' ? 'Not checked' : ROUND_CHECK_RESULTS.find(result => result.id === state)!.label;
+}
+
+// The round new entries are added to, if one is in progress
+export function getOpenRound(rounds: InspectionRound[]): InspectionRound | null {
+  return rounds.find(round => !round.closedAt) ?? null;
+}
+
+export function getRoundCheck(snag: RoundFields, roundId: string): RoundCheck | undefined {
+  return snag.roundChecks?.find(check => check.roundId === roundId);
+}
+
+// Replaces the entry's check for a round; null removes it
+export function setRoundCheck(checks: RoundCheck[], roundId: string, result: RoundCheckResult | null, now: Date): RoundCheck[] {
+  const others = checks.filter(check => check.roundId !== roundId);
+  return result ? [...others, { roundId, result, checkedAt: now }] : others;
+}
+
+// Entries to re-check in a round: found before it started, not already
+// marked fixed in an earlier round, and still open (or re-checked in this
+// round, so closed-out entries stay on that round's report)
+export function getCarryOverSnags<T extends RoundFields>(
+  snags: T[],
+  rounds: InspectionRound[],
+  round: InspectionRound,
+  isDone: (snag: T) => boolean
+): T[] {
+  const earlierRoundIds = new Set(rounds.filter(other => other.number < round.number).map(other => other.id));
+  const startedAt = new Date(round.startedAt).getTime();
+
+  return snags.filter(snag => {
+    if (snag.roundId === round.id) return false;
+    if (snag.roundId ? !earlierRoundIds.has(snag.roundId) : new Date(snag.createdAt).getTime() >= startedAt) return false;
+    if (getRoundCheck(snag, round.id)) return true;
+
+    const fixedEarlier = (snag.roundChecks ?? []).some(check => check.result === 'fixed' && earlierRoundIds.has(check.roundId));
+    return !fixedEarlier && !isDone(snag);
+  });
+}
+
+export function getNewSnags<T extends RoundFields>(snags: T[], round: InspectionRound): T[] {
+  return snags.filter(snag => snag.roundId === round.id);
+}
+
+export function getRoundEntryState(snag: RoundFields, round: InspectionRound): RoundEntryState {
+  if (snag.roundId === round.id) return 'new';
+  return getRoundCheck(snag, round.id)?.result ?? 'unchecked';
+}
+
+export function summarizeRound<T extends RoundFields>(carryOver: T[], found: T[], round: InspectionRound): Record<RoundEntryState, number> {
+  const counts: Record<RoundEntryState, number> = { new: found.length, 'still-open': 0, fixed: 0, unchecked: 0 };
+  for (const snag of carryOver) {
+    counts[getRoundEntryState(snag, round)]++;
+  }
+  return counts;
+}
@@ -0,0 +1,286 @@
+// Full-text search helpers. Documents are stored in the searchIndex store with
+// a multiEntry index over their tokens; everything here is pure so it can run
+// inside migrations as well as at query time.
+
+export type SearchDocKind = 'snag' | 'recording';
+
+export type SearchField =
+  | 'name'
+  | 'snagNumber'
+  | 'description'
+  | 'location'
+  | 'assignedTo'
+  | 'annotations'
+  | 'status'
+  | 'priority'
+  | 'fileName'
+  | 'transcription';
+
+export interface SearchDoc {
+  // `${kind}:${refId}`
+  id: string;
+  kind: SearchDocKind;
+  refId: string;
+  projectName: string;
+  fields: Partial<Record<SearchField, string>>;
+  // Distinct tokens across all fields
+  tokens: string[];
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  kind: SearchDocKind;
+  refId: string;
+  projectName: string;
+  score: number;
+  field: SearchField;
+  snippet: SnippetPart[];
+}
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  snagNumber: 3,
+  location: 2,
+  assignedTo: 2,
+  description: 1.5,
+  transcription: 1.5,
+  fileName: 1,
+  annotations: 1,
+  status: 0.5,
+  priority: 0.5
+};
+
+// Match quality by kind of match
+export const EXACT_MATCH = 1;
+export const PREFIX_MATCH = 0.7;
+export const TYPO_MATCH = 0.5;
+
+// Anything that isn't whitespace or ASCII punctuation
+const WORD_PATTERN = /[^\s!-\/:-@\[-`{-~]+/g;
+
+function foldWord(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2000-\u206f\u2e00-\u2e7f]/g, '')
+    .toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(foldWord).filter(Boolean);
+}
+
+function createDoc(
+  kind: SearchDocKind,
+  refId: string,
+  projectName: string,
+  fields: Partial<Record<SearchField, string>>
+): SearchDoc {
+  const tokens = new Set<string>();
+  Object.values(fields).forEach(text => tokenize(text ?? '').forEach(token => tokens.add(token)));
+  return {
+    id: `${kind}:${refId}`,
+    kind,
+    refId,
+    projectName,
+    fields,
+    tokens: Array.from(tokens)
+  };
+}
+
+export function buildSnagSearchDoc(snag: {
+  id: string;
+  projectName: string;
+  snagNumber: number;
+  name: string;
+  description: string;
+  location: string;
+  assignedTo: string;
+  status: string;
+  priority: string;
+  annotations: { text?: string }[];
+  // Every photo's annotations, when the entry has a gallery
+  photos?: { annotations?: { text?: string }[] }[];
+}): SearchDoc {
+  const annotations = snag.photos?.length
+    ? snag.photos.flatMap(photo => photo.annotations ?? [])
+    : snag.annotations || [];
+
+  return createDoc('snag', snag.id, snag.projectName, {
+    name: snag.name || '',
+    snagNumber: String(snag.snagNumber),
+    description: snag.description || '',
+    location: snag.location || '',
+    assignedTo: snag.assignedTo || '',
+    annotations: annotations.map(annotation => annotation?.text || '').filter(Boolean).join('; '),
+    status: snag.status || '',
+    priority: snag.priority || ''
+  });
+}
+
+export function buildRecordingSearchDoc(recording: {
+  id: string;
+  projectName: string;
+  fileName: string;
+  transcription?: string;
+}): SearchDoc {
+  return createDoc('recording', recording.id, recording.projectName, {
+    fileName: recording.fileName || '',
+    transcription: recording.transcription || ''
+  });
+}
+
+// Typos allowed before a term stops matching; short terms must be exact
+export function maxTypos(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+// Levenshtein distance, giving up early once it exceeds max
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Maps each query term to the indexed tokens it matches: exact, as a prefix,
+// or within a couple of typos
+export function expandSearchTerms(vocabulary: Iterable<string>, terms: string[]): Map<string, number>[] {
+  const expansions = terms.map(() => new Map<string, number>());
+
+  for (const token of Array.from(vocabulary)) {
+    terms.forEach((term, i) => {
+      let quality = 0;
+      if (token === term) {
+        quality = EXACT_MATCH;
+      } else if (token.startsWith(term)) {
+        quality = PREFIX_MATCH;
+      } else if (maxTypos(term) > 0 && editDistance(term, token, maxTypos(term)) <= maxTypos(term)) {
+        quality = TYPO_MATCH;
+      }
+      if (quality > 0) expansions[i].set(token, quality);
+    });
+  }
+
+  return expansions;
+}
+
+// Scores a document against the expanded query terms (token -> match
+// quality, one map per term). Every term has to match somewhere.
+export function rankDoc(doc: SearchDoc, termMatches: Map<string, number>[]): SearchHit | null {
+  const fieldTokens = (Object.keys(doc.fields) as SearchField[]).map(field => ({
+    field,
+    tokens: tokenize(doc.fields[field] ?? '')
+  }));
+
+  let score = 0;
+  let bestField: SearchField | null = null;
+  let bestFieldScore = 0;
+  const matchedTokens = new Set<string>();
+
+  for (const matches of termMatches) {
+    let termScore = 0;
+    for (const { field, tokens } of fieldTokens) {
+      let fieldScore = 0;
+      let occurrences = 0;
+      for (const token of tokens) {
+        const quality = matches.get(token);
+        if (quality) {
+          fieldScore = Math.max(fieldScore, quality * FIELD_WEIGHTS[field]);
+          occurrences++;
+          matchedTokens.add(token);
+        }
+      }
+      if (fieldScore > 0) {
+        // Repeated mentions help a little, but never outweigh a better field
+        fieldScore += Math.min(occurrences - 1, 3) * 0.1;
+      }
+      if (fieldScore > termScore) termScore = fieldScore;
+      if (fieldScore > bestFieldScore) {
+        bestFieldScore = fieldScore;
+        bestField = field;
+      }
+    }
+    if (termScore === 0) return null;
+    score += termScore;
+  }
+
+  if (!bestField) return null;
+
+  return {
+    kind: doc.kind,
+    refId: doc.refId,
+    projectName: doc.projectName,
+    score,
+    field: bestField,
+    snippet: buildSnippet(doc.fields[bestField] ?? '', matchedTokens)
+  };
+}
+
+// Cuts a window of text around the first match and marks every matched word
+export function buildSnippet(text: string, matchedTokens: Set<string>, maxLength = 120): SnippetPart[] {
+  const words: { start: number; end: number; match: boolean }[] = [];
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text)) !== null) {
+    words.push({
+      start: found.index,
+      end: found.index + found[0].length,
+      match: matchedTokens.has(foldWord(found[0]))
+    });
+  }
+
+  const firstMatch = words.find(word => word.match);
+  let start = 0;
+  let end = text.length;
+  if (text.length > maxLength) {
+    start = firstMatch ? Math.max(0, firstMatch.start - Math.floor(maxLength / 3)) : 0;
+    end = Math.min(text.length, start + maxLength);
+    // Don't cut words in half
+    const startWord = words.find(word => word.end > start);
+    if (startWord && startWord.start < start) start = startWord.end;
+    const endWord = words.find(word => word.end > end);
+    if (endWord && endWord.start < end) end = endWord.start;
+  }
+
+  const parts: SnippetPart[] = [];
+  const push = (partText: string, highlight: boolean) => {
+    if (!partText) return;
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === highlight) {
+      last.text += partText;
+    } else {
+      parts.push({ text: partText, highlight });
+    }
+  };
+
+  if (start > 0) push('…', false);
+  let cursor = start;
+  for (const word of words) {
+    if (!word.match || word.start < start || word.end > end) continue;
+    push(text.slice(cursor, word.start), false);
+    push(text.slice(word.start, word.end), true);
+    cursor = word.end;
+  }
+  push(text.slice(cursor, end).trimEnd(), false);
+  if (end < text.length) push('…', false);
+
+  return parts;
+}
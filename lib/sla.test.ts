@@ -0,0 +1,81 @@
+import { EMPTY_SLA, computeDueDate, getDaysOverdue, getOverdueSnags, isOverdue, matchesDueFilter, validateSla } from './sla';
+
+// A Wednesday, mid-afternoon
+const NOW = new Date(2024, 4, 15, 15, 30);
+
+describe('computeDueDate', () => {
+  it('adds the priority\'s days to the observation date', () => {
+    const sla = { ...EMPTY_SLA, High: 2 };
+    expect(computeDueDate(new Date(2024, 4, 15, 9, 45), 'High', sla)).toEqual(new Date(2024, 4, 17));
+  });
+
+  it('leaves the due date empty without a target', () => {
+    expect(computeDueDate(NOW, 'Low', { ...EMPTY_SLA, High: 2 })).toBeNull();
+    expect(computeDueDate(NOW, 'High', null)).toBeNull();
+  });
+
+  it('treats zero days as due the same day', () => {
+    expect(computeDueDate(NOW, 'Medium', { ...EMPTY_SLA, Medium: 0 })).toEqual(new Date(2024, 4, 15));
+  });
+});
+
+describe('getDaysOverdue', () => {
+  it('counts calendar days', () => {
+    expect(getDaysOverdue(new Date(2024, 4, 13, 23, 0), NOW)).toBe(2);
+    expect(getDaysOverdue(new Date(2024, 4, 15), NOW)).toBe(0);
+    expect(getDaysOverdue(new Date(2024, 4, 16), NOW)).toBe(-1);
+  });
+});
+
+describe('isOverdue', () => {
+  it('is only true for open entries past their due date', () => {
+    expect(isOverdue(new Date(2024, 4, 14), false, NOW)).toBe(true);
+    expect(isOverdue(new Date(2024, 4, 14), true, NOW)).toBe(false);
+    expect(isOverdue(new Date(2024, 4, 15), false, NOW)).toBe(false);
+    expect(isOverdue(null, false, NOW)).toBe(false);
+  });
+});
+
+describe('matchesDueFilter', () => {
+  it('matches entries due today', () => {
+    expect(matchesDueFilter(new Date(2024, 4, 15), 'today', false, NOW)).toBe(true);
+    expect(matchesDueFilter(new Date(2024, 4, 14), 'today', false, NOW)).toBe(false);
+  });
+
+  it('matches entries due later this week, starting Monday', () => {
+    expect(matchesDueFilter(new Date(2024, 4, 19), 'this-week', false, NOW)).toBe(true);
+    expect(matchesDueFilter(new Date(2024, 4, 20), 'this-week', false, NOW)).toBe(false);
+    expect(matchesDueFilter(new Date(2024, 4, 13), 'this-week', false, NOW)).toBe(false);
+  });
+
+  it('never matches done entries or those without a due date', () => {
+    expect(matchesDueFilter(new Date(2024, 4, 1), 'overdue', true, NOW)).toBe(false);
+    expect(matchesDueFilter(undefined, 'overdue', false, NOW)).toBe(false);
+  });
+});
+
+describe('getOverdueSnags', () => {
+  it('lists open overdue entries, most overdue first', () => {
+    const snags = [
+      { id: 'a', dueDate: new Date(2024, 4, 10), done: false },
+      { id: 'b', dueDate: new Date(2024, 4, 1), done: false },
+      { id: 'c', dueDate: new Date(2024, 4, 2), done: true },
+      { id: 'd', dueDate: new Date(2024, 4, 20), done: false },
+      { id: 'e', dueDate: null, done: false }
+    ];
+    expect(getOverdueSnags(snags, snag => snag.done, NOW).map(snag => snag.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('validateSla', () => {
+  it('accepts whole days or none', () => {
+    expect(validateSla({ High: 1, Medium: 0, Low: null })).toEqual([]);
+  });
+
+  it('rejects negative and fractional days', () => {
+    expect(validateSla({ High: -1, Medium: 1.5, Low: 7 })).toEqual([
+      'High priority needs a whole number of days, or none',
+      'Medium priority needs a whole number of days, or none'
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { addDays, differenceInCalendarDays, isSameWeek, startOfDay } from 'date-fns';
+
+// Due dates and service levels. A project can give each priority a number of
+// days to fix; new entries are then due that many days after observation.
+
+export type SnagPriority = 'Low' | 'Medium' | 'High';
+
+// Days allowed per priority; null means no default due date
+export type SlaSettings = Record<SnagPriority, number | null>;
+
+export type DueFilter = 'overdue' | 'today' | 'this-week';
+
+export const EMPTY_SLA: SlaSettings = { High: null, Medium: null, Low: null };
+
+export function computeDueDate(
+  observationDate: Date | string,
+  priority: SnagPriority,
+  sla: SlaSettings | null
+): Date | null {
+  const days = sla?.[priority];
+  if (days === null || days === undefined) return null;
+  return startOfDay(addDays(new Date(observationDate), days));
+}
+
+// Days past the due date; 0 or less when not yet late
+export function getDaysOverdue(dueDate: Date | string, now: Date = new Date()): number {
+  return differenceInCalendarDays(now, new Date(dueDate));
+}
+
+// Entries in a done status are never overdue
+export function isOverdue(dueDate: Date | string | null | undefined, done: boolean, now: Date = new Date()): boolean {
+  return !!dueDate && !done && getDaysOverdue(dueDate, now) > 0;
+}
+
+export function matchesDueFilter(
+  dueDate: Date | string | null | undefined,
+  filter: DueFilter,
+  done: boolean,
+  now: Date = new Date()
+): boolean {
+  if (!dueDate || done) return false;
+
+  const daysOverdue = getDaysOverdue(dueDate, now);
+  switch (filter) {
+    case 'overdue':
+      return daysOverdue > 0;
+    case 'today':
+      return daysOverdue === 0;
+    case 'this-week':
+      return daysOverdue <= 0 && isSameWeek(new Date(dueDate), now, { weekStartsOn: 1 });
+  }
+}
+
+// Open entries past their due date, most overdue first
+export function getOverdueSnags<T extends { dueDate?: Date | string | null }>(
+  snags: T[],
+  isDone: (snag: T) => boolean,
+  now: Date = new Date()
+): T[] {
+  return snags
+    .filter(snag => isOverdue(snag.dueDate, isDone(snag), now))
+    .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime());
+}
+
+// Checks SLA settings before they are saved
+export function validateSla(sla: SlaSettings): string[] {
+  return (Object.keys(sla) as SnagPriority[])
+    .filter(priority => {
+      const days = sla[priority];
+      return days !== null && (!Number.isInteger(days) || days < 0);
+    })
+    .map(priority => `${priority} priority needs a whole number of days, or none`);
+}
@@ -0,0 +1,54 @@
+// Moving and copying entries between projects. An entry arriving in another
+// project is numbered there like a new one and keeps a reference to the
+// number it had where it came from.
+
+export type TransferMode = 'move' | 'copy';
+
+export const TRANSFER_MODES: { id: TransferMode; label: string }[] = [
+  { id: 'move', label: 'Move' },
+  { id: 'copy', label: 'Copy' }
+];
+
+export interface SnagOrigin {
+  mode: TransferMode;
+  projectName: string;
+  snagNumber: number;
+  transferredAt: Date;
+}
+
+// e.g. "Previously #12 in Block A"
+export function getOriginLabel(origin: SnagOrigin): string {
+  return origin.mode === 'move'
+    ? `Previously #${origin.snagNumber} in ${origin.projectName}`
+    : `Copy of #${origin.snagNumber} in ${origin.projectName}`;
+}
+
+// How much of a project a clone takes along. Contacts and checklist
+// templates are shared by all projects, so every clone can use them as is.
+export type CloneDepth = 'structure' | 'open' | 'all';
+
+export const CLONE_DEPTHS: { id: CloneDepth; label: string; description: string }[] = [
+  {
+    id: 'structure',
+    label: 'Structure only',
+    description: 'Locations, trades and tags, workflow, due date targets, report details, checklists and saved views. No entries.'
+  },
+  {
+    id: 'open',
+    label: 'Open entries',
+    description: 'The structure plus every entry not yet done, for a follow-up inspection.'
+  },
+  {
+    id: 'all',
+    label: 'Everything',
+    description: 'The structure plus every entry, done or not.'
+  }
+];
+
+export interface ProjectSource {
+  projectId: string;
+  // Name when cloned; the source may have been renamed or deleted since
+  projectName: string;
+  depth: CloneDepth;
+  clonedAt: Date;
+}
@@ -98,6 +98,56 @@ const getBase64Size = (base64String: string): number => {
   return (base64Length * 0.75) - padding;
 };
 
+// Decodes a data URL synchronously, so it is safe to call inside an
+// IndexedDB transaction (unlike fetch(dataUrl), which would let it commit)
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = dataUrl.match(/^data:([^;,]*)(;base64)?,([\s\S]*)$/);
+  if (!match) {
+    throw new Error('Not a data URL');
+  }
+
+  const [, mimeType, isBase64, payload] = match;
+  if (!isBase64) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType || 'text/plain' });
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType || 'application/octet-stream' });
+};
+
+// Saves a file through the browser's download prompt
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// e.g. "12.4 MB"
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+  });
+};
+
 export const generateThumbnail = async (
   imageUrl: string,
   options: {
@@ -163,3 +213,12 @@ export const generateThumbnail = async (
     img.src = imageUrl;
   });
 };
+
+// Reads a picked photo into the sizes the upload flows store: the file as
+// the original, a compressed copy and a thumbnail
+export const preparePhotoFile = async (file: File): Promise<{ original: File; compressed: Blob; thumbnail: Blob }> => {
+  const dataUrl = await blobToDataUrl(file);
+  const compressed = await compressImage(dataUrl, { maxWidth: 1920, quality: 0.8, maxSizeMB: 2 });
+  const thumbnail = await generateThumbnail(dataUrl, { maxWidth: 800, quality: 0.95, maxSizeMB: 0.8 });
+  return { original: file, compressed: dataUrlToBlob(compressed), thumbnail: dataUrlToBlob(thumbnail) };
+};
@@ -0,0 +1,150 @@
+import {
+  DEFAULT_WORKFLOW,
+  Workflow,
+  assertTransitionAllowed,
+  getAllowedStatuses,
+  getStatusOrder,
+  getTransitionRequirements,
+  mapStatusToWorkflow,
+  migrateLegacyStatus,
+  resolveCompletionDate,
+  resolveStatus,
+  toStatusId,
+  validateWorkflow
+} from './workflow';
+
+const SIMPLE_WORKFLOW: Workflow = {
+  states: [
+    { id: 'to-do', label: 'To Do', color: '#F59E0B', done: false },
+    { id: 'signed-off', label: 'Signed Off', color: '#22C55E', done: true }
+  ],
+  transitions: [{ from: 'to-do', to: 'signed-off', requires: [] }],
+  initialState: 'to-do'
+};
+
+describe('migrateLegacyStatus', () => {
+  it('maps statuses from before workflows', () => {
+    expect(migrateLegacyStatus('In Progress')).toBe('open');
+    expect(migrateLegacyStatus('Completed')).toBe('closed');
+    expect(migrateLegacyStatus('fixed')).toBe('fixed');
+  });
+});
+
+describe('resolveStatus', () => {
+  it('matches by id, label or legacy name', () => {
+    expect(resolveStatus(DEFAULT_WORKFLOW, 'verified')).toBe('verified');
+    expect(resolveStatus(SIMPLE_WORKFLOW, 'Signed Off')).toBe('signed-off');
+    expect(resolveStatus(SIMPLE_WORKFLOW, 'signed_off')).toBe('signed-off');
+    expect(resolveStatus(DEFAULT_WORKFLOW, 'in progress')).toBe('open');
+  });
+
+  it('returns undefined for states the workflow lacks', () => {
+    expect(resolveStatus(SIMPLE_WORKFLOW, 'fixed')).toBeUndefined();
+  });
+});
+
+describe('getAllowedStatuses', () => {
+  it('lists the current state and those reachable from it', () => {
+    expect(getAllowedStatuses(DEFAULT_WORKFLOW, 'fixed').map(state => state.id)).toEqual(['fixed', 'verified', 'rejected']);
+  });
+});
+
+describe('getStatusOrder', () => {
+  it('puts unknown states last', () => {
+    expect(getStatusOrder(DEFAULT_WORKFLOW, 'open')).toBe(0);
+    expect(getStatusOrder(DEFAULT_WORKFLOW, 'gone')).toBe(DEFAULT_WORKFLOW.states.length);
+  });
+});
+
+describe('getTransitionRequirements', () => {
+  it('asks for nothing when the status stays', () => {
+    expect(getTransitionRequirements(DEFAULT_WORKFLOW, 'fixed', 'fixed')).toEqual([]);
+    expect(getTransitionRequirements(DEFAULT_WORKFLOW, 'open', 'fixed')).toEqual(['evidence']);
+  });
+});
+
+describe('assertTransitionAllowed', () => {
+  it('allows staying put and defined moves', () => {
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'open', 'open', {})).not.toThrow();
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'open', 'assigned', {})).not.toThrow();
+  });
+
+  it('refuses moves the workflow has no transition for', () => {
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'open', 'verified', {}))
+      .toThrow("Entries can't move from Open to Verified");
+  });
+
+  it('refuses states outside the workflow', () => {
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'open', 'on-hold', {}))
+      .toThrow('"on-hold" is not a status in this project\'s workflow');
+  });
+
+  it('requires what the transition asks for', () => {
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'open', 'fixed', { evidence: '  ' }))
+      .toThrow('Evidence is required to move an entry to Fixed');
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'open', 'fixed', { evidence: 'Resealed' })).not.toThrow();
+    expect(() => assertTransitionAllowed(DEFAULT_WORKFLOW, 'verified', 'closed', { completionDate: null }))
+      .toThrow('A completion date is required to move an entry to Closed');
+  });
+});
+
+describe('resolveCompletionDate', () => {
+  const now = new Date(2026, 5, 1);
+  const closedOn = new Date(2026, 4, 20);
+
+  it('clears the date outside done states', () => {
+    expect(resolveCompletionDate(DEFAULT_WORKFLOW, 'closed', 'open', closedOn, undefined, now)).toBeNull();
+    expect(resolveCompletionDate(DEFAULT_WORKFLOW, 'open', 'fixed', null, closedOn, now)).toBeNull();
+  });
+
+  it('stamps the date given, or today, on entering a done state', () => {
+    expect(resolveCompletionDate(DEFAULT_WORKFLOW, 'verified', 'closed', null, closedOn, now)).toBe(closedOn);
+    expect(resolveCompletionDate(DEFAULT_WORKFLOW, 'verified', 'closed', null, null, now)).toBe(now);
+  });
+
+  it('keeps the date of an entry that stays done', () => {
+    expect(resolveCompletionDate(DEFAULT_WORKFLOW, 'closed', 'closed', closedOn, undefined, now)).toBe(closedOn);
+    expect(resolveCompletionDate(DEFAULT_WORKFLOW, 'closed', 'closed', closedOn, now, now)).toBe(now);
+  });
+});
+
+describe('mapStatusToWorkflow', () => {
+  it('keeps a state the target workflow has', () => {
+    expect(mapStatusToWorkflow(DEFAULT_WORKFLOW, DEFAULT_WORKFLOW, 'fixed')).toBe('fixed');
+  });
+
+  it('sends done entries to the first done state and the rest to the start', () => {
+    expect(mapStatusToWorkflow(DEFAULT_WORKFLOW, SIMPLE_WORKFLOW, 'closed')).toBe('signed-off');
+    expect(mapStatusToWorkflow(DEFAULT_WORKFLOW, SIMPLE_WORKFLOW, 'fixed')).toBe('to-do');
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('accepts the default workflow', () => {
+    expect(validateWorkflow(DEFAULT_WORKFLOW)).toEqual([]);
+  });
+
+  it('reports every problem', () => {
+    const errors = validateWorkflow({
+      states: [
+        { id: 'a', label: 'A', color: '#000000', done: false },
+        { id: 'a', label: 'A', color: '#000000', done: false }
+      ],
+      transitions: [{ from: 'a', to: 'b', requires: [] }],
+      initialState: 'b'
+    });
+    expect(errors).toEqual([
+      'The status "A" is defined twice',
+      'The starting status must be one of the workflow\'s statuses',
+      'At least one status must mark entries as done',
+      'A transition refers to a status that no longer exists'
+    ]);
+  });
+});
+
+describe('toStatusId', () => {
+  it('turns a label into an id', () => {
+    expect(toStatusId('  Awaiting Verification ')).toBe('awaiting-verification');
+    expect(toStatusId('On hold / blocked!')).toBe('on-hold-blocked');
+  });
+});
@@ -0,0 +1,203 @@
+// Status workflows. Each project can define its own states and the moves
+// allowed between them; entries store the state id in `status`. Everything
+// here is pure so it can run in migrations, filters and the UI alike.
+
+export type StatusRequirement = 'completionDate' | 'evidence';
+
+export interface WorkflowState {
+  id: string;
+  label: string;
+  // Hex colour, also used in PDFs
+  color: string;
+  // Entries in a done state count as completed: they get the COMPLETED
+  // watermark, a completion date and the celebration on arrival
+  done: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  // What has to be supplied when making this move
+  requires: StatusRequirement[];
+}
+
+export interface Workflow {
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+  // State given to new entries
+  initialState: string;
+}
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  states: [
+    { id: 'open', label: 'Open', color: '#F59E0B', done: false },
+    { id: 'assigned', label: 'Assigned', color: '#3B82F6', done: false },
+    { id: 'fixed', label: 'Fixed', color: '#8B5CF6', done: false },
+    { id: 'verified', label: 'Verified', color: '#14B8A6', done: false },
+    { id: 'rejected', label: 'Rejected', color: '#EF4444', done: false },
+    { id: 'closed', label: 'Closed', color: '#22C55E', done: true }
+  ],
+  transitions: [
+    { from: 'open', to: 'assigned', requires: [] },
+    { from: 'open', to: 'fixed', requires: ['evidence'] },
+    { from: 'open', to: 'closed', requires: ['completionDate'] },
+    { from: 'assigned', to: 'open', requires: [] },
+    { from: 'assigned', to: 'fixed', requires: ['evidence'] },
+    { from: 'fixed', to: 'verified', requires: [] },
+    { from: 'fixed', to: 'rejected', requires: ['evidence'] },
+    { from: 'rejected', to: 'assigned', requires: [] },
+    { from: 'rejected', to: 'fixed', requires: ['evidence'] },
+    { from: 'verified', to: 'closed', requires: ['completionDate'] },
+    { from: 'closed', to: 'open', requires: [] }
+  ],
+  initialState: 'open'
+};
+
+// Statuses from before workflows existed
+const LEGACY_STATUSES: Record<string, string> = {
+  'In Progress': 'open',
+  'Completed': 'closed'
+};
+
+export function migrateLegacyStatus(status: string): string {
+  return LEGACY_STATUSES[status] ?? status;
+}
+
+export function getWorkflowState(workflow: Workflow, status: string): WorkflowState | undefined {
+  return workflow.states.find(state => state.id === status);
+}
+
+export function getStatusLabel(workflow: Workflow, status: string): string {
+  return getWorkflowState(workflow, status)?.label ?? status;
+}
+
+export function getStatusColor(workflow: Workflow, status: string): string {
+  return getWorkflowState(workflow, status)?.color ?? '#6B7280';
+}
+
+export function isDoneStatus(workflow: Workflow, status: string): boolean {
+  return getWorkflowState(workflow, status)?.done ?? false;
+}
+
+// Completion date of an entry moving from one status to another (or saved
+// in the same one): none outside done states, the date given or today on
+// entering one, and otherwise the date it already has
+export function resolveCompletionDate(
+  workflow: Workflow,
+  from: string,
+  to: string,
+  current: Date | null,
+  supplied: Date | null | undefined,
+  now = new Date()
+): Date | null {
+  if (!isDoneStatus(workflow, to)) return null;
+  if (supplied) return supplied;
+  return isDoneStatus(workflow, from) && current ? current : now;
+}
+
+// Position in the workflow, for sorting; unknown states go last
+export function getStatusOrder(workflow: Workflow, status: string): number {
+  const index = workflow.states.findIndex(state => state.id === status);
+  return index === -1 ? workflow.states.length : index;
+}
+
+export function getTransition(workflow: Workflow, from: string, to: string): WorkflowTransition | undefined {
+  return workflow.transitions.find(transition => transition.from === from && transition.to === to);
+}
+
+// States an entry can move to from its current one, including staying put
+export function getAllowedStatuses(workflow: Workflow, from: string): WorkflowState[] {
+  return workflow.states.filter(state => state.id === from || getTransition(workflow, from, state.id));
+}
+
+export function getTransitionRequirements(workflow: Workflow, from: string, to: string): StatusRequirement[] {
+  if (from === to) return [];
+  return getTransition(workflow, from, to)?.requires ?? [];
+}
+
+// Matches a state by id or label, also accepting the legacy status names
+export function resolveStatus(workflow: Workflow, value: string): string | undefined {
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const legacy = Object.keys(LEGACY_STATUSES).find(name => name.toLowerCase().replace(/\s+/g, '-') === normalized);
+  const candidate = legacy ? LEGACY_STATUSES[legacy] : normalized;
+
+  return workflow.states.find(state =>
+    state.id === candidate || state.label.toLowerCase().replace(/\s+/g, '-') === candidate
+  )?.id;
+}
+
+// Status an entry takes when it moves to a project with another workflow:
+// the same state if that workflow has it, otherwise its first done state for
+// done entries and the starting state for the rest
+export function mapStatusToWorkflow(from: Workflow, to: Workflow, status: string): string {
+  if (getWorkflowState(to, status)) return status;
+  if (isDoneStatus(from, status)) {
+    return to.states.find(state => state.done)?.id ?? to.initialState;
+  }
+  return to.initialState;
+}
+
+// Throws when an entry may not move between the given states, or when the
+// transition's requirements aren't met
+export function assertTransitionAllowed(
+  workflow: Workflow,
+  from: string,
+  to: string,
+  supplied: { completionDate?: Date | string | null; evidence?: string | null }
+): void {
+  if (from === to) return;
+
+  const target = getWorkflowState(workflow, to);
+  if (!target) {
+    throw new Error(`"${to}" is not a status in this project's workflow`);
+  }
+
+  const transition = getTransition(workflow, from, to);
+  if (!transition) {
+    throw new Error(`Entries can't move from ${getStatusLabel(workflow, from)} to ${target.label}`);
+  }
+
+  if (transition.requires.includes('completionDate') && !supplied.completionDate) {
+    throw new Error(`A completion date is required to move an entry to ${target.label}`);
+  }
+  if (transition.requires.includes('evidence') && !supplied.evidence?.trim()) {
+    throw new Error(`Evidence is required to move an entry to ${target.label}`);
+  }
+}
+
+// Checks a workflow definition before it is saved
+export function validateWorkflow(workflow: Workflow): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  if (workflow.states.length === 0) {
+    errors.push('A workflow needs at least one status');
+  }
+  for (const state of workflow.states) {
+    if (!state.id || !state.label.trim()) {
+      errors.push('Every status needs a name');
+    } else if (ids.has(state.id)) {
+      errors.push(`The status "${state.label}" is defined twice`);
+    }
+    ids.add(state.id);
+  }
+  if (!ids.has(workflow.initialState)) {
+    errors.push('The starting status must be one of the workflow\'s statuses');
+  }
+  if (!workflow.states.some(state => state.done)) {
+    errors.push('At least one status must mark entries as done');
+  }
+  for (const transition of workflow.transitions) {
+    if (!ids.has(transition.from) || !ids.has(transition.to)) {
+      errors.push('A transition refers to a status that no longer exists');
+      break;
+    }
+  }
+
+  return errors;
+}
+
+// Turns a label into a state id, e.g. "Awaiting Verification" -> "awaiting-verification"
+export function toStatusId(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,114 @@
+import { createBlobSink, createZipWriter, getFileExtension, isZipFile, readZip } from './zip';
+
+async function buildArchive(files: [string, string | Blob][]): Promise<Blob> {
+  const sink = createBlobSink();
+  const zip = createZipWriter(sink);
+  for (const [path, data] of files) {
+    await zip.addFile(path, data);
+  }
+  await zip.finish();
+  return sink.toBlob();
+}
+
+describe('readZip', () => {
+  it('reads back what was written, in order', async () => {
+    const photo = new Blob([new Uint8Array(3 * 1024 * 1024).fill(7)]);
+    const archive = await buildArchive([
+      ['manifest.json', '{"version":1}'],
+      ['media/a.jpg', photo],
+      ['audio/b.webm', new Blob([])]
+    ]);
+
+    const read: [string, number][] = [];
+    await readZip(archive, async (path, data) => {
+      read.push([path, data.size]);
+    });
+
+    expect(read).toEqual([
+      ['manifest.json', 13],
+      ['media/a.jpg', photo.size],
+      ['audio/b.webm', 0]
+    ]);
+  });
+
+  it('keeps the contents of text and binary files', async () => {
+    const archive = await buildArchive([
+      ['notes.txt', 'Cracked tile'],
+      ['media/a.png', new Blob([new Uint8Array([1, 2, 3])])]
+    ]);
+
+    const contents = new Map<string, Uint8Array>();
+    await readZip(archive, async (path, data) => {
+      contents.set(path, new Uint8Array(await data.arrayBuffer()));
+    });
+
+    expect(new TextDecoder().decode(contents.get('notes.txt'))).toBe('Cracked tile');
+    expect(Array.from(contents.get('media/a.png')!)).toEqual([1, 2, 3]);
+  });
+
+  it('skips files it is not asked for', async () => {
+    const archive = await buildArchive([
+      ['manifest.json', '{}'],
+      ['media/a.jpg', new Blob([new Uint8Array(10)])],
+      ['media/b.jpg', new Blob([new Uint8Array(20)])]
+    ]);
+
+    const paths: string[] = [];
+    await readZip(archive, async (path) => {
+      paths.push(path);
+    }, path => path !== 'media/a.jpg');
+
+    expect(paths).toEqual(['manifest.json', 'media/b.jpg']);
+  });
+
+  it('stops once a file handler returns false', async () => {
+    const archive = await buildArchive([
+      ['manifest.json', '{}'],
+      ['media/a.jpg', new Blob([new Uint8Array(10)])]
+    ]);
+
+    const paths: string[] = [];
+    await readZip(archive, async (path) => {
+      paths.push(path);
+      return false;
+    });
+
+    expect(paths).toEqual(['manifest.json']);
+  });
+
+  it('hands over each file before reading on', async () => {
+    const archive = await buildArchive([
+      ['media/a.jpg', new Blob([new Uint8Array(2 * 1024 * 1024)])],
+      ['media/b.jpg', new Blob([new Uint8Array(2 * 1024 * 1024)])]
+    ]);
+
+    const events: string[] = [];
+    await readZip(archive, async (path) => {
+      events.push(`start ${path}`);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      events.push(`end ${path}`);
+    });
+
+    expect(events).toEqual(['start media/a.jpg', 'end media/a.jpg', 'start media/b.jpg', 'end media/b.jpg']);
+  });
+
+  it('refuses an empty file', async () => {
+    await expect(readZip(new Blob([]), async () => {})).rejects.toThrow('The file is empty');
+  });
+});
+
+describe('isZipFile', () => {
+  it('tells a ZIP from JSON', async () => {
+    expect(await isZipFile(await buildArchive([['manifest.json', '{}']]))).toBe(true);
+    expect(await isZipFile(new Blob(['{"version":1}']))).toBe(false);
+  });
+});
+
+describe('getFileExtension', () => {
+  it('names files after their MIME type', () => {
+    expect(getFileExtension('image/jpeg')).toBe('jpg');
+    expect(getFileExtension('image/png')).toBe('png');
+    expect(getFileExtension('audio/webm;codecs=opus')).toBe('webm');
+    expect(getFileExtension('')).toBe('bin');
+  });
+});
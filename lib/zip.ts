@@ -0,0 +1,146 @@
+import { Unzip, UnzipInflate, UnzipPassThrough, Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate';
+
+// ZIP archives written and read a file at a time. Blobs are read in slices
+// and the output goes to a sink as it is produced, so a large photo or
+// recording is never copied into one buffer along with everything else.
+
+const CHUNK_SIZE = 1024 * 1024;
+
+// Where a written archive goes: a file on disk, or memory
+export interface ZipSink {
+  write(chunk: Uint8Array): Promise<void>;
+}
+
+export interface ZipWriter {
+  // Text is deflated; blobs are stored as they are, since photos and audio
+  // are compressed already
+  addFile(path: string, data: string | Blob): Promise<void>;
+  finish(): Promise<void>;
+}
+
+// Collects an archive in memory as Blob parts, for downloading
+export function createBlobSink(): ZipSink & { toBlob(): Blob } {
+  const parts: Uint8Array[] = [];
+  return {
+    async write(chunk) {
+      parts.push(chunk);
+    },
+    toBlob() {
+      return new Blob(parts, { type: 'application/zip' });
+    }
+  };
+}
+
+export function createZipWriter(sink: ZipSink): ZipWriter {
+  // The stream classes used here are synchronous, so output arrives while
+  // files are pushed and is handed to the sink after each push
+  const pending: Uint8Array[] = [];
+  let failure: Error | null = null;
+
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      failure = error;
+      return;
+    }
+    pending.push(chunk);
+  });
+
+  const flush = async () => {
+    if (failure) throw failure;
+    while (pending.length > 0) {
+      await sink.write(pending.shift()!);
+    }
+  };
+
+  return {
+    async addFile(path, data) {
+      if (typeof data === 'string') {
+        const file = new ZipDeflate(path, { level: 6 });
+        zip.add(file);
+        file.push(strToU8(data), true);
+        await flush();
+        return;
+      }
+
+      const file = new ZipPassThrough(path);
+      zip.add(file);
+      if (data.size === 0) {
+        file.push(new Uint8Array(0), true);
+      }
+      for (let offset = 0; offset < data.size; offset += CHUNK_SIZE) {
+        const chunk = new Uint8Array(await data.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+        file.push(chunk, offset + CHUNK_SIZE >= data.size);
+        await flush();
+      }
+      await flush();
+    },
+    async finish() {
+      zip.end();
+      await flush();
+    }
+  };
+}
+
+// Reads an archive a slice at a time and hands over each file once it is
+// complete, in the order they were written. The next slice waits until the
+// file is handled, so only the file being read is held in memory. Files
+// `accept` turns down are skipped unread, and returning false from `onFile`
+// stops reading.
+export async function readZip(
+  archive: Blob,
+  onFile: (path: string, data: Blob) => Promise<boolean | void>,
+  accept: (path: string) => boolean = () => true
+): Promise<void> {
+  const completed: { path: string; data: Blob }[] = [];
+  let failure: Error | null = null;
+
+  const unzip = new Unzip(entry => {
+    if (!accept(entry.name)) return;
+    const parts: Uint8Array[] = [];
+    entry.ondata = (error, chunk, final) => {
+      if (error) {
+        failure = error;
+        return;
+      }
+      parts.push(chunk);
+      if (final && !entry.name.endsWith('/')) {
+        completed.push({ path: entry.name, data: new Blob(parts) });
+      }
+    };
+    entry.start();
+  });
+  unzip.register(UnzipInflate);
+  unzip.register(UnzipPassThrough);
+
+  // Whether to keep reading
+  const drain = async () => {
+    if (failure) throw failure;
+    while (completed.length > 0) {
+      const { path, data } = completed.shift()!;
+      if (await onFile(path, data) === false) return false;
+    }
+    return true;
+  };
+
+  if (archive.size === 0) {
+    throw new Error('The file is empty');
+  }
+  for (let offset = 0; offset < archive.size; offset += CHUNK_SIZE) {
+    const chunk = new Uint8Array(await archive.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    unzip.push(chunk, offset + CHUNK_SIZE >= archive.size);
+    if (!await drain()) return;
+  }
+}
+
+// ZIP files start with the local file header signature "PK\3\4"
+export async function isZipFile(file: Blob): Promise<boolean> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+}
+
+// File extension for a photo or recording, from its MIME type
+export function getFileExtension(type: string): string {
+  const subtype = type.split('/')[1]?.split(';')[0] ?? '';
+  if (subtype === 'jpeg') return 'jpg';
+  return /^[a-z0-9]+$/.test(subtype) ? subtype : 'bin';
+}
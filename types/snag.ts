@@ -6,21 +6,66 @@ export interface Annotation {
   size?: number;
 }
 
+import type { SnagPhoto } from '@/lib/photos';
+import type { RoundCheck } from '@/lib/rounds';
+import type { SnagOrigin } from '@/lib/transfer';
+import type { SnagWaiver } from '@/lib/projectStatus';
+
 export interface Snag {
   id: string;
   projectName: string;
   snagNumber: number;
   name: string;
   description: string;
-  photoPath: string;
-  thumbnailPath: string;
+  photoId: string;
+  thumbnailId: string;
+  originalId: string | null;
+  // Every photo with its role and annotations (see lib/photos). The fields
+  // above and `annotations` mirror the first one.
+  photos?: SnagPhoto[];
   priority: 'Low' | 'Medium' | 'High';
   assignedTo: string;
-  status: 'In Progress' | 'Completed';
+  // Contact the entry is assigned to (see lib/contacts)
+  assigneeId?: string | null;
+  // Id of a state in the project's workflow (see lib/workflow)
+  status: string;
+  statusNote?: string | null;
   location: string;
+  locationId?: string | null;
+  // Ids from the project's categories (see lib/categories)
+  trade?: string | null;
+  tags?: string[];
   createdAt: string | Date;
   updatedAt: string | Date;
   completionDate: string | Date | null;
   observationDate: string | Date;
+  // When the entry must be fixed by (see lib/sla)
+  dueDate?: string | Date | null;
+  // Inspection round the entry was found in and its re-checks (see lib/rounds)
+  roundId?: string | null;
+  roundChecks?: RoundCheck[];
+  // Where the entry was moved or copied from (see lib/transfer)
+  origin?: SnagOrigin | null;
+  // Set when the entry was accepted as it is so the project could close
+  waiver?: SnagWaiver | null;
   annotations: Annotation[];
-} 
\ No newline at end of file
+}
+
+export type SnagSortOption = 'relevance' | 'newest' | 'oldest' | 'priority' | 'status' | 'due' | 'entry-asc' | 'entry-desc';
+
+export type SnagViewMode = 'list' | 'grid';
+
+// Optional parts of an entry card; the title and status always show
+export type SnagColumn = 'photo' | 'observationDate' | 'dueDate' | 'location' | 'assignedTo' | 'description' | 'priority' | 'categories' | 'annotations';
+
+export const SNAG_COLUMNS: { id: SnagColumn; label: string }[] = [
+  { id: 'photo', label: 'Photo' },
+  { id: 'observationDate', label: 'Observation date' },
+  { id: 'dueDate', label: 'Due date' },
+  { id: 'location', label: 'Location' },
+  { id: 'assignedTo', label: 'Assigned to' },
+  { id: 'description', label: 'Description' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'categories', label: 'Trade & tags' },
+  { id: 'annotations', label: 'Annotations' }
+];